@@ -10,6 +10,7 @@ module.exports = {
     'src/**/*.ts',
     '!src/**/*.d.ts',
     '!src/index.ts',
+    '!src/worker.ts',
     '!src/types/**',
   ],
   coverageDirectory: 'coverage',
@@ -0,0 +1,77 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('services', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      name: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      description: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      price: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+      },
+      duration: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+      },
+      category: {
+        type: Sequelize.STRING(50),
+        allowNull: false,
+      },
+      image_url: {
+        type: Sequelize.STRING(500),
+        allowNull: true,
+      },
+      is_popular: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+      discount: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+      },
+      status: {
+        type: Sequelize.ENUM('active', 'inactive', 'archived'),
+        allowNull: false,
+        defaultValue: 'active',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    // Add indexes for better query performance
+    await queryInterface.addIndex('services', ['category'], {
+      name: 'services_category_idx',
+    });
+
+    await queryInterface.addIndex('services', ['status'], {
+      name: 'services_status_idx',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('services');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_services_status";');
+  },
+};
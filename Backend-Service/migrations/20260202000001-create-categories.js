@@ -0,0 +1,91 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('categories', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      name: {
+        type: Sequelize.STRING(50),
+        allowNull: false,
+      },
+      slug: {
+        type: Sequelize.STRING(50),
+        allowNull: false,
+        unique: true,
+      },
+      description: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      icon: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+      },
+      parent_id: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'categories',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      display_order: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      is_active: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('categories', ['parent_id'], {
+      name: 'categories_parent_id_idx',
+    });
+
+    // Backfill a root category for every category already used by a service
+    await queryInterface.sequelize.query(`
+      INSERT INTO categories (name, slug, display_order, is_active, created_at, updated_at)
+      SELECT INITCAP(category), category, 0, true, NOW(), NOW()
+      FROM (SELECT DISTINCT category FROM services) AS existing
+    `);
+
+    // Services reference their category by slug so renames cascade
+    await queryInterface.addConstraint('services', {
+      fields: ['category'],
+      type: 'foreign key',
+      name: 'services_category_fkey',
+      references: {
+        table: 'categories',
+        field: 'slug',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'RESTRICT',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeConstraint('services', 'services_category_fkey');
+    await queryInterface.dropTable('categories');
+  },
+};
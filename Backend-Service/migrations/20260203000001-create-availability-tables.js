@@ -0,0 +1,125 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const timestamps = {
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    };
+
+    // Weekly opening hours
+    await queryInterface.createTable('opening_hours', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      day_of_week: {
+        type: Sequelize.SMALLINT,
+        allowNull: false,
+      },
+      open_time: {
+        type: Sequelize.TIME,
+        allowNull: false,
+      },
+      close_time: {
+        type: Sequelize.TIME,
+        allowNull: false,
+      },
+      ...timestamps,
+    });
+
+    await queryInterface.addIndex('opening_hours', ['day_of_week'], {
+      name: 'opening_hours_day_of_week_idx',
+    });
+
+    // One-off closures
+    await queryInterface.createTable('salon_closures', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      start_date: {
+        type: Sequelize.DATEONLY,
+        allowNull: false,
+      },
+      end_date: {
+        type: Sequelize.DATEONLY,
+        allowNull: false,
+      },
+      start_time: {
+        type: Sequelize.TIME,
+        allowNull: true,
+      },
+      end_time: {
+        type: Sequelize.TIME,
+        allowNull: true,
+      },
+      reason: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      ...timestamps,
+    });
+
+    await queryInterface.addIndex('salon_closures', ['start_date', 'end_date'], {
+      name: 'salon_closures_date_range_idx',
+    });
+
+    // Materialized bookable slots
+    await queryInterface.createTable('slots', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      service_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'services',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      date: {
+        type: Sequelize.DATEONLY,
+        allowNull: false,
+      },
+      start_time: {
+        type: Sequelize.TIME,
+        allowNull: false,
+      },
+      end_time: {
+        type: Sequelize.TIME,
+        allowNull: false,
+      },
+      ...timestamps,
+    });
+
+    await queryInterface.addIndex('slots', ['service_id', 'date', 'start_time'], {
+      name: 'slots_service_date_start_idx',
+      unique: true,
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('slots');
+    await queryInterface.dropTable('salon_closures');
+    await queryInterface.dropTable('opening_hours');
+  },
+};
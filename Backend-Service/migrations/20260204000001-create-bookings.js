@@ -0,0 +1,115 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('bookings', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      service_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'services',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      slot_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'slots',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      booking_date: {
+        type: Sequelize.DATEONLY,
+        allowNull: false,
+      },
+      start_time: {
+        type: Sequelize.TIME,
+        allowNull: false,
+      },
+      end_time: {
+        type: Sequelize.TIME,
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.ENUM('pending', 'confirmed', 'cancelled', 'completed'),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      total_amount: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+      },
+      notes: {
+        type: Sequelize.STRING(500),
+        allowNull: true,
+      },
+      cancellation_reason: {
+        type: Sequelize.STRING(500),
+        allowNull: true,
+      },
+      cancelled_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    // Add indexes for better query performance
+    await queryInterface.addIndex('bookings', ['user_id'], {
+      name: 'bookings_user_id_idx',
+    });
+
+    await queryInterface.addIndex('bookings', ['service_id', 'booking_date'], {
+      name: 'bookings_service_id_booking_date_idx',
+    });
+
+    await queryInterface.addIndex('bookings', ['status'], {
+      name: 'bookings_status_idx',
+    });
+
+    // A slot can only be held by one pending or confirmed booking at a time
+    await queryInterface.addIndex('bookings', ['slot_id'], {
+      name: 'bookings_active_slot_id_unique',
+      unique: true,
+      where: {
+        status: ['pending', 'confirmed'],
+      },
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('bookings');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_bookings_status";');
+  },
+};
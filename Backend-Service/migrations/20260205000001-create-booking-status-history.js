@@ -0,0 +1,70 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('booking_status_history', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      booking_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'bookings',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      from_status: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+      },
+      to_status: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      actor_id: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL',
+      },
+      actor_role: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      reason: {
+        type: Sequelize.STRING(500),
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('booking_status_history', ['booking_id'], {
+      name: 'booking_status_history_booking_id_idx',
+    });
+
+    // Start the timeline of existing bookings at their current status
+    await queryInterface.sequelize.query(`
+      INSERT INTO booking_status_history (booking_id, from_status, to_status, actor_role, created_at)
+      SELECT id, NULL, status::text, 'system', updated_at FROM bookings
+    `);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('booking_status_history');
+  },
+};
@@ -0,0 +1,45 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Per-service overrides of the global cancellation policy (null = use default)
+    await queryInterface.addColumn('services', 'cancellation_window_hours', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+    });
+
+    await queryInterface.addColumn('services', 'late_cancellation_action', {
+      type: Sequelize.ENUM('reject', 'forfeit'),
+      allowNull: true,
+    });
+
+    await queryInterface.addColumn('services', 'late_cancellation_forfeit_percent', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+    });
+
+    // Outcome of the policy when a booking is cancelled
+    await queryInterface.addColumn('bookings', 'is_late_cancellation', {
+      type: Sequelize.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    });
+
+    await queryInterface.addColumn('bookings', 'deposit_forfeit_percent', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('bookings', 'deposit_forfeit_percent');
+    await queryInterface.removeColumn('bookings', 'is_late_cancellation');
+    await queryInterface.removeColumn('services', 'late_cancellation_forfeit_percent');
+    await queryInterface.removeColumn('services', 'late_cancellation_action');
+    await queryInterface.removeColumn('services', 'cancellation_window_hours');
+    await queryInterface.sequelize.query(
+      'DROP TYPE IF EXISTS "enum_services_late_cancellation_action";'
+    );
+  },
+};
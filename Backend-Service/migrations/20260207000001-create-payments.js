@@ -0,0 +1,89 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('payments', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      booking_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'bookings',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      provider: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      provider_payment_id: {
+        type: Sequelize.STRING(255),
+        allowNull: false,
+      },
+      amount: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.ENUM('pending', 'completed', 'failed', 'refunded'),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      failure_reason: {
+        type: Sequelize.STRING(500),
+        allowNull: true,
+      },
+      paid_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    // Add indexes for better query performance
+    await queryInterface.addIndex('payments', ['booking_id'], {
+      name: 'payments_booking_id_idx',
+    });
+
+    await queryInterface.addIndex('payments', ['provider', 'provider_payment_id'], {
+      name: 'payments_provider_payment_id_unique',
+      unique: true,
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('payments');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_payments_status";');
+  },
+};
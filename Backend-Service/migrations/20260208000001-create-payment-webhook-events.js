@@ -0,0 +1,88 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('payment_webhook_events', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      provider: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      event_id: {
+        type: Sequelize.STRING(255),
+        allowNull: false,
+      },
+      type: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      provider_payment_id: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      payment_status: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+      },
+      failure_reason: {
+        type: Sequelize.STRING(500),
+        allowNull: true,
+      },
+      payload: {
+        type: Sequelize.JSONB,
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.ENUM('processed', 'ignored', 'failed'),
+        allowNull: false,
+        defaultValue: 'ignored',
+      },
+      error: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      attempts: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      processed_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    // Duplicate deliveries of the same event are rejected by this index
+    await queryInterface.addIndex('payment_webhook_events', ['provider', 'event_id'], {
+      name: 'payment_webhook_events_provider_event_id_unique',
+      unique: true,
+    });
+
+    await queryInterface.addIndex('payment_webhook_events', ['provider_payment_id'], {
+      name: 'payment_webhook_events_provider_payment_id_idx',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('payment_webhook_events');
+    await queryInterface.sequelize.query(
+      'DROP TYPE IF EXISTS "enum_payment_webhook_events_status";'
+    );
+  },
+};
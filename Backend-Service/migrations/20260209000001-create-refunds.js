@@ -0,0 +1,101 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('payments', 'refunded_amount', {
+      type: Sequelize.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    });
+
+    await queryInterface.createTable('refunds', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      payment_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'payments',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      booking_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'bookings',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      provider_refund_id: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      amount: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.ENUM('pending', 'completed', 'failed'),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      reason: {
+        type: Sequelize.STRING(500),
+        allowNull: false,
+      },
+      failure_reason: {
+        type: Sequelize.STRING(500),
+        allowNull: true,
+      },
+      initiated_by: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    // Add indexes for better query performance
+    await queryInterface.addIndex('refunds', ['payment_id'], {
+      name: 'refunds_payment_id_idx',
+    });
+
+    await queryInterface.addIndex('refunds', ['booking_id'], {
+      name: 'refunds_booking_id_idx',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('refunds');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_refunds_status";');
+    await queryInterface.removeColumn('payments', 'refunded_amount');
+  },
+};
@@ -0,0 +1,62 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Consent to SMS confirmations and reminders
+    await queryInterface.addColumn('users', 'sms_opt_in', {
+      type: Sequelize.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    });
+
+    // One row per reminder sent, so each offset is only sent once per booking
+    await queryInterface.createTable('booking_reminders', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      booking_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'bookings',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      channel: {
+        type: Sequelize.ENUM('sms'),
+        allowNull: false,
+        defaultValue: 'sms',
+      },
+      offset_hours: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+      },
+      provider_message_id: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('booking_reminders', ['booking_id', 'channel', 'offset_hours'], {
+      name: 'booking_reminders_booking_offset_unique',
+      unique: true,
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('booking_reminders');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_booking_reminders_channel";');
+    await queryInterface.removeColumn('users', 'sms_opt_in');
+  },
+};
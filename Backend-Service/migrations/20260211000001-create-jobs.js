@@ -0,0 +1,84 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('jobs', {
+      id: {
+        type: Sequelize.UUID,
+        primaryKey: true,
+        defaultValue: Sequelize.UUIDV4,
+        allowNull: false,
+      },
+      name: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      payload: {
+        type: Sequelize.JSONB,
+        allowNull: false,
+        defaultValue: {},
+      },
+      status: {
+        type: Sequelize.ENUM('pending', 'running', 'completed', 'dead'),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      attempts: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      max_attempts: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+      },
+      run_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      locked_until: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      last_error: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      unique_key: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      completed_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    // Workers poll due jobs by status and run time
+    await queryInterface.addIndex('jobs', ['status', 'run_at'], {
+      name: 'jobs_status_run_at_idx',
+    });
+
+    // Recurring jobs are enqueued once per interval thanks to this index
+    await queryInterface.addIndex('jobs', ['unique_key'], {
+      name: 'jobs_unique_key_unique',
+      unique: true,
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('jobs');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_jobs_status";');
+  },
+};
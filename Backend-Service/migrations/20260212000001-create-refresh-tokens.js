@@ -0,0 +1,72 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('refresh_tokens', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      family_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+      },
+      token_hash: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      rotated_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      revoked_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      revoked_reason: {
+        type: Sequelize.STRING(30),
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('refresh_tokens', ['token_hash'], {
+      name: 'refresh_tokens_token_hash_unique',
+      unique: true,
+    });
+
+    // Reuse detection revokes every token of a family at once
+    await queryInterface.addIndex('refresh_tokens', ['family_id'], {
+      name: 'refresh_tokens_family_id_idx',
+    });
+
+    await queryInterface.addIndex('refresh_tokens', ['user_id'], {
+      name: 'refresh_tokens_user_id_idx',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('refresh_tokens');
+  },
+};
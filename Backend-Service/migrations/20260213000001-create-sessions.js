@@ -0,0 +1,92 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('sessions', {
+      id: {
+        type: Sequelize.UUID,
+        primaryKey: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      user_agent: {
+        type: Sequelize.STRING(500),
+        allowNull: true,
+      },
+      device_name: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+      },
+      ip_address: {
+        type: Sequelize.STRING(45),
+        allowNull: true,
+      },
+      last_used_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      revoked_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      revoked_reason: {
+        type: Sequelize.STRING(30),
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('sessions', ['user_id'], {
+      name: 'sessions_user_id_idx',
+    });
+
+    // Refresh token families issued before sessions existed become sessions of their own
+    await queryInterface.sequelize.query(`
+      INSERT INTO sessions (id, user_id, last_used_at, expires_at, revoked_at, revoked_reason)
+      SELECT family_id, MIN(user_id), MAX(created_at), MAX(expires_at), MAX(revoked_at),
+        MAX(revoked_reason)
+      FROM refresh_tokens
+      GROUP BY family_id
+    `);
+
+    await queryInterface.addConstraint('refresh_tokens', {
+      fields: ['family_id'],
+      type: 'foreign key',
+      name: 'refresh_tokens_family_id_fkey',
+      references: {
+        table: 'sessions',
+        field: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeConstraint('refresh_tokens', 'refresh_tokens_family_id_fkey');
+    await queryInterface.dropTable('sessions');
+  },
+};
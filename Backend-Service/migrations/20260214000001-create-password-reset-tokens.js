@@ -0,0 +1,55 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('password_reset_tokens', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      token_hash: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      used_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('password_reset_tokens', ['token_hash'], {
+      name: 'password_reset_tokens_token_hash_unique',
+      unique: true,
+    });
+
+    await queryInterface.addIndex('password_reset_tokens', ['user_id'], {
+      name: 'password_reset_tokens_user_id_idx',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('password_reset_tokens');
+  },
+};
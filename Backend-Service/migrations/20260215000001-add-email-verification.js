@@ -0,0 +1,66 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('users', 'email_verified_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+
+    // Accounts created before verification was introduced are trusted as verified
+    await queryInterface.sequelize.query(
+      'UPDATE users SET email_verified_at = created_at WHERE email_verified_at IS NULL'
+    );
+
+    await queryInterface.createTable('email_verification_tokens', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      token_hash: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      used_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('email_verification_tokens', ['token_hash'], {
+      name: 'email_verification_tokens_token_hash_unique',
+      unique: true,
+    });
+
+    await queryInterface.addIndex('email_verification_tokens', ['user_id'], {
+      name: 'email_verification_tokens_user_id_idx',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('email_verification_tokens');
+    await queryInterface.removeColumn('users', 'email_verified_at');
+  },
+};
@@ -0,0 +1,66 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Encrypted TOTP secret; set during enrolment, two_factor_enabled_at once confirmed
+    await queryInterface.addColumn('users', 'two_factor_secret', {
+      type: Sequelize.TEXT,
+      allowNull: true,
+    });
+
+    await queryInterface.addColumn('users', 'two_factor_enabled_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+
+    // Last accepted TOTP time step, so the same code cannot be used twice
+    await queryInterface.addColumn('users', 'two_factor_last_used_step', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+    });
+
+    await queryInterface.createTable('two_factor_recovery_codes', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      code_hash: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+      },
+      used_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('two_factor_recovery_codes', ['user_id'], {
+      name: 'two_factor_recovery_codes_user_id_idx',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('two_factor_recovery_codes');
+    await queryInterface.removeColumn('users', 'two_factor_last_used_step');
+    await queryInterface.removeColumn('users', 'two_factor_enabled_at');
+    await queryInterface.removeColumn('users', 'two_factor_secret');
+  },
+};
@@ -0,0 +1,217 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const timestamps = {
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    };
+
+    const stylistReference = {
+      type: Sequelize.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'stylists',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE',
+    };
+
+    await queryInterface.sequelize.query(
+      "ALTER TYPE \"enum_users_role\" ADD VALUE IF NOT EXISTS 'staff' BEFORE 'admin'"
+    );
+
+    // Stylist profiles (one per staff user)
+    await queryInterface.createTable('stylists', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        unique: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      bio: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      photo_url: {
+        type: Sequelize.STRING(500),
+        allowNull: true,
+      },
+      is_active: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+      ...timestamps,
+    });
+
+    // Services each stylist can perform
+    await queryInterface.createTable('stylist_services', {
+      stylist_id: {
+        ...stylistReference,
+        primaryKey: true,
+      },
+      service_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        primaryKey: true,
+        references: {
+          model: 'services',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      created_at: timestamps.created_at,
+    });
+
+    await queryInterface.addIndex('stylist_services', ['service_id'], {
+      name: 'stylist_services_service_id_idx',
+    });
+
+    // Weekly working hours
+    await queryInterface.createTable('stylist_schedules', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      stylist_id: stylistReference,
+      day_of_week: {
+        type: Sequelize.SMALLINT,
+        allowNull: false,
+      },
+      start_time: {
+        type: Sequelize.TIME,
+        allowNull: false,
+      },
+      end_time: {
+        type: Sequelize.TIME,
+        allowNull: false,
+      },
+      ...timestamps,
+    });
+
+    await queryInterface.addIndex('stylist_schedules', ['stylist_id', 'day_of_week'], {
+      name: 'stylist_schedules_stylist_day_idx',
+    });
+
+    // Time-off (full days, or a time range on each day)
+    await queryInterface.createTable('stylist_time_off', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      stylist_id: stylistReference,
+      start_date: {
+        type: Sequelize.DATEONLY,
+        allowNull: false,
+      },
+      end_date: {
+        type: Sequelize.DATEONLY,
+        allowNull: false,
+      },
+      start_time: {
+        type: Sequelize.TIME,
+        allowNull: true,
+      },
+      end_time: {
+        type: Sequelize.TIME,
+        allowNull: true,
+      },
+      reason: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      ...timestamps,
+    });
+
+    await queryInterface.addIndex('stylist_time_off', ['stylist_id', 'start_date', 'end_date'], {
+      name: 'stylist_time_off_stylist_date_range_idx',
+    });
+
+    // Slots offered with a specific stylist; slots without a stylist keep the old uniqueness
+    await queryInterface.addColumn('slots', 'stylist_id', {
+      ...stylistReference,
+      allowNull: true,
+    });
+
+    await queryInterface.removeIndex('slots', 'slots_service_date_start_idx');
+
+    await queryInterface.addIndex('slots', ['service_id', 'date', 'start_time'], {
+      name: 'slots_service_date_start_idx',
+      unique: true,
+      where: {
+        stylist_id: null,
+      },
+    });
+
+    await queryInterface.addIndex('slots', ['service_id', 'stylist_id', 'date', 'start_time'], {
+      name: 'slots_service_stylist_date_start_idx',
+      unique: true,
+    });
+
+    // Stylist chosen for a booking; kept as history if the stylist is removed
+    await queryInterface.addColumn('bookings', 'stylist_id', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'stylists',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL',
+    });
+
+    await queryInterface.addIndex('bookings', ['stylist_id', 'booking_date'], {
+      name: 'bookings_stylist_id_booking_date_idx',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeIndex('bookings', 'bookings_stylist_id_booking_date_idx');
+    await queryInterface.removeColumn('bookings', 'stylist_id');
+
+    // Stylist slots cannot satisfy the old unique index, so they are dropped
+    await queryInterface.sequelize.query('DELETE FROM slots WHERE stylist_id IS NOT NULL');
+    await queryInterface.removeIndex('slots', 'slots_service_stylist_date_start_idx');
+    await queryInterface.removeIndex('slots', 'slots_service_date_start_idx');
+    await queryInterface.removeColumn('slots', 'stylist_id');
+    await queryInterface.addIndex('slots', ['service_id', 'date', 'start_time'], {
+      name: 'slots_service_date_start_idx',
+      unique: true,
+    });
+
+    await queryInterface.dropTable('stylist_time_off');
+    await queryInterface.dropTable('stylist_schedules');
+    await queryInterface.dropTable('stylist_services');
+    await queryInterface.dropTable('stylists');
+
+    // Postgres cannot drop an enum value; demote staff users instead
+    await queryInterface.sequelize.query("UPDATE users SET role = 'customer' WHERE role = 'staff'");
+  },
+};
@@ -0,0 +1,72 @@
+'use strict';
+
+// Default role permissions when the table was created (see src/utils/permissions.ts)
+const STAFF_PERMISSIONS = ['bookings:read:any', 'closures:read', 'stylists:time-off:read'];
+
+const ADMIN_PERMISSIONS = [
+  'bookings:read:any',
+  'bookings:write:any',
+  'services:write',
+  'categories:read:all',
+  'categories:write',
+  'opening-hours:write',
+  'closures:read',
+  'closures:write',
+  'stylists:write',
+  'stylists:time-off:read',
+  'payments:refund',
+  'payments:webhooks:read',
+  'payments:webhooks:replay',
+  'jobs:read',
+  'jobs:retry',
+  'users:read:any',
+  'users:activate',
+  'users:force-logout',
+  'users:delete',
+  'permissions:read',
+  'permissions:write',
+];
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('role_permissions', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      role: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      permission: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('role_permissions', ['role', 'permission'], {
+      name: 'role_permissions_role_permission_idx',
+      unique: true,
+    });
+
+    const now = new Date();
+    const rows = [
+      ...STAFF_PERMISSIONS.map((permission) => ({ role: 'staff', permission })),
+      ...ADMIN_PERMISSIONS.map((permission) => ({ role: 'admin', permission })),
+    ].map((row) => ({ ...row, created_at: now }));
+
+    await queryInterface.bulkInsert('role_permissions', rows);
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('role_permissions');
+  },
+};
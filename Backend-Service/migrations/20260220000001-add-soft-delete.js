@@ -0,0 +1,48 @@
+'use strict';
+
+// Permissions added with soft delete, granted to admins
+const ADMIN_PERMISSIONS = ['users:restore', 'users:purge'];
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Soft-deleted rows keep their ID so bookings and payments still reference them
+    await queryInterface.addColumn('users', 'deleted_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+
+    // Set once personal data was anonymised; purged users cannot be restored
+    await queryInterface.addColumn('users', 'purged_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+
+    await queryInterface.addColumn('categories', 'deleted_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+
+    await queryInterface.addIndex('users', ['deleted_at'], {
+      name: 'users_deleted_at_idx',
+    });
+
+    const now = new Date();
+
+    await queryInterface.bulkInsert(
+      'role_permissions',
+      ADMIN_PERMISSIONS.map((permission) => ({ role: 'admin', permission, created_at: now }))
+    );
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.bulkDelete('role_permissions', {
+      permission: ADMIN_PERMISSIONS,
+    });
+
+    await queryInterface.removeIndex('users', 'users_deleted_at_idx');
+    await queryInterface.removeColumn('categories', 'deleted_at');
+    await queryInterface.removeColumn('users', 'purged_at');
+    await queryInterface.removeColumn('users', 'deleted_at');
+  },
+};
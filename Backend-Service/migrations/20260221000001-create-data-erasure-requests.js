@@ -0,0 +1,72 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Permanent record of erasure requests; users are anonymised, never hard deleted
+    await queryInterface.createTable('data_erasure_requests', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      status: {
+        type: Sequelize.ENUM('pending', 'cancelled', 'completed'),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      requested_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      scheduled_for: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      cancelled_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      completed_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('data_erasure_requests', ['user_id'], {
+      name: 'data_erasure_requests_user_id_idx',
+    });
+
+    await queryInterface.addIndex('data_erasure_requests', ['status', 'scheduled_for'], {
+      name: 'data_erasure_requests_status_scheduled_for_idx',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('data_erasure_requests');
+    await queryInterface.sequelize.query(
+      'DROP TYPE IF EXISTS "enum_data_erasure_requests_status";'
+    );
+  },
+};
@@ -0,0 +1,28 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Refund the event reports on and its new status, so stored events can be processed again
+    await queryInterface.addColumn('payment_webhook_events', 'provider_refund_id', {
+      type: Sequelize.STRING(255),
+      allowNull: true,
+    });
+
+    await queryInterface.addColumn('payment_webhook_events', 'refund_status', {
+      type: Sequelize.STRING(20),
+      allowNull: true,
+    });
+
+    // Refund webhooks look refunds up by the ID the provider gave them
+    await queryInterface.addIndex('refunds', ['provider_refund_id'], {
+      name: 'refunds_provider_refund_id_idx',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeIndex('refunds', 'refunds_provider_refund_id_idx');
+    await queryInterface.removeColumn('payment_webhook_events', 'refund_status');
+    await queryInterface.removeColumn('payment_webhook_events', 'provider_refund_id');
+  },
+};
@@ -0,0 +1,22 @@
+'use strict';
+
+// Permission to see and confirm payments of other customers, granted to admins
+const ADMIN_PERMISSIONS = ['payments:read:any'];
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface) {
+    const now = new Date();
+
+    await queryInterface.bulkInsert(
+      'role_permissions',
+      ADMIN_PERMISSIONS.map((permission) => ({ role: 'admin', permission, created_at: now }))
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.bulkDelete('role_permissions', {
+      permission: ADMIN_PERMISSIONS,
+    });
+  },
+};
@@ -0,0 +1,22 @@
+'use strict';
+
+// Core business records are soft deleted so bookings and payments keep their history
+const TABLES = ['services', 'stylists', 'bookings', 'payments'];
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    for (const table of TABLES) {
+      await queryInterface.addColumn(table, 'deleted_at', {
+        type: Sequelize.DATE,
+        allowNull: true,
+      });
+    }
+  },
+
+  async down(queryInterface) {
+    for (const table of [...TABLES].reverse()) {
+      await queryInterface.removeColumn(table, 'deleted_at');
+    }
+  },
+};
@@ -0,0 +1,62 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Emails and texts delivered to users, so the personal data export covers them
+    await queryInterface.createTable('notification_logs', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      booking_id: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'bookings',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL',
+      },
+      channel: {
+        type: Sequelize.ENUM('email', 'sms'),
+        allowNull: false,
+      },
+      template: {
+        type: Sequelize.STRING(50),
+        allowNull: false,
+      },
+      recipient: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      },
+    });
+
+    await queryInterface.addIndex('notification_logs', ['user_id'], {
+      name: 'notification_logs_user_id_idx',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('notification_logs');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_notification_logs_channel";');
+  },
+};
@@ -25,6 +25,7 @@ module.exports = {
           phone: '+1234567890',
           role: 'admin',
           is_active: true,
+          email_verified_at: now,
           last_login_at: null,
           created_at: now,
           updated_at: now,
@@ -37,6 +38,7 @@ module.exports = {
           phone: '+1234567891',
           role: 'customer',
           is_active: true,
+          email_verified_at: now,
           last_login_at: null,
           created_at: now,
           updated_at: now,
@@ -49,6 +51,7 @@ module.exports = {
           phone: '+1234567892',
           role: 'customer',
           is_active: true,
+          email_verified_at: now,
           last_login_at: null,
           created_at: now,
           updated_at: now,
@@ -61,6 +64,7 @@ module.exports = {
           phone: '+1234567893',
           role: 'customer',
           is_active: true,
+          email_verified_at: now,
           last_login_at: null,
           created_at: now,
           updated_at: now,
@@ -73,6 +77,7 @@ module.exports = {
           phone: null, // Optional phone number
           role: 'customer',
           is_active: false, // Inactive user for testing
+          email_verified_at: now,
           last_login_at: null,
           created_at: now,
           updated_at: now,
@@ -0,0 +1,62 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    /**
+     * Seed the root service categories shown in the navigation menu
+     */
+    const now = new Date();
+
+    await queryInterface.bulkInsert(
+      'categories',
+      [
+        {
+          name: 'Hair Services',
+          slug: 'hair',
+          description: 'Haircuts, styling, and treatments',
+          icon: 'scissors',
+          parent_id: null,
+          display_order: 0,
+          is_active: true,
+          created_at: now,
+          updated_at: now,
+        },
+        {
+          name: 'Beauty Services',
+          slug: 'beauty',
+          description: 'Facials, makeup, and spa treatments',
+          icon: 'sparkles',
+          parent_id: null,
+          display_order: 1,
+          is_active: true,
+          created_at: now,
+          updated_at: now,
+        },
+        {
+          name: 'Wellness',
+          slug: 'wellness',
+          description: 'Massage, aromatherapy, and more',
+          icon: 'leaf',
+          parent_id: null,
+          display_order: 2,
+          is_active: true,
+          created_at: now,
+          updated_at: now,
+        },
+      ],
+      {}
+    );
+  },
+
+  async down(queryInterface, Sequelize) {
+    /**
+     * Remove the demo categories by slug
+     */
+    await queryInterface.bulkDelete('categories', {
+      slug: {
+        [Sequelize.Op.in]: ['hair', 'beauty', 'wellness'],
+      },
+    });
+  },
+};
@@ -12,19 +12,34 @@ import config from './config/environment';
 // Utils
 import logger from './utils/logger';
 
+// Models (registers associations)
+import './models';
+
 // Swagger
 import { swaggerSpec } from './swagger/swagger.config';
 
 // Routes
 import authRoutes from './routes/auth.routes';
 import userRoutes from './routes/user.routes';
+import serviceRoutes from './routes/service.routes';
+import categoryRoutes from './routes/category.routes';
+import slotRoutes from './routes/slot.routes';
+import stylistRoutes from './routes/stylist.routes';
+import bookingRoutes from './routes/booking.routes';
+import paymentRoutes from './routes/payment.routes';
+import jobRoutes from './routes/job.routes';
+import permissionRoutes from './routes/permission.routes';
 
 // Middlewares
 import { errorHandler, notFoundHandler } from './middlewares/error.middleware';
+import { apiRateLimiter } from './middlewares/rateLimit.middleware';
 
 // Create Express application
 const app: Application = express();
 
+// Client IPs (rate limiting, sessions) come from X-Forwarded-For behind this many proxies
+app.set('trust proxy', config.rateLimit.trustProxy);
+
 // Security middleware
 app.use(helmet());
 
@@ -39,7 +54,15 @@ app.use(
 );
 
 // Body parser middleware
-app.use(express.json({ limit: '10mb' }));
+app.use(
+  express.json({
+    limit: '10mb',
+    // Keep the raw body so payment webhooks can verify their signatures
+    verify: (req: Request, _res, buf) => {
+      req.rawBody = buf;
+    },
+  })
+);
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // HTTP request logger
@@ -82,15 +105,20 @@ app.get(`/api/${config.apiVersion}`, (_req: Request, res: Response) => {
   });
 });
 
+// Rate limiting (stricter limits on auth endpoints are set in their routes)
+app.use(`/api/${config.apiVersion}`, apiRateLimiter);
+
 // Register routes
 app.use(`/api/${config.apiVersion}/auth`, authRoutes);
 app.use(`/api/${config.apiVersion}/users`, userRoutes);
-
-// Additional routes will be added here
-// app.use(`/api/${config.apiVersion}/services`, serviceRoutes);
-// app.use(`/api/${config.apiVersion}/slots`, slotRoutes);
-// app.use(`/api/${config.apiVersion}/bookings`, bookingRoutes);
-// app.use(`/api/${config.apiVersion}/payments`, paymentRoutes);
+app.use(`/api/${config.apiVersion}/services`, serviceRoutes);
+app.use(`/api/${config.apiVersion}/categories`, categoryRoutes);
+app.use(`/api/${config.apiVersion}/slots`, slotRoutes);
+app.use(`/api/${config.apiVersion}/stylists`, stylistRoutes);
+app.use(`/api/${config.apiVersion}/bookings`, bookingRoutes);
+app.use(`/api/${config.apiVersion}/payments`, paymentRoutes);
+app.use(`/api/${config.apiVersion}/jobs`, jobRoutes);
+app.use(`/api/${config.apiVersion}/permissions`, permissionRoutes);
 
 // 404 handler
 app.use(notFoundHandler);
@@ -20,12 +20,28 @@ interface EnvironmentConfig {
     refreshSecret: string;
     refreshExpiresIn: string;
   };
+  auth: {
+    passwordResetUrl: string;
+    passwordResetTokenTtl: number;
+    emailVerificationUrl: string;
+    emailVerificationTokenTtl: number;
+    maxFailedLogins: number;
+    lockoutDuration: number;
+    twoFactorIssuer: string;
+    twoFactorEncryptionKey: string;
+    twoFactorChallengeTtl: number;
+    requireAdminTwoFactor: boolean;
+  };
   cors: {
     allowedOrigins: string[];
   };
   rateLimit: {
     windowMs: number;
     maxRequests: number;
+    authWindowMs: number;
+    authMaxRequestsPerIp: number;
+    authMaxRequestsPerEmail: number;
+    trustProxy: number;
   };
   payment: {
     provider: string;
@@ -37,6 +53,7 @@ interface EnvironmentConfig {
     razorpay?: {
       keyId: string;
       keySecret: string;
+      webhookSecret: string;
     };
   };
   email: {
@@ -46,12 +63,18 @@ interface EnvironmentConfig {
     user: string;
     password: string;
     from: string;
+    transport: string;
+    outputDir: string;
   };
   sms?: {
     twilioAccountSid: string;
     twilioAuthToken: string;
     twilioPhoneNumber: string;
   };
+  notifications: {
+    smsProvider: string;
+    reminderOffsetsHours: number[];
+  };
   redis?: {
     url: string;
     host: string;
@@ -61,7 +84,25 @@ interface EnvironmentConfig {
     tokenAmount: number;
     currency: string;
     slotLockDuration: number;
+    slotInterval: number;
     cancellationWindow: number;
+    lateCancellationAction: 'reject' | 'forfeit';
+    lateCancellationForfeitPercent: number;
+    pendingPaymentTimeout: number;
+    requireVerifiedEmail: boolean;
+  };
+  privacy: {
+    erasureGracePeriodDays: number;
+  };
+  jobs: {
+    runInProcess: boolean;
+    pollIntervalMs: number;
+    batchSize: number;
+    leaseMs: number;
+    maxAttempts: number;
+    retryBaseDelayMs: number;
+    retryMaxDelayMs: number;
+    completedRetentionHours: number;
   };
   security: {
     bcryptSaltRounds: number;
@@ -90,12 +131,30 @@ const config: EnvironmentConfig = {
     refreshSecret: process.env.JWT_REFRESH_SECRET || 'your_refresh_secret',
     refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '30d',
   },
+  auth: {
+    passwordResetUrl: process.env.PASSWORD_RESET_URL || 'http://localhost:3000/reset-password',
+    passwordResetTokenTtl: parseInt(process.env.PASSWORD_RESET_TOKEN_TTL_MINUTES || '60', 10),
+    emailVerificationUrl:
+      process.env.EMAIL_VERIFICATION_URL || 'http://localhost:3000/verify-email',
+    emailVerificationTokenTtl: parseInt(process.env.EMAIL_VERIFICATION_TOKEN_TTL_HOURS || '48', 10),
+    maxFailedLogins: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5', 10),
+    lockoutDuration: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10),
+    twoFactorIssuer: process.env.TWO_FACTOR_ISSUER || 'Salon Booking',
+    twoFactorEncryptionKey:
+      process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your_two_factor_key',
+    twoFactorChallengeTtl: parseInt(process.env.TWO_FACTOR_CHALLENGE_TTL_MINUTES || '5', 10),
+    requireAdminTwoFactor: process.env.REQUIRE_ADMIN_2FA === 'true',
+  },
   cors: {
     allowedOrigins: process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000'],
   },
   rateLimit: {
     windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10),
     maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
+    authWindowMs: parseInt(process.env.AUTH_RATE_LIMIT_WINDOW_MS || '900000', 10),
+    authMaxRequestsPerIp: parseInt(process.env.AUTH_RATE_LIMIT_MAX_PER_IP || '20', 10),
+    authMaxRequestsPerEmail: parseInt(process.env.AUTH_RATE_LIMIT_MAX_PER_EMAIL || '10', 10),
+    trustProxy: parseInt(process.env.TRUST_PROXY_HOPS || '0', 10),
   },
   payment: {
     provider: process.env.PAYMENT_PROVIDER || 'stripe',
@@ -107,6 +166,7 @@ const config: EnvironmentConfig = {
     razorpay: process.env.RAZORPAY_KEY_ID ? {
       keyId: process.env.RAZORPAY_KEY_ID,
       keySecret: process.env.RAZORPAY_KEY_SECRET || '',
+      webhookSecret: process.env.RAZORPAY_WEBHOOK_SECRET || '',
     } : undefined,
   },
   email: {
@@ -116,12 +176,21 @@ const config: EnvironmentConfig = {
     user: process.env.SMTP_USER || '',
     password: process.env.SMTP_PASSWORD || '',
     from: process.env.EMAIL_FROM || 'noreply@saloonbooking.com',
+    transport: process.env.EMAIL_TRANSPORT || 'smtp',
+    outputDir: process.env.EMAIL_OUTPUT_DIR || 'tmp/emails',
   },
   sms: process.env.TWILIO_ACCOUNT_SID ? {
     twilioAccountSid: process.env.TWILIO_ACCOUNT_SID,
     twilioAuthToken: process.env.TWILIO_AUTH_TOKEN || '',
     twilioPhoneNumber: process.env.TWILIO_PHONE_NUMBER || '',
   } : undefined,
+  notifications: {
+    smsProvider: process.env.SMS_PROVIDER || 'twilio',
+    reminderOffsetsHours: (process.env.SMS_REMINDER_OFFSETS_HOURS || '24,2')
+      .split(',')
+      .map((offset) => parseInt(offset.trim(), 10))
+      .filter((offset) => offset > 0),
+  },
   redis: process.env.REDIS_URL ? {
     url: process.env.REDIS_URL,
     host: process.env.REDIS_HOST || 'localhost',
@@ -131,7 +200,29 @@ const config: EnvironmentConfig = {
     tokenAmount: parseInt(process.env.BOOKING_TOKEN_AMOUNT || '500', 10),
     currency: process.env.CURRENCY || 'USD',
     slotLockDuration: parseInt(process.env.SLOT_LOCK_DURATION_MINUTES || '5', 10),
+    slotInterval: parseInt(process.env.SLOT_INTERVAL_MINUTES || '30', 10),
     cancellationWindow: parseInt(process.env.CANCELLATION_WINDOW_HOURS || '24', 10),
+    lateCancellationAction:
+      process.env.LATE_CANCELLATION_ACTION === 'reject' ? 'reject' : 'forfeit',
+    lateCancellationForfeitPercent: parseInt(
+      process.env.LATE_CANCELLATION_FORFEIT_PERCENT || '100',
+      10
+    ),
+    pendingPaymentTimeout: parseInt(process.env.PENDING_PAYMENT_TIMEOUT_MINUTES || '30', 10),
+    requireVerifiedEmail: process.env.BOOKING_REQUIRE_VERIFIED_EMAIL !== 'false',
+  },
+  privacy: {
+    erasureGracePeriodDays: parseInt(process.env.ERASURE_GRACE_PERIOD_DAYS || '30', 10),
+  },
+  jobs: {
+    runInProcess: process.env.JOBS_RUN_IN_PROCESS !== 'false',
+    pollIntervalMs: parseInt(process.env.JOBS_POLL_INTERVAL_MS || '5000', 10),
+    batchSize: parseInt(process.env.JOBS_BATCH_SIZE || '10', 10),
+    leaseMs: parseInt(process.env.JOBS_LEASE_MS || '300000', 10),
+    maxAttempts: parseInt(process.env.JOBS_MAX_ATTEMPTS || '5', 10),
+    retryBaseDelayMs: parseInt(process.env.JOBS_RETRY_BASE_DELAY_MS || '30000', 10),
+    retryMaxDelayMs: parseInt(process.env.JOBS_RETRY_MAX_DELAY_MS || '3600000', 10),
+    completedRetentionHours: parseInt(process.env.JOBS_COMPLETED_RETENTION_HOURS || '168', 10),
   },
   security: {
     bcryptSaltRounds: parseInt(process.env.BCRYPT_SALT_ROUNDS || '10', 10),
@@ -0,0 +1,34 @@
+import Redis from 'ioredis';
+import config from './environment';
+import logger from '../utils/logger';
+
+let client: Redis | null = null;
+
+/**
+ * Get the shared Redis client
+ * Only call when config.redis is set; the connection is opened on first use
+ */
+export const getRedisClient = (): Redis => {
+  if (!config.redis) {
+    throw new Error('Redis is not configured');
+  }
+
+  if (!client) {
+    client = new Redis(config.redis.url, { lazyConnect: true, maxRetriesPerRequest: 3 });
+    client.on('error', (error) => {
+      logger.error('Redis error:', error);
+    });
+  }
+
+  return client;
+};
+
+/**
+ * Close the shared Redis client if it was opened
+ */
+export const closeRedisClient = async (): Promise<void> => {
+  if (client) {
+    await client.quit();
+    client = null;
+  }
+};
@@ -1,12 +1,29 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthService } from '../services/auth.service';
-import { RegisterInput, LoginInput, RefreshTokenInput } from '../schemas/auth.schema';
+import { SessionService } from '../services/session.service';
+import { TwoFactorService } from '../services/twoFactor.service';
+import {
+  RegisterInput,
+  LoginInput,
+  RefreshTokenInput,
+  VerifyTwoFactorLoginInput,
+  TwoFactorCodeInput,
+  DisableTwoFactorInput,
+  VerifyEmailInput,
+  ForgotPasswordInput,
+  ResetPasswordInput,
+} from '../schemas/auth.schema';
+import { SessionContext } from '../types';
 
 /**
  * Authentication controller with dependency injection
  */
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionService: SessionService,
+    private readonly twoFactorService: TwoFactorService
+  ) {}
 
   /**
    * Register a new user
@@ -20,7 +37,7 @@ export class AuthController {
     try {
       const data: RegisterInput = req.body;
 
-      const result = await this.authService.register(data);
+      const result = await this.authService.register(data, this.getSessionContext(req));
 
       res.status(201).json({
         success: true,
@@ -44,7 +61,32 @@ export class AuthController {
     try {
       const data: LoginInput = req.body;
 
-      const result = await this.authService.login(data);
+      const result = await this.authService.login(data, this.getSessionContext(req));
+
+      res.status(200).json({
+        success: true,
+        message:
+          'twoFactorRequired' in result ? 'Two-factor authentication required' : 'Login successful',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Complete a 2FA login with the challenge token and a code
+   * POST /api/v1/auth/login/2fa
+   */
+  verifyTwoFactorLogin = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data: VerifyTwoFactorLoginInput = req.body;
+
+      const result = await this.authService.verifyTwoFactorLogin(data, this.getSessionContext(req));
 
       res.status(200).json({
         success: true,
@@ -68,7 +110,7 @@ export class AuthController {
     try {
       const { refreshToken }: RefreshTokenInput = req.body;
 
-      const tokens = await this.authService.refreshToken(refreshToken);
+      const tokens = await this.authService.refreshToken(refreshToken, this.getSessionContext(req));
 
       res.status(200).json({
         success: true,
@@ -80,6 +122,100 @@ export class AuthController {
     }
   };
 
+  /**
+   * Verify email address with an emailed token
+   * POST /api/v1/auth/verify-email
+   */
+  verifyEmail = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data: VerifyEmailInput = req.body;
+
+      const result = await this.authService.verifyEmail(data);
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Resend the verification email to the current user
+   * POST /api/v1/auth/resend-verification
+   */
+  resendVerificationEmail = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const result = await this.authService.resendVerificationEmail(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Request a password reset email
+   * POST /api/v1/auth/forgot-password
+   */
+  forgotPassword = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data: ForgotPasswordInput = req.body;
+
+      const result = await this.authService.forgotPassword(data);
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Reset password with an emailed token
+   * POST /api/v1/auth/reset-password
+   */
+  resetPassword = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const data: ResetPasswordInput = req.body;
+
+      const result = await this.authService.resetPassword(data);
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   /**
    * Get current user profile
    * GET /api/v1/auth/me
@@ -106,17 +242,20 @@ export class AuthController {
   };
 
   /**
-   * Logout user (client-side token removal)
+   * Logout user by revoking the refresh tokens of the current session
    * POST /api/v1/auth/logout
    */
   logout = async (
-    _req: Request,
+    req: Request,
     res: Response,
     next: NextFunction
   ): Promise<void> => {
     try {
-      // With JWT, logout is handled client-side by removing the token
-      // This endpoint exists for consistency and can be extended with token blacklisting
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      await this.authService.logout(req.user);
 
       res.status(200).json({
         success: true,
@@ -126,8 +265,211 @@ export class AuthController {
       next(error);
     }
   };
+
+  /**
+   * List the current user's active sessions
+   * GET /api/v1/auth/sessions
+   */
+  getSessions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const sessions = await this.sessionService.getSessions(req.user.userId, req.user.sessionId);
+
+      res.status(200).json({
+        success: true,
+        data: sessions,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Revoke one of the current user's sessions
+   * DELETE /api/v1/auth/sessions/:id
+   */
+  revokeSession = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const result = await this.sessionService.revokeUserSession(req.user.userId, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Revoke every session of the current user except the current one
+   * DELETE /api/v1/auth/sessions
+   */
+  revokeOtherSessions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const result = await this.sessionService.revokeOtherSessions(
+        req.user.userId,
+        req.user.sessionId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+        data: { revoked: result.revoked },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Start TOTP enrolment
+   * POST /api/v1/auth/2fa/setup
+   */
+  setupTwoFactor = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const setup = await this.twoFactorService.setup(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Scan the QR code with your authenticator app, then confirm a code',
+        data: setup,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Confirm TOTP enrolment and receive recovery codes
+   * POST /api/v1/auth/2fa/enable
+   */
+  enableTwoFactor = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const data: TwoFactorCodeInput = req.body;
+
+      const result = await this.twoFactorService.enable(req.user.userId, data.code);
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication enabled',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Turn 2FA off
+   * POST /api/v1/auth/2fa/disable
+   */
+  disableTwoFactor = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const data: DisableTwoFactorInput = req.body;
+
+      const result = await this.twoFactorService.disable(req.user.userId, data.password, data.code);
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Replace the 2FA recovery codes
+   * POST /api/v1/auth/2fa/recovery-codes
+   */
+  regenerateRecoveryCodes = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const data: TwoFactorCodeInput = req.body;
+
+      const result = await this.twoFactorService.regenerateRecoveryCodes(
+        req.user.userId,
+        data.code
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Recovery codes regenerated',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Client details recorded on the session
+   */
+  private getSessionContext(req: Request): SessionContext {
+    return {
+      userAgent: req.get('user-agent') || null,
+      ipAddress: req.ip || null,
+    };
+  }
 }
 
 // Export singleton instance
 import { authService } from '../services/auth.service';
-export const authController = new AuthController(authService);
+import { sessionService } from '../services/session.service';
+import { twoFactorService } from '../services/twoFactor.service';
+export const authController = new AuthController(authService, sessionService, twoFactorService);
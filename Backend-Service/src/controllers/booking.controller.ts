@@ -0,0 +1,211 @@
+import { Request, Response, NextFunction } from 'express';
+import { BookingService } from '../services/booking.service';
+import {
+  CreateBookingInput,
+  UpdateBookingStatusInput,
+  GetBookingsQuery,
+  CancelBookingInput,
+} from '../schemas/booking.schema';
+
+/**
+ * Booking controller with dependency injection
+ */
+export class BookingController {
+  constructor(private readonly bookingService: BookingService) {}
+
+  /**
+   * Create a booking
+   * POST /api/v1/bookings
+   */
+  createBooking = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const data: CreateBookingInput = req.body;
+
+      const booking = await this.bookingService.createBooking(req.user, data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Booking created successfully',
+        data: booking,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get the current user's bookings
+   * GET /api/v1/bookings/me
+   */
+  getMyBookings = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const query = req.query as unknown as GetBookingsQuery;
+
+      const result = await this.bookingService.getBookings({
+        ...query,
+        userId: req.user.userId,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get all bookings (admin only)
+   * GET /api/v1/bookings
+   */
+  getBookings = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const query = req.query as unknown as GetBookingsQuery;
+
+      const result = await this.bookingService.getBookings(query);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get booking by ID
+   * GET /api/v1/bookings/:id
+   */
+  getBookingById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const bookingId = parseInt(req.params.id, 10);
+
+      const booking = await this.bookingService.getBookingById(bookingId, req.user);
+
+      res.status(200).json({
+        success: true,
+        data: booking,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Cancel a booking
+   * PUT /api/v1/bookings/:id/cancel
+   */
+  cancelBooking = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const bookingId = parseInt(req.params.id, 10);
+      const data: CancelBookingInput = req.body;
+
+      const booking = await this.bookingService.cancelBooking(bookingId, req.user, data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Booking cancelled successfully',
+        data: booking,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get the cancellation policy of a booking
+   * GET /api/v1/bookings/:id/cancellation-policy
+   */
+  getCancellationPolicy = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const bookingId = parseInt(req.params.id, 10);
+
+      const assessment = await this.bookingService.getCancellationPolicy(bookingId, req.user);
+
+      res.status(200).json({
+        success: true,
+        data: assessment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update booking status (admin only)
+   * PUT /api/v1/bookings/:id/status
+   */
+  updateBookingStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const bookingId = parseInt(req.params.id, 10);
+      const data: UpdateBookingStatusInput = req.body;
+
+      const booking = await this.bookingService.updateBookingStatus(bookingId, req.user, data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Booking status updated successfully',
+        data: booking,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get the status timeline of a booking
+   * GET /api/v1/bookings/:id/timeline
+   */
+  getBookingTimeline = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const bookingId = parseInt(req.params.id, 10);
+
+      const timeline = await this.bookingService.getBookingTimeline(bookingId, req.user);
+
+      res.status(200).json({
+        success: true,
+        data: timeline,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Export singleton instance
+import { bookingService } from '../services/booking.service';
+export const bookingController = new BookingController(bookingService);
@@ -0,0 +1,170 @@
+import { Request, Response, NextFunction } from 'express';
+import { CategoryService } from '../services/category.service';
+import {
+  CreateCategoryInput,
+  UpdateCategoryInput,
+  ReorderCategoriesInput,
+} from '../schemas/category.schema';
+
+/**
+ * Category controller with dependency injection
+ */
+export class CategoryController {
+  constructor(private readonly categoryService: CategoryService) {}
+
+  /**
+   * Get the nested category tree
+   * GET /api/v1/categories/tree
+   */
+  getCategoryTree = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const tree = await this.categoryService.getCategoryTree();
+
+      res.status(200).json({
+        success: true,
+        data: tree,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get all categories as a flat list (admin only)
+   * GET /api/v1/categories
+   */
+  getAllCategories = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const categories = await this.categoryService.getAllCategories();
+
+      res.status(200).json({
+        success: true,
+        data: categories,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get category by ID (admin only)
+   * GET /api/v1/categories/:id
+   */
+  getCategoryById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const categoryId = parseInt(req.params.id, 10);
+
+      const category = await this.categoryService.getCategoryById(categoryId);
+
+      res.status(200).json({
+        success: true,
+        data: category,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Create a category (admin only)
+   * POST /api/v1/categories
+   */
+  createCategory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const data: CreateCategoryInput = req.body;
+
+      const category = await this.categoryService.createCategory(data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Category created successfully',
+        data: category,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update a category (admin only)
+   * PUT /api/v1/categories/:id
+   */
+  updateCategory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const categoryId = parseInt(req.params.id, 10);
+      const data: UpdateCategoryInput = req.body;
+
+      const category = await this.categoryService.updateCategory(categoryId, data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Category updated successfully',
+        data: category,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Reorder categories (admin only)
+   * PUT /api/v1/categories/reorder
+   */
+  reorderCategories = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const data: ReorderCategoriesInput = req.body;
+
+      const result = await this.categoryService.reorderCategories(data);
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Delete a category (admin only)
+   * DELETE /api/v1/categories/:id
+   */
+  deleteCategory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const categoryId = parseInt(req.params.id, 10);
+
+      const result = await this.categoryService.deleteCategory(categoryId);
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Restore a deleted category (admin only)
+   * POST /api/v1/categories/:id/restore
+   */
+  restoreCategory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const categoryId = parseInt(req.params.id, 10);
+
+      const category = await this.categoryService.restoreCategory(categoryId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Category restored successfully',
+        data: category,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Export singleton instance
+import { categoryService } from '../services/category.service';
+export const categoryController = new CategoryController(categoryService);
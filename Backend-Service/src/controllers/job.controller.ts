@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction } from 'express';
+import { JobService } from '../services/job.service';
+import { GetJobsQuery } from '../schemas/job.schema';
+
+/**
+ * Background job controller with dependency injection (admin only)
+ */
+export class JobController {
+  constructor(private readonly jobService: JobService) {}
+
+  /**
+   * Get background jobs with filters and pagination
+   * GET /api/v1/jobs
+   */
+  getJobs = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const query = req.query as unknown as GetJobsQuery;
+
+      const result = await this.jobService.getJobs(query);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get a background job by ID
+   * GET /api/v1/jobs/:id
+   */
+  getJobById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const job = await this.jobService.getJobById(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Move a dead job back to the queue
+   * POST /api/v1/jobs/:id/retry
+   */
+  retryJob = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const job = await this.jobService.retryJob(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Job queued for retry',
+        data: job,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Export singleton instance
+import { jobService } from '../services/job.service';
+export const jobController = new JobController(jobService);
@@ -0,0 +1,186 @@
+import { Request, Response, NextFunction } from 'express';
+import { PaymentService } from '../services/payment.service';
+import { RefundService } from '../services/refund.service';
+import { WebhookService } from '../services/webhook.service';
+import {
+  CreateDepositIntentInput,
+  GetWebhookEventsQuery,
+  RefundPaymentInput,
+} from '../schemas/payment.schema';
+
+/**
+ * Payment controller with dependency injection
+ */
+export class PaymentController {
+  constructor(
+    private readonly paymentService: PaymentService,
+    private readonly refundService: RefundService,
+    private readonly webhookService: WebhookService
+  ) {}
+
+  /**
+   * Create a deposit payment intent for a pending booking
+   * POST /api/v1/payments/intent
+   */
+  createDepositIntent = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const data: CreateDepositIntentInput = req.body;
+
+      const intent = await this.paymentService.createDepositIntent(req.user, data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Payment intent created successfully',
+        data: intent,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Confirm a payment and the booking it pays for
+   * POST /api/v1/payments/:id/confirm
+   */
+  confirmPayment = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const paymentId = parseInt(req.params.id, 10);
+
+      const payment = await this.paymentService.confirmPayment(req.user, paymentId);
+
+      res.status(200).json({
+        success: true,
+        message: `Payment is ${payment.status}`,
+        data: payment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get the payment history of a booking
+   * GET /api/v1/payments/booking/:bookingId
+   */
+  getBookingPayments = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const bookingId = parseInt(req.params.bookingId, 10);
+
+      const payments = await this.paymentService.getBookingPayments(req.user, bookingId);
+
+      res.status(200).json({
+        success: true,
+        data: payments,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Refund all or part of a payment (admin only)
+   * POST /api/v1/payments/:id/refund
+   */
+  refundPayment = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const paymentId = parseInt(req.params.id, 10);
+      const data: RefundPaymentInput = req.body;
+
+      const refund = await this.refundService.refundPayment(paymentId, req.user.userId, data);
+
+      res.status(201).json({
+        success: true,
+        message: `Refund is ${refund.status}`,
+        data: refund,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Receive a webhook from a payment provider
+   * POST /api/v1/payments/webhooks/:provider
+   */
+  handleWebhook = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const receipt = await this.webhookService.handleWebhook(
+        req.params.provider,
+        req.rawBody,
+        req.headers
+      );
+
+      res.status(200).json({
+        success: true,
+        data: receipt,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get stored webhook events (admin only)
+   * GET /api/v1/payments/webhooks/events
+   */
+  getWebhookEvents = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const query = req.query as unknown as GetWebhookEventsQuery;
+
+      const result = await this.webhookService.getEvents(query);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Replay a stored webhook event (admin only)
+   * POST /api/v1/payments/webhooks/events/:id/replay
+   */
+  replayWebhookEvent = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const eventId = parseInt(req.params.id, 10);
+
+      const event = await this.webhookService.replayEvent(eventId);
+
+      res.status(200).json({
+        success: true,
+        message: `Webhook event replayed (${event.status})`,
+        data: event,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Export singleton instance
+import { paymentService } from '../services/payment.service';
+import { refundService } from '../services/refund.service';
+import { webhookService } from '../services/webhook.service';
+export const paymentController = new PaymentController(
+  paymentService,
+  refundService,
+  webhookService
+);
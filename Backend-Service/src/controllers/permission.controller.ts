@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from 'express';
+import { PermissionService } from '../services/permission.service';
+import { RoleParam, SetRolePermissionsInput } from '../schemas/permission.schema';
+
+/**
+ * Permission controller with dependency injection (admin only)
+ */
+export class PermissionController {
+  constructor(private readonly permissionService: PermissionService) {}
+
+  /**
+   * List every permission and the permissions of each role
+   * GET /api/v1/permissions
+   */
+  getRolePermissions = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.permissionService.getRolePermissions();
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Replace the permissions of a role
+   * PUT /api/v1/permissions/:role
+   */
+  setRolePermissions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { role } = req.params as unknown as RoleParam;
+      const data: SetRolePermissionsInput = req.body;
+
+      const permissions = await this.permissionService.setRolePermissions(role, data.permissions);
+
+      res.status(200).json({
+        success: true,
+        message: 'Role permissions updated successfully',
+        data: { role, permissions },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Export singleton instance
+import { permissionService } from '../services/permission.service';
+export const permissionController = new PermissionController(permissionService);
@@ -0,0 +1,117 @@
+import { Request, Response, NextFunction } from 'express';
+import { PrivacyService } from '../services/privacy.service';
+import { buildDataExportArchive } from '../utils/privacy';
+import { DataExportQuery } from '../schemas/privacy.schema';
+
+/**
+ * Privacy controller with dependency injection
+ */
+export class PrivacyController {
+  constructor(private readonly privacyService: PrivacyService) {}
+
+  /**
+   * Export the personal data of the current user as JSON or a ZIP archive
+   * GET /api/v1/users/me/export
+   */
+  exportData = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const userId = req.user.userId;
+      const { format } = req.query as unknown as DataExportQuery;
+
+      const data = await this.privacyService.exportUserData(userId);
+
+      if (format === 'zip') {
+        const date = data.exportedAt.toISOString().slice(0, 10);
+
+        res.status(200);
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename="personal-data-${userId}-${date}.zip"`
+        );
+        res.send(buildDataExportArchive(data));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * List the erasure requests of the current user
+   * GET /api/v1/users/me/erasure-requests
+   */
+  getErasureRequests = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const requests = await this.privacyService.getErasureRequests(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: requests,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Request the erasure of the current user's account after the grace period
+   * POST /api/v1/users/me/erasure-requests
+   */
+  requestErasure = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const request = await this.privacyService.requestErasure(req.user.userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Erasure requested; it can be cancelled until the scheduled date',
+        data: request,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Cancel the pending erasure request of the current user
+   * POST /api/v1/users/me/erasure-requests/cancel
+   */
+  cancelErasureRequest = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const request = await this.privacyService.cancelErasureRequest(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Erasure request cancelled',
+        data: request,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Export singleton instance
+import { privacyService } from '../services/privacy.service';
+export const privacyController = new PrivacyController(privacyService);
@@ -0,0 +1,134 @@
+import { Request, Response, NextFunction } from 'express';
+import { ServiceCatalogService } from '../services/service.service';
+import { PermissionService } from '../services/permission.service';
+import {
+  CreateServiceInput,
+  UpdateServiceInput,
+  GetServicesQuery,
+} from '../schemas/service.schema';
+
+/**
+ * Service catalog controller with dependency injection
+ */
+export class ServiceController {
+  constructor(
+    private readonly serviceCatalogService: ServiceCatalogService,
+    private readonly permissionService: PermissionService
+  ) {}
+
+  /**
+   * Get all services
+   * GET /api/v1/services
+   */
+  getServices = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const query = req.query as unknown as GetServicesQuery;
+      const canManage = await this.canManageServices(req);
+
+      // Only users who manage the catalog may look beyond the active services
+      const result = await this.serviceCatalogService.getServices({
+        ...query,
+        status: canManage ? query.status : 'active',
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get service by ID
+   * GET /api/v1/services/:id
+   */
+  getServiceById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const serviceId = parseInt(req.params.id, 10);
+      const canManage = await this.canManageServices(req);
+
+      const service = await this.serviceCatalogService.getServiceById(serviceId, canManage);
+
+      res.status(200).json({
+        success: true,
+        data: service,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Create a new service (admin only)
+   * POST /api/v1/services
+   */
+  createService = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const data: CreateServiceInput = req.body;
+
+      const service = await this.serviceCatalogService.createService(data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Service created successfully',
+        data: service,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update a service (admin only)
+   * PUT /api/v1/services/:id
+   */
+  updateService = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const serviceId = parseInt(req.params.id, 10);
+      const data: UpdateServiceInput = req.body;
+
+      const service = await this.serviceCatalogService.updateService(serviceId, data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Service updated successfully',
+        data: service,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Archive a service (admin only)
+   * PUT /api/v1/services/:id/archive
+   */
+  archiveService = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const serviceId = parseInt(req.params.id, 10);
+
+      const result = await this.serviceCatalogService.archiveService(serviceId);
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Whether the (optionally) signed-in user may manage the catalog and so see hidden services
+   */
+  private async canManageServices(req: Request): Promise<boolean> {
+    return req.user ? this.permissionService.hasPermission(req.user.role, 'services:write') : false;
+  }
+}
+
+// Export singleton instance
+import { serviceCatalogService } from '../services/service.service';
+import { permissionService } from '../services/permission.service';
+export const serviceController = new ServiceController(serviceCatalogService, permissionService);
@@ -0,0 +1,206 @@
+import { Request, Response, NextFunction } from 'express';
+import { SlotService } from '../services/slot.service';
+import {
+  AvailabilityQuery,
+  SetOpeningHoursInput,
+  CreateClosureInput,
+  GetClosuresQuery,
+} from '../schemas/slot.schema';
+
+/**
+ * Slot controller with dependency injection
+ */
+export class SlotController {
+  constructor(private readonly slotService: SlotService) {}
+
+  /**
+   * Get free slots for a service
+   * GET /api/v1/slots/availability/:serviceId
+   */
+  getAvailability = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const serviceId = parseInt(req.params.serviceId, 10);
+      const query = req.query as AvailabilityQuery;
+
+      const availability = await this.slotService.getAvailability(
+        serviceId,
+        query,
+        req.user?.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: availability,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get slot by ID
+   * GET /api/v1/slots/:id
+   */
+  getSlotById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const slotId = parseInt(req.params.id, 10);
+
+      const slot = await this.slotService.getSlotById(slotId);
+
+      res.status(200).json({
+        success: true,
+        data: slot,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Hold a slot during checkout
+   * POST /api/v1/slots/:id/lock
+   */
+  lockSlot = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const slotId = parseInt(req.params.id, 10);
+      const userId = req.user.userId;
+
+      const lock = await this.slotService.lockSlot(slotId, userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Slot held successfully',
+        data: lock,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Release a held slot
+   * DELETE /api/v1/slots/:id/lock
+   */
+  releaseSlotLock = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
+      const slotId = parseInt(req.params.id, 10);
+      const userId = req.user.userId;
+
+      const result = await this.slotService.releaseSlotLock(slotId, userId);
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get weekly opening hours
+   * GET /api/v1/slots/opening-hours
+   */
+  getOpeningHours = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const hours = await this.slotService.getOpeningHours();
+
+      res.status(200).json({
+        success: true,
+        data: hours,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Replace weekly opening hours (admin only)
+   * PUT /api/v1/slots/opening-hours
+   */
+  setOpeningHours = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const data: SetOpeningHoursInput = req.body;
+
+      const hours = await this.slotService.setOpeningHours(data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Opening hours updated successfully',
+        data: hours,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * List closures (admin only)
+   * GET /api/v1/slots/closures
+   */
+  getClosures = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const query = req.query as GetClosuresQuery;
+
+      const closures = await this.slotService.getClosures(query);
+
+      res.status(200).json({
+        success: true,
+        data: closures,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Create a closure (admin only)
+   * POST /api/v1/slots/closures
+   */
+  createClosure = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const data: CreateClosureInput = req.body;
+
+      const closure = await this.slotService.createClosure(data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Closure created successfully',
+        data: closure,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Delete a closure (admin only)
+   * DELETE /api/v1/slots/closures/:id
+   */
+  deleteClosure = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const closureId = parseInt(req.params.id, 10);
+
+      const result = await this.slotService.deleteClosure(closureId);
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Export singleton instance
+import { slotService } from '../services/slot.service';
+export const slotController = new SlotController(slotService);
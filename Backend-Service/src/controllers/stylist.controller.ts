@@ -0,0 +1,219 @@
+import { Request, Response, NextFunction } from 'express';
+import { StylistService } from '../services/stylist.service';
+import { PermissionService } from '../services/permission.service';
+import {
+  CreateStylistInput,
+  UpdateStylistInput,
+  GetStylistsQuery,
+  SetStylistScheduleInput,
+  CreateTimeOffInput,
+  GetTimeOffQuery,
+} from '../schemas/stylist.schema';
+
+/**
+ * Stylist controller with dependency injection
+ */
+export class StylistController {
+  constructor(
+    private readonly stylistService: StylistService,
+    private readonly permissionService: PermissionService
+  ) {}
+
+  /**
+   * List stylists
+   * GET /api/v1/stylists
+   */
+  getStylists = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const query = req.query as unknown as GetStylistsQuery;
+      const canManage = await this.canManageStylists(req);
+
+      // Only users who manage stylists may see inactive ones
+      const stylists = await this.stylistService.getStylists({
+        serviceId: query.serviceId,
+        includeInactive: canManage && query.includeInactive,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: stylists,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get stylist by ID
+   * GET /api/v1/stylists/:id
+   */
+  getStylistById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const stylistId = parseInt(req.params.id, 10);
+      const canManage = await this.canManageStylists(req);
+
+      const stylist = await this.stylistService.getStylistById(stylistId, canManage);
+
+      res.status(200).json({
+        success: true,
+        data: stylist,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Create a stylist profile (admin only)
+   * POST /api/v1/stylists
+   */
+  createStylist = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const data: CreateStylistInput = req.body;
+
+      const stylist = await this.stylistService.createStylist(data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Stylist created successfully',
+        data: stylist,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update a stylist profile (admin only)
+   * PUT /api/v1/stylists/:id
+   */
+  updateStylist = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const stylistId = parseInt(req.params.id, 10);
+      const data: UpdateStylistInput = req.body;
+
+      const stylist = await this.stylistService.updateStylist(stylistId, data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Stylist updated successfully',
+        data: stylist,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get a stylist's weekly schedule
+   * GET /api/v1/stylists/:id/schedule
+   */
+  getSchedule = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const stylistId = parseInt(req.params.id, 10);
+
+      const schedule = await this.stylistService.getSchedule(stylistId);
+
+      res.status(200).json({
+        success: true,
+        data: schedule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Replace a stylist's weekly schedule (admin only)
+   * PUT /api/v1/stylists/:id/schedule
+   */
+  setSchedule = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const stylistId = parseInt(req.params.id, 10);
+      const data: SetStylistScheduleInput = req.body;
+
+      const schedule = await this.stylistService.setSchedule(stylistId, data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Schedule updated successfully',
+        data: schedule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * List a stylist's time-off (admin only)
+   * GET /api/v1/stylists/:id/time-off
+   */
+  getTimeOff = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const stylistId = parseInt(req.params.id, 10);
+      const query = req.query as GetTimeOffQuery;
+
+      const timeOff = await this.stylistService.getTimeOff(stylistId, query);
+
+      res.status(200).json({
+        success: true,
+        data: timeOff,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Add time-off for a stylist (admin only)
+   * POST /api/v1/stylists/:id/time-off
+   */
+  createTimeOff = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const stylistId = parseInt(req.params.id, 10);
+      const data: CreateTimeOffInput = req.body;
+
+      const timeOff = await this.stylistService.createTimeOff(stylistId, data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Time-off created successfully',
+        data: timeOff,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Delete a stylist's time-off (admin only)
+   * DELETE /api/v1/stylists/:id/time-off/:timeOffId
+   */
+  deleteTimeOff = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const stylistId = parseInt(req.params.id, 10);
+      const timeOffId = parseInt(req.params.timeOffId, 10);
+
+      const result = await this.stylistService.deleteTimeOff(stylistId, timeOffId);
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Whether the (optionally) signed-in user may manage stylists and so see inactive ones
+   */
+  private async canManageStylists(req: Request): Promise<boolean> {
+    return req.user ? this.permissionService.hasPermission(req.user.role, 'stylists:write') : false;
+  }
+}
+
+// Export singleton instance
+import { stylistService } from '../services/stylist.service';
+import { permissionService } from '../services/permission.service';
+export const stylistController = new StylistController(stylistService, permissionService);
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { UserService } from '../services/user.service';
 import { UpdateProfileInput, ChangePasswordInput } from '../schemas/auth.schema';
+import { GetUsersQuery } from '../schemas/user.schema';
+import { PaginatedResponse, UserAttributes } from '../types';
 
 /**
  * User controller with dependency injection
@@ -18,9 +20,14 @@ export class UserController {
     next: NextFunction
   ): Promise<void> => {
     try {
+      if (!req.user) {
+        throw new Error('User not authenticated');
+      }
+
       const userId = parseInt(req.params.id, 10);
 
-      const user = await this.userService.getUserById(userId);
+      // Other users only see the public profile unless the viewer may read any account
+      const user = await this.userService.getUserById(userId, req.user);
 
       res.status(200).json({
         success: true,
@@ -121,24 +128,18 @@ export class UserController {
     next: NextFunction
   ): Promise<void> => {
     try {
-      const page = req.query.page ? parseInt(req.query.page as string, 10) : 1;
-      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 10;
-      const role = req.query.role as 'customer' | 'admin' | undefined;
-      const isActive = req.query.isActive
-        ? req.query.isActive === 'true'
-        : undefined;
-
-      const result = await this.userService.getAllUsers({
-        page,
-        limit,
-        role,
-        isActive,
-      });
+      const query = req.query as unknown as GetUsersQuery;
 
-      res.status(200).json({
+      const result = await this.userService.getAllUsers(query);
+
+      const response: PaginatedResponse<Omit<UserAttributes, 'password'>> = {
         success: true,
-        data: result,
-      });
+        message: 'Users retrieved successfully',
+        data: result.users,
+        pagination: result.pagination,
+      };
+
+      res.status(200).json(response);
     } catch (error) {
       next(error);
     }
@@ -167,6 +168,30 @@ export class UserController {
     }
   };
 
+  /**
+   * Force-logout a user from all sessions (admin only)
+   * POST /api/v1/users/:id/force-logout
+   */
+  forceLogout = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const userId = parseInt(req.params.id, 10);
+
+      const result = await this.userService.forceLogout(userId);
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+        data: { revoked: result.revoked },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   /**
    * Delete user (admin only)
    * DELETE /api/v1/users/:id
@@ -189,6 +214,53 @@ export class UserController {
       next(error);
     }
   };
+
+  /**
+   * Restore a deleted user (admin only)
+   * POST /api/v1/users/:id/restore
+   */
+  restoreUser = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const userId = parseInt(req.params.id, 10);
+
+      const user = await this.userService.restoreUser(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'User restored successfully',
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Purge the personal data of a deleted user (admin only)
+   * POST /api/v1/users/:id/purge
+   */
+  purgeUser = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const userId = parseInt(req.params.id, 10);
+
+      const result = await this.userService.purgeUser(userId);
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
 }
 
 // Export singleton instance
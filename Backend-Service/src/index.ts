@@ -1,10 +1,15 @@
 import app from './app';
 import config from './config/environment';
 import { testConnection } from './config/database';
+import { startJobs } from './jobs';
+import { JobService } from './services/job.service';
 import logger from './utils/logger';
 
 const PORT = config.port;
 
+// Set when background jobs run inside this process
+let jobService: JobService | null = null;
+
 // Initialize server
 const startServer = async () => {
   try {
@@ -12,6 +17,11 @@ const startServer = async () => {
     try {
       await testConnection();
       logger.info('✅ Database connection established');
+
+      // Run background jobs here unless a separate worker process handles them
+      if (config.jobs.runInProcess) {
+        jobService = startJobs();
+      }
     } catch (dbError) {
       logger.warn('⚠️  Database connection failed - server will start without DB');
       logger.warn('Database error:', dbError);
@@ -45,16 +55,18 @@ process.on('uncaughtException', (error: Error) => {
   process.exit(1);
 });
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM signal received: closing HTTP server');
+// Graceful shutdown: let the job batch in progress finish first
+const shutdown = async (signal: string) => {
+  logger.info(`${signal} signal received: closing HTTP server`);
+  if (jobService) {
+    await jobService.stop();
+  }
   process.exit(0);
-});
+};
 
-process.on('SIGINT', () => {
-  logger.info('SIGINT signal received: closing HTTP server');
-  process.exit(0);
-});
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+process.on('SIGINT', () => shutdown('SIGINT'));
 
 // Start the server
 startServer();
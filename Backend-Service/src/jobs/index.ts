@@ -0,0 +1,95 @@
+import config from '../config/environment';
+import logger from '../utils/logger';
+import { JobService, jobService } from '../services/job.service';
+import { AuthService, authService } from '../services/auth.service';
+import { BookingService, bookingService } from '../services/booking.service';
+import { ReminderService, reminderService } from '../services/reminder.service';
+import { SlotService, slotService } from '../services/slot.service';
+import { PrivacyService, privacyService } from '../services/privacy.service';
+
+/**
+ * Names of the background jobs
+ */
+export const JOB_NAMES = {
+  sendReminders: 'reminders.send',
+  expireSlotHolds: 'slots.expire-holds',
+  completePastBookings: 'bookings.complete-past',
+  processErasureRequests: 'privacy.process-erasures',
+  cleanup: 'maintenance.cleanup',
+} as const;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Services the background jobs depend on
+ */
+export interface JobDependencies {
+  authService: AuthService;
+  bookingService: BookingService;
+  reminderService: ReminderService;
+  slotService: SlotService;
+  privacyService: PrivacyService;
+}
+
+/**
+ * Register the job handlers and their recurring schedule on a job service
+ */
+export const registerJobs = (queue: JobService, deps: JobDependencies): void => {
+  queue.register(JOB_NAMES.sendReminders, async () => {
+    const sent = await deps.reminderService.sendDueReminders();
+    logger.info(`Sent ${sent} booking reminders`);
+  });
+
+  // Holds expire on their own; this also releases slots of bookings that were never paid
+  queue.register(JOB_NAMES.expireSlotHolds, async () => {
+    const purged = await deps.slotService.purgeExpiredLocks();
+    const cancelled = await deps.bookingService.expireUnpaidBookings();
+    logger.info(`Purged ${purged} expired slot holds, cancelled ${cancelled} unpaid bookings`);
+  });
+
+  queue.register(JOB_NAMES.completePastBookings, async () => {
+    const completed = await deps.bookingService.completePastBookings();
+    logger.info(`Completed ${completed} past bookings`);
+  });
+
+  queue.register(JOB_NAMES.processErasureRequests, async () => {
+    const erased = await deps.privacyService.processDueErasureRequests();
+    logger.info(`Carried out ${erased} erasure requests`);
+  });
+
+  queue.register(JOB_NAMES.cleanup, async () => {
+    const before = new Date(Date.now() - config.jobs.completedRetentionHours * 60 * MINUTE_MS);
+    const purgedJobs = await queue.purgeCompletedJobs(before);
+    const purgedTokens = await deps.authService.purgeExpiredRefreshTokens(new Date());
+    const purgedResetTokens = await deps.authService.purgeExpiredPasswordResetTokens(new Date());
+    const purgedVerificationTokens = await deps.authService.purgeExpiredEmailVerificationTokens(
+      new Date()
+    );
+    logger.info(
+      `Purged ${purgedJobs} completed jobs, ${purgedTokens} expired refresh tokens, ${purgedResetTokens} expired password reset tokens and ${purgedVerificationTokens} expired email verification tokens`
+    );
+  });
+
+  queue.schedule(JOB_NAMES.sendReminders, 5 * MINUTE_MS);
+  queue.schedule(JOB_NAMES.expireSlotHolds, MINUTE_MS);
+  queue.schedule(JOB_NAMES.completePastBookings, 15 * MINUTE_MS);
+  queue.schedule(JOB_NAMES.processErasureRequests, 60 * MINUTE_MS);
+  queue.schedule(JOB_NAMES.cleanup, 60 * MINUTE_MS);
+};
+
+/**
+ * Register every job on the shared job service and start polling
+ * Used by the API process (config.jobs.runInProcess) and by the worker entrypoint
+ */
+export const startJobs = (): JobService => {
+  registerJobs(jobService, {
+    authService,
+    bookingService,
+    reminderService,
+    slotService,
+    privacyService,
+  });
+  jobService.start();
+
+  return jobService;
+};
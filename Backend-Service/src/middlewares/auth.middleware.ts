@@ -1,12 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
-import { JWTUtil } from '../utils/jwt';
+import { JWTUtil, JWTPayload } from '../utils/jwt';
+import { SessionService } from '../services/session.service';
+import { PermissionService } from '../services/permission.service';
 import { UnauthorizedError, ForbiddenError } from '../utils/errors';
+import { Permission } from '../types';
 
 /**
  * Authentication middleware factory with dependency injection
  */
 export class AuthMiddleware {
-  constructor(private readonly jwtUtil: JWTUtil) {}
+  constructor(
+    private readonly jwtUtil: JWTUtil,
+    private readonly sessionService: SessionService,
+    private readonly permissionService: PermissionService
+  ) {}
 
   /**
    * Middleware to authenticate requests using JWT
@@ -34,8 +41,8 @@ export class AuthMiddleware {
         throw new UnauthorizedError('No token provided');
       }
 
-      // Verify token
-      const decoded = this.jwtUtil.verifyAccessToken(token);
+      // Verify token and reject tokens of revoked sessions
+      const decoded = await this.verifyToken(token);
 
       // Attach user info to request
       req.user = decoded;
@@ -47,19 +54,21 @@ export class AuthMiddleware {
   };
 
   /**
-   * Middleware to authorize users based on roles
+   * Middleware to authorize users holding a permission
    */
-  authorize = (...roles: Array<'customer' | 'admin'>) => {
-    return (req: Request, _res: Response, next: NextFunction): void => {
+  requirePermission = (permission: Permission) => {
+    return async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
       try {
         if (!req.user) {
           throw new UnauthorizedError('Authentication required');
         }
 
-        if (!roles.includes(req.user.role)) {
+        if (!(await this.permissionService.hasPermission(req.user.role, permission))) {
           throw new ForbiddenError('Insufficient permissions');
         }
 
+        this.assertAdminTwoFactor(req.user);
+
         next();
       } catch (error) {
         next(error);
@@ -81,7 +90,7 @@ export class AuthMiddleware {
       if (authHeader && authHeader.startsWith('Bearer ')) {
         const token = authHeader.substring(7);
         if (token) {
-          const decoded = this.jwtUtil.verifyAccessToken(token);
+          const decoded = await this.verifyToken(token);
           req.user = decoded;
         }
       }
@@ -92,8 +101,35 @@ export class AuthMiddleware {
       next();
     }
   };
+
+  /**
+   * Verify an access token and check that its session was not revoked
+   * Tokens issued before sessions were introduced carry no session ID and are only verified
+   */
+  private async verifyToken(token: string): Promise<JWTPayload> {
+    const decoded = this.jwtUtil.verifyAccessToken(token);
+
+    if (decoded.sessionId) {
+      await this.sessionService.assertSessionActive(decoded.sessionId, decoded.userId);
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Reject admins who did not pass 2FA in this session (config.auth.requireAdminTwoFactor)
+   */
+  private assertAdminTwoFactor(user: JWTPayload): void {
+    if (!this.permissionService.meetsAdminTwoFactor(user)) {
+      throw new ForbiddenError(
+        'Two-factor authentication is required for admin access; enable it and log in again'
+      );
+    }
+  }
 }
 
 // Export singleton instance for convenience
 import { jwtUtil } from '../utils/jwt';
-export const authMiddleware = new AuthMiddleware(jwtUtil);
+import { sessionService } from '../services/session.service';
+import { permissionService } from '../services/permission.service';
+export const authMiddleware = new AuthMiddleware(jwtUtil, sessionService, permissionService);
@@ -0,0 +1,81 @@
+import { Request } from 'express';
+import rateLimit, { RateLimitRequestHandler } from 'express-rate-limit';
+import config from '../config/environment';
+import { createRateLimitStore } from '../providers/rateLimit';
+import { TooManyRequestsError } from '../utils/errors';
+
+/**
+ * Options of a rate limiter
+ */
+export interface RateLimiterOptions {
+  name: string;
+  windowMs: number;
+  limit: number;
+  message?: string;
+  keyGenerator?: (req: Request) => string;
+  skip?: (req: Request) => boolean;
+}
+
+/**
+ * Create a rate limiter that answers with the standard error response (429)
+ * Clients are keyed by IP unless a keyGenerator is given; requests without a key are not counted
+ */
+export const createRateLimiter = (options: RateLimiterOptions): RateLimitRequestHandler => {
+  const { keyGenerator, skip } = options;
+
+  return rateLimit({
+    windowMs: options.windowMs,
+    limit: options.limit,
+    standardHeaders: 'draft-7',
+    legacyHeaders: false,
+    store: createRateLimitStore(options.name),
+    ...(keyGenerator && { keyGenerator }),
+    skip: (req: Request) =>
+      (skip ? skip(req) : false) || (keyGenerator ? keyGenerator(req) === '' : false),
+    handler: (_req, _res, next) => {
+      next(new TooManyRequestsError(options.message));
+    },
+  });
+};
+
+/**
+ * Rate limit key of the email address in the request body, or of the signed-in user for
+ * requests without one (empty when there is neither)
+ */
+export const getEmailRateLimitKey = (req: Request): string => {
+  const email = typeof req.body?.email === 'string' ? req.body.email : req.user?.email;
+  return typeof email === 'string' ? email.trim().toLowerCase() : '';
+};
+
+/**
+ * Global limiter for every API request, per IP (config.rateLimit)
+ * Payment provider webhooks are exempt: providers send them from a few shared IPs
+ */
+export const apiRateLimiter = createRateLimiter({
+  name: 'api',
+  windowMs: config.rateLimit.windowMs,
+  limit: config.rateLimit.maxRequests,
+  skip: (req) => req.method === 'POST' && /^\/payments\/webhooks\/[^/]+$/.test(req.path),
+});
+
+/**
+ * Stricter per-IP limiter for login, registration and password reset
+ */
+export const authRateLimiter = createRateLimiter({
+  name: 'auth-ip',
+  windowMs: config.rateLimit.authWindowMs,
+  limit: config.rateLimit.authMaxRequestsPerIp,
+  message: 'Too many attempts, please try again later',
+});
+
+/**
+ * Per-email limiter for login, password reset and verification emails, so one account cannot be
+ * targeted from many IPs
+ */
+export const authEmailRateLimiter = createRateLimiter({
+  name: 'auth-email',
+  windowMs: config.rateLimit.authWindowMs,
+  limit: config.rateLimit.authMaxRequestsPerEmail,
+  message: 'Too many attempts for this account, please try again later',
+  keyGenerator: getEmailRateLimitKey,
+});
@@ -1,15 +1,20 @@
 import { Request, Response, NextFunction } from 'express';
-import { AnyZodObject, ZodError, ZodIssue } from 'zod';
+import { AnyZodObject, ZodEffects, ZodError, ZodIssue } from 'zod';
 import { StatusCodes } from 'http-status-codes';
 
+/**
+ * Object schema, optionally wrapped in a top-level refinement
+ */
+type RequestSchema = AnyZodObject | ZodEffects<AnyZodObject>;
+
 /**
  * Validation middleware factory for Zod schemas
  * Validates request body, query, and params against provided schemas
  */
 export const validate = (schema: {
-  body?: AnyZodObject;
-  query?: AnyZodObject;
-  params?: AnyZodObject;
+  body?: RequestSchema;
+  query?: RequestSchema;
+  params?: RequestSchema;
 }) => {
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -61,20 +66,20 @@ const formatZodErrors = (issues: ZodIssue[]) => {
 /**
  * Shorthand for validating only the request body
  */
-export const validateBody = (schema: AnyZodObject) => {
+export const validateBody = (schema: RequestSchema) => {
   return validate({ body: schema });
 };
 
 /**
  * Shorthand for validating only query parameters
  */
-export const validateQuery = (schema: AnyZodObject) => {
+export const validateQuery = (schema: RequestSchema) => {
   return validate({ query: schema });
 };
 
 /**
  * Shorthand for validating only route parameters
  */
-export const validateParams = (schema: AnyZodObject) => {
+export const validateParams = (schema: RequestSchema) => {
   return validate({ params: schema });
 };
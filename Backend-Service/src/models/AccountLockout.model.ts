@@ -0,0 +1,75 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { AccountLockoutAttributes, AccountLockoutCreationAttributes } from '../types';
+
+/**
+ * Account lockout model class
+ * Records each time an account was locked after repeated failed logins
+ */
+class AccountLockout
+  extends Model<AccountLockoutAttributes, AccountLockoutCreationAttributes>
+  implements AccountLockoutAttributes
+{
+  declare id: number;
+  declare userId: number;
+  declare failedAttempts: number;
+  declare lockedUntil: Date;
+  declare ipAddress: string | null;
+  declare userAgent: string | null;
+  declare readonly createdAt: Date;
+}
+
+// Initialize AccountLockout model
+AccountLockout.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    failedAttempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'failed_attempts',
+    },
+    lockedUntil: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'locked_until',
+    },
+    ipAddress: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+      field: 'ip_address',
+    },
+    userAgent: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      field: 'user_agent',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'account_lockouts',
+    modelName: 'AccountLockout',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['user_id'],
+      },
+    ],
+  }
+);
+
+export default AccountLockout;
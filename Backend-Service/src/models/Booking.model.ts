@@ -0,0 +1,161 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { BookingAttributes, BookingCreationAttributes, BookingStatus } from '../types';
+
+/**
+ * Booking model class
+ */
+class Booking
+  extends Model<BookingAttributes, BookingCreationAttributes>
+  implements BookingAttributes
+{
+  declare id: number;
+  declare userId: number;
+  declare serviceId: number;
+  declare slotId: number;
+  declare stylistId: number | null;
+  declare bookingDate: string;
+  declare startTime: string;
+  declare endTime: string;
+  declare status: BookingStatus;
+  declare totalAmount: number;
+  declare notes?: string | null;
+  declare cancellationReason?: string | null;
+  declare cancelledAt?: Date | null;
+  declare isLateCancellation: boolean;
+  declare depositForfeitPercent?: number | null;
+  declare isDeleted: boolean;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+  declare readonly deletedAt: Date | null;
+
+  /**
+   * Whether the booking still occupies its slot
+   */
+  get isActive(): boolean {
+    return this.status === 'pending' || this.status === 'confirmed';
+  }
+}
+
+// Initialize Booking model
+Booking.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    serviceId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'service_id',
+    },
+    slotId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'slot_id',
+    },
+    stylistId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'stylist_id',
+    },
+    bookingDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+      field: 'booking_date',
+    },
+    startTime: {
+      type: DataTypes.TIME,
+      allowNull: false,
+      field: 'start_time',
+      get() {
+        return (this.getDataValue('startTime') as string)?.slice(0, 5);
+      },
+    },
+    endTime: {
+      type: DataTypes.TIME,
+      allowNull: false,
+      field: 'end_time',
+      get() {
+        return (this.getDataValue('endTime') as string)?.slice(0, 5);
+      },
+    },
+    status: {
+      type: DataTypes.ENUM('pending', 'confirmed', 'cancelled', 'completed'),
+      allowNull: false,
+      defaultValue: 'pending',
+    },
+    totalAmount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'total_amount',
+      validate: {
+        min: {
+          args: [0],
+          msg: 'Total amount must be non-negative',
+        },
+      },
+    },
+    notes: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    cancellationReason: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      field: 'cancellation_reason',
+    },
+    cancelledAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'cancelled_at',
+    },
+    isLateCancellation: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+      field: 'is_late_cancellation',
+    },
+    depositForfeitPercent: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'deposit_forfeit_percent',
+    },
+    isDeleted: {
+      type: DataTypes.VIRTUAL(DataTypes.BOOLEAN, ['deletedAt']),
+      get(): boolean {
+        return this.getDataValue('deletedAt') != null;
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'bookings',
+    modelName: 'Booking',
+    timestamps: true,
+    paranoid: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['user_id'],
+      },
+      {
+        fields: ['service_id', 'booking_date'],
+      },
+      {
+        fields: ['status'],
+      },
+      {
+        fields: ['stylist_id', 'booking_date'],
+      },
+    ],
+  }
+);
+
+export default Booking;
@@ -0,0 +1,70 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import {
+  BookingReminderAttributes,
+  BookingReminderCreationAttributes,
+  ReminderChannel,
+} from '../types';
+
+/**
+ * Booking reminder model class
+ * Rows are append-only: one per reminder sent for a booking
+ */
+class BookingReminder
+  extends Model<BookingReminderAttributes, BookingReminderCreationAttributes>
+  implements BookingReminderAttributes
+{
+  declare id: number;
+  declare bookingId: number;
+  declare channel: ReminderChannel;
+  declare offsetHours: number;
+  declare providerMessageId: string | null;
+  declare readonly createdAt: Date;
+}
+
+// Initialize BookingReminder model
+BookingReminder.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    bookingId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'booking_id',
+    },
+    channel: {
+      type: DataTypes.ENUM('sms'),
+      allowNull: false,
+      defaultValue: 'sms',
+    },
+    offsetHours: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'offset_hours',
+    },
+    providerMessageId: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'provider_message_id',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'booking_reminders',
+    modelName: 'BookingReminder',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['booking_id', 'channel', 'offset_hours'],
+      },
+    ],
+  }
+);
+
+export default BookingReminder;
@@ -0,0 +1,81 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import {
+  BookingActorRole,
+  BookingStatus,
+  BookingStatusHistoryAttributes,
+  BookingStatusHistoryCreationAttributes,
+} from '../types';
+
+/**
+ * Booking status history model class
+ * Rows are append-only: one per status transition of a booking
+ */
+class BookingStatusHistory
+  extends Model<BookingStatusHistoryAttributes, BookingStatusHistoryCreationAttributes>
+  implements BookingStatusHistoryAttributes
+{
+  declare id: number;
+  declare bookingId: number;
+  declare fromStatus?: BookingStatus | null;
+  declare toStatus: BookingStatus;
+  declare actorId?: number | null;
+  declare actorRole: BookingActorRole;
+  declare reason?: string | null;
+  declare readonly createdAt: Date;
+}
+
+// Initialize BookingStatusHistory model
+BookingStatusHistory.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    bookingId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'booking_id',
+    },
+    fromStatus: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      field: 'from_status',
+    },
+    toStatus: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      field: 'to_status',
+    },
+    actorId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'actor_id',
+    },
+    actorRole: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      field: 'actor_role',
+    },
+    reason: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'booking_status_history',
+    modelName: 'BookingStatusHistory',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['booking_id'],
+      },
+    ],
+  }
+);
+
+export default BookingStatusHistory;
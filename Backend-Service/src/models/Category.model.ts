@@ -0,0 +1,113 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { CategoryAttributes, CategoryCreationAttributes } from '../types';
+
+/**
+ * Category model class
+ * Categories can be nested through parentId (e.g. hair > coloring)
+ */
+class Category
+  extends Model<CategoryAttributes, CategoryCreationAttributes>
+  implements CategoryAttributes
+{
+  declare id: number;
+  declare name: string;
+  declare slug: string;
+  declare description?: string;
+  declare icon?: string;
+  declare parentId?: number | null;
+  declare displayOrder: number;
+  declare isActive: boolean;
+  declare isDeleted: boolean;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+  declare readonly deletedAt: Date | null;
+
+  /**
+   * Helper method to check if category is a root category
+   */
+  get isRoot(): boolean {
+    return !this.parentId;
+  }
+}
+
+// Initialize Category model
+Category.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    name: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      validate: {
+        notEmpty: {
+          msg: 'Category name cannot be empty',
+        },
+      },
+    },
+    slug: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      unique: true,
+      validate: {
+        is: {
+          args: /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+          msg: 'Slug may only contain lowercase letters, numbers and hyphens',
+        },
+      },
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    icon: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    parentId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'parent_id',
+    },
+    displayOrder: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      field: 'display_order',
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+      field: 'is_active',
+    },
+    isDeleted: {
+      type: DataTypes.VIRTUAL(DataTypes.BOOLEAN, ['deletedAt']),
+      get(): boolean {
+        return this.getDataValue('deletedAt') != null;
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'categories',
+    modelName: 'Category',
+    timestamps: true,
+    paranoid: true,
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['slug'],
+      },
+      {
+        fields: ['parent_id'],
+      },
+    ],
+  }
+);
+
+export default Category;
@@ -0,0 +1,84 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import {
+  DataErasureRequestAttributes,
+  DataErasureRequestCreationAttributes,
+  ErasureRequestStatus,
+} from '../types';
+
+/**
+ * Data erasure request model class
+ * Rows are never deleted: they record when erasure was requested and carried out
+ */
+class DataErasureRequest
+  extends Model<DataErasureRequestAttributes, DataErasureRequestCreationAttributes>
+  implements DataErasureRequestAttributes
+{
+  declare id: number;
+  declare userId: number;
+  declare status: ErasureRequestStatus;
+  declare requestedAt: Date;
+  declare scheduledFor: Date;
+  declare cancelledAt: Date | null;
+  declare completedAt: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize DataErasureRequest model
+DataErasureRequest.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    status: {
+      type: DataTypes.ENUM('pending', 'cancelled', 'completed'),
+      allowNull: false,
+      defaultValue: 'pending',
+    },
+    requestedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'requested_at',
+    },
+    scheduledFor: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'scheduled_for',
+    },
+    cancelledAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'cancelled_at',
+    },
+    completedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'completed_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'data_erasure_requests',
+    modelName: 'DataErasureRequest',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['user_id'],
+      },
+      {
+        fields: ['status', 'scheduled_for'],
+      },
+    ],
+  }
+);
+
+export default DataErasureRequest;
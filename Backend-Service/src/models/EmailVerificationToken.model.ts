@@ -0,0 +1,76 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import {
+  EmailVerificationTokenAttributes,
+  EmailVerificationTokenCreationAttributes,
+} from '../types';
+
+/**
+ * Email verification token model class
+ * Stores hashed, single-use tokens emailed to confirm a user's email address
+ */
+class EmailVerificationToken
+  extends Model<EmailVerificationTokenAttributes, EmailVerificationTokenCreationAttributes>
+  implements EmailVerificationTokenAttributes
+{
+  declare id: number;
+  declare userId: number;
+  declare tokenHash: string;
+  declare expiresAt: Date;
+  declare usedAt: Date | null;
+  declare readonly createdAt: Date;
+}
+
+// Initialize EmailVerificationToken model
+EmailVerificationToken.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      field: 'token_hash',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'expires_at',
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'used_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'email_verification_tokens',
+    modelName: 'EmailVerificationToken',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['token_hash'],
+      },
+      {
+        fields: ['user_id'],
+      },
+    ],
+  }
+);
+
+export default EmailVerificationToken;
@@ -0,0 +1,101 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { JobAttributes, JobCreationAttributes, JobPayload, JobStatus } from '../types';
+
+/**
+ * Background job model class
+ * Backs the Postgres job queue; rows are claimed with SKIP LOCKED so workers never share a job
+ */
+class Job extends Model<JobAttributes, JobCreationAttributes> implements JobAttributes {
+  declare id: string;
+  declare name: string;
+  declare payload: JobPayload;
+  declare status: JobStatus;
+  declare attempts: number;
+  declare maxAttempts: number;
+  declare runAt: Date;
+  declare lockedUntil: Date | null;
+  declare lastError: string | null;
+  declare uniqueKey: string | null;
+  declare completedAt: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize Job model
+Job.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    payload: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {},
+    },
+    status: {
+      type: DataTypes.ENUM('pending', 'running', 'completed', 'dead'),
+      allowNull: false,
+      defaultValue: 'pending',
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    maxAttempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'max_attempts',
+    },
+    runAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'run_at',
+    },
+    lockedUntil: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'locked_until',
+    },
+    lastError: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      field: 'last_error',
+    },
+    uniqueKey: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'unique_key',
+    },
+    completedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'completed_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'jobs',
+    modelName: 'Job',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['status', 'run_at'],
+      },
+      {
+        unique: true,
+        fields: ['unique_key'],
+      },
+    ],
+  }
+);
+
+export default Job;
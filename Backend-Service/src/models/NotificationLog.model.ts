@@ -0,0 +1,72 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import {
+  NotificationChannel,
+  NotificationLogAttributes,
+  NotificationLogCreationAttributes,
+} from '../types';
+
+/**
+ * Notification log model class
+ * Rows are append-only: one per email or text delivered to a user
+ */
+class NotificationLog
+  extends Model<NotificationLogAttributes, NotificationLogCreationAttributes>
+  implements NotificationLogAttributes
+{
+  declare id: number;
+  declare userId: number;
+  declare bookingId: number | null;
+  declare channel: NotificationChannel;
+  declare template: string;
+  declare recipient: string | null;
+  declare readonly createdAt: Date;
+}
+
+// Initialize NotificationLog model
+NotificationLog.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    bookingId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'booking_id',
+    },
+    channel: {
+      type: DataTypes.ENUM('email', 'sms'),
+      allowNull: false,
+    },
+    template: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+    },
+    recipient: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'notification_logs',
+    modelName: 'NotificationLog',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['user_id'],
+      },
+    ],
+  }
+);
+
+export default NotificationLog;
@@ -0,0 +1,70 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { DayOfWeek, OpeningHoursAttributes, OpeningHoursCreationAttributes } from '../types';
+
+/**
+ * Opening hours model class
+ * A weekday may have several rows to model split shifts (e.g. lunch break)
+ */
+class OpeningHours
+  extends Model<OpeningHoursAttributes, OpeningHoursCreationAttributes>
+  implements OpeningHoursAttributes
+{
+  declare id: number;
+  declare dayOfWeek: DayOfWeek;
+  declare openTime: string;
+  declare closeTime: string;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize OpeningHours model
+OpeningHours.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    dayOfWeek: {
+      type: DataTypes.SMALLINT,
+      allowNull: false,
+      field: 'day_of_week',
+      validate: {
+        min: 0,
+        max: 6,
+      },
+    },
+    openTime: {
+      type: DataTypes.TIME,
+      allowNull: false,
+      field: 'open_time',
+      get() {
+        // Postgres returns HH:mm:ss; the API works with HH:mm
+        return (this.getDataValue('openTime') as string)?.slice(0, 5);
+      },
+    },
+    closeTime: {
+      type: DataTypes.TIME,
+      allowNull: false,
+      field: 'close_time',
+      get() {
+        return (this.getDataValue('closeTime') as string)?.slice(0, 5);
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'opening_hours',
+    modelName: 'OpeningHours',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['day_of_week'],
+      },
+    ],
+  }
+);
+
+export default OpeningHours;
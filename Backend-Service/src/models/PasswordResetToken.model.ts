@@ -0,0 +1,73 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { PasswordResetTokenAttributes, PasswordResetTokenCreationAttributes } from '../types';
+
+/**
+ * Password reset token model class
+ * Stores hashed, single-use tokens emailed by the forgotten-password flow
+ */
+class PasswordResetToken
+  extends Model<PasswordResetTokenAttributes, PasswordResetTokenCreationAttributes>
+  implements PasswordResetTokenAttributes
+{
+  declare id: number;
+  declare userId: number;
+  declare tokenHash: string;
+  declare expiresAt: Date;
+  declare usedAt: Date | null;
+  declare readonly createdAt: Date;
+}
+
+// Initialize PasswordResetToken model
+PasswordResetToken.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      field: 'token_hash',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'expires_at',
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'used_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'password_reset_tokens',
+    modelName: 'PasswordResetToken',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['token_hash'],
+      },
+      {
+        fields: ['user_id'],
+      },
+    ],
+  }
+);
+
+export default PasswordResetToken;
@@ -0,0 +1,122 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import {
+  PaymentAttributes,
+  PaymentCreationAttributes,
+  PaymentProviderName,
+  PaymentStatus,
+} from '../types';
+
+/**
+ * Payment model class
+ */
+class Payment
+  extends Model<PaymentAttributes, PaymentCreationAttributes>
+  implements PaymentAttributes
+{
+  declare id: number;
+  declare bookingId: number;
+  declare userId: number;
+  declare provider: PaymentProviderName;
+  declare providerPaymentId: string;
+  declare amount: number;
+  declare currency: string;
+  declare status: PaymentStatus;
+  declare failureReason?: string | null;
+  declare paidAt?: Date | null;
+  declare refundedAmount: number;
+  declare isDeleted: boolean;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+  declare readonly deletedAt: Date | null;
+}
+
+// Initialize Payment model
+Payment.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    bookingId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'booking_id',
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    provider: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    providerPaymentId: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      field: 'provider_payment_id',
+    },
+    amount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: {
+          args: [0],
+          msg: 'Amount must be non-negative',
+        },
+      },
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM('pending', 'completed', 'failed', 'refunded'),
+      allowNull: false,
+      defaultValue: 'pending',
+    },
+    failureReason: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      field: 'failure_reason',
+    },
+    paidAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'paid_at',
+    },
+    refundedAmount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      field: 'refunded_amount',
+    },
+    isDeleted: {
+      type: DataTypes.VIRTUAL(DataTypes.BOOLEAN, ['deletedAt']),
+      get(): boolean {
+        return this.getDataValue('deletedAt') != null;
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'payments',
+    modelName: 'Payment',
+    timestamps: true,
+    paranoid: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['booking_id'],
+      },
+      {
+        unique: true,
+        fields: ['provider', 'provider_payment_id'],
+      },
+    ],
+  }
+);
+
+export default Payment;
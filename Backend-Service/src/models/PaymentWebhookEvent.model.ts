@@ -0,0 +1,126 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import {
+  PaymentProviderName,
+  PaymentStatus,
+  PaymentWebhookEventAttributes,
+  PaymentWebhookEventCreationAttributes,
+  RefundStatus,
+  WebhookEventStatus,
+} from '../types';
+
+/**
+ * Payment webhook event model class
+ * One row per provider event ID, which makes webhook deliveries idempotent
+ */
+class PaymentWebhookEvent
+  extends Model<PaymentWebhookEventAttributes, PaymentWebhookEventCreationAttributes>
+  implements PaymentWebhookEventAttributes
+{
+  declare id: number;
+  declare provider: PaymentProviderName;
+  declare eventId: string;
+  declare type: string;
+  declare providerPaymentId: string | null;
+  declare paymentStatus: PaymentStatus | null;
+  declare failureReason: string | null;
+  declare providerRefundId: string | null;
+  declare refundStatus: RefundStatus | null;
+  declare payload: Record<string, unknown>;
+  declare status: WebhookEventStatus;
+  declare error: string | null;
+  declare attempts: number;
+  declare processedAt: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize PaymentWebhookEvent model
+PaymentWebhookEvent.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    provider: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    eventId: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      field: 'event_id',
+    },
+    type: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    providerPaymentId: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'provider_payment_id',
+    },
+    paymentStatus: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      field: 'payment_status',
+    },
+    failureReason: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      field: 'failure_reason',
+    },
+    providerRefundId: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'provider_refund_id',
+    },
+    refundStatus: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      field: 'refund_status',
+    },
+    payload: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM('processed', 'ignored', 'failed'),
+      allowNull: false,
+      defaultValue: 'ignored',
+    },
+    error: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    processedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'processed_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'payment_webhook_events',
+    modelName: 'PaymentWebhookEvent',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['provider', 'event_id'],
+      },
+      {
+        fields: ['provider_payment_id'],
+      },
+    ],
+  }
+);
+
+export default PaymentWebhookEvent;
@@ -0,0 +1,98 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import {
+  RefreshTokenAttributes,
+  RefreshTokenCreationAttributes,
+  SessionRevocationReason,
+} from '../types';
+
+/**
+ * Refresh token model class
+ * Stores hashed refresh tokens so they can be rotated and revoked server-side
+ */
+class RefreshToken
+  extends Model<RefreshTokenAttributes, RefreshTokenCreationAttributes>
+  implements RefreshTokenAttributes
+{
+  declare id: number;
+  declare userId: number;
+  declare familyId: string;
+  declare tokenHash: string;
+  declare expiresAt: Date;
+  declare rotatedAt: Date | null;
+  declare revokedAt: Date | null;
+  declare revokedReason: SessionRevocationReason | null;
+  declare readonly createdAt: Date;
+}
+
+// Initialize RefreshToken model
+RefreshToken.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    familyId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      field: 'family_id',
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      field: 'token_hash',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'expires_at',
+    },
+    rotatedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'rotated_at',
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'revoked_at',
+    },
+    revokedReason: {
+      type: DataTypes.STRING(30),
+      allowNull: true,
+      field: 'revoked_reason',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'refresh_tokens',
+    modelName: 'RefreshToken',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['token_hash'],
+      },
+      {
+        fields: ['family_id'],
+      },
+      {
+        fields: ['user_id'],
+      },
+    ],
+  }
+);
+
+export default RefreshToken;
@@ -0,0 +1,100 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { RefundAttributes, RefundCreationAttributes, RefundStatus } from '../types';
+
+/**
+ * Refund model class
+ */
+class Refund extends Model<RefundAttributes, RefundCreationAttributes> implements RefundAttributes {
+  declare id: number;
+  declare paymentId: number;
+  declare bookingId: number;
+  declare providerRefundId: string | null;
+  declare amount: number;
+  declare currency: string;
+  declare status: RefundStatus;
+  declare reason: string;
+  declare failureReason: string | null;
+  declare initiatedBy: number | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize Refund model
+Refund.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    paymentId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'payment_id',
+    },
+    bookingId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'booking_id',
+    },
+    providerRefundId: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'provider_refund_id',
+    },
+    amount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: {
+          args: [1],
+          msg: 'Refund amount must be positive',
+        },
+      },
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM('pending', 'completed', 'failed'),
+      allowNull: false,
+      defaultValue: 'pending',
+    },
+    reason: {
+      type: DataTypes.STRING(500),
+      allowNull: false,
+    },
+    failureReason: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      field: 'failure_reason',
+    },
+    initiatedBy: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'initiated_by',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'refunds',
+    modelName: 'Refund',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['payment_id'],
+      },
+      {
+        fields: ['booking_id'],
+      },
+      {
+        fields: ['provider_refund_id'],
+      },
+    ],
+  }
+);
+
+export default Refund;
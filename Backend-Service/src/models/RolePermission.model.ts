@@ -0,0 +1,57 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import {
+  Permission,
+  RolePermissionAttributes,
+  RolePermissionCreationAttributes,
+  UserRole,
+} from '../types';
+
+/**
+ * Role permission model class
+ * Maps roles to named permissions; admins edit the mapping through the permissions API
+ */
+class RolePermission
+  extends Model<RolePermissionAttributes, RolePermissionCreationAttributes>
+  implements RolePermissionAttributes
+{
+  declare id: number;
+  declare role: UserRole;
+  declare permission: Permission;
+  declare readonly createdAt: Date;
+}
+
+// Initialize RolePermission model
+RolePermission.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    role: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    permission: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'role_permissions',
+    modelName: 'RolePermission',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['role', 'permission'],
+      },
+    ],
+  }
+);
+
+export default RolePermission;
@@ -0,0 +1,82 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { SalonClosureAttributes, SalonClosureCreationAttributes } from '../types';
+
+/**
+ * Salon closure model class (holidays, maintenance, private events)
+ */
+class SalonClosure
+  extends Model<SalonClosureAttributes, SalonClosureCreationAttributes>
+  implements SalonClosureAttributes
+{
+  declare id: number;
+  declare startDate: string;
+  declare endDate: string;
+  declare startTime?: string | null;
+  declare endTime?: string | null;
+  declare reason?: string;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  /**
+   * Helper method to check if the closure covers whole days
+   */
+  get isFullDay(): boolean {
+    return !this.startTime || !this.endTime;
+  }
+}
+
+// Initialize SalonClosure model
+SalonClosure.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    startDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+      field: 'start_date',
+    },
+    endDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+      field: 'end_date',
+    },
+    startTime: {
+      type: DataTypes.TIME,
+      allowNull: true,
+      field: 'start_time',
+      get() {
+        return (this.getDataValue('startTime') as string | null)?.slice(0, 5) ?? null;
+      },
+    },
+    endTime: {
+      type: DataTypes.TIME,
+      allowNull: true,
+      field: 'end_time',
+      get() {
+        return (this.getDataValue('endTime') as string | null)?.slice(0, 5) ?? null;
+      },
+    },
+    reason: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'salon_closures',
+    modelName: 'SalonClosure',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['start_date', 'end_date'],
+      },
+    ],
+  }
+);
+
+export default SalonClosure;
@@ -0,0 +1,188 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import {
+  LateCancellationAction,
+  ServiceAttributes,
+  ServiceCreationAttributes,
+  ServiceStatus,
+} from '../types';
+
+/**
+ * Service model class (salon service catalog entry)
+ */
+class Service
+  extends Model<ServiceAttributes, ServiceCreationAttributes>
+  implements ServiceAttributes
+{
+  declare id: number;
+  declare name: string;
+  declare description: string;
+  declare price: number;
+  declare duration: number;
+  declare category: string;
+  declare imageUrl?: string;
+  declare isPopular: boolean;
+  declare discount?: number;
+  declare status: ServiceStatus;
+  declare cancellationWindowHours?: number | null;
+  declare lateCancellationAction?: LateCancellationAction | null;
+  declare lateCancellationForfeitPercent?: number | null;
+  declare isDeleted: boolean;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+  declare readonly deletedAt: Date | null;
+
+  /**
+   * Price after applying the percentage discount (in cents)
+   */
+  get discountedPrice(): number {
+    if (!this.discount) {
+      return this.price;
+    }
+    return Math.round(this.price * (1 - this.discount / 100));
+  }
+
+  /**
+   * Helper method to check if the service can be booked
+   */
+  get isBookable(): boolean {
+    return this.status === 'active';
+  }
+}
+
+// Initialize Service model
+Service.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      validate: {
+        notEmpty: {
+          msg: 'Service name cannot be empty',
+        },
+        len: {
+          args: [2, 100],
+          msg: 'Service name must be between 2 and 100 characters',
+        },
+      },
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    price: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: {
+          args: [0],
+          msg: 'Price must be non-negative',
+        },
+      },
+    },
+    duration: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: {
+          args: [5],
+          msg: 'Duration must be at least 5 minutes',
+        },
+      },
+    },
+    category: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+    },
+    imageUrl: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      field: 'image_url',
+    },
+    isPopular: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+      field: 'is_popular',
+    },
+    discount: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: {
+        min: {
+          args: [0],
+          msg: 'Discount must be between 0 and 100',
+        },
+        max: {
+          args: [100],
+          msg: 'Discount must be between 0 and 100',
+        },
+      },
+    },
+    status: {
+      type: DataTypes.ENUM('active', 'inactive', 'archived'),
+      allowNull: false,
+      defaultValue: 'active',
+    },
+    cancellationWindowHours: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'cancellation_window_hours',
+      validate: {
+        min: {
+          args: [0],
+          msg: 'Cancellation window must be non-negative',
+        },
+      },
+    },
+    lateCancellationAction: {
+      type: DataTypes.ENUM('reject', 'forfeit'),
+      allowNull: true,
+      field: 'late_cancellation_action',
+    },
+    lateCancellationForfeitPercent: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'late_cancellation_forfeit_percent',
+      validate: {
+        min: {
+          args: [0],
+          msg: 'Forfeit percentage must be between 0 and 100',
+        },
+        max: {
+          args: [100],
+          msg: 'Forfeit percentage must be between 0 and 100',
+        },
+      },
+    },
+    isDeleted: {
+      type: DataTypes.VIRTUAL(DataTypes.BOOLEAN, ['deletedAt']),
+      get(): boolean {
+        return this.getDataValue('deletedAt') != null;
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'services',
+    modelName: 'Service',
+    timestamps: true,
+    paranoid: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['category'],
+      },
+      {
+        fields: ['status'],
+      },
+    ],
+  }
+);
+
+export default Service;
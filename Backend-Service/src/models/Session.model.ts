@@ -0,0 +1,93 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { SessionAttributes, SessionCreationAttributes, SessionRevocationReason } from '../types';
+
+/**
+ * Session model class
+ * One row per login, recording the device and IP it was made from
+ */
+class Session
+  extends Model<SessionAttributes, SessionCreationAttributes>
+  implements SessionAttributes
+{
+  declare id: string;
+  declare userId: number;
+  declare userAgent: string | null;
+  declare deviceName: string | null;
+  declare ipAddress: string | null;
+  declare lastUsedAt: Date;
+  declare expiresAt: Date;
+  declare revokedAt: Date | null;
+  declare revokedReason: SessionRevocationReason | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize Session model
+Session.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    userAgent: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      field: 'user_agent',
+    },
+    deviceName: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      field: 'device_name',
+    },
+    ipAddress: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+      field: 'ip_address',
+    },
+    lastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'last_used_at',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'expires_at',
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'revoked_at',
+    },
+    revokedReason: {
+      type: DataTypes.STRING(30),
+      allowNull: true,
+      field: 'revoked_reason',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'sessions',
+    modelName: 'Session',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['user_id'],
+      },
+    ],
+  }
+);
+
+export default Session;
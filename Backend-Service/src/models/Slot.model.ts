@@ -0,0 +1,80 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { SlotAttributes, SlotCreationAttributes } from '../types';
+
+/**
+ * Slot model class
+ * Rows are generated by the availability engine from opening hours and service duration
+ * Slots offered with a specific stylist carry their stylistId; others leave it empty
+ */
+class Slot extends Model<SlotAttributes, SlotCreationAttributes> implements SlotAttributes {
+  declare id: number;
+  declare serviceId: number;
+  declare stylistId: number | null;
+  declare date: string;
+  declare startTime: string;
+  declare endTime: string;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize Slot model
+Slot.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    serviceId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'service_id',
+    },
+    stylistId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'stylist_id',
+    },
+    date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    startTime: {
+      type: DataTypes.TIME,
+      allowNull: false,
+      field: 'start_time',
+      get() {
+        return (this.getDataValue('startTime') as string)?.slice(0, 5);
+      },
+    },
+    endTime: {
+      type: DataTypes.TIME,
+      allowNull: false,
+      field: 'end_time',
+      get() {
+        return (this.getDataValue('endTime') as string)?.slice(0, 5);
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'slots',
+    modelName: 'Slot',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['service_id', 'date', 'start_time'],
+        where: { stylist_id: null },
+      },
+      {
+        unique: true,
+        fields: ['service_id', 'stylist_id', 'date', 'start_time'],
+      },
+    ],
+  }
+);
+
+export default Slot;
@@ -0,0 +1,70 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { StylistAttributes, StylistCreationAttributes } from '../types';
+
+/**
+ * Stylist model class
+ * Profile of a staff member; customers can pick a stylist when booking
+ */
+class Stylist
+  extends Model<StylistAttributes, StylistCreationAttributes>
+  implements StylistAttributes
+{
+  declare id: number;
+  declare userId: number;
+  declare bio?: string | null;
+  declare photoUrl?: string | null;
+  declare isActive: boolean;
+  declare isDeleted: boolean;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+  declare readonly deletedAt: Date | null;
+}
+
+// Initialize Stylist model
+Stylist.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      unique: true,
+      field: 'user_id',
+    },
+    bio: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    photoUrl: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      field: 'photo_url',
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+      field: 'is_active',
+    },
+    isDeleted: {
+      type: DataTypes.VIRTUAL(DataTypes.BOOLEAN, ['deletedAt']),
+      get(): boolean {
+        return this.getDataValue('deletedAt') != null;
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'stylists',
+    modelName: 'Stylist',
+    timestamps: true,
+    paranoid: true,
+    underscored: true,
+  }
+);
+
+export default Stylist;
@@ -0,0 +1,74 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { DayOfWeek, StylistScheduleAttributes, StylistScheduleCreationAttributes } from '../types';
+
+/**
+ * Stylist schedule model class (weekly working hours)
+ */
+class StylistSchedule
+  extends Model<StylistScheduleAttributes, StylistScheduleCreationAttributes>
+  implements StylistScheduleAttributes
+{
+  declare id: number;
+  declare stylistId: number;
+  declare dayOfWeek: DayOfWeek;
+  declare startTime: string;
+  declare endTime: string;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize StylistSchedule model
+StylistSchedule.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    stylistId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'stylist_id',
+    },
+    dayOfWeek: {
+      type: DataTypes.SMALLINT,
+      allowNull: false,
+      field: 'day_of_week',
+      validate: {
+        min: 0,
+        max: 6,
+      },
+    },
+    startTime: {
+      type: DataTypes.TIME,
+      allowNull: false,
+      field: 'start_time',
+      get() {
+        return (this.getDataValue('startTime') as string)?.slice(0, 5);
+      },
+    },
+    endTime: {
+      type: DataTypes.TIME,
+      allowNull: false,
+      field: 'end_time',
+      get() {
+        return (this.getDataValue('endTime') as string)?.slice(0, 5);
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'stylist_schedules',
+    modelName: 'StylistSchedule',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['stylist_id', 'day_of_week'],
+      },
+    ],
+  }
+);
+
+export default StylistSchedule;
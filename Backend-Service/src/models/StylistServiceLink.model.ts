@@ -0,0 +1,47 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { StylistServiceLinkAttributes, StylistServiceLinkCreationAttributes } from '../types';
+
+/**
+ * Stylist service model class
+ * Join table between stylists and the services they can perform
+ */
+class StylistServiceLink
+  extends Model<StylistServiceLinkAttributes, StylistServiceLinkCreationAttributes>
+  implements StylistServiceLinkAttributes
+{
+  declare stylistId: number;
+  declare serviceId: number;
+  declare readonly createdAt: Date;
+}
+
+// Initialize StylistServiceLink model
+StylistServiceLink.init(
+  {
+    stylistId: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      field: 'stylist_id',
+    },
+    serviceId: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      field: 'service_id',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'stylist_services',
+    modelName: 'StylistServiceLink',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['service_id'],
+      },
+    ],
+  }
+);
+
+export default StylistServiceLink;
@@ -0,0 +1,88 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { StylistTimeOffAttributes, StylistTimeOffCreationAttributes } from '../types';
+
+/**
+ * Stylist time-off model class (holidays, sick leave, training)
+ */
+class StylistTimeOff
+  extends Model<StylistTimeOffAttributes, StylistTimeOffCreationAttributes>
+  implements StylistTimeOffAttributes
+{
+  declare id: number;
+  declare stylistId: number;
+  declare startDate: string;
+  declare endDate: string;
+  declare startTime?: string | null;
+  declare endTime?: string | null;
+  declare reason?: string;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  /**
+   * Helper method to check if the time-off covers whole days
+   */
+  get isFullDay(): boolean {
+    return !this.startTime || !this.endTime;
+  }
+}
+
+// Initialize StylistTimeOff model
+StylistTimeOff.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    stylistId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'stylist_id',
+    },
+    startDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+      field: 'start_date',
+    },
+    endDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+      field: 'end_date',
+    },
+    startTime: {
+      type: DataTypes.TIME,
+      allowNull: true,
+      field: 'start_time',
+      get() {
+        return (this.getDataValue('startTime') as string | null)?.slice(0, 5) ?? null;
+      },
+    },
+    endTime: {
+      type: DataTypes.TIME,
+      allowNull: true,
+      field: 'end_time',
+      get() {
+        return (this.getDataValue('endTime') as string | null)?.slice(0, 5) ?? null;
+      },
+    },
+    reason: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'stylist_time_off',
+    modelName: 'StylistTimeOff',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['stylist_id', 'start_date', 'end_date'],
+      },
+    ],
+  }
+);
+
+export default StylistTimeOff;
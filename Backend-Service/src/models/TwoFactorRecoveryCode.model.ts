@@ -0,0 +1,63 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { TwoFactorRecoveryCodeAttributes, TwoFactorRecoveryCodeCreationAttributes } from '../types';
+
+/**
+ * Two-factor recovery code model class
+ * Stores hashed single-use codes that replace a TOTP code when the authenticator is lost
+ */
+class TwoFactorRecoveryCode
+  extends Model<TwoFactorRecoveryCodeAttributes, TwoFactorRecoveryCodeCreationAttributes>
+  implements TwoFactorRecoveryCodeAttributes
+{
+  declare id: number;
+  declare userId: number;
+  declare codeHash: string;
+  declare usedAt: Date | null;
+  declare readonly createdAt: Date;
+}
+
+// Initialize TwoFactorRecoveryCode model
+TwoFactorRecoveryCode.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    codeHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      field: 'code_hash',
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'used_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'two_factor_recovery_codes',
+    modelName: 'TwoFactorRecoveryCode',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['user_id'],
+      },
+    ],
+  }
+);
+
+export default TwoFactorRecoveryCode;
@@ -13,12 +13,22 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
   declare password: string;
   declare firstName: string;
   declare lastName: string;
-  declare phone?: string;
-  declare role: 'customer' | 'admin';
+  declare phone?: string | null;
+  declare smsOptIn: boolean;
+  declare role: 'customer' | 'staff' | 'admin';
   declare isActive: boolean;
+  declare emailVerifiedAt: Date | null;
+  declare failedLoginAttempts: number;
+  declare lockedUntil: Date | null;
+  declare twoFactorSecret?: string | null;
+  declare twoFactorEnabledAt: Date | null;
+  declare twoFactorLastUsedStep?: number | null;
   declare lastLoginAt?: Date;
+  declare purgedAt: Date | null;
+  declare isDeleted: boolean;
   declare readonly createdAt: Date;
   declare readonly updatedAt: Date;
+  declare readonly deletedAt: Date | null;
 
   /**
    * Helper method to get user's full name
@@ -45,7 +55,12 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
    * Get user data without sensitive information
    */
   toSafeObject(): Omit<UserAttributes, 'password'> {
-    const { password: _password, ...safeUser } = this.toJSON();
+    const {
+      password: _password,
+      twoFactorSecret: _twoFactorSecret,
+      twoFactorLastUsedStep: _twoFactorLastUsedStep,
+      ...safeUser
+    } = this.toJSON();
     return safeUser;
   }
 }
@@ -116,14 +131,20 @@ User.init(
         },
       },
     },
+    smsOptIn: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+      field: 'sms_opt_in',
+    },
     role: {
-      type: DataTypes.ENUM('customer', 'admin'),
+      type: DataTypes.ENUM('customer', 'staff', 'admin'),
       allowNull: false,
       defaultValue: 'customer',
       validate: {
         isIn: {
-          args: [['customer', 'admin']],
-          msg: 'Role must be either customer or admin',
+          args: [['customer', 'staff', 'admin']],
+          msg: 'Role must be customer, staff or admin',
         },
       },
     },
@@ -133,17 +154,60 @@ User.init(
       defaultValue: true,
       field: 'is_active',
     },
+    emailVerifiedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'email_verified_at',
+    },
+    failedLoginAttempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      field: 'failed_login_attempts',
+    },
+    lockedUntil: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'locked_until',
+    },
+    twoFactorSecret: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      field: 'two_factor_secret',
+    },
+    twoFactorEnabledAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'two_factor_enabled_at',
+    },
+    twoFactorLastUsedStep: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'two_factor_last_used_step',
+    },
     lastLoginAt: {
       type: DataTypes.DATE,
       allowNull: true,
       field: 'last_login_at',
     },
+    purgedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'purged_at',
+    },
+    isDeleted: {
+      type: DataTypes.VIRTUAL(DataTypes.BOOLEAN, ['deletedAt']),
+      get(): boolean {
+        return this.getDataValue('deletedAt') != null;
+      },
+    },
   },
   {
     sequelize,
     tableName: 'users',
     modelName: 'User',
     timestamps: true,
+    paranoid: true,
     underscored: true,
     indexes: [
       {
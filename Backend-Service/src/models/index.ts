@@ -5,13 +5,90 @@
 
 import sequelize from '../config/database';
 import User from './User.model';
+import RefreshToken from './RefreshToken.model';
+import Session from './Session.model';
+import PasswordResetToken from './PasswordResetToken.model';
+import EmailVerificationToken from './EmailVerificationToken.model';
+import AccountLockout from './AccountLockout.model';
+import TwoFactorRecoveryCode from './TwoFactorRecoveryCode.model';
+import Service from './Service.model';
+import Category from './Category.model';
+import OpeningHours from './OpeningHours.model';
+import SalonClosure from './SalonClosure.model';
+import Slot from './Slot.model';
+import Booking from './Booking.model';
+import BookingStatusHistory from './BookingStatusHistory.model';
+import BookingReminder from './BookingReminder.model';
+import Payment from './Payment.model';
+import PaymentWebhookEvent from './PaymentWebhookEvent.model';
+import Refund from './Refund.model';
+import Job from './Job.model';
+import Stylist from './Stylist.model';
+import StylistServiceLink from './StylistServiceLink.model';
+import StylistSchedule from './StylistSchedule.model';
+import StylistTimeOff from './StylistTimeOff.model';
+import RolePermission from './RolePermission.model';
+import DataErasureRequest from './DataErasureRequest.model';
+import NotificationLog from './NotificationLog.model';
 
 // Export individual models
-export { User };
+export {
+  User,
+  RefreshToken,
+  Session,
+  PasswordResetToken,
+  EmailVerificationToken,
+  AccountLockout,
+  TwoFactorRecoveryCode,
+  Service,
+  Category,
+  OpeningHours,
+  SalonClosure,
+  Slot,
+  Booking,
+  BookingStatusHistory,
+  BookingReminder,
+  Payment,
+  PaymentWebhookEvent,
+  Refund,
+  Job,
+  Stylist,
+  StylistServiceLink,
+  StylistSchedule,
+  StylistTimeOff,
+  RolePermission,
+  DataErasureRequest,
+  NotificationLog,
+};
 
 // Object containing all models (useful for dynamic access)
 const models = {
   User,
+  RefreshToken,
+  Session,
+  PasswordResetToken,
+  EmailVerificationToken,
+  AccountLockout,
+  TwoFactorRecoveryCode,
+  Service,
+  Category,
+  OpeningHours,
+  SalonClosure,
+  Slot,
+  Booking,
+  BookingStatusHistory,
+  BookingReminder,
+  Payment,
+  PaymentWebhookEvent,
+  Refund,
+  Job,
+  Stylist,
+  StylistServiceLink,
+  StylistSchedule,
+  StylistTimeOff,
+  RolePermission,
+  DataErasureRequest,
+  NotificationLog,
 };
 
 /**
@@ -19,10 +96,82 @@ const models = {
  * This function should be called after all models are defined
  */
 export const setupAssociations = () => {
-  // User associations will be defined here as we add more models
-  // Example:
-  // User.hasMany(Booking, { foreignKey: 'userId', as: 'bookings' });
-  // Booking.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+  // User associations
+  User.hasMany(Booking, { foreignKey: 'userId', as: 'bookings' });
+  Booking.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+  User.hasMany(RefreshToken, { foreignKey: 'userId', as: 'refreshTokens' });
+  RefreshToken.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+  User.hasMany(Session, { foreignKey: 'userId', as: 'sessions' });
+  Session.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+  Session.hasMany(RefreshToken, { foreignKey: 'familyId', as: 'refreshTokens' });
+  RefreshToken.belongsTo(Session, { foreignKey: 'familyId', as: 'session' });
+  User.hasMany(PasswordResetToken, { foreignKey: 'userId', as: 'passwordResetTokens' });
+  PasswordResetToken.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+  User.hasMany(EmailVerificationToken, { foreignKey: 'userId', as: 'emailVerificationTokens' });
+  EmailVerificationToken.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+  User.hasMany(AccountLockout, { foreignKey: 'userId', as: 'lockouts' });
+  AccountLockout.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+  User.hasMany(TwoFactorRecoveryCode, { foreignKey: 'userId', as: 'recoveryCodes' });
+  TwoFactorRecoveryCode.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+  // Service catalog associations
+  Service.hasMany(Booking, { foreignKey: 'serviceId', as: 'bookings' });
+  Booking.belongsTo(Service, { foreignKey: 'serviceId', as: 'service' });
+
+  // Slot associations
+  Slot.hasMany(Booking, { foreignKey: 'slotId', as: 'bookings' });
+  Booking.belongsTo(Slot, { foreignKey: 'slotId', as: 'slot' });
+
+  // Booking status history associations
+  Booking.hasMany(BookingStatusHistory, { foreignKey: 'bookingId', as: 'statusHistory' });
+  BookingStatusHistory.belongsTo(Booking, { foreignKey: 'bookingId', as: 'booking' });
+  BookingStatusHistory.belongsTo(User, { foreignKey: 'actorId', as: 'actor' });
+
+  // Booking reminder associations
+  Booking.hasMany(BookingReminder, { foreignKey: 'bookingId', as: 'reminders' });
+  BookingReminder.belongsTo(Booking, { foreignKey: 'bookingId', as: 'booking' });
+
+  // Payment associations
+  Booking.hasMany(Payment, { foreignKey: 'bookingId', as: 'payments' });
+  Payment.belongsTo(Booking, { foreignKey: 'bookingId', as: 'booking' });
+  User.hasMany(Payment, { foreignKey: 'userId', as: 'payments' });
+  Payment.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+  // Stylist associations
+  User.hasOne(Stylist, { foreignKey: 'userId', as: 'stylist' });
+  Stylist.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+  Stylist.belongsToMany(Service, {
+    through: StylistServiceLink,
+    foreignKey: 'stylistId',
+    otherKey: 'serviceId',
+    as: 'services',
+  });
+  Service.belongsToMany(Stylist, {
+    through: StylistServiceLink,
+    foreignKey: 'serviceId',
+    otherKey: 'stylistId',
+    as: 'stylists',
+  });
+  Stylist.hasMany(StylistSchedule, { foreignKey: 'stylistId', as: 'schedule' });
+  StylistSchedule.belongsTo(Stylist, { foreignKey: 'stylistId', as: 'stylist' });
+  Stylist.hasMany(StylistTimeOff, { foreignKey: 'stylistId', as: 'timeOff' });
+  StylistTimeOff.belongsTo(Stylist, { foreignKey: 'stylistId', as: 'stylist' });
+  Stylist.hasMany(Slot, { foreignKey: 'stylistId', as: 'slots' });
+  Slot.belongsTo(Stylist, { foreignKey: 'stylistId', as: 'stylist' });
+  Stylist.hasMany(Booking, { foreignKey: 'stylistId', as: 'bookings' });
+  Booking.belongsTo(Stylist, { foreignKey: 'stylistId', as: 'stylist' });
+
+  // Payment <-> Refund associations
+  Payment.hasMany(Refund, { foreignKey: 'paymentId', as: 'refunds' });
+  Refund.belongsTo(Payment, { foreignKey: 'paymentId', as: 'payment' });
+
+  // User <-> DataErasureRequest associations
+  User.hasMany(DataErasureRequest, { foreignKey: 'userId', as: 'erasureRequests' });
+  DataErasureRequest.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+  // User <-> NotificationLog associations
+  User.hasMany(NotificationLog, { foreignKey: 'userId', as: 'notifications' });
+  NotificationLog.belongsTo(User, { foreignKey: 'userId', as: 'user' });
 };
 
 // Initialize associations
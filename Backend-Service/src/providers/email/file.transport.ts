@@ -0,0 +1,26 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { EmailMessage, EmailTransport } from '../../types';
+
+/**
+ * Email transport writing each message to a JSON file instead of sending it (local testing)
+ */
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file' as const;
+  private sequence = 0;
+
+  constructor(private readonly outputDir: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await mkdir(this.outputDir, { recursive: true });
+
+    this.sequence += 1;
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${Date.now()}-${this.sequence}-${recipient}.json`;
+
+    await writeFile(
+      path.join(this.outputDir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
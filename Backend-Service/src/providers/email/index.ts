@@ -0,0 +1,26 @@
+import config from '../../config/environment';
+import { EmailTransport } from '../../types';
+import { FileEmailTransport } from './file.transport';
+import { MemoryEmailTransport } from './memory.transport';
+import { SmtpEmailTransport } from './smtp.transport';
+
+/**
+ * Create the email transport selected by config.email.transport
+ */
+export const createEmailTransport = (): EmailTransport => {
+  switch (config.email.transport) {
+    case 'smtp':
+      return new SmtpEmailTransport(config.email);
+    case 'file':
+      return new FileEmailTransport(config.email.outputDir);
+    case 'memory':
+      return new MemoryEmailTransport();
+    default:
+      throw new Error(`Unsupported email transport: ${config.email.transport}`);
+  }
+};
+
+export { SmtpEmailTransport, FileEmailTransport, MemoryEmailTransport };
+
+// Export singleton instance
+export const emailTransport = createEmailTransport();
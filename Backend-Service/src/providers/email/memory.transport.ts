@@ -0,0 +1,20 @@
+import { EmailMessage, EmailTransport } from '../../types';
+
+/**
+ * Email transport keeping messages in memory (tests)
+ */
+export class MemoryEmailTransport implements EmailTransport {
+  readonly name = 'memory' as const;
+  readonly sent: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+
+  /**
+   * Forget every sent message
+   */
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
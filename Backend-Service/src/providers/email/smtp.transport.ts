@@ -0,0 +1,49 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { EmailMessage, EmailTransport } from '../../types';
+
+/**
+ * SMTP settings (see config.email)
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  password: string;
+}
+
+/**
+ * Email transport delivering through an SMTP server
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp' as const;
+  private transporter: Transporter | null = null;
+
+  constructor(private readonly smtpConfig: SmtpConfig) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.getTransporter().sendMail(message);
+  }
+
+  /**
+   * Create the SMTP connection pool on first use so the app can start without a mail server
+   */
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      this.transporter = nodemailer.createTransport({
+        host: this.smtpConfig.host,
+        port: this.smtpConfig.port,
+        secure: this.smtpConfig.secure,
+        pool: true,
+        ...(this.smtpConfig.user && {
+          auth: {
+            user: this.smtpConfig.user,
+            pass: this.smtpConfig.password,
+          },
+        }),
+      });
+    }
+
+    return this.transporter;
+  }
+}
@@ -0,0 +1,23 @@
+import config from '../../config/environment';
+import { getRedisClient } from '../../config/redis';
+import { JobQueueStore } from '../../types';
+import { MemoryJobQueueStore } from './memory.store';
+import { PostgresJobQueueStore } from './postgres.store';
+import { RedisJobQueueStore } from './redis.store';
+
+/**
+ * Create the job queue store for the current configuration
+ * Postgres is the default; Redis is used when configured
+ */
+export const createJobQueueStore = (): JobQueueStore => {
+  if (config.redis) {
+    return new RedisJobQueueStore(getRedisClient());
+  }
+
+  return new PostgresJobQueueStore();
+};
+
+export { MemoryJobQueueStore, PostgresJobQueueStore, RedisJobQueueStore };
+
+// Export singleton instance
+export const jobQueueStore = createJobQueueStore();
@@ -0,0 +1,125 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JobAttributes, JobCreationAttributes, JobQueryFilters, JobQueueStore } from '../../types';
+
+/**
+ * In-memory job queue store
+ * Used in tests; jobs are lost on restart, so it is never selected by configuration
+ */
+export class MemoryJobQueueStore implements JobQueueStore {
+  private readonly jobs = new Map<string, JobAttributes>();
+
+  async enqueue(job: JobCreationAttributes): Promise<JobAttributes | null> {
+    const uniqueKey = job.uniqueKey || null;
+
+    if (
+      uniqueKey &&
+      Array.from(this.jobs.values()).some((entry) => entry.uniqueKey === uniqueKey)
+    ) {
+      return null;
+    }
+
+    const created: JobAttributes = {
+      id: job.id || uuidv4(),
+      name: job.name,
+      payload: job.payload || {},
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: job.maxAttempts,
+      runAt: job.runAt,
+      lockedUntil: null,
+      lastError: null,
+      uniqueKey,
+      completedAt: null,
+    };
+
+    this.jobs.set(created.id, created);
+
+    return { ...created };
+  }
+
+  async claim(limit: number, leaseMs: number, now: Date): Promise<JobAttributes[]> {
+    const due = Array.from(this.jobs.values())
+      .filter(
+        (job) =>
+          (job.status === 'pending' && job.runAt <= now) ||
+          (job.status === 'running' && job.lockedUntil !== null && job.lockedUntil <= now)
+      )
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, limit);
+
+    return due.map((job) => {
+      Object.assign(job, {
+        status: 'running',
+        attempts: job.attempts + 1,
+        lockedUntil: new Date(now.getTime() + leaseMs),
+      });
+      return { ...job };
+    });
+  }
+
+  async complete(jobId: string, now: Date): Promise<void> {
+    this.patch(jobId, { status: 'completed', lockedUntil: null, completedAt: now });
+  }
+
+  async fail(jobId: string, error: string, retryAt: Date | null): Promise<void> {
+    this.patch(
+      jobId,
+      retryAt
+        ? { status: 'pending', lockedUntil: null, lastError: error, runAt: retryAt }
+        : { status: 'dead', lockedUntil: null, lastError: error }
+    );
+  }
+
+  async find(jobId: string): Promise<JobAttributes | null> {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : null;
+  }
+
+  async list(filters: JobQueryFilters): Promise<{ jobs: JobAttributes[]; total: number }> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 10;
+
+    const jobs = Array.from(this.jobs.values())
+      .filter((job) => !filters.status || job.status === filters.status)
+      .filter((job) => !filters.name || job.name === filters.name)
+      .sort((a, b) => b.runAt.getTime() - a.runAt.getTime());
+
+    return {
+      jobs: jobs.slice((page - 1) * limit, page * limit).map((job) => ({ ...job })),
+      total: jobs.length,
+    };
+  }
+
+  async retry(jobId: string, now: Date): Promise<JobAttributes | null> {
+    const job = this.jobs.get(jobId);
+
+    if (!job || job.status !== 'dead') {
+      return null;
+    }
+
+    this.patch(jobId, { status: 'pending', attempts: 0, runAt: now, lockedUntil: null });
+
+    return { ...job };
+  }
+
+  async purgeCompleted(before: Date): Promise<number> {
+    let purged = 0;
+
+    this.jobs.forEach((job, jobId) => {
+      if (job.status === 'completed' && job.completedAt && job.completedAt < before) {
+        this.jobs.delete(jobId);
+        purged++;
+      }
+    });
+
+    return purged;
+  }
+
+  private patch(jobId: string, changes: Partial<JobAttributes>): void {
+    const job = this.jobs.get(jobId);
+
+    if (job) {
+      Object.assign(job, changes);
+    }
+  }
+}
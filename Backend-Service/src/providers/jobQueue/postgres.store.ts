@@ -0,0 +1,113 @@
+import { Op, Transaction, UniqueConstraintError } from 'sequelize';
+import sequelize from '../../config/database';
+import Job from '../../models/Job.model';
+import { JobAttributes, JobCreationAttributes, JobQueryFilters, JobQueueStore } from '../../types';
+
+/**
+ * Postgres job queue store (default)
+ * Due rows are claimed with FOR UPDATE SKIP LOCKED so concurrent workers never pick the same job
+ */
+export class PostgresJobQueueStore implements JobQueueStore {
+  constructor(private readonly jobModel: typeof Job = Job) {}
+
+  async enqueue(job: JobCreationAttributes): Promise<JobAttributes | null> {
+    try {
+      const created = await this.jobModel.create(job);
+      return created.toJSON();
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async claim(limit: number, leaseMs: number, now: Date): Promise<JobAttributes[]> {
+    return sequelize.transaction(async (transaction) => {
+      const jobs = await this.jobModel.findAll({
+        where: {
+          [Op.or]: [
+            { status: 'pending', runAt: { [Op.lte]: now } },
+            { status: 'running', lockedUntil: { [Op.lte]: now } },
+          ],
+        },
+        order: [['runAt', 'ASC']],
+        limit,
+        lock: Transaction.LOCK.UPDATE,
+        skipLocked: true,
+        transaction,
+      });
+
+      const lockedUntil = new Date(now.getTime() + leaseMs);
+
+      for (const job of jobs) {
+        await job.update(
+          { status: 'running', attempts: job.attempts + 1, lockedUntil },
+          { transaction }
+        );
+      }
+
+      return jobs.map((job) => job.toJSON());
+    });
+  }
+
+  async complete(jobId: string, now: Date): Promise<void> {
+    await this.jobModel.update(
+      { status: 'completed', lockedUntil: null, completedAt: now },
+      { where: { id: jobId } }
+    );
+  }
+
+  async fail(jobId: string, error: string, retryAt: Date | null): Promise<void> {
+    await this.jobModel.update(
+      retryAt
+        ? { status: 'pending', lockedUntil: null, lastError: error, runAt: retryAt }
+        : { status: 'dead', lockedUntil: null, lastError: error },
+      { where: { id: jobId } }
+    );
+  }
+
+  async find(jobId: string): Promise<JobAttributes | null> {
+    const job = await this.jobModel.findByPk(jobId);
+    return job ? job.toJSON() : null;
+  }
+
+  async list(filters: JobQueryFilters): Promise<{ jobs: JobAttributes[]; total: number }> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 10;
+
+    const where: Record<string, unknown> = {};
+
+    if (filters.name) {
+      where.name = filters.name;
+    }
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    const { count, rows } = await this.jobModel.findAndCountAll({
+      where,
+      limit,
+      offset: (page - 1) * limit,
+      order: [['runAt', 'DESC']],
+    });
+
+    return { jobs: rows.map((job) => job.toJSON()), total: count };
+  }
+
+  async retry(jobId: string, now: Date): Promise<JobAttributes | null> {
+    const [updated] = await this.jobModel.update(
+      { status: 'pending', attempts: 0, runAt: now, lockedUntil: null },
+      { where: { id: jobId, status: 'dead' } }
+    );
+
+    return updated === 0 ? null : this.find(jobId);
+  }
+
+  async purgeCompleted(before: Date): Promise<number> {
+    return this.jobModel.destroy({
+      where: { status: 'completed', completedAt: { [Op.lt]: before } },
+    });
+  }
+}
@@ -0,0 +1,275 @@
+import Redis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  JobAttributes,
+  JobCreationAttributes,
+  JobPayload,
+  JobQueryFilters,
+  JobQueueStore,
+  JobStatus,
+} from '../../types';
+
+const KEY_PREFIX = 'jobs:';
+const JOB_KEY_PREFIX = `${KEY_PREFIX}job:`;
+const UNIQUE_KEY_PREFIX = `${KEY_PREFIX}unique:`;
+const STATUSES: JobStatus[] = ['pending', 'running', 'completed', 'dead'];
+
+/**
+ * Job as stored in Redis: timestamps are epoch milliseconds so Lua scripts can compare them
+ */
+interface StoredJob {
+  id: string;
+  name: string;
+  payload: JobPayload;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: number;
+  lockedUntil: number | null;
+  lastError: string | null;
+  uniqueKey: string | null;
+  completedAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Reserve the unique key (if any) and add the job to the pending set
+const ENQUEUE_SCRIPT = `
+if ARGV[3] ~= '' and redis.call('SET', ARGV[3], ARGV[1], 'NX') == false then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2])
+redis.call('ZADD', KEYS[2], ARGV[4], ARGV[1])
+return 1
+`;
+
+// Move due pending jobs and running jobs with an expired lease to the running set
+const CLAIM_SCRIPT = `
+local now = tonumber(ARGV[1])
+local limit = tonumber(ARGV[2])
+local ids = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', now, 'LIMIT', 0, limit)
+if #ids < limit then
+  local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', now, 'LIMIT', 0, limit - #ids)
+  for _, id in ipairs(due) do
+    table.insert(ids, id)
+  end
+end
+local claimed = {}
+for _, id in ipairs(ids) do
+  redis.call('ZREM', KEYS[1], id)
+  local raw = redis.call('GET', ARGV[4] .. id)
+  if raw then
+    local job = cjson.decode(raw)
+    job.status = 'running'
+    job.attempts = job.attempts + 1
+    job.lockedUntil = tonumber(ARGV[3])
+    job.updatedAt = now
+    local encoded = cjson.encode(job)
+    redis.call('SET', ARGV[4] .. id, encoded)
+    redis.call('ZADD', KEYS[2], ARGV[3], id)
+    table.insert(claimed, encoded)
+  else
+    redis.call('ZREM', KEYS[2], id)
+  end
+end
+return claimed
+`;
+
+/**
+ * Redis job queue store
+ * Jobs are JSON strings indexed by one sorted set per status, scored by their next relevant time
+ */
+export class RedisJobQueueStore implements JobQueueStore {
+  constructor(private readonly redis: Redis) {}
+
+  async enqueue(job: JobCreationAttributes): Promise<JobAttributes | null> {
+    const now = Date.now();
+    const stored: StoredJob = {
+      id: job.id || uuidv4(),
+      name: job.name,
+      payload: job.payload || {},
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: job.maxAttempts,
+      runAt: job.runAt.getTime(),
+      lockedUntil: null,
+      lastError: null,
+      uniqueKey: job.uniqueKey || null,
+      completedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const added = await this.redis.eval(
+      ENQUEUE_SCRIPT,
+      2,
+      this.jobKey(stored.id),
+      this.statusKey('pending'),
+      stored.id,
+      JSON.stringify(stored),
+      stored.uniqueKey ? `${UNIQUE_KEY_PREFIX}${stored.uniqueKey}` : '',
+      String(stored.runAt)
+    );
+
+    return added === 1 ? this.toAttributes(stored) : null;
+  }
+
+  async claim(limit: number, leaseMs: number, now: Date): Promise<JobAttributes[]> {
+    const claimed = (await this.redis.eval(
+      CLAIM_SCRIPT,
+      2,
+      this.statusKey('pending'),
+      this.statusKey('running'),
+      String(now.getTime()),
+      String(limit),
+      String(now.getTime() + leaseMs),
+      JOB_KEY_PREFIX
+    )) as string[];
+
+    return claimed.map((raw) => this.toAttributes(JSON.parse(raw) as StoredJob));
+  }
+
+  async complete(jobId: string, now: Date): Promise<void> {
+    await this.update(jobId, (job) => ({
+      ...job,
+      status: 'completed',
+      lockedUntil: null,
+      completedAt: now.getTime(),
+    }));
+  }
+
+  async fail(jobId: string, error: string, retryAt: Date | null): Promise<void> {
+    await this.update(jobId, (job) => ({
+      ...job,
+      status: retryAt ? 'pending' : 'dead',
+      lockedUntil: null,
+      lastError: error,
+      runAt: retryAt ? retryAt.getTime() : job.runAt,
+    }));
+  }
+
+  async find(jobId: string): Promise<JobAttributes | null> {
+    const job = await this.load(jobId);
+    return job ? this.toAttributes(job) : null;
+  }
+
+  async list(filters: JobQueryFilters): Promise<{ jobs: JobAttributes[]; total: number }> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 10;
+    const statuses = filters.status ? [filters.status] : STATUSES;
+
+    const ids = (
+      await Promise.all(statuses.map((status) => this.redis.zrange(this.statusKey(status), 0, -1)))
+    ).flat();
+
+    const raw = ids.length > 0 ? await this.redis.mget(ids.map((id) => this.jobKey(id))) : [];
+
+    const jobs = raw
+      .filter((entry): entry is string => entry !== null)
+      .map((entry) => JSON.parse(entry) as StoredJob)
+      .filter((job) => !filters.name || job.name === filters.name)
+      .sort((a, b) => b.runAt - a.runAt);
+
+    return {
+      jobs: jobs.slice((page - 1) * limit, page * limit).map((job) => this.toAttributes(job)),
+      total: jobs.length,
+    };
+  }
+
+  async retry(jobId: string, now: Date): Promise<JobAttributes | null> {
+    const job = await this.load(jobId);
+
+    if (!job || job.status !== 'dead') {
+      return null;
+    }
+
+    const updated = await this.update(jobId, (current) => ({
+      ...current,
+      status: 'pending',
+      attempts: 0,
+      runAt: now.getTime(),
+      lockedUntil: null,
+    }));
+
+    return updated ? this.toAttributes(updated) : null;
+  }
+
+  async purgeCompleted(before: Date): Promise<number> {
+    const ids = await this.redis.zrangebyscore(
+      this.statusKey('completed'),
+      '-inf',
+      `(${before.getTime()}`
+    );
+
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    const raw = await this.redis.mget(ids.map((id) => this.jobKey(id)));
+    const uniqueKeys = raw
+      .filter((entry): entry is string => entry !== null)
+      .map((entry) => (JSON.parse(entry) as StoredJob).uniqueKey)
+      .filter((key): key is string => key !== null)
+      .map((key) => `${UNIQUE_KEY_PREFIX}${key}`);
+
+    await this.redis
+      .multi()
+      .zrem(this.statusKey('completed'), ...ids)
+      .del(...ids.map((id) => this.jobKey(id)), ...uniqueKeys)
+      .exec();
+
+    return ids.length;
+  }
+
+  /**
+   * Apply a change to a job and move it to the sorted set of its new status
+   */
+  private async update(
+    jobId: string,
+    change: (job: StoredJob) => StoredJob
+  ): Promise<StoredJob | null> {
+    const job = await this.load(jobId);
+
+    if (!job) {
+      return null;
+    }
+
+    const updated = { ...change(job), updatedAt: Date.now() };
+    const score = {
+      pending: updated.runAt,
+      running: updated.lockedUntil || updated.runAt,
+      completed: updated.completedAt || updated.updatedAt,
+      dead: updated.updatedAt,
+    }[updated.status];
+
+    const transaction = this.redis.multi().set(this.jobKey(jobId), JSON.stringify(updated));
+    STATUSES.forEach((status) => transaction.zrem(this.statusKey(status), jobId));
+    await transaction.zadd(this.statusKey(updated.status), score, jobId).exec();
+
+    return updated;
+  }
+
+  private async load(jobId: string): Promise<StoredJob | null> {
+    const raw = await this.redis.get(this.jobKey(jobId));
+    return raw ? (JSON.parse(raw) as StoredJob) : null;
+  }
+
+  private toAttributes(job: StoredJob): JobAttributes {
+    return {
+      ...job,
+      runAt: new Date(job.runAt),
+      lockedUntil: job.lockedUntil === null ? null : new Date(job.lockedUntil),
+      completedAt: job.completedAt === null ? null : new Date(job.completedAt),
+      createdAt: new Date(job.createdAt),
+      updatedAt: new Date(job.updatedAt),
+    };
+  }
+
+  private jobKey(jobId: string): string {
+    return `${JOB_KEY_PREFIX}${jobId}`;
+  }
+
+  private statusKey(status: JobStatus): string {
+    return `${KEY_PREFIX}${status}`;
+  }
+}
@@ -0,0 +1,162 @@
+import { BadRequestError } from '../../utils/errors';
+import {
+  CreatePaymentIntentParams,
+  PaymentProvider,
+  PaymentStatus,
+  ProviderPaymentIntent,
+  ProviderPaymentStatus,
+  ProviderRefund,
+  ProviderWebhookEvent,
+  RefundPaymentParams,
+  WebhookHeaders,
+} from '../../types';
+import {
+  computeHmacSignature,
+  getHeader,
+  isValidHmacSignature,
+  parseWebhookBody,
+} from './webhook.utils';
+
+/**
+ * Header carrying the HMAC-SHA256 signature of fake webhooks
+ */
+export const FAKE_WEBHOOK_SIGNATURE_HEADER = 'x-fake-signature';
+
+/**
+ * Local payment provider for development and tests
+ * Payments succeed on the first status check unless a test sets another status
+ *
+ * Webhooks are JSON bodies like
+ * { "id": "evt_1", "type": "payment.completed", "data": { "providerPaymentId": "fake_pi_..." } }
+ * or { "id": "evt_2", "type": "refund.completed", "data": { "providerRefundId": "fake_re_..." } }
+ * signed with signWebhookPayload()
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake' as const;
+  readonly publishableKey = 'pk_fake';
+  private readonly payments = new Map<string, ProviderPaymentStatus>();
+  private sequence = 0;
+
+  /**
+   * Make refunds fail (tests)
+   */
+  failRefunds = false;
+
+  /**
+   * Leave refunds pending until a refund webhook settles them (tests)
+   */
+  delayRefunds = false;
+
+  constructor(private readonly webhookSecret: string = 'whsec_fake') {}
+
+  async createPaymentIntent(_params: CreatePaymentIntentParams): Promise<ProviderPaymentIntent> {
+    this.sequence += 1;
+    const providerPaymentId = `fake_pi_${Date.now()}_${this.sequence}`;
+
+    this.payments.set(providerPaymentId, { status: 'pending' });
+
+    return {
+      providerPaymentId,
+      clientSecret: `${providerPaymentId}_secret`,
+      status: 'pending',
+    };
+  }
+
+  async getPaymentStatus(providerPaymentId: string): Promise<ProviderPaymentStatus> {
+    const payment = this.payments.get(providerPaymentId);
+
+    if (!payment) {
+      return { status: 'failed', failureReason: 'Unknown payment' };
+    }
+
+    // Simulate a customer who pays straight away
+    if (payment.status === 'pending') {
+      payment.status = 'completed';
+    }
+
+    return { ...payment };
+  }
+
+  async getPaymentIntent(providerPaymentId: string): Promise<ProviderPaymentIntent> {
+    const payment = this.payments.get(providerPaymentId);
+
+    return {
+      providerPaymentId,
+      clientSecret: `${providerPaymentId}_secret`,
+      status: payment ? payment.status : 'failed',
+    };
+  }
+
+  async refundPayment(_params: RefundPaymentParams): Promise<ProviderRefund> {
+    this.sequence += 1;
+    const providerRefundId = `fake_re_${Date.now()}_${this.sequence}`;
+
+    if (this.failRefunds) {
+      return { providerRefundId, status: 'failed', failureReason: 'Refund declined' };
+    }
+
+    return { providerRefundId, status: this.delayRefunds ? 'pending' : 'completed' };
+  }
+
+  constructWebhookEvent(rawBody: Buffer, headers: WebhookHeaders): ProviderWebhookEvent {
+    const signature = getHeader(headers, FAKE_WEBHOOK_SIGNATURE_HEADER);
+
+    if (!isValidHmacSignature(rawBody, signature, this.webhookSecret)) {
+      throw new BadRequestError('Invalid webhook signature');
+    }
+
+    const payload = parseWebhookBody(rawBody);
+    const data = (payload.data || {}) as {
+      providerPaymentId?: string;
+      providerRefundId?: string;
+      failureReason?: string;
+    };
+
+    if (typeof payload.id !== 'string' || typeof payload.type !== 'string') {
+      throw new BadRequestError('Invalid webhook payload');
+    }
+
+    let outcome: ProviderPaymentStatus | null = null;
+
+    if (payload.type === 'payment.completed') {
+      outcome = { status: 'completed' };
+    } else if (payload.type === 'payment.failed') {
+      outcome = { status: 'failed', failureReason: data.failureReason };
+    }
+
+    let refund: ProviderRefund | null = null;
+
+    if (data.providerRefundId && payload.type === 'refund.completed') {
+      refund = { providerRefundId: data.providerRefundId, status: 'completed' };
+    } else if (data.providerRefundId && payload.type === 'refund.failed') {
+      refund = {
+        providerRefundId: data.providerRefundId,
+        status: 'failed',
+        failureReason: data.failureReason,
+      };
+    }
+
+    return {
+      eventId: payload.id,
+      type: payload.type,
+      providerPaymentId: data.providerPaymentId || null,
+      outcome,
+      refund,
+      payload,
+    };
+  }
+
+  /**
+   * Sign a webhook body the way constructWebhookEvent() expects (local testing)
+   */
+  signWebhookPayload(body: string): string {
+    return computeHmacSignature(body, this.webhookSecret);
+  }
+
+  /**
+   * Force the status of a payment (tests)
+   */
+  setStatus(providerPaymentId: string, status: PaymentStatus, failureReason?: string): void {
+    this.payments.set(providerPaymentId, { status, failureReason });
+  }
+}
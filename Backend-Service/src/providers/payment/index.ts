@@ -0,0 +1,31 @@
+import config from '../../config/environment';
+import { PaymentProvider } from '../../types';
+import { FakePaymentProvider } from './fake.provider';
+import { RazorpayPaymentProvider } from './razorpay.provider';
+import { StripePaymentProvider } from './stripe.provider';
+
+/**
+ * Payment provider exposing the public key its client SDK needs
+ */
+export type ConfiguredPaymentProvider = PaymentProvider & { readonly publishableKey?: string };
+
+/**
+ * Create the payment provider selected by config.payment.provider
+ */
+export const createPaymentProvider = (): ConfiguredPaymentProvider => {
+  switch (config.payment.provider) {
+    case 'stripe':
+      return new StripePaymentProvider(config.payment.stripe);
+    case 'razorpay':
+      return new RazorpayPaymentProvider(config.payment.razorpay);
+    case 'fake':
+      return new FakePaymentProvider();
+    default:
+      throw new Error(`Unsupported payment provider: ${config.payment.provider}`);
+  }
+};
+
+export { StripePaymentProvider, RazorpayPaymentProvider, FakePaymentProvider };
+
+// Export singleton instance
+export const paymentProvider = createPaymentProvider();
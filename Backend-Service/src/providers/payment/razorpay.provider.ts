@@ -0,0 +1,183 @@
+import Razorpay from 'razorpay';
+import { BadRequestError, InternalServerError } from '../../utils/errors';
+import {
+  CreatePaymentIntentParams,
+  PaymentProvider,
+  ProviderPaymentIntent,
+  ProviderPaymentStatus,
+  ProviderRefund,
+  ProviderWebhookEvent,
+  RefundPaymentParams,
+  RefundStatus,
+  WebhookHeaders,
+} from '../../types';
+import { getHeader, isValidHmacSignature, parseWebhookBody } from './webhook.utils';
+
+/**
+ * Razorpay credentials (see config.payment.razorpay)
+ */
+export interface RazorpayConfig {
+  keyId: string;
+  keySecret: string;
+  webhookSecret: string;
+}
+
+/**
+ * Shape of the Razorpay webhook payload parts we read
+ */
+interface RazorpayWebhookPayload {
+  event?: string;
+  payload?: {
+    order?: { entity?: { id?: string } };
+    payment?: { entity?: { order_id?: string } };
+    refund?: { entity?: { id?: string } };
+  };
+}
+
+/**
+ * Map a Razorpay refund status to our refund status
+ */
+const mapRefundStatus = (status: 'pending' | 'processed' | 'failed'): RefundStatus => {
+  switch (status) {
+    case 'processed':
+      return 'completed';
+    case 'failed':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+};
+
+/**
+ * Razorpay payment provider (Orders API)
+ * The order ID is what Razorpay Checkout needs, so no client secret is returned
+ */
+export class RazorpayPaymentProvider implements PaymentProvider {
+  readonly name = 'razorpay' as const;
+  private client: Razorpay | null = null;
+
+  constructor(private readonly razorpayConfig?: RazorpayConfig) {}
+
+  async createPaymentIntent(params: CreatePaymentIntentParams): Promise<ProviderPaymentIntent> {
+    const order = await this.getClient().orders.create({
+      amount: params.amount,
+      currency: params.currency.toUpperCase(),
+      receipt: params.metadata.bookingId ? `booking_${params.metadata.bookingId}` : undefined,
+      notes: params.metadata,
+    });
+
+    return {
+      providerPaymentId: order.id,
+      clientSecret: null,
+      status: order.status === 'paid' ? 'completed' : 'pending',
+    };
+  }
+
+  async getPaymentStatus(providerPaymentId: string): Promise<ProviderPaymentStatus> {
+    const order = await this.getClient().orders.fetch(providerPaymentId);
+
+    // Failed attempts leave the order open for another try, so only "paid" is final
+    return {
+      status: order.status === 'paid' ? 'completed' : 'pending',
+    };
+  }
+
+  async getPaymentIntent(providerPaymentId: string): Promise<ProviderPaymentIntent> {
+    const order = await this.getClient().orders.fetch(providerPaymentId);
+
+    return {
+      providerPaymentId: order.id,
+      clientSecret: null,
+      status: order.status === 'paid' ? 'completed' : 'pending',
+    };
+  }
+
+  async refundPayment(params: RefundPaymentParams): Promise<ProviderRefund> {
+    // Refunds are issued against the captured payment of the order, not the order itself
+    const { items } = await this.getClient().orders.fetchPayments(params.providerPaymentId);
+    const captured = items.find((payment) => payment.status === 'captured');
+
+    if (!captured) {
+      throw new BadRequestError('Order has no captured payment to refund');
+    }
+
+    const refund = await this.getClient().payments.refund(captured.id, {
+      amount: params.amount,
+      notes: { reason: params.reason },
+    });
+
+    return {
+      providerRefundId: refund.id,
+      status: mapRefundStatus(refund.status),
+    };
+  }
+
+  constructWebhookEvent(rawBody: Buffer, headers: WebhookHeaders): ProviderWebhookEvent {
+    const webhookSecret = this.razorpayConfig?.webhookSecret;
+
+    if (!webhookSecret) {
+      throw new InternalServerError('Razorpay webhook secret is not configured');
+    }
+
+    const signature = getHeader(headers, 'x-razorpay-signature');
+
+    if (!isValidHmacSignature(rawBody, signature, webhookSecret)) {
+      throw new BadRequestError('Invalid webhook signature');
+    }
+
+    const eventId = getHeader(headers, 'x-razorpay-event-id');
+    const payload = parseWebhookBody(rawBody);
+    const { event, payload: entities } = payload as RazorpayWebhookPayload;
+
+    if (!eventId || !event) {
+      throw new BadRequestError('Invalid webhook payload');
+    }
+
+    const providerPaymentId =
+      entities?.order?.entity?.id || entities?.payment?.entity?.order_id || null;
+
+    const refundEntity = entities?.refund?.entity;
+    const refund: ProviderRefund | null =
+      refundEntity?.id && (event === 'refund.processed' || event === 'refund.failed')
+        ? {
+            providerRefundId: refundEntity.id,
+            status: event === 'refund.processed' ? 'completed' : 'failed',
+          }
+        : null;
+
+    // As with getPaymentStatus, a failed attempt leaves the order open, so only "paid" settles it
+    return {
+      eventId,
+      type: event,
+      providerPaymentId,
+      outcome: event === 'order.paid' ? { status: 'completed' } : null,
+      refund,
+      payload,
+    };
+  }
+
+  /**
+   * Public key for Razorpay Checkout
+   */
+  get publishableKey(): string | undefined {
+    return this.razorpayConfig?.keyId;
+  }
+
+  /**
+   * Create the Razorpay client on first use so the app can start without credentials
+   */
+  private getClient(): Razorpay {
+    if (!this.razorpayConfig) {
+      throw new InternalServerError('Razorpay is not configured');
+    }
+
+    if (!this.client) {
+      this.client = new Razorpay({
+        key_id: this.razorpayConfig.keyId,
+        key_secret: this.razorpayConfig.keySecret,
+      });
+    }
+
+    return this.client;
+  }
+}
@@ -0,0 +1,194 @@
+import Stripe from 'stripe';
+import { BadRequestError, InternalServerError } from '../../utils/errors';
+import {
+  CreatePaymentIntentParams,
+  PaymentProvider,
+  PaymentStatus,
+  ProviderPaymentIntent,
+  ProviderPaymentStatus,
+  ProviderRefund,
+  ProviderWebhookEvent,
+  RefundPaymentParams,
+  RefundStatus,
+  WebhookHeaders,
+} from '../../types';
+import { getHeader } from './webhook.utils';
+
+/**
+ * Stripe credentials (see config.payment.stripe)
+ */
+export interface StripeConfig {
+  secretKey: string;
+  publishableKey: string;
+  webhookSecret: string;
+}
+
+/**
+ * Map a Stripe PaymentIntent status to our payment status
+ */
+const mapStatus = (status: Stripe.PaymentIntent.Status): PaymentStatus => {
+  switch (status) {
+    case 'succeeded':
+      return 'completed';
+    case 'canceled':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+};
+
+/**
+ * Map a Stripe Refund status to our refund status
+ */
+const mapRefundStatus = (status: string | null): RefundStatus => {
+  switch (status) {
+    case 'succeeded':
+      return 'completed';
+    case 'failed':
+    case 'canceled':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+};
+
+/**
+ * Stripe payment provider (PaymentIntents API)
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe' as const;
+  private client: Stripe | null = null;
+
+  constructor(private readonly stripeConfig?: StripeConfig) {}
+
+  async createPaymentIntent(params: CreatePaymentIntentParams): Promise<ProviderPaymentIntent> {
+    const intent = await this.getClient().paymentIntents.create({
+      amount: params.amount,
+      currency: params.currency.toLowerCase(),
+      description: params.description,
+      metadata: params.metadata,
+      automatic_payment_methods: { enabled: true },
+    });
+
+    return {
+      providerPaymentId: intent.id,
+      clientSecret: intent.client_secret,
+      status: mapStatus(intent.status),
+    };
+  }
+
+  async getPaymentStatus(providerPaymentId: string): Promise<ProviderPaymentStatus> {
+    const intent = await this.getClient().paymentIntents.retrieve(providerPaymentId);
+
+    return {
+      status: mapStatus(intent.status),
+      failureReason: intent.last_payment_error?.message,
+    };
+  }
+
+  async getPaymentIntent(providerPaymentId: string): Promise<ProviderPaymentIntent> {
+    const intent = await this.getClient().paymentIntents.retrieve(providerPaymentId);
+
+    return {
+      providerPaymentId: intent.id,
+      clientSecret: intent.client_secret,
+      status: mapStatus(intent.status),
+    };
+  }
+
+  async refundPayment(params: RefundPaymentParams): Promise<ProviderRefund> {
+    const refund = await this.getClient().refunds.create({
+      payment_intent: params.providerPaymentId,
+      amount: params.amount,
+      metadata: { reason: params.reason },
+    });
+
+    return {
+      providerRefundId: refund.id,
+      status: mapRefundStatus(refund.status),
+      failureReason: refund.failure_reason || undefined,
+    };
+  }
+
+  constructWebhookEvent(rawBody: Buffer, headers: WebhookHeaders): ProviderWebhookEvent {
+    const webhookSecret = this.stripeConfig?.webhookSecret;
+
+    if (!webhookSecret) {
+      throw new InternalServerError('Stripe webhook secret is not configured');
+    }
+
+    const signature = getHeader(headers, 'stripe-signature');
+
+    if (!signature) {
+      throw new BadRequestError('Invalid webhook signature');
+    }
+
+    let event: Stripe.Event;
+
+    try {
+      event = this.getClient().webhooks.constructEvent(rawBody, signature, webhookSecret);
+    } catch {
+      throw new BadRequestError('Invalid webhook signature');
+    }
+
+    let providerPaymentId: string | null = null;
+    let outcome: ProviderPaymentStatus | null = null;
+    let refund: ProviderRefund | null = null;
+
+    if (event.type.startsWith('payment_intent.')) {
+      const intent = event.data.object as Stripe.PaymentIntent;
+      providerPaymentId = intent.id;
+
+      // A failed attempt returns the intent to requires_payment_method so the customer can
+      // retry, which is why only success and cancellation settle the payment
+      if (event.type === 'payment_intent.succeeded' || event.type === 'payment_intent.canceled') {
+        outcome = {
+          status: mapStatus(intent.status),
+          failureReason:
+            intent.cancellation_reason || intent.last_payment_error?.message || undefined,
+        };
+      }
+    }
+
+    // Refunds that were still pending when they were created report their final status here
+    if (event.type === 'charge.refund.updated' || event.type === 'refund.updated') {
+      const stripeRefund = event.data.object as Stripe.Refund;
+      refund = {
+        providerRefundId: stripeRefund.id,
+        status: mapRefundStatus(stripeRefund.status),
+        failureReason: stripeRefund.failure_reason || undefined,
+      };
+    }
+
+    return {
+      eventId: event.id,
+      type: event.type,
+      providerPaymentId,
+      outcome,
+      refund,
+      payload: event as unknown as Record<string, unknown>,
+    };
+  }
+
+  /**
+   * Publishable key for the client SDK
+   */
+  get publishableKey(): string | undefined {
+    return this.stripeConfig?.publishableKey;
+  }
+
+  /**
+   * Create the Stripe client on first use so the app can start without credentials
+   */
+  private getClient(): Stripe {
+    if (!this.stripeConfig) {
+      throw new InternalServerError('Stripe is not configured');
+    }
+
+    if (!this.client) {
+      this.client = new Stripe(this.stripeConfig.secretKey);
+    }
+
+    return this.client;
+  }
+}
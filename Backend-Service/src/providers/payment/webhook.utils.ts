@@ -0,0 +1,53 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { BadRequestError } from '../../utils/errors';
+import { WebhookHeaders } from '../../types';
+
+/**
+ * Read a single header value (Node lower-cases header names)
+ */
+export const getHeader = (headers: WebhookHeaders, name: string): string | undefined => {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * Hex HMAC-SHA256 of a payload, as used by Razorpay webhook signatures
+ */
+export const computeHmacSignature = (payload: Buffer | string, secret: string): string => {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+};
+
+/**
+ * Check a hex HMAC-SHA256 signature in constant time
+ */
+export const isValidHmacSignature = (
+  payload: Buffer | string,
+  signature: string | undefined,
+  secret: string
+): boolean => {
+  if (!signature) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeHmacSignature(payload, secret));
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+/**
+ * Parse a verified webhook body as a JSON object
+ */
+export const parseWebhookBody = (rawBody: Buffer): Record<string, unknown> => {
+  try {
+    const payload = JSON.parse(rawBody.toString('utf8'));
+
+    if (payload && typeof payload === 'object' && !Array.isArray(payload)) {
+      return payload;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+
+  throw new BadRequestError('Invalid webhook payload');
+};
@@ -0,0 +1,19 @@
+import { Store } from 'express-rate-limit';
+import config from '../../config/environment';
+import { getRedisClient } from '../../config/redis';
+import { RedisRateLimitStore } from './redis.store';
+
+/**
+ * Create the hit counter store of a rate limiter
+ * Redis is used when configured so limits are shared between instances; otherwise the
+ * limiter keeps its counters in memory (undefined selects express-rate-limit's memory store)
+ */
+export const createRateLimitStore = (name: string): Store | undefined => {
+  if (config.redis) {
+    return new RedisRateLimitStore(getRedisClient(), `rate-limit:${name}:`);
+  }
+
+  return undefined;
+};
+
+export { RedisRateLimitStore };
@@ -0,0 +1,69 @@
+import Redis from 'ioredis';
+import { ClientRateLimitInfo, Options, Store } from 'express-rate-limit';
+
+// Count a hit and start the window on the first hit; returns the hits and the window's remaining ms
+const INCREMENT_SCRIPT = `
+local hits = redis.call('INCR', KEYS[1])
+if hits == 1 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+return { hits, redis.call('PTTL', KEYS[1]) }
+`;
+
+/**
+ * Redis rate limit store
+ * Hit counters are keys that expire with their window, so limits are shared between instances
+ */
+export class RedisRateLimitStore implements Store {
+  readonly localKeys = false;
+  private windowMs = 60 * 1000;
+
+  constructor(
+    private readonly redis: Redis,
+    readonly prefix: string
+  ) {}
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const [hits, ttl] = await Promise.all([
+      this.redis.get(this.key(key)),
+      this.redis.pttl(this.key(key)),
+    ]);
+
+    if (hits === null) {
+      return undefined;
+    }
+
+    return { totalHits: Number(hits), resetTime: this.resetTime(ttl) };
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const [hits, ttl] = (await this.redis.eval(
+      INCREMENT_SCRIPT,
+      1,
+      this.key(key),
+      String(this.windowMs)
+    )) as [number, number];
+
+    return { totalHits: hits, resetTime: this.resetTime(ttl) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await this.redis.decr(this.key(key));
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await this.redis.del(this.key(key));
+  }
+
+  private key(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  private resetTime(ttlMs: number): Date | undefined {
+    return ttlMs > 0 ? new Date(Date.now() + ttlMs) : undefined;
+  }
+}
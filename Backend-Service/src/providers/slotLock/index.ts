@@ -0,0 +1,22 @@
+import config from '../../config/environment';
+import { getRedisClient } from '../../config/redis';
+import { SlotLockStore } from '../../types';
+import { MemorySlotLockStore } from './memory.store';
+import { RedisSlotLockStore } from './redis.store';
+
+/**
+ * Create the slot lock store for the current configuration
+ * Redis is used when configured so locks are shared between instances
+ */
+export const createSlotLockStore = (): SlotLockStore => {
+  if (config.redis) {
+    return new RedisSlotLockStore(getRedisClient());
+  }
+
+  return new MemorySlotLockStore();
+};
+
+export { MemorySlotLockStore, RedisSlotLockStore };
+
+// Export singleton instance
+export const slotLockStore = createSlotLockStore();
@@ -0,0 +1,68 @@
+import { SlotLock, SlotLockStore } from '../../types';
+
+/**
+ * In-memory slot lock store
+ * Used in tests and single-process deployments without Redis
+ */
+export class MemorySlotLockStore implements SlotLockStore {
+  private readonly locks = new Map<number, { ownerId: number; expiresAt: number }>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async acquire(slotId: number, ownerId: number, ttlMs: number): Promise<SlotLock | null> {
+    const current = await this.get(slotId);
+
+    if (current && current.ownerId !== ownerId) {
+      return null;
+    }
+
+    const expiresAt = this.now() + ttlMs;
+    this.locks.set(slotId, { ownerId, expiresAt });
+
+    return { slotId, ownerId, expiresAt: new Date(expiresAt) };
+  }
+
+  async release(slotId: number, ownerId: number): Promise<boolean> {
+    const current = await this.get(slotId);
+
+    if (!current || current.ownerId !== ownerId) {
+      return false;
+    }
+
+    return this.locks.delete(slotId);
+  }
+
+  async get(slotId: number): Promise<SlotLock | null> {
+    const entry = this.locks.get(slotId);
+
+    if (!entry) {
+      return null;
+    }
+
+    // Expired locks are dropped lazily on access
+    if (entry.expiresAt <= this.now()) {
+      this.locks.delete(slotId);
+      return null;
+    }
+
+    return { slotId, ownerId: entry.ownerId, expiresAt: new Date(entry.expiresAt) };
+  }
+
+  async getMany(slotIds: number[]): Promise<SlotLock[]> {
+    const locks = await Promise.all(slotIds.map((slotId) => this.get(slotId)));
+    return locks.filter((lock): lock is SlotLock => lock !== null);
+  }
+
+  async purgeExpired(): Promise<number> {
+    let purged = 0;
+
+    this.locks.forEach((entry, slotId) => {
+      if (entry.expiresAt <= this.now()) {
+        this.locks.delete(slotId);
+        purged++;
+      }
+    });
+
+    return purged;
+  }
+}
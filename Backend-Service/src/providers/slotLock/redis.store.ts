@@ -0,0 +1,91 @@
+import Redis from 'ioredis';
+import { SlotLock, SlotLockStore } from '../../types';
+
+const KEY_PREFIX = 'slot-lock:';
+
+// Set the lock when it is free or already held by the same owner (extends the TTL)
+const ACQUIRE_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current == false or current == ARGV[1] then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+return 0
+`;
+
+// Delete the lock only when it is held by the given owner
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Redis slot lock store
+ * Locks are keys with a PX expiry, so they are shared across processes and expire on their own
+ */
+export class RedisSlotLockStore implements SlotLockStore {
+  constructor(private readonly redis: Redis) {}
+
+  async acquire(slotId: number, ownerId: number, ttlMs: number): Promise<SlotLock | null> {
+    const acquired = await this.redis.eval(
+      ACQUIRE_SCRIPT,
+      1,
+      this.key(slotId),
+      String(ownerId),
+      String(ttlMs)
+    );
+
+    if (acquired !== 1) {
+      return null;
+    }
+
+    return { slotId, ownerId, expiresAt: new Date(Date.now() + ttlMs) };
+  }
+
+  async release(slotId: number, ownerId: number): Promise<boolean> {
+    const deleted = await this.redis.eval(RELEASE_SCRIPT, 1, this.key(slotId), String(ownerId));
+    return deleted === 1;
+  }
+
+  async get(slotId: number): Promise<SlotLock | null> {
+    const [lock] = await this.getMany([slotId]);
+    return lock || null;
+  }
+
+  async getMany(slotIds: number[]): Promise<SlotLock[]> {
+    if (slotIds.length === 0) {
+      return [];
+    }
+
+    const pipeline = this.redis.pipeline();
+    slotIds.forEach((slotId) => {
+      pipeline.get(this.key(slotId));
+      pipeline.pttl(this.key(slotId));
+    });
+
+    const results = (await pipeline.exec()) || [];
+    const locks: SlotLock[] = [];
+
+    slotIds.forEach((slotId, index) => {
+      const owner = results[index * 2]?.[1] as string | null;
+      const ttl = results[index * 2 + 1]?.[1] as number;
+
+      if (owner && ttl > 0) {
+        locks.push({ slotId, ownerId: Number(owner), expiresAt: new Date(Date.now() + ttl) });
+      }
+    });
+
+    return locks;
+  }
+
+  async purgeExpired(): Promise<number> {
+    // Keys carry a PX expiry, so Redis removes expired locks itself
+    return 0;
+  }
+
+  private key(slotId: number): string {
+    return `${KEY_PREFIX}${slotId}`;
+  }
+}
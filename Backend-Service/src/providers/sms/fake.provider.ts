@@ -0,0 +1,18 @@
+import logger from '../../utils/logger';
+import { SmsDelivery, SmsMessage, SmsProvider } from '../../types';
+
+/**
+ * Local SMS provider for development and tests
+ * Messages are kept in memory and logged instead of being sent
+ */
+export class FakeSmsProvider implements SmsProvider {
+  readonly name = 'fake' as const;
+  readonly sent: SmsMessage[] = [];
+
+  async send(message: SmsMessage): Promise<SmsDelivery> {
+    this.sent.push(message);
+    logger.debug(`[fake sms] to ${message.to}: ${message.body}`);
+
+    return { providerMessageId: `fake_sms_${this.sent.length}` };
+  }
+}
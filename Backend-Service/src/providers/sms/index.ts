@@ -0,0 +1,23 @@
+import config from '../../config/environment';
+import { SmsProvider } from '../../types';
+import { FakeSmsProvider } from './fake.provider';
+import { TwilioSmsProvider } from './twilio.provider';
+
+/**
+ * Create the SMS provider selected by config.notifications.smsProvider
+ */
+export const createSmsProvider = (): SmsProvider => {
+  switch (config.notifications.smsProvider) {
+    case 'twilio':
+      return new TwilioSmsProvider(config.sms);
+    case 'fake':
+      return new FakeSmsProvider();
+    default:
+      throw new Error(`Unsupported SMS provider: ${config.notifications.smsProvider}`);
+  }
+};
+
+export { TwilioSmsProvider, FakeSmsProvider };
+
+// Export singleton instance
+export const smsProvider = createSmsProvider();
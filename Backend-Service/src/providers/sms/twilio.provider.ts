@@ -0,0 +1,48 @@
+import twilio from 'twilio';
+import { InternalServerError } from '../../utils/errors';
+import { SmsDelivery, SmsMessage, SmsProvider } from '../../types';
+
+/**
+ * Twilio credentials (see config.sms)
+ */
+export interface TwilioConfig {
+  twilioAccountSid: string;
+  twilioAuthToken: string;
+  twilioPhoneNumber: string;
+}
+
+/**
+ * SMS provider sending through the Twilio Messaging API
+ */
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio' as const;
+  private client: ReturnType<typeof twilio> | null = null;
+
+  constructor(private readonly twilioConfig?: TwilioConfig) {}
+
+  async send(message: SmsMessage): Promise<SmsDelivery> {
+    const sent = await this.getClient().messages.create({
+      from: this.twilioConfig?.twilioPhoneNumber,
+      // Stored numbers may omit the leading "+", which Twilio requires
+      to: message.to.startsWith('+') ? message.to : `+${message.to}`,
+      body: message.body,
+    });
+
+    return { providerMessageId: sent.sid };
+  }
+
+  /**
+   * Create the Twilio client on first use so the app can start without credentials
+   */
+  private getClient(): ReturnType<typeof twilio> {
+    if (!this.twilioConfig) {
+      throw new InternalServerError('Twilio is not configured');
+    }
+
+    if (!this.client) {
+      this.client = twilio(this.twilioConfig.twilioAccountSid, this.twilioConfig.twilioAuthToken);
+    }
+
+    return this.client;
+  }
+}
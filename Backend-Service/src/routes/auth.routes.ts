@@ -1,32 +1,63 @@
 import { Router } from 'express';
 import { authController } from '../controllers/auth.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
-import { validateBody } from '../middlewares/validation.middleware';
+import { validate, validateBody } from '../middlewares/validation.middleware';
+import { authRateLimiter, authEmailRateLimiter } from '../middlewares/rateLimit.middleware';
 import {
   registerSchema,
   loginSchema,
   refreshTokenSchema,
+  verifyTwoFactorLoginSchema,
+  twoFactorCodeSchema,
+  disableTwoFactorSchema,
+  verifyEmailSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  sessionIdParamSchema,
 } from '../schemas/auth.schema';
 
 const router = Router();
 
 /**
  * @route   POST /api/v1/auth/register
- * @desc    Register a new user
+ * @desc    Register a new user (rate limited per IP)
  * @access  Public
  */
-router.post('/register', validateBody(registerSchema), authController.register);
+router.post(
+  '/register',
+  authRateLimiter,
+  validateBody(registerSchema),
+  authController.register
+);
 
 /**
  * @route   POST /api/v1/auth/login
- * @desc    Login user
+ * @desc    Login user (rate limited per IP and per email; repeated failures lock the account)
  * @access  Public
  */
-router.post('/login', validateBody(loginSchema), authController.login);
+router.post(
+  '/login',
+  authRateLimiter,
+  authEmailRateLimiter,
+  validateBody(loginSchema),
+  authController.login
+);
+
+/**
+ * @route   POST /api/v1/auth/login/2fa
+ * @desc    Complete a 2FA login with the challenge token and a TOTP or recovery code
+ * @access  Public
+ */
+router.post(
+  '/login/2fa',
+  authRateLimiter,
+  validateBody(verifyTwoFactorLoginSchema),
+  authController.verifyTwoFactorLogin
+);
 
 /**
  * @route   POST /api/v1/auth/refresh-token
- * @desc    Refresh access token
+ * @desc    Exchange a refresh token for a new token pair (the old token is rotated out)
  * @access  Public
  */
 router.post(
@@ -35,6 +66,56 @@ router.post(
   authController.refreshToken
 );
 
+/**
+ * @route   POST /api/v1/auth/verify-email
+ * @desc    Verify email address with an emailed token
+ * @access  Public
+ */
+router.post(
+  '/verify-email',
+  authRateLimiter,
+  validateBody(verifyEmailSchema),
+  authController.verifyEmail
+);
+
+/**
+ * @route   POST /api/v1/auth/resend-verification
+ * @desc    Email a new verification link to the current user (rate limited per IP and per account)
+ * @access  Private
+ */
+router.post(
+  '/resend-verification',
+  authMiddleware.authenticate,
+  authRateLimiter,
+  authEmailRateLimiter,
+  authController.resendVerificationEmail
+);
+
+/**
+ * @route   POST /api/v1/auth/forgot-password
+ * @desc    Email a password reset link (same response whether or not the email exists)
+ * @access  Public
+ */
+router.post(
+  '/forgot-password',
+  authRateLimiter,
+  authEmailRateLimiter,
+  validateBody(forgotPasswordSchema),
+  authController.forgotPassword
+);
+
+/**
+ * @route   POST /api/v1/auth/reset-password
+ * @desc    Set a new password with an emailed reset token and revoke all sessions
+ * @access  Public
+ */
+router.post(
+  '/reset-password',
+  authRateLimiter,
+  validateBody(resetPasswordSchema),
+  authController.resetPassword
+);
+
 /**
  * @route   GET /api/v1/auth/me
  * @desc    Get current user profile
@@ -44,9 +125,78 @@ router.get('/me', authMiddleware.authenticate, authController.getCurrentUser);
 
 /**
  * @route   POST /api/v1/auth/logout
- * @desc    Logout user
+ * @desc    Logout user and revoke the refresh tokens of the current session
  * @access  Private
  */
 router.post('/logout', authMiddleware.authenticate, authController.logout);
 
+/**
+ * @route   GET /api/v1/auth/sessions
+ * @desc    List the current user's active sessions (devices)
+ * @access  Private
+ */
+router.get('/sessions', authMiddleware.authenticate, authController.getSessions);
+
+/**
+ * @route   DELETE /api/v1/auth/sessions
+ * @desc    Revoke every session except the current one
+ * @access  Private
+ */
+router.delete('/sessions', authMiddleware.authenticate, authController.revokeOtherSessions);
+
+/**
+ * @route   DELETE /api/v1/auth/sessions/:id
+ * @desc    Revoke one of the current user's sessions
+ * @access  Private
+ */
+router.delete(
+  '/sessions/:id',
+  authMiddleware.authenticate,
+  validate({ params: sessionIdParamSchema }),
+  authController.revokeSession
+);
+
+/**
+ * @route   POST /api/v1/auth/2fa/setup
+ * @desc    Start TOTP enrolment (returns the secret and otpauth URI for the QR code)
+ * @access  Private
+ */
+router.post('/2fa/setup', authMiddleware.authenticate, authController.setupTwoFactor);
+
+/**
+ * @route   POST /api/v1/auth/2fa/enable
+ * @desc    Confirm TOTP enrolment with a code and receive recovery codes
+ * @access  Private
+ */
+router.post(
+  '/2fa/enable',
+  authMiddleware.authenticate,
+  validateBody(twoFactorCodeSchema),
+  authController.enableTwoFactor
+);
+
+/**
+ * @route   POST /api/v1/auth/2fa/disable
+ * @desc    Turn 2FA off (password and a current code required)
+ * @access  Private
+ */
+router.post(
+  '/2fa/disable',
+  authMiddleware.authenticate,
+  validateBody(disableTwoFactorSchema),
+  authController.disableTwoFactor
+);
+
+/**
+ * @route   POST /api/v1/auth/2fa/recovery-codes
+ * @desc    Replace the recovery codes (a current code required)
+ * @access  Private
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authMiddleware.authenticate,
+  validateBody(twoFactorCodeSchema),
+  authController.regenerateRecoveryCodes
+);
+
 export default router;
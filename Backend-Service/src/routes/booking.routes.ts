@@ -0,0 +1,115 @@
+import { Router } from 'express';
+import { bookingController } from '../controllers/booking.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { validate, validateBody, validateQuery } from '../middlewares/validation.middleware';
+import {
+  createBookingSchema,
+  updateBookingStatusSchema,
+  getBookingsQuerySchema,
+  bookingIdParamSchema,
+  cancelBookingSchema,
+} from '../schemas/booking.schema';
+
+const router = Router();
+
+/**
+ * @route   POST /api/v1/bookings
+ * @desc    Book a slot
+ * @access  Private
+ */
+router.post(
+  '/',
+  authMiddleware.authenticate,
+  validateBody(createBookingSchema),
+  bookingController.createBooking
+);
+
+/**
+ * @route   GET /api/v1/bookings/me
+ * @desc    Get the current user's bookings with filters and pagination
+ * @access  Private
+ */
+router.get(
+  '/me',
+  authMiddleware.authenticate,
+  validateQuery(getBookingsQuerySchema),
+  bookingController.getMyBookings
+);
+
+/**
+ * @route   GET /api/v1/bookings
+ * @desc    Get all bookings with filters and pagination (admin only)
+ * @access  Private (bookings:read:any)
+ */
+router.get(
+  '/',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('bookings:read:any'),
+  validateQuery(getBookingsQuerySchema),
+  bookingController.getBookings
+);
+
+/**
+ * @route   GET /api/v1/bookings/:id
+ * @desc    Get booking by ID (own bookings, or any booking for admins)
+ * @access  Private
+ */
+router.get(
+  '/:id',
+  authMiddleware.authenticate,
+  validate({ params: bookingIdParamSchema }),
+  bookingController.getBookingById
+);
+
+/**
+ * @route   GET /api/v1/bookings/:id/timeline
+ * @desc    Get the status timeline of a booking (own bookings, or any booking for admins)
+ * @access  Private
+ */
+router.get(
+  '/:id/timeline',
+  authMiddleware.authenticate,
+  validate({ params: bookingIdParamSchema }),
+  bookingController.getBookingTimeline
+);
+
+/**
+ * @route   GET /api/v1/bookings/:id/cancellation-policy
+ * @desc    Get the cancellation policy of a booking and the outcome of cancelling now
+ * @access  Private
+ */
+router.get(
+  '/:id/cancellation-policy',
+  authMiddleware.authenticate,
+  validate({ params: bookingIdParamSchema }),
+  bookingController.getCancellationPolicy
+);
+
+/**
+ * @route   PUT /api/v1/bookings/:id/cancel
+ * @desc    Cancel a booking (own bookings, or any booking for admins)
+ *          Customer cancellations inside the cancellation window are rejected or forfeit
+ *          part of the deposit, depending on the policy; admins bypass the policy
+ * @access  Private
+ */
+router.put(
+  '/:id/cancel',
+  authMiddleware.authenticate,
+  validate({ params: bookingIdParamSchema, body: cancelBookingSchema }),
+  bookingController.cancelBooking
+);
+
+/**
+ * @route   PUT /api/v1/bookings/:id/status
+ * @desc    Update booking status (admin only)
+ * @access  Private (bookings:write:any)
+ */
+router.put(
+  '/:id/status',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('bookings:write:any'),
+  validate({ params: bookingIdParamSchema, body: updateBookingStatusSchema }),
+  bookingController.updateBookingStatus
+);
+
+export default router;
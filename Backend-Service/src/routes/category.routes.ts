@@ -0,0 +1,111 @@
+import { Router } from 'express';
+import { categoryController } from '../controllers/category.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { validate, validateBody } from '../middlewares/validation.middleware';
+import {
+  createCategorySchema,
+  updateCategorySchema,
+  reorderCategoriesSchema,
+  categoryIdParamSchema,
+} from '../schemas/category.schema';
+
+const router = Router();
+
+/**
+ * @route   GET /api/v1/categories/tree
+ * @desc    Get the nested tree of active categories
+ * @access  Public
+ */
+router.get('/tree', categoryController.getCategoryTree);
+
+/**
+ * @route   GET /api/v1/categories
+ * @desc    Get all categories as a flat list (admin only)
+ * @access  Private (categories:read:all)
+ */
+router.get(
+  '/',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('categories:read:all'),
+  categoryController.getAllCategories
+);
+
+/**
+ * @route   POST /api/v1/categories
+ * @desc    Create a category (admin only)
+ * @access  Private (categories:write)
+ */
+router.post(
+  '/',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('categories:write'),
+  validateBody(createCategorySchema),
+  categoryController.createCategory
+);
+
+/**
+ * @route   PUT /api/v1/categories/reorder
+ * @desc    Update display order of several categories (admin only)
+ * @access  Private (categories:write)
+ */
+router.put(
+  '/reorder',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('categories:write'),
+  validateBody(reorderCategoriesSchema),
+  categoryController.reorderCategories
+);
+
+/**
+ * @route   GET /api/v1/categories/:id
+ * @desc    Get category by ID (admin only)
+ * @access  Private (categories:read:all)
+ */
+router.get(
+  '/:id',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('categories:read:all'),
+  validate({ params: categoryIdParamSchema }),
+  categoryController.getCategoryById
+);
+
+/**
+ * @route   PUT /api/v1/categories/:id
+ * @desc    Update a category (admin only)
+ * @access  Private (categories:write)
+ */
+router.put(
+  '/:id',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('categories:write'),
+  validate({ params: categoryIdParamSchema, body: updateCategorySchema }),
+  categoryController.updateCategory
+);
+
+/**
+ * @route   DELETE /api/v1/categories/:id
+ * @desc    Delete an empty category (admin only)
+ * @access  Private (categories:write)
+ */
+router.delete(
+  '/:id',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('categories:write'),
+  validate({ params: categoryIdParamSchema }),
+  categoryController.deleteCategory
+);
+
+/**
+ * @route   POST /api/v1/categories/:id/restore
+ * @desc    Restore a deleted category (admin only)
+ * @access  Private (categories:write)
+ */
+router.post(
+  '/:id/restore',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('categories:write'),
+  validate({ params: categoryIdParamSchema }),
+  categoryController.restoreCategory
+);
+
+export default router;
@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { jobController } from '../controllers/job.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validation.middleware';
+import { getJobsQuerySchema, jobIdParamSchema } from '../schemas/job.schema';
+
+const router = Router();
+
+/**
+ * @route   GET /api/v1/jobs
+ * @desc    Get background jobs with filters and pagination (e.g. status=dead)
+ * @access  Private (jobs:read)
+ */
+router.get(
+  '/',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('jobs:read'),
+  validate({ query: getJobsQuerySchema }),
+  jobController.getJobs
+);
+
+/**
+ * @route   GET /api/v1/jobs/:id
+ * @desc    Get a background job by ID
+ * @access  Private (jobs:read)
+ */
+router.get(
+  '/:id',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('jobs:read'),
+  validate({ params: jobIdParamSchema }),
+  jobController.getJobById
+);
+
+/**
+ * @route   POST /api/v1/jobs/:id/retry
+ * @desc    Move a dead job back to the queue with a fresh set of attempts
+ * @access  Private (jobs:retry)
+ */
+router.post(
+  '/:id/retry',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('jobs:retry'),
+  validate({ params: jobIdParamSchema }),
+  jobController.retryJob
+);
+
+export default router;
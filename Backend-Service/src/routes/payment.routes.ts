@@ -0,0 +1,103 @@
+import { Router } from 'express';
+import { paymentController } from '../controllers/payment.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { validate, validateBody } from '../middlewares/validation.middleware';
+import {
+  createDepositIntentSchema,
+  paymentIdParamSchema,
+  bookingPaymentsParamSchema,
+  refundPaymentSchema,
+  webhookProviderParamSchema,
+  getWebhookEventsQuerySchema,
+  webhookEventIdParamSchema,
+} from '../schemas/payment.schema';
+
+const router = Router();
+
+/**
+ * @route   POST /api/v1/payments/webhooks/:provider
+ * @desc    Receive a payment provider webhook (authenticated by its signature)
+ * @access  Public
+ */
+router.post(
+  '/webhooks/:provider',
+  validate({ params: webhookProviderParamSchema }),
+  paymentController.handleWebhook
+);
+
+/**
+ * @route   GET /api/v1/payments/webhooks/events
+ * @desc    Get stored webhook events with filters and pagination
+ * @access  Private (payments:webhooks:read)
+ */
+router.get(
+  '/webhooks/events',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('payments:webhooks:read'),
+  validate({ query: getWebhookEventsQuerySchema }),
+  paymentController.getWebhookEvents
+);
+
+/**
+ * @route   POST /api/v1/payments/webhooks/events/:id/replay
+ * @desc    Replay a stored webhook event to debug reconciliation
+ * @access  Private (payments:webhooks:replay)
+ */
+router.post(
+  '/webhooks/events/:id/replay',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('payments:webhooks:replay'),
+  validate({ params: webhookEventIdParamSchema }),
+  paymentController.replayWebhookEvent
+);
+
+/**
+ * @route   POST /api/v1/payments/intent
+ * @desc    Create a deposit payment intent for a pending booking
+ * @access  Private
+ */
+router.post(
+  '/intent',
+  authMiddleware.authenticate,
+  validateBody(createDepositIntentSchema),
+  paymentController.createDepositIntent
+);
+
+/**
+ * @route   POST /api/v1/payments/:id/confirm
+ * @desc    Check a payment with the provider and confirm the booking once paid
+ * @access  Private
+ */
+router.post(
+  '/:id/confirm',
+  authMiddleware.authenticate,
+  validate({ params: paymentIdParamSchema }),
+  paymentController.confirmPayment
+);
+
+/**
+ * @route   POST /api/v1/payments/:id/refund
+ * @desc    Refund all or part of a completed payment
+ * @access  Private (payments:refund)
+ */
+router.post(
+  '/:id/refund',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('payments:refund'),
+  validate({ params: paymentIdParamSchema, body: refundPaymentSchema }),
+  paymentController.refundPayment
+);
+
+/**
+ * @route   GET /api/v1/payments/booking/:bookingId
+ * @desc    Get the payment history of a booking (own bookings, or any booking for admins)
+ * @access  Private
+ */
+router.get(
+  '/booking/:bookingId',
+  authMiddleware.authenticate,
+  validate({ params: bookingPaymentsParamSchema }),
+  paymentController.getBookingPayments
+);
+
+export default router;
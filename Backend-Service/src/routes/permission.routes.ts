@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { permissionController } from '../controllers/permission.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validation.middleware';
+import { roleParamSchema, setRolePermissionsSchema } from '../schemas/permission.schema';
+
+const router = Router();
+
+/**
+ * @route   GET /api/v1/permissions
+ * @desc    List every permission and the permissions of each role
+ * @access  Private (permissions:read)
+ */
+router.get(
+  '/',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('permissions:read'),
+  permissionController.getRolePermissions
+);
+
+/**
+ * @route   PUT /api/v1/permissions/:role
+ * @desc    Replace the permissions of a role (admins always keep permissions:write)
+ * @access  Private (permissions:write)
+ */
+router.put(
+  '/:role',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('permissions:write'),
+  validate({ params: roleParamSchema, body: setRolePermissionsSchema }),
+  permissionController.setRolePermissions
+);
+
+export default router;
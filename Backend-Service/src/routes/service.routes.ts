@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { serviceController } from '../controllers/service.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { validate, validateQuery } from '../middlewares/validation.middleware';
+import {
+  createServiceSchema,
+  updateServiceSchema,
+  getServicesQuerySchema,
+  serviceIdParamSchema,
+} from '../schemas/service.schema';
+
+const router = Router();
+
+/**
+ * @route   GET /api/v1/services
+ * @desc    Get all active services (admins may filter by status)
+ * @access  Public
+ */
+router.get(
+  '/',
+  authMiddleware.optionalAuthenticate,
+  validateQuery(getServicesQuerySchema),
+  serviceController.getServices
+);
+
+/**
+ * @route   GET /api/v1/services/:id
+ * @desc    Get service by ID
+ * @access  Public
+ */
+router.get(
+  '/:id',
+  authMiddleware.optionalAuthenticate,
+  validate({ params: serviceIdParamSchema }),
+  serviceController.getServiceById
+);
+
+/**
+ * @route   POST /api/v1/services
+ * @desc    Create a new service (admin only)
+ * @access  Private (services:write)
+ */
+router.post(
+  '/',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('services:write'),
+  validate({ body: createServiceSchema }),
+  serviceController.createService
+);
+
+/**
+ * @route   PUT /api/v1/services/:id
+ * @desc    Update a service (admin only)
+ * @access  Private (services:write)
+ */
+router.put(
+  '/:id',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('services:write'),
+  validate({ params: serviceIdParamSchema, body: updateServiceSchema }),
+  serviceController.updateService
+);
+
+/**
+ * @route   PUT /api/v1/services/:id/archive
+ * @desc    Archive a service (admin only)
+ * @access  Private (services:write)
+ */
+router.put(
+  '/:id/archive',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('services:write'),
+  validate({ params: serviceIdParamSchema }),
+  serviceController.archiveService
+);
+
+export default router;
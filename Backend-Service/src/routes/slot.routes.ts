@@ -0,0 +1,119 @@
+import { Router } from 'express';
+import { slotController } from '../controllers/slot.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { validate, validateBody, validateQuery } from '../middlewares/validation.middleware';
+import {
+  availabilityParamsSchema,
+  availabilityQuerySchema,
+  setOpeningHoursSchema,
+  createClosureSchema,
+  getClosuresQuerySchema,
+  closureIdParamSchema,
+  slotIdParamSchema,
+} from '../schemas/slot.schema';
+
+const router = Router();
+
+/**
+ * @route   GET /api/v1/slots/availability/:serviceId
+ * @desc    Get free slots for a service over a date range
+ * @access  Public (slots held by the authenticated user stay visible to them)
+ */
+router.get(
+  '/availability/:serviceId',
+  authMiddleware.optionalAuthenticate,
+  validate({ params: availabilityParamsSchema, query: availabilityQuerySchema }),
+  slotController.getAvailability
+);
+
+/**
+ * @route   GET /api/v1/slots/opening-hours
+ * @desc    Get weekly opening hours
+ * @access  Public
+ */
+router.get('/opening-hours', slotController.getOpeningHours);
+
+/**
+ * @route   PUT /api/v1/slots/opening-hours
+ * @desc    Replace weekly opening hours (admin only)
+ * @access  Private (opening-hours:write)
+ */
+router.put(
+  '/opening-hours',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('opening-hours:write'),
+  validateBody(setOpeningHoursSchema),
+  slotController.setOpeningHours
+);
+
+/**
+ * @route   GET /api/v1/slots/closures
+ * @desc    List one-off closures (admin only)
+ * @access  Private (closures:read)
+ */
+router.get(
+  '/closures',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('closures:read'),
+  validateQuery(getClosuresQuerySchema),
+  slotController.getClosures
+);
+
+/**
+ * @route   POST /api/v1/slots/closures
+ * @desc    Create a one-off closure (admin only)
+ * @access  Private (closures:write)
+ */
+router.post(
+  '/closures',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('closures:write'),
+  validateBody(createClosureSchema),
+  slotController.createClosure
+);
+
+/**
+ * @route   DELETE /api/v1/slots/closures/:id
+ * @desc    Delete a closure (admin only)
+ * @access  Private (closures:write)
+ */
+router.delete(
+  '/closures/:id',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('closures:write'),
+  validate({ params: closureIdParamSchema }),
+  slotController.deleteClosure
+);
+
+/**
+ * @route   GET /api/v1/slots/:id
+ * @desc    Get slot by ID
+ * @access  Public
+ */
+router.get('/:id', validate({ params: slotIdParamSchema }), slotController.getSlotById);
+
+/**
+ * @route   POST /api/v1/slots/:id/lock
+ * @desc    Hold a slot during checkout
+ * @access  Private
+ */
+router.post(
+  '/:id/lock',
+  authMiddleware.authenticate,
+  validate({ params: slotIdParamSchema }),
+  slotController.lockSlot
+);
+
+/**
+ * @route   DELETE /api/v1/slots/:id/lock
+ * @desc    Release a held slot (checkout abandoned)
+ * @access  Private
+ */
+router.delete(
+  '/:id/lock',
+  authMiddleware.authenticate,
+  validate({ params: slotIdParamSchema }),
+  slotController.releaseSlotLock
+);
+
+export default router;
@@ -0,0 +1,131 @@
+import { Router } from 'express';
+import { stylistController } from '../controllers/stylist.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { validate, validateQuery } from '../middlewares/validation.middleware';
+import {
+  createStylistSchema,
+  updateStylistSchema,
+  getStylistsQuerySchema,
+  setStylistScheduleSchema,
+  createTimeOffSchema,
+  getTimeOffQuerySchema,
+  stylistIdParamSchema,
+  timeOffParamsSchema,
+} from '../schemas/stylist.schema';
+
+const router = Router();
+
+/**
+ * @route   GET /api/v1/stylists
+ * @desc    List active stylists, optionally those who perform a service (admins may include inactive)
+ * @access  Public
+ */
+router.get(
+  '/',
+  authMiddleware.optionalAuthenticate,
+  validateQuery(getStylistsQuerySchema),
+  stylistController.getStylists
+);
+
+/**
+ * @route   GET /api/v1/stylists/:id
+ * @desc    Get stylist by ID
+ * @access  Public
+ */
+router.get(
+  '/:id',
+  authMiddleware.optionalAuthenticate,
+  validate({ params: stylistIdParamSchema }),
+  stylistController.getStylistById
+);
+
+/**
+ * @route   POST /api/v1/stylists
+ * @desc    Create a stylist profile for a user (admin only)
+ * @access  Private (stylists:write)
+ */
+router.post(
+  '/',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('stylists:write'),
+  validate({ body: createStylistSchema }),
+  stylistController.createStylist
+);
+
+/**
+ * @route   PUT /api/v1/stylists/:id
+ * @desc    Update a stylist profile and services (admin only)
+ * @access  Private (stylists:write)
+ */
+router.put(
+  '/:id',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('stylists:write'),
+  validate({ params: stylistIdParamSchema, body: updateStylistSchema }),
+  stylistController.updateStylist
+);
+
+/**
+ * @route   GET /api/v1/stylists/:id/schedule
+ * @desc    Get a stylist's weekly schedule
+ * @access  Public
+ */
+router.get(
+  '/:id/schedule',
+  validate({ params: stylistIdParamSchema }),
+  stylistController.getSchedule
+);
+
+/**
+ * @route   PUT /api/v1/stylists/:id/schedule
+ * @desc    Replace a stylist's weekly schedule (admin only)
+ * @access  Private (stylists:write)
+ */
+router.put(
+  '/:id/schedule',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('stylists:write'),
+  validate({ params: stylistIdParamSchema, body: setStylistScheduleSchema }),
+  stylistController.setSchedule
+);
+
+/**
+ * @route   GET /api/v1/stylists/:id/time-off
+ * @desc    List a stylist's time-off (admin only)
+ * @access  Private (stylists:time-off:read)
+ */
+router.get(
+  '/:id/time-off',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('stylists:time-off:read'),
+  validate({ params: stylistIdParamSchema, query: getTimeOffQuerySchema }),
+  stylistController.getTimeOff
+);
+
+/**
+ * @route   POST /api/v1/stylists/:id/time-off
+ * @desc    Add time-off for a stylist (admin only)
+ * @access  Private (stylists:write)
+ */
+router.post(
+  '/:id/time-off',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('stylists:write'),
+  validate({ params: stylistIdParamSchema, body: createTimeOffSchema }),
+  stylistController.createTimeOff
+);
+
+/**
+ * @route   DELETE /api/v1/stylists/:id/time-off/:timeOffId
+ * @desc    Delete a stylist's time-off (admin only)
+ * @access  Private (stylists:write)
+ */
+router.delete(
+  '/:id/time-off/:timeOffId',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('stylists:write'),
+  validate({ params: timeOffParamsSchema }),
+  stylistController.deleteTimeOff
+);
+
+export default router;
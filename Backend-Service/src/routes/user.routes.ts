@@ -1,26 +1,75 @@
 import { Router } from 'express';
 import { userController } from '../controllers/user.controller';
+import { privacyController } from '../controllers/privacy.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
-import { validateBody } from '../middlewares/validation.middleware';
+import { validateBody, validateQuery } from '../middlewares/validation.middleware';
 import { updateProfileSchema, changePasswordSchema } from '../schemas/auth.schema';
+import { getUsersQuerySchema } from '../schemas/user.schema';
+import { dataExportQuerySchema } from '../schemas/privacy.schema';
 
 const router = Router();
 
 /**
  * @route   GET /api/v1/users
- * @desc    Get all users (admin only)
- * @access  Private (Admin)
+ * @desc    Search, filter and sort users (admin only)
+ * @access  Private (users:read:any)
  */
 router.get(
   '/',
   authMiddleware.authenticate,
-  authMiddleware.authorize('admin'),
+  authMiddleware.requirePermission('users:read:any'),
+  validateQuery(getUsersQuerySchema),
   userController.getAllUsers
 );
 
+/**
+ * @route   GET /api/v1/users/me/export
+ * @desc    Export own personal data as JSON or a ZIP archive (?format=zip)
+ * @access  Private
+ */
+router.get(
+  '/me/export',
+  authMiddleware.authenticate,
+  validateQuery(dataExportQuerySchema),
+  privacyController.exportData
+);
+
+/**
+ * @route   GET /api/v1/users/me/erasure-requests
+ * @desc    List own erasure requests
+ * @access  Private
+ */
+router.get(
+  '/me/erasure-requests',
+  authMiddleware.authenticate,
+  privacyController.getErasureRequests
+);
+
+/**
+ * @route   POST /api/v1/users/me/erasure-requests
+ * @desc    Request erasure of own account; personal data is anonymised after the grace period
+ * @access  Private
+ */
+router.post(
+  '/me/erasure-requests',
+  authMiddleware.authenticate,
+  privacyController.requestErasure
+);
+
+/**
+ * @route   POST /api/v1/users/me/erasure-requests/cancel
+ * @desc    Cancel own pending erasure request
+ * @access  Private
+ */
+router.post(
+  '/me/erasure-requests/cancel',
+  authMiddleware.authenticate,
+  privacyController.cancelErasureRequest
+);
+
 /**
  * @route   GET /api/v1/users/:id
- * @desc    Get user by ID
+ * @desc    Get user by ID (full account for the owner or users:read:any, public profile otherwise)
  * @access  Private
  */
 router.get('/:id', authMiddleware.authenticate, userController.getUserById);
@@ -63,25 +112,61 @@ router.delete(
 /**
  * @route   PUT /api/v1/users/:id/activate
  * @desc    Activate user account (admin only)
- * @access  Private (Admin)
+ * @access  Private (users:activate)
  */
 router.put(
   '/:id/activate',
   authMiddleware.authenticate,
-  authMiddleware.authorize('admin'),
+  authMiddleware.requirePermission('users:activate'),
   userController.activateAccount
 );
 
+/**
+ * @route   POST /api/v1/users/:id/force-logout
+ * @desc    Revoke all sessions of a user (admin only)
+ * @access  Private (users:force-logout)
+ */
+router.post(
+  '/:id/force-logout',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('users:force-logout'),
+  userController.forceLogout
+);
+
 /**
  * @route   DELETE /api/v1/users/:id
- * @desc    Delete user (admin only)
- * @access  Private (Admin)
+ * @desc    Soft delete user; bookings and payments keep referencing it (admin only)
+ * @access  Private (users:delete)
  */
 router.delete(
   '/:id',
   authMiddleware.authenticate,
-  authMiddleware.authorize('admin'),
+  authMiddleware.requirePermission('users:delete'),
   userController.deleteUser
 );
 
+/**
+ * @route   POST /api/v1/users/:id/restore
+ * @desc    Restore a deleted user that was not purged (admin only)
+ * @access  Private (users:restore)
+ */
+router.post(
+  '/:id/restore',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('users:restore'),
+  userController.restoreUser
+);
+
+/**
+ * @route   POST /api/v1/users/:id/purge
+ * @desc    Anonymise the personal data of a deleted user, keeping financial records (admin only)
+ * @access  Private (users:purge)
+ */
+router.post(
+  '/:id/purge',
+  authMiddleware.authenticate,
+  authMiddleware.requirePermission('users:purge'),
+  userController.purgeUser
+);
+
 export default router;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { emailSchema, passwordSchema, uuidParamSchema } from './common.schema';
 
 /**
  * Schema for user registration
@@ -66,6 +67,76 @@ export const refreshTokenSchema = z.object({
   }),
 });
 
+// TOTP code (6 digits) or recovery code
+const twoFactorCodeField = z
+  .string({
+    required_error: 'Two-factor code is required',
+  })
+  .trim()
+  .min(6, 'Two-factor code must be at least 6 characters')
+  .max(20, 'Two-factor code must not exceed 20 characters');
+
+/**
+ * Schema for the second step of a 2FA login
+ */
+export const verifyTwoFactorLoginSchema = z.object({
+  challengeToken: z.string({
+    required_error: 'Challenge token is required',
+  }),
+  code: twoFactorCodeField,
+});
+
+/**
+ * Schema for confirming a 2FA action with a TOTP or recovery code
+ */
+export const twoFactorCodeSchema = z.object({
+  code: twoFactorCodeField,
+});
+
+/**
+ * Schema for turning 2FA off
+ */
+export const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+  password: z.string({
+    required_error: 'Password is required',
+  }),
+});
+
+/**
+ * Schema for verifying an email address with an emailed token
+ */
+export const verifyEmailSchema = z.object({
+  token: z
+    .string({
+      required_error: 'Verification token is required',
+    })
+    .min(1, 'Verification token is required'),
+});
+
+/**
+ * Schema for requesting a password reset email
+ */
+export const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+/**
+ * Schema for resetting a password with an emailed token
+ */
+export const resetPasswordSchema = z.object({
+  token: z
+    .string({
+      required_error: 'Reset token is required',
+    })
+    .min(1, 'Reset token is required'),
+  password: passwordSchema,
+});
+
+/**
+ * Schema for session ID parameter
+ */
+export const sessionIdParamSchema = uuidParamSchema;
+
 /**
  * Schema for updating user profile
  */
@@ -86,6 +157,7 @@ export const updateProfileSchema = z.object({
     .string()
     .regex(/^\+?[1-9]\d{1,14}$/, 'Invalid phone number format')
     .optional(),
+  smsOptIn: z.boolean().optional(),
 });
 
 /**
@@ -111,5 +183,11 @@ export const changePasswordSchema = z.object({
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type VerifyTwoFactorLoginInput = z.infer<typeof verifyTwoFactorLoginSchema>;
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>;
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorSchema>;
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
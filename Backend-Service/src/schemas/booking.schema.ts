@@ -14,6 +14,8 @@ export const createBookingSchema = z
   .object({
     serviceId: z.number().int().positive('Service ID must be a positive integer'),
     slotId: z.number().int().positive('Slot ID must be a positive integer'),
+    // Stylist preference; must match the stylist the slot was offered with
+    stylistId: z.number().int().positive('Stylist ID must be a positive integer').optional(),
     bookingDate: dateSchema,
     startTime: timeSchema,
     endTime: timeSchema,
@@ -45,9 +47,11 @@ export const checkAvailabilitySchema = z.object({
 
 /**
  * Schema for updating booking status
+ * The reason is recorded in the booking's status timeline
  */
 export const updateBookingStatusSchema = z.object({
   status: bookingStatusSchema,
+  reason: z.string().max(500, 'Reason must not exceed 500 characters').optional(),
   cancellationReason: z
     .string()
     .min(10, 'Cancellation reason must be at least 10 characters')
@@ -67,6 +71,11 @@ export const getBookingsQuerySchema = paginationSchema.extend({
     .optional()
     .transform((val) => (val ? Number(val) : undefined))
     .pipe(z.number().int().positive().optional()),
+  stylistId: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number(val) : undefined))
+    .pipe(z.number().int().positive().optional()),
 });
 
 /**
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { idParamSchema } from './common.schema';
+
+// Slug validation (lowercase words separated by hyphens)
+const slugSchema = z
+  .string()
+  .min(2, 'Slug must be at least 2 characters')
+  .max(50, 'Slug must not exceed 50 characters')
+  .regex(
+    /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+    'Slug may only contain lowercase letters, numbers and hyphens'
+  );
+
+/**
+ * Schema for creating a category (admin only)
+ * The slug is derived from the name when omitted
+ */
+export const createCategorySchema = z.object({
+  name: z
+    .string({
+      required_error: 'Category name is required',
+    })
+    .min(2, 'Category name must be at least 2 characters')
+    .max(50, 'Category name must not exceed 50 characters')
+    .trim(),
+  slug: slugSchema.optional(),
+  description: z.string().max(255, 'Description must not exceed 255 characters').optional(),
+  icon: z.string().max(100, 'Icon must not exceed 100 characters').optional(),
+  parentId: z.number().int().positive('Parent ID must be a positive integer').nullable().optional(),
+  displayOrder: z.number().int().nonnegative('Display order must be non-negative').optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * Schema for updating a category (admin only)
+ */
+export const updateCategorySchema = createCategorySchema.partial();
+
+/**
+ * Schema for reordering categories in bulk (admin only)
+ */
+export const reorderCategoriesSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.number().int().positive('Category ID must be a positive integer'),
+        displayOrder: z.number().int().nonnegative('Display order must be non-negative'),
+      })
+    )
+    .min(1, 'At least one category is required'),
+});
+
+/**
+ * Schema for category ID parameter
+ */
+export const categoryIdParamSchema = idParamSchema;
+
+// TypeScript types inferred from schemas
+export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
+export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
+export type ReorderCategoriesInput = z.infer<typeof reorderCategoriesSchema>;
+export type CategoryIdParam = z.infer<typeof categoryIdParamSchema>;
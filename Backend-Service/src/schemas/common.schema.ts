@@ -85,10 +85,14 @@ export const timeSchema = z
   .string()
   .regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Time must be in HH:mm format');
 
-// Date validation (YYYY-MM-DD format)
+// Date validation (YYYY-MM-DD format); the date must exist, so 2026-02-30 is rejected
 export const dateSchema = z
   .string()
-  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }, 'Date must be a valid calendar date');
 
 // Boolean string to boolean conversion (for query params)
 export const booleanSchema = z
@@ -111,7 +115,7 @@ export const bookingStatusSchema = createEnumSchema([
 ] as const);
 
 // Example: User role enum
-export const userRoleSchema = createEnumSchema(['customer', 'admin'] as const);
+export const userRoleSchema = createEnumSchema(['customer', 'staff', 'admin'] as const);
 
 // TypeScript type exports
 export type IdParam = z.infer<typeof idParamSchema>;
@@ -6,9 +6,36 @@
 // Auth schemas
 export * from './auth.schema';
 
+// User schemas
+export * from './user.schema';
+
 // Booking schemas
 export * from './booking.schema';
 
+// Service catalog schemas
+export * from './service.schema';
+
+// Category schemas
+export * from './category.schema';
+
+// Slot and availability schemas
+export * from './slot.schema';
+
+// Stylist schemas
+export * from './stylist.schema';
+
+// Payment schemas
+export * from './payment.schema';
+
+// Background job schemas
+export * from './job.schema';
+
+// Permission schemas
+export * from './permission.schema';
+
+// Personal data schemas
+export * from './privacy.schema';
+
 // Common/reusable schemas
 export * from './common.schema';
 
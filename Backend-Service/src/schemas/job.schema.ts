@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { paginationSchema, uuidParamSchema } from './common.schema';
+
+/**
+ * Schema for listing background jobs (admin)
+ */
+export const getJobsQuerySchema = paginationSchema.extend({
+  name: z.string().max(100).optional(),
+  status: z.enum(['pending', 'running', 'completed', 'dead']).optional(),
+});
+
+/**
+ * Schema for job ID parameter
+ */
+export const jobIdParamSchema = uuidParamSchema;
+
+// TypeScript types inferred from schemas
+export type GetJobsQuery = z.infer<typeof getJobsQuerySchema>;
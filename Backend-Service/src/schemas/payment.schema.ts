@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { idParamSchema, paginationSchema } from './common.schema';
+
+/**
+ * Schema for creating a deposit payment intent for a pending booking
+ */
+export const createDepositIntentSchema = z.object({
+  bookingId: z.number().int().positive('Booking ID must be a positive integer'),
+});
+
+/**
+ * Schema for payment ID parameter
+ */
+export const paymentIdParamSchema = idParamSchema;
+
+/**
+ * Schema for the booking ID parameter of the payment history endpoint
+ */
+export const bookingPaymentsParamSchema = z.object({
+  bookingId: z.string().regex(/^\d+$/, 'Booking ID must be a valid number').transform(Number),
+});
+
+/**
+ * Schema for a manual refund (admin)
+ * Without an amount, everything not refunded yet is refunded
+ */
+export const refundPaymentSchema = z.object({
+  amount: z.number().int().positive('Refund amount must be a positive number of cents').optional(),
+  reason: z
+    .string({
+      required_error: 'Refund reason is required',
+    })
+    .trim()
+    .min(3, 'Refund reason must be at least 3 characters')
+    .max(500, 'Refund reason must not exceed 500 characters'),
+});
+
+/**
+ * Payment provider names accepted in webhook URLs
+ */
+export const paymentProviderSchema = z.enum(['stripe', 'razorpay', 'fake']);
+
+/**
+ * Schema for the provider parameter of the webhook endpoint
+ */
+export const webhookProviderParamSchema = z.object({
+  provider: paymentProviderSchema,
+});
+
+/**
+ * Schema for listing stored webhook events (admin)
+ */
+export const getWebhookEventsQuerySchema = paginationSchema.extend({
+  provider: paymentProviderSchema.optional(),
+  status: z.enum(['processed', 'ignored', 'failed']).optional(),
+});
+
+/**
+ * Schema for stored webhook event ID parameter
+ */
+export const webhookEventIdParamSchema = idParamSchema;
+
+// TypeScript types inferred from schemas
+export type CreateDepositIntentInput = z.infer<typeof createDepositIntentSchema>;
+export type RefundPaymentInput = z.infer<typeof refundPaymentSchema>;
+export type GetWebhookEventsQuery = z.infer<typeof getWebhookEventsQuerySchema>;
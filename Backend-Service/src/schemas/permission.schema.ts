@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { createEnumSchema, userRoleSchema } from './common.schema';
+import { PERMISSIONS } from '../utils/permissions';
+
+/**
+ * Schema for a named permission
+ */
+export const permissionSchema = createEnumSchema(PERMISSIONS);
+
+/**
+ * Schema for replacing the permissions of a role (admin only)
+ */
+export const setRolePermissionsSchema = z.object({
+  permissions: z.array(permissionSchema),
+});
+
+/**
+ * Schema for role parameter
+ */
+export const roleParamSchema = z.object({
+  role: userRoleSchema,
+});
+
+// TypeScript types inferred from schemas
+export type SetRolePermissionsInput = z.infer<typeof setRolePermissionsSchema>;
+export type RoleParam = z.infer<typeof roleParamSchema>;
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+/**
+ * Schema for the personal data export query
+ */
+export const dataExportQuerySchema = z.object({
+  format: z.enum(['json', 'zip']).default('json'),
+});
+
+// TypeScript types inferred from schemas
+export type DataExportQuery = z.infer<typeof dataExportQuerySchema>;
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { amountSchema, idParamSchema, paginationSchema, urlSchema } from './common.schema';
+
+// Service status enum
+export const serviceStatusSchema = z.enum(['active', 'inactive', 'archived']);
+
+// Late cancellation action enum
+export const lateCancellationActionSchema = z.enum(['reject', 'forfeit']);
+
+/**
+ * Schema for creating a new service (admin only)
+ */
+export const createServiceSchema = z.object({
+  name: z
+    .string({
+      required_error: 'Service name is required',
+    })
+    .min(2, 'Service name must be at least 2 characters')
+    .max(100, 'Service name must not exceed 100 characters')
+    .trim(),
+  description: z
+    .string({
+      required_error: 'Description is required',
+    })
+    .min(10, 'Description must be at least 10 characters')
+    .max(2000, 'Description must not exceed 2000 characters')
+    .trim(),
+  price: amountSchema,
+  duration: z
+    .number({
+      required_error: 'Duration is required',
+    })
+    .int('Duration must be a whole number of minutes')
+    .min(5, 'Duration must be at least 5 minutes')
+    .max(480, 'Duration must not exceed 480 minutes'),
+  category: z
+    .string({
+      required_error: 'Category is required',
+    })
+    .min(2, 'Category must be at least 2 characters')
+    .max(50, 'Category must not exceed 50 characters')
+    .toLowerCase()
+    .trim(),
+  imageUrl: urlSchema.optional(),
+  isPopular: z.boolean().optional(),
+  discount: z
+    .number()
+    .int('Discount must be a whole percentage')
+    .min(0, 'Discount must be between 0 and 100')
+    .max(100, 'Discount must be between 0 and 100')
+    .optional(),
+  status: serviceStatusSchema.optional(),
+  // Cancellation policy overrides; null resets to the global default
+  cancellationWindowHours: z
+    .number()
+    .int('Cancellation window must be a whole number of hours')
+    .min(0, 'Cancellation window must be non-negative')
+    .max(720, 'Cancellation window must not exceed 720 hours')
+    .nullable()
+    .optional(),
+  lateCancellationAction: lateCancellationActionSchema.nullable().optional(),
+  lateCancellationForfeitPercent: z
+    .number()
+    .int('Forfeit percentage must be a whole percentage')
+    .min(0, 'Forfeit percentage must be between 0 and 100')
+    .max(100, 'Forfeit percentage must be between 0 and 100')
+    .nullable()
+    .optional(),
+});
+
+/**
+ * Schema for updating a service (admin only)
+ * All fields are optional
+ */
+export const updateServiceSchema = createServiceSchema.partial();
+
+/**
+ * Schema for listing services with filters
+ */
+export const getServicesQuerySchema = paginationSchema.extend({
+  category: z.string().toLowerCase().trim().optional(),
+  status: serviceStatusSchema.optional(),
+  isPopular: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((val) => (val === undefined ? undefined : val === 'true')),
+  search: z.string().min(1, 'Search query cannot be empty').trim().optional(),
+  sortBy: z.enum(['name', 'price', 'duration', 'createdAt']).optional(),
+});
+
+/**
+ * Schema for service ID parameter
+ */
+export const serviceIdParamSchema = idParamSchema;
+
+// TypeScript types inferred from schemas
+export type CreateServiceInput = z.infer<typeof createServiceSchema>;
+export type UpdateServiceInput = z.infer<typeof updateServiceSchema>;
+export type GetServicesQuery = z.infer<typeof getServicesQuerySchema>;
+export type ServiceIdParam = z.infer<typeof serviceIdParamSchema>;
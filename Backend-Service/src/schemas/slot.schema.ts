@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { dateSchema, timeSchema, idParamSchema, dateRangeSchema } from './common.schema';
+
+/**
+ * Schema for the service ID route parameter of the availability endpoint
+ */
+export const availabilityParamsSchema = z.object({
+  serviceId: z.string().regex(/^\d+$/, 'Service ID must be a valid number').transform(Number),
+});
+
+/**
+ * Schema for the availability date range and optional stylist preference
+ * Defaults to the next seven days when omitted
+ */
+export const availabilityQuerySchema = z.object({
+  startDate: dateSchema.optional(),
+  endDate: dateSchema.optional(),
+  stylistId: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number(val) : undefined))
+    .pipe(z.number().int().positive().optional()),
+});
+
+/**
+ * Schema for a single opening interval of a weekday
+ */
+const openingIntervalSchema = z
+  .object({
+    dayOfWeek: z
+      .number()
+      .int()
+      .min(0, 'Day of week must be between 0 (Sunday) and 6 (Saturday)')
+      .max(6, 'Day of week must be between 0 (Sunday) and 6 (Saturday)'),
+    openTime: timeSchema,
+    closeTime: timeSchema,
+  })
+  .refine((data) => data.openTime < data.closeTime, {
+    message: 'Close time must be after open time',
+    path: ['closeTime'],
+  });
+
+/**
+ * Schema for replacing the weekly opening hours (admin only)
+ * Days without any interval are treated as closed
+ */
+export const setOpeningHoursSchema = z.object({
+  hours: z.array(openingIntervalSchema),
+});
+
+/**
+ * Schema for creating a one-off closure (admin only)
+ * Omit the times to close for the whole day(s)
+ */
+export const createClosureSchema = z.object({
+  startDate: dateSchema,
+  endDate: dateSchema.optional(),
+  startTime: timeSchema.optional(),
+  endTime: timeSchema.optional(),
+  reason: z.string().max(255, 'Reason must not exceed 255 characters').optional(),
+});
+
+/**
+ * Schema for listing closures
+ */
+export const getClosuresQuerySchema = dateRangeSchema;
+
+/**
+ * Schema for closure/slot ID parameter
+ */
+export const closureIdParamSchema = idParamSchema;
+export const slotIdParamSchema = idParamSchema;
+
+// TypeScript types inferred from schemas
+export type AvailabilityQuery = z.infer<typeof availabilityQuerySchema>;
+export type SetOpeningHoursInput = z.infer<typeof setOpeningHoursSchema>;
+export type CreateClosureInput = z.infer<typeof createClosureSchema>;
+export type GetClosuresQuery = z.infer<typeof getClosuresQuerySchema>;
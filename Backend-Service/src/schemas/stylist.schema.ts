@@ -0,0 +1,105 @@
+import { z } from 'zod';
+import { dateSchema, timeSchema, idParamSchema, dateRangeSchema, urlSchema } from './common.schema';
+
+// Services a stylist can perform (replaces the current list)
+const serviceIdsSchema = z
+  .array(z.number().int().positive('Service ID must be a positive integer'))
+  .max(100, 'A stylist can perform at most 100 services');
+
+/**
+ * Schema for creating a stylist profile for a user (admin only)
+ * Customer accounts are promoted to staff
+ */
+export const createStylistSchema = z.object({
+  userId: z.number().int().positive('User ID must be a positive integer'),
+  bio: z.string().max(2000, 'Bio must not exceed 2000 characters').trim().optional(),
+  photoUrl: urlSchema.optional(),
+  serviceIds: serviceIdsSchema.optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * Schema for updating a stylist profile (admin only)
+ */
+export const updateStylistSchema = createStylistSchema.omit({ userId: true }).partial();
+
+/**
+ * Schema for listing stylists
+ * Only admins may include inactive stylists
+ */
+export const getStylistsQuerySchema = z.object({
+  serviceId: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number(val) : undefined))
+    .pipe(z.number().int().positive().optional()),
+  includeInactive: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((val) => val === 'true'),
+});
+
+/**
+ * Schema for a single working interval of a weekday
+ */
+const scheduleIntervalSchema = z
+  .object({
+    dayOfWeek: z
+      .number()
+      .int()
+      .min(0, 'Day of week must be between 0 (Sunday) and 6 (Saturday)')
+      .max(6, 'Day of week must be between 0 (Sunday) and 6 (Saturday)'),
+    startTime: timeSchema,
+    endTime: timeSchema,
+  })
+  .refine((data) => data.startTime < data.endTime, {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+  });
+
+/**
+ * Schema for replacing a stylist's weekly schedule (admin only)
+ * Days without any interval are days off
+ */
+export const setStylistScheduleSchema = z.object({
+  schedule: z.array(scheduleIntervalSchema),
+});
+
+/**
+ * Schema for adding time-off for a stylist (admin only)
+ * Omit the times for whole days off
+ */
+export const createTimeOffSchema = z.object({
+  startDate: dateSchema,
+  endDate: dateSchema.optional(),
+  startTime: timeSchema.optional(),
+  endTime: timeSchema.optional(),
+  reason: z.string().max(255, 'Reason must not exceed 255 characters').optional(),
+});
+
+/**
+ * Schema for listing a stylist's time-off
+ */
+export const getTimeOffQuerySchema = dateRangeSchema;
+
+/**
+ * Schema for stylist ID parameter
+ */
+export const stylistIdParamSchema = idParamSchema;
+
+/**
+ * Schema for the stylist and time-off ID parameters
+ */
+export const timeOffParamsSchema = stylistIdParamSchema.extend({
+  timeOffId: z.string().regex(/^\d+$/, 'Time-off ID must be a valid number').transform(Number),
+});
+
+// TypeScript types inferred from schemas
+export type CreateStylistInput = z.infer<typeof createStylistSchema>;
+export type UpdateStylistInput = z.infer<typeof updateStylistSchema>;
+export type GetStylistsQuery = z.infer<typeof getStylistsQuerySchema>;
+export type SetStylistScheduleInput = z.infer<typeof setStylistScheduleSchema>;
+export type CreateTimeOffInput = z.infer<typeof createTimeOffSchema>;
+export type GetTimeOffQuery = z.infer<typeof getTimeOffQuerySchema>;
+export type StylistIdParam = z.infer<typeof stylistIdParamSchema>;
+export type TimeOffParams = z.infer<typeof timeOffParamsSchema>;
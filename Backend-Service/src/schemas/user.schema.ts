@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { paginationSchema, userRoleSchema, dateSchema } from './common.schema';
+
+const booleanQuerySchema = z
+  .enum(['true', 'false'])
+  .optional()
+  .transform((val) => (val === undefined ? undefined : val === 'true'));
+
+/**
+ * Schema for listing users with search, filters and sorting (admin only)
+ */
+export const getUsersQuerySchema = paginationSchema
+  .extend({
+    search: z.string().trim().min(1, 'Search query cannot be empty').max(100).optional(),
+    role: userRoleSchema.optional(),
+    isActive: booleanQuerySchema,
+    deleted: booleanQuerySchema,
+    createdAtFrom: dateSchema.optional(),
+    createdAtTo: dateSchema.optional(),
+    sortBy: z
+      .enum(['createdAt', 'lastLoginAt', 'email', 'firstName', 'lastName', 'role'])
+      .optional(),
+  })
+  .refine(
+    (data) => !data.createdAtFrom || !data.createdAtTo || data.createdAtFrom <= data.createdAtTo,
+    {
+      message: 'createdAtTo must not be before createdAtFrom',
+      path: ['createdAtTo'],
+    }
+  );
+
+// TypeScript types inferred from schemas
+export type GetUsersQuery = z.infer<typeof getUsersQuerySchema>;
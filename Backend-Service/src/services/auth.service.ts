@@ -1,8 +1,34 @@
+import { Op } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config/environment';
 import User from '../models/User.model';
+import RefreshToken from '../models/RefreshToken.model';
+import PasswordResetToken from '../models/PasswordResetToken.model';
+import EmailVerificationToken from '../models/EmailVerificationToken.model';
+import AccountLockout from '../models/AccountLockout.model';
 import { JWTUtil, TokenResponse, JWTPayload } from '../utils/jwt';
-import { ConflictError, UnauthorizedError, BadRequestError } from '../utils/errors';
-import { RegisterInput, LoginInput } from '../schemas/auth.schema';
-import { UserAttributes } from '../types';
+import { NotificationService } from './notification.service';
+import { SessionService } from './session.service';
+import { TwoFactorService } from './twoFactor.service';
+import {
+  ConflictError,
+  UnauthorizedError,
+  BadRequestError,
+  NotFoundError,
+  TooManyRequestsError,
+} from '../utils/errors';
+import logger from '../utils/logger';
+import { generateToken, getRefreshTokenState, hashToken } from '../utils/tokens';
+import { evaluateFailedLogin, getLockoutRemainingMinutes } from '../utils/lockout';
+import {
+  RegisterInput,
+  LoginInput,
+  VerifyEmailInput,
+  ForgotPasswordInput,
+  ResetPasswordInput,
+  VerifyTwoFactorLoginInput,
+} from '../schemas/auth.schema';
+import { SessionContext, TwoFactorChallenge, UserAttributes } from '../types';
 
 /**
  * Authentication service with dependency injection
@@ -10,19 +36,31 @@ import { UserAttributes } from '../types';
 export class AuthService {
   constructor(
     private readonly jwtUtil: JWTUtil,
-    private readonly userModel: typeof User = User
+    private readonly notificationService: NotificationService,
+    private readonly sessionService: SessionService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly userModel: typeof User = User,
+    private readonly refreshTokenModel: typeof RefreshToken = RefreshToken,
+    private readonly passwordResetTokenModel: typeof PasswordResetToken = PasswordResetToken,
+    private readonly emailVerificationTokenModel: typeof EmailVerificationToken = EmailVerificationToken,
+    private readonly accountLockoutModel: typeof AccountLockout = AccountLockout
   ) {}
 
   /**
-   * Register a new user
+   * Register a new user and start their first session
+   * The email address starts unverified and a verification link is emailed
    */
-  async register(data: RegisterInput): Promise<{
+  async register(
+    data: RegisterInput,
+    context: SessionContext = {}
+  ): Promise<{
     user: Omit<UserAttributes, 'password'>;
     tokens: TokenResponse;
   }> {
-    // Check if user already exists
+    // Check if user already exists (deleted users keep their email until purged)
     const existingUser = await this.userModel.findOne({
       where: { email: data.email },
+      paranoid: false,
     });
 
     if (existingUser) {
@@ -39,14 +77,10 @@ export class AuthService {
       role: 'customer', // Default role
     });
 
-    // Generate tokens
-    const payload: JWTPayload = {
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    };
+    await this.notificationService.sendWelcomeEmail(user);
+    await this.sendVerificationEmail(user);
 
-    const tokens = this.jwtUtil.generateTokens(payload);
+    const tokens = await this.startSession(user, context, false);
 
     // Return user without password
     return {
@@ -57,11 +91,20 @@ export class AuthService {
 
   /**
    * Login user
+   * Every login starts a new session recording the client's device and IP
+   * Repeated wrong passwords lock the account for config.auth.lockoutDuration minutes
+   * Accounts with 2FA get a challenge token instead, to be completed with verifyTwoFactorLogin
    */
-  async login(data: LoginInput): Promise<{
-    user: Omit<UserAttributes, 'password'>;
-    tokens: TokenResponse;
-  }> {
+  async login(
+    data: LoginInput,
+    context: SessionContext = {}
+  ): Promise<
+    | {
+        user: Omit<UserAttributes, 'password'>;
+        tokens: TokenResponse;
+      }
+    | TwoFactorChallenge
+  > {
     // Find user by email
     const user = await this.userModel.findOne({
       where: { email: data.email },
@@ -71,6 +114,9 @@ export class AuthService {
       throw new UnauthorizedError('Invalid email or password');
     }
 
+    // Locked accounts are rejected before the password is checked
+    this.assertNotLocked(user);
+
     // Check if user is active
     if (!user.isActive) {
       throw new UnauthorizedError('Account is deactivated');
@@ -80,20 +126,68 @@ export class AuthService {
     const isPasswordValid = await user.comparePassword(data.password);
 
     if (!isPasswordValid) {
+      await this.recordFailedLogin(user, context);
+      this.assertNotLocked(user);
       throw new UnauthorizedError('Invalid email or password');
     }
 
-    // Update last login timestamp
-    await user.update({ lastLoginAt: new Date() });
+    if (user.twoFactorEnabledAt) {
+      const expiresIn = config.auth.twoFactorChallengeTtl * 60;
 
-    // Generate tokens
-    const payload: JWTPayload = {
-      userId: user.id,
-      email: user.email,
-      role: user.role,
+      return {
+        twoFactorRequired: true,
+        challengeToken: this.jwtUtil.generateChallengeToken({ userId: user.id }, expiresIn),
+        expiresIn,
+      };
+    }
+
+    // Update last login timestamp and clear failed attempts
+    await user.update({ lastLoginAt: new Date(), failedLoginAttempts: 0, lockedUntil: null });
+
+    const tokens = await this.startSession(user, context, false);
+
+    return {
+      user: user.toSafeObject(),
+      tokens,
     };
+  }
+
+  /**
+   * Complete a 2FA login with the challenge token and a TOTP or recovery code
+   * Wrong codes count towards the account lockout like wrong passwords
+   */
+  async verifyTwoFactorLogin(
+    data: VerifyTwoFactorLoginInput,
+    context: SessionContext = {}
+  ): Promise<{
+    user: Omit<UserAttributes, 'password'>;
+    tokens: TokenResponse;
+  }> {
+    const { userId } = this.jwtUtil.verifyChallengeToken(data.challengeToken);
+
+    const user = await this.userModel.findByPk(userId);
+
+    if (!user || !user.twoFactorEnabledAt) {
+      throw new UnauthorizedError('Invalid or expired challenge token');
+    }
+
+    this.assertNotLocked(user);
 
-    const tokens = this.jwtUtil.generateTokens(payload);
+    if (!user.isActive) {
+      throw new UnauthorizedError('Account is deactivated');
+    }
+
+    const isCodeValid = await this.twoFactorService.verifyCode(user, data.code);
+
+    if (!isCodeValid) {
+      await this.recordFailedLogin(user, context);
+      this.assertNotLocked(user);
+      throw new UnauthorizedError('Invalid two-factor code');
+    }
+
+    await user.update({ lastLoginAt: new Date(), failedLoginAttempts: 0, lockedUntil: null });
+
+    const tokens = await this.startSession(user, context, true);
 
     return {
       user: user.toSafeObject(),
@@ -102,9 +196,11 @@ export class AuthService {
   }
 
   /**
-   * Refresh access token using refresh token
+   * Exchange a refresh token for a new token pair (rotation)
+   * The presented token can only be used once; presenting a rotated token again means it
+   * was stolen, so every token of its family is revoked
    */
-  async refreshToken(refreshToken: string): Promise<TokenResponse> {
+  async refreshToken(refreshToken: string, context: SessionContext = {}): Promise<TokenResponse> {
     if (!refreshToken) {
       throw new BadRequestError('Refresh token is required');
     }
@@ -112,25 +208,240 @@ export class AuthService {
     // Verify refresh token
     const decoded = this.jwtUtil.verifyRefreshToken(refreshToken);
 
+    const stored = await this.refreshTokenModel.findOne({
+      where: { tokenHash: hashToken(refreshToken) },
+    });
+
+    // Tokens issued before rotation was introduced are not stored and must log in again
+    if (!stored) {
+      throw new UnauthorizedError('Invalid refresh token');
+    }
+
+    const state = getRefreshTokenState(stored);
+
+    if (state === 'rotated') {
+      await this.sessionService.revokeSession(stored.familyId, 'reuse_detected');
+      logger.warn(`Refresh token reuse detected for user ${stored.userId}, session revoked`);
+      throw new UnauthorizedError('Refresh token has already been used');
+    }
+
+    if (state === 'revoked') {
+      throw new UnauthorizedError('Session has been revoked');
+    }
+
+    if (state === 'expired') {
+      throw new UnauthorizedError('Refresh token expired');
+    }
+
+    // Conditional update: of two concurrent refreshes with the same token, one is reuse
+    const [rotated] = await this.refreshTokenModel.update(
+      { rotatedAt: new Date() },
+      { where: { id: stored.id, rotatedAt: null, revokedAt: null } }
+    );
+
+    if (rotated === 0) {
+      await this.sessionService.revokeSession(stored.familyId, 'reuse_detected');
+      throw new UnauthorizedError('Refresh token has already been used');
+    }
+
     // Find user to ensure they still exist and are active
-    const user = await this.userModel.findByPk(decoded.userId);
+    const user = await this.userModel.findByPk(stored.userId);
 
     if (!user) {
       throw new UnauthorizedError('User not found');
     }
 
     if (!user.isActive) {
+      await this.sessionService.revokeSession(stored.familyId, 'logout');
       throw new UnauthorizedError('Account is deactivated');
     }
 
-    // Generate new tokens
-    const payload: JWTPayload = {
+    const tokens = await this.issueTokens(user, stored.familyId, decoded.twoFactor === true);
+    await this.sessionService.recordRefresh(
+      stored.familyId,
+      this.getRefreshTokenExpiry(tokens),
+      context
+    );
+
+    return tokens;
+  }
+
+  /**
+   * Log out of the current session by revoking it and its refresh tokens
+   * Tokens issued without a session cannot be revoked and simply expire
+   */
+  async logout(user: JWTPayload): Promise<void> {
+    if (user.sessionId) {
+      await this.sessionService.revokeSession(user.sessionId, 'logout');
+    }
+  }
+
+  /**
+   * Mark a user's email address as verified with an emailed token
+   */
+  async verifyEmail(data: VerifyEmailInput): Promise<{ message: string }> {
+    const stored = await this.emailVerificationTokenModel.findOne({
+      where: {
+        tokenHash: hashToken(data.token),
+        usedAt: null,
+        expiresAt: { [Op.gt]: new Date() },
+      },
+    });
+
+    if (!stored) {
+      throw new BadRequestError('Invalid or expired verification token');
+    }
+
+    const [consumed] = await this.emailVerificationTokenModel.update(
+      { usedAt: new Date() },
+      { where: { id: stored.id, usedAt: null } }
+    );
+
+    if (consumed === 0) {
+      throw new BadRequestError('Invalid or expired verification token');
+    }
+
+    const user = await this.userModel.findByPk(stored.userId);
+
+    if (!user) {
+      throw new BadRequestError('Invalid or expired verification token');
+    }
+
+    if (!user.emailVerifiedAt) {
+      await user.update({ emailVerifiedAt: new Date() });
+    }
+
+    return { message: 'Email verified successfully' };
+  }
+
+  /**
+   * Email a new verification link to the current user
+   * Earlier links stop working
+   */
+  async resendVerificationEmail(userId: number): Promise<{ message: string }> {
+    const user = await this.userModel.findByPk(userId);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    if (user.emailVerifiedAt) {
+      throw new ConflictError('Email is already verified');
+    }
+
+    await this.sendVerificationEmail(user);
+
+    return { message: 'Verification email sent' };
+  }
+
+  /**
+   * Email a single-use password reset link
+   * The response is the same whether or not the email belongs to an account
+   */
+  async forgotPassword(data: ForgotPasswordInput): Promise<{ message: string }> {
+    const message = 'If an account exists for this email, a password reset link has been sent';
+
+    const user = await this.userModel.findOne({
+      where: { email: data.email },
+    });
+
+    if (!user || !user.isActive) {
+      logger.info('Password reset requested for an unknown or inactive account');
+      return { message };
+    }
+
+    // Only the latest link works
+    await this.passwordResetTokenModel.destroy({
+      where: { userId: user.id, usedAt: null },
+    });
+
+    const token = generateToken();
+    const ttlMinutes = config.auth.passwordResetTokenTtl;
+
+    await this.passwordResetTokenModel.create({
       userId: user.id,
-      email: user.email,
-      role: user.role,
-    };
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+    });
 
-    return this.jwtUtil.generateTokens(payload);
+    const resetUrl = this.buildTokenLink(config.auth.passwordResetUrl, token);
+
+    // Not awaited so that slow email delivery does not reveal that the account exists
+    void this.notificationService.sendPasswordReset(user, resetUrl, ttlMinutes);
+
+    return { message };
+  }
+
+  /**
+   * Set a new password with an emailed reset token
+   * The token is consumed, and every existing session of the user is revoked
+   */
+  async resetPassword(data: ResetPasswordInput): Promise<{ message: string }> {
+    const stored = await this.passwordResetTokenModel.findOne({
+      where: {
+        tokenHash: hashToken(data.token),
+        usedAt: null,
+        expiresAt: { [Op.gt]: new Date() },
+      },
+    });
+
+    if (!stored) {
+      throw new BadRequestError('Invalid or expired reset token');
+    }
+
+    // Conditional update: of two concurrent resets with the same token, only one succeeds
+    const [consumed] = await this.passwordResetTokenModel.update(
+      { usedAt: new Date() },
+      { where: { id: stored.id, usedAt: null } }
+    );
+
+    if (consumed === 0) {
+      throw new BadRequestError('Invalid or expired reset token');
+    }
+
+    const user = await this.userModel.findByPk(stored.userId);
+
+    if (!user || !user.isActive) {
+      throw new BadRequestError('Invalid or expired reset token');
+    }
+
+    // Update password (will be hashed by model hook); proving ownership also lifts a lockout
+    user.password = data.password;
+    user.failedLoginAttempts = 0;
+    user.lockedUntil = null;
+    await user.save();
+
+    const revoked = await this.sessionService.revokeAllSessions(user.id, 'password_reset');
+    logger.info(`Password reset for user ${user.id}, ${revoked} sessions revoked`);
+
+    return { message: 'Password has been reset successfully' };
+  }
+
+  /**
+   * Delete refresh tokens that expired before a date (scheduled cleanup)
+   */
+  async purgeExpiredRefreshTokens(before: Date): Promise<number> {
+    return this.refreshTokenModel.destroy({
+      where: { expiresAt: { [Op.lt]: before } },
+    });
+  }
+
+  /**
+   * Delete password reset tokens that expired before a date (scheduled cleanup)
+   */
+  async purgeExpiredPasswordResetTokens(before: Date): Promise<number> {
+    return this.passwordResetTokenModel.destroy({
+      where: { expiresAt: { [Op.lt]: before } },
+    });
+  }
+
+  /**
+   * Delete email verification tokens that expired before a date (scheduled cleanup)
+   */
+  async purgeExpiredEmailVerificationTokens(before: Date): Promise<number> {
+    return this.emailVerificationTokenModel.destroy({
+      where: { expiresAt: { [Op.lt]: before } },
+    });
   }
 
   /**
@@ -149,8 +460,159 @@ export class AuthService {
 
     return user.toSafeObject();
   }
+
+  /**
+   * Reject logins to an account that is locked after repeated failed logins
+   */
+  private assertNotLocked(user: User): void {
+    const minutes = getLockoutRemainingMinutes(user.lockedUntil);
+
+    if (minutes > 0) {
+      throw new TooManyRequestsError(
+        `Account is temporarily locked after too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}`
+      );
+    }
+  }
+
+  /**
+   * Count a failed login, locking the account and recording the lockout once the limit is reached
+   */
+  private async recordFailedLogin(user: User, context: SessionContext): Promise<void> {
+    const outcome = evaluateFailedLogin(user.failedLoginAttempts, config.auth);
+
+    await user.update(outcome);
+
+    if (outcome.lockedUntil) {
+      await this.accountLockoutModel.create({
+        userId: user.id,
+        failedAttempts: config.auth.maxFailedLogins,
+        lockedUntil: outcome.lockedUntil,
+        ipAddress: context.ipAddress || null,
+        userAgent: context.userAgent ? context.userAgent.slice(0, 500) : null,
+      });
+
+      logger.warn(
+        `Account ${user.id} locked until ${outcome.lockedUntil.toISOString()} after ${config.auth.maxFailedLogins} failed logins (IP ${context.ipAddress || 'unknown'})`
+      );
+    }
+  }
+
+  /**
+   * Issue a verification token for a user's email address and email the link
+   * Only the latest link works
+   */
+  private async sendVerificationEmail(user: User): Promise<void> {
+    await this.emailVerificationTokenModel.destroy({
+      where: { userId: user.id, usedAt: null },
+    });
+
+    const token = generateToken();
+    const ttlHours = config.auth.emailVerificationTokenTtl;
+
+    await this.emailVerificationTokenModel.create({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+    });
+
+    await this.notificationService.sendEmailVerification(
+      user,
+      this.buildTokenLink(config.auth.emailVerificationUrl, token),
+      ttlHours
+    );
+  }
+
+  /**
+   * Link to a frontend page carrying an emailed token, e.g. https://app/reset-password?token=...
+   */
+  private buildTokenLink(baseUrl: string, token: string): string {
+    const url = new URL(baseUrl);
+    url.searchParams.set('token', token);
+
+    return url.toString();
+  }
+
+  /**
+   * Start a new session (refresh token family) for a user and issue its first tokens
+   */
+  private async startSession(
+    user: User,
+    context: SessionContext,
+    twoFactor: boolean
+  ): Promise<TokenResponse> {
+    const sessionId = uuidv4();
+    const tokens = this.generateSessionTokens(user, sessionId, twoFactor);
+
+    await this.sessionService.createSession(
+      sessionId,
+      user.id,
+      this.getRefreshTokenExpiry(tokens),
+      context
+    );
+    await this.storeRefreshToken(user.id, sessionId, tokens);
+
+    return tokens;
+  }
+
+  /**
+   * Issue the next tokens of an existing session
+   * The session keeps whether its login passed 2FA
+   */
+  private async issueTokens(
+    user: User,
+    sessionId: string,
+    twoFactor: boolean
+  ): Promise<TokenResponse> {
+    const tokens = this.generateSessionTokens(user, sessionId, twoFactor);
+    await this.storeRefreshToken(user.id, sessionId, tokens);
+
+    return tokens;
+  }
+
+  /**
+   * Generate a token pair bound to a session
+   */
+  private generateSessionTokens(user: User, sessionId: string, twoFactor: boolean): TokenResponse {
+    const payload: JWTPayload = {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sessionId,
+      ...(twoFactor && { twoFactor }),
+    };
+
+    return this.jwtUtil.generateTokens(payload);
+  }
+
+  /**
+   * Store the hash of a session's refresh token
+   */
+  private async storeRefreshToken(
+    userId: number,
+    sessionId: string,
+    tokens: TokenResponse
+  ): Promise<void> {
+    await this.refreshTokenModel.create({
+      userId,
+      familyId: sessionId,
+      tokenHash: hashToken(tokens.refreshToken),
+      expiresAt: this.getRefreshTokenExpiry(tokens),
+    });
+  }
+
+  private getRefreshTokenExpiry(tokens: TokenResponse): Date {
+    return this.jwtUtil.getTokenExpiry(tokens.refreshToken) || new Date();
+  }
 }
 
 // Export singleton instance
 import { jwtUtil } from '../utils/jwt';
-export const authService = new AuthService(jwtUtil);
+import { notificationService } from './notification.service';
+import { sessionService } from './session.service';
+import { twoFactorService } from './twoFactor.service';
+export const authService = new AuthService(
+  jwtUtil,
+  notificationService,
+  sessionService,
+  twoFactorService
+);
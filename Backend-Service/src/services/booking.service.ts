@@ -0,0 +1,611 @@
+import { Op, Transaction, UniqueConstraintError } from 'sequelize';
+import sequelize from '../config/database';
+import Booking from '../models/Booking.model';
+import BookingStatusHistory from '../models/BookingStatusHistory.model';
+import Service from '../models/Service.model';
+import Slot from '../models/Slot.model';
+import Stylist from '../models/Stylist.model';
+import User from '../models/User.model';
+import { SlotService } from './slot.service';
+import { RefundService } from './refund.service';
+import { NotificationService } from './notification.service';
+import { PermissionService } from './permission.service';
+import { NotFoundError, ConflictError, BadRequestError, ForbiddenError } from '../utils/errors';
+import config from '../config/environment';
+import { assertBookingStatusTransition } from '../utils/bookingStatus';
+import { assessCancellation, resolveCancellationPolicy } from '../utils/cancellationPolicy';
+import { fromLocalDateTime, minutesToTime, toLocalDateTime } from '../utils/availability';
+import logger from '../utils/logger';
+import {
+  CreateBookingInput,
+  UpdateBookingStatusInput,
+  CancelBookingInput,
+} from '../schemas/booking.schema';
+import {
+  BookingAttributes,
+  BookingDetails,
+  BookingQueryFilters,
+  BookingStatus,
+  BookingTimelineEntry,
+  CancellationAssessment,
+  Permission,
+  PermissionActor,
+} from '../types';
+
+/**
+ * Requester of a booking operation (used for ownership checks)
+ */
+export type BookingActor = PermissionActor;
+
+/**
+ * How findBookingOrFail loads a booking and which permission grants access to other customers'
+ */
+interface BookingLookupOptions {
+  withDetails?: boolean;
+  permission?: Permission;
+}
+
+/**
+ * Booking service with dependency injection
+ */
+export class BookingService {
+  constructor(
+    private readonly slotService: SlotService,
+    private readonly refundService: RefundService,
+    private readonly notificationService: NotificationService,
+    private readonly permissionService: PermissionService,
+    private readonly bookingModel: typeof Booking = Booking,
+    private readonly serviceModel: typeof Service = Service,
+    private readonly slotModel: typeof Slot = Slot,
+    private readonly userModel: typeof User = User,
+    private readonly historyModel: typeof BookingStatusHistory = BookingStatusHistory,
+    private readonly stylistModel: typeof Stylist = Stylist
+  ) {}
+
+  /**
+   * Create a booking for the current user
+   * The slot must still be free and must not be held by another customer
+   * A stylist preference is taken from the slot, which availability offered with that stylist;
+   * without one, the booking goes to a free stylist who performs the service
+   * Customers need a verified email address unless config.booking.requireVerifiedEmail is off
+   */
+  async createBooking(actor: BookingActor, data: CreateBookingInput): Promise<BookingDetails> {
+    const { userId } = actor;
+
+    if (config.booking.requireVerifiedEmail) {
+      await this.assertEmailVerified(userId);
+    }
+
+    const slot = await this.slotModel.findByPk(data.slotId);
+
+    if (!slot) {
+      throw new NotFoundError('Slot');
+    }
+
+    if (
+      slot.serviceId !== data.serviceId ||
+      slot.date !== data.bookingDate ||
+      slot.startTime !== data.startTime ||
+      slot.endTime !== data.endTime ||
+      (data.stylistId !== undefined && slot.stylistId !== data.stylistId)
+    ) {
+      throw new BadRequestError('Booking details do not match the selected slot');
+    }
+
+    const service = await this.serviceModel.findByPk(data.serviceId);
+
+    if (!service || !service.isBookable) {
+      throw new NotFoundError('Service');
+    }
+
+    await this.slotService.assertSlotNotHeldByOthers(slot.id, userId);
+    await this.slotService.assertSlotAvailable(slot.toJSON());
+
+    const stylistId = slot.stylistId || (await this.slotService.assignStylist(slot.toJSON()));
+
+    let booking: Booking;
+
+    try {
+      booking = await sequelize.transaction(async (transaction) => {
+        const created = await this.bookingModel.create(
+          {
+            userId,
+            serviceId: service.id,
+            slotId: slot.id,
+            stylistId,
+            bookingDate: slot.date,
+            startTime: slot.startTime,
+            endTime: slot.endTime,
+            totalAmount: service.discountedPrice,
+            notes: data.notes,
+          },
+          { transaction }
+        );
+
+        await this.recordStatusChange(created.id, null, created.status, actor, null, transaction);
+
+        return created;
+      });
+    } catch (error) {
+      // Another booking took the slot between the availability check and the insert
+      if (error instanceof UniqueConstraintError) {
+        throw new ConflictError('Slot is no longer available');
+      }
+      throw error;
+    }
+
+    // The booking itself now occupies the slot, so the checkout hold is no longer needed
+    await this.slotService.releaseSlotLock(slot.id, userId);
+
+    return this.getBookingById(booking.id);
+  }
+
+  /**
+   * Get bookings with filters and pagination
+   * Pass userId to restrict the list to a single customer
+   */
+  async getBookings(filters: BookingQueryFilters = {}): Promise<{
+    bookings: BookingDetails[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 10;
+    const offset = (page - 1) * limit;
+
+    const where: Record<string, unknown> = {};
+
+    if (filters.userId) {
+      where.userId = filters.userId;
+    }
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    if (filters.serviceId) {
+      where.serviceId = filters.serviceId;
+    }
+
+    if (filters.stylistId) {
+      where.stylistId = filters.stylistId;
+    }
+
+    if (filters.startDate || filters.endDate) {
+      where.bookingDate = {
+        ...(filters.startDate && { [Op.gte]: filters.startDate }),
+        ...(filters.endDate && { [Op.lte]: filters.endDate }),
+      };
+    }
+
+    const { count, rows } = await this.bookingModel.findAndCountAll({
+      where,
+      include: this.detailIncludes(),
+      limit,
+      offset,
+      order: [
+        ['bookingDate', filters.sortOrder || 'DESC'],
+        ['startTime', filters.sortOrder || 'DESC'],
+      ],
+    });
+
+    return {
+      bookings: rows.map((booking) => booking.toJSON() as BookingDetails),
+      pagination: {
+        page,
+        limit,
+        total: count,
+        totalPages: Math.ceil(count / limit),
+      },
+    };
+  }
+
+  /**
+   * Get booking by ID
+   * When an actor is given, customers can only see their own bookings
+   */
+  async getBookingById(bookingId: number, actor?: BookingActor): Promise<BookingDetails> {
+    const booking = await this.findBookingOrFail(bookingId, actor, { withDetails: true });
+    return booking.toJSON() as BookingDetails;
+  }
+
+  /**
+   * Cancel a booking
+   * Customers can only cancel their own bookings
+   */
+  async cancelBooking(
+    bookingId: number,
+    actor: BookingActor,
+    data: CancelBookingInput
+  ): Promise<BookingDetails> {
+    const booking = await this.findBookingOrFail(bookingId, actor, {
+      permission: 'bookings:write:any',
+    });
+
+    assertBookingStatusTransition(booking.status, 'cancelled');
+
+    // Staff with bookings:write:any override the policy: the salon cancelling never costs the
+    // customer their deposit
+    if (await this.permissionService.actorHasPermission(actor, 'bookings:write:any')) {
+      await this.changeStatus(booking, 'cancelled', actor, data.reason, {
+        isLateCancellation: false,
+        depositForfeitPercent: 0,
+      });
+      await this.refundCancelledBooking(booking);
+
+      return this.getBookingById(booking.id, actor);
+    }
+
+    const assessment = await this.assessBookingCancellation(booking);
+
+    if (!assessment.allowed) {
+      throw new ConflictError(
+        `Bookings cannot be cancelled less than ${assessment.policy.windowHours} hours before the appointment`
+      );
+    }
+
+    await this.changeStatus(booking, 'cancelled', actor, data.reason, {
+      isLateCancellation: assessment.isLate,
+      depositForfeitPercent: assessment.forfeitPercent,
+    });
+    await this.refundCancelledBooking(booking);
+
+    return this.getBookingById(booking.id, actor);
+  }
+
+  /**
+   * Get the cancellation policy of a booking and what cancelling now would mean
+   * Customers can only check their own bookings
+   */
+  async getCancellationPolicy(
+    bookingId: number,
+    actor: BookingActor
+  ): Promise<CancellationAssessment> {
+    const booking = await this.findBookingOrFail(bookingId, actor);
+    return this.assessBookingCancellation(booking);
+  }
+
+  /**
+   * Update booking status (admin only)
+   * Only transitions allowed by the booking state machine are accepted
+   */
+  async updateBookingStatus(
+    bookingId: number,
+    actor: BookingActor,
+    data: UpdateBookingStatusInput
+  ): Promise<BookingDetails> {
+    const booking = await this.findBookingOrFail(bookingId);
+
+    await this.changeStatus(
+      booking,
+      data.status,
+      actor,
+      data.reason || data.cancellationReason || null
+    );
+
+    if (data.status === 'cancelled') {
+      await this.refundCancelledBooking(booking);
+    }
+
+    return this.getBookingById(booking.id);
+  }
+
+  /**
+   * Move a booking to a new status on behalf of another module (payments, jobs)
+   * A null actor marks an automated (system) change
+   */
+  async transitionBooking(
+    bookingId: number,
+    toStatus: BookingStatus,
+    actor: BookingActor | null,
+    reason?: string
+  ): Promise<BookingDetails> {
+    const booking = await this.findBookingOrFail(bookingId);
+
+    await this.changeStatus(booking, toStatus, actor, reason);
+
+    return this.getBookingById(booking.id);
+  }
+
+  /**
+   * Cancel pending bookings whose deposit was not paid in time (scheduled job)
+   * Frees their slots for other customers; returns the number of bookings cancelled
+   */
+  async expireUnpaidBookings(now: Date = new Date()): Promise<number> {
+    if (config.booking.tokenAmount <= 0) {
+      return 0;
+    }
+
+    const cutoff = new Date(now.getTime() - config.booking.pendingPaymentTimeout * 60 * 1000);
+
+    const bookings = await this.bookingModel.findAll({
+      where: {
+        status: 'pending',
+        totalAmount: { [Op.gt]: 0 },
+        createdAt: { [Op.lt]: cutoff },
+      },
+    });
+
+    return this.transitionEach(bookings, 'pending', 'cancelled', 'Deposit not paid in time');
+  }
+
+  /**
+   * Mark confirmed bookings whose appointment has ended as completed (scheduled job)
+   * Returns the number of bookings completed
+   */
+  async completePastBookings(now: Date = new Date()): Promise<number> {
+    const { date, minutes } = toLocalDateTime(now);
+
+    const bookings = await this.bookingModel.findAll({
+      where: {
+        status: 'confirmed',
+        [Op.or]: [
+          { bookingDate: { [Op.lt]: date } },
+          { bookingDate: date, endTime: { [Op.lte]: minutesToTime(minutes) } },
+        ],
+      },
+    });
+
+    return this.transitionEach(bookings, 'confirmed', 'completed', 'Appointment time has passed');
+  }
+
+  /**
+   * Get the status timeline of a booking, oldest first
+   * Customers can only see the timeline of their own bookings
+   */
+  async getBookingTimeline(
+    bookingId: number,
+    actor: BookingActor
+  ): Promise<BookingTimelineEntry[]> {
+    await this.findBookingOrFail(bookingId, actor);
+
+    const entries = await this.historyModel.findAll({
+      where: { bookingId },
+      include: [
+        {
+          model: this.userModel,
+          as: 'actor',
+          attributes: ['id', 'firstName', 'lastName'],
+        },
+      ],
+      order: [
+        ['createdAt', 'ASC'],
+        ['id', 'ASC'],
+      ],
+    });
+
+    return entries.map((entry) => entry.toJSON() as BookingTimelineEntry);
+  }
+
+  /**
+   * Ensure the customer confirmed their email address before booking
+   */
+  private async assertEmailVerified(userId: number): Promise<void> {
+    const user = await this.userModel.findByPk(userId, {
+      attributes: ['id', 'emailVerifiedAt'],
+    });
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    if (!user.emailVerifiedAt) {
+      throw new ForbiddenError('Please verify your email address before booking');
+    }
+  }
+
+  /**
+   * Apply the booking's cancellation policy at the current time
+   */
+  private async assessBookingCancellation(booking: Booking): Promise<CancellationAssessment> {
+    const service = await this.serviceModel.findByPk(booking.serviceId);
+
+    if (!service) {
+      throw new NotFoundError('Service');
+    }
+
+    const policy = resolveCancellationPolicy(service, {
+      windowHours: config.booking.cancellationWindow,
+      lateAction: config.booking.lateCancellationAction,
+      forfeitPercent: config.booking.lateCancellationForfeitPercent,
+    });
+
+    return assessCancellation(policy, fromLocalDateTime(booking.bookingDate, booking.startTime));
+  }
+
+  /**
+   * Refund the deposit of a booking that was just cancelled, minus any forfeited share
+   */
+  private async refundCancelledBooking(booking: Booking): Promise<void> {
+    await this.refundService.refundCancelledBooking(
+      booking.id,
+      booking.depositForfeitPercent ?? 0,
+      `Booking #${booking.id} cancelled`
+    );
+  }
+
+  /**
+   * Move a batch of bookings selected by a scheduled job to a new status
+   * Bookings that left the expected status since they were selected are skipped
+   */
+  private async transitionEach(
+    bookings: Booking[],
+    expectedStatus: BookingStatus,
+    toStatus: BookingStatus,
+    reason: string
+  ): Promise<number> {
+    let changed = 0;
+
+    for (const booking of bookings) {
+      try {
+        await this.changeStatus(booking, toStatus, null, reason, {}, expectedStatus);
+        changed++;
+      } catch (error) {
+        if (!(error instanceof ConflictError)) {
+          throw error;
+        }
+        logger.warn(`Skipped booking ${booking.id}: ${error.message}`);
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Move a booking to a new status and record the transition
+   * A null actor marks an automated (system) change
+   * When expectedStatus is given, the change only applies if the booking is still in that status
+   */
+  private async changeStatus(
+    booking: Booking,
+    toStatus: BookingStatus,
+    actor: BookingActor | null,
+    reason?: string | null,
+    changes: Partial<BookingAttributes> = {},
+    expectedStatus?: BookingStatus
+  ): Promise<void> {
+    const isCancelling = toStatus === 'cancelled';
+
+    await sequelize.transaction(async (transaction) => {
+      // Re-read under a row lock so concurrent changes cannot both pass the check
+      await booking.reload({ transaction, lock: Transaction.LOCK.UPDATE });
+
+      const fromStatus = booking.status;
+
+      if (expectedStatus && fromStatus !== expectedStatus) {
+        throw new ConflictError(`Booking is no longer ${expectedStatus}`);
+      }
+
+      assertBookingStatusTransition(fromStatus, toStatus);
+
+      await booking.update(
+        {
+          ...changes,
+          status: toStatus,
+          ...(isCancelling && { cancellationReason: reason, cancelledAt: new Date() }),
+        },
+        { transaction }
+      );
+
+      await this.recordStatusChange(booking.id, fromStatus, toStatus, actor, reason, transaction);
+    });
+
+    await this.notifyStatusChange(booking.id, toStatus);
+  }
+
+  /**
+   * Email the customer about a confirmed or cancelled booking
+   */
+  private async notifyStatusChange(bookingId: number, status: BookingStatus): Promise<void> {
+    if (status !== 'confirmed' && status !== 'cancelled') {
+      return;
+    }
+
+    const booking = await this.getBookingById(bookingId);
+
+    if (status === 'confirmed') {
+      await this.notificationService.sendBookingConfirmation(booking);
+    } else {
+      await this.notificationService.sendBookingCancellation(booking);
+    }
+  }
+
+  /**
+   * Append an entry to a booking's status history
+   */
+  private async recordStatusChange(
+    bookingId: number,
+    fromStatus: BookingStatus | null,
+    toStatus: BookingStatus,
+    actor: BookingActor | null,
+    reason: string | null | undefined,
+    transaction?: Transaction
+  ): Promise<void> {
+    await this.historyModel.create(
+      {
+        bookingId,
+        fromStatus,
+        toStatus,
+        actorId: actor ? actor.userId : null,
+        actorRole: actor ? actor.role : 'system',
+        reason: reason || null,
+      },
+      { transaction }
+    );
+  }
+
+  /**
+   * Find a booking the actor may access or throw NotFoundError
+   * Bookings of other customers need the permission (bookings:read:any unless given) and are
+   * otherwise reported as not found to avoid leaking their existence
+   */
+  private async findBookingOrFail(
+    bookingId: number,
+    actor?: BookingActor,
+    { withDetails = false, permission = 'bookings:read:any' }: BookingLookupOptions = {}
+  ): Promise<Booking> {
+    const booking = await this.bookingModel.findByPk(bookingId, {
+      include: withDetails ? this.detailIncludes() : [],
+    });
+
+    if (
+      !booking ||
+      (actor && !(await this.permissionService.canAccessOwned(actor, booking.userId, permission)))
+    ) {
+      throw new NotFoundError('Booking');
+    }
+
+    return booking;
+  }
+
+  /**
+   * Associations included in booking responses
+   */
+  private detailIncludes() {
+    // Bookings stay part of the history after their service, customer or stylist was deleted
+    return [
+      {
+        model: this.serviceModel,
+        as: 'service',
+        attributes: ['id', 'name', 'duration', 'price'],
+        paranoid: false,
+      },
+      {
+        model: this.userModel,
+        as: 'user',
+        attributes: ['id', 'email', 'firstName', 'lastName', 'phone', 'smsOptIn'],
+        paranoid: false,
+      },
+      {
+        model: this.stylistModel,
+        as: 'stylist',
+        attributes: ['id'],
+        paranoid: false,
+        include: [
+          {
+            model: this.userModel,
+            as: 'user',
+            attributes: ['id', 'firstName', 'lastName'],
+            paranoid: false,
+          },
+        ],
+      },
+    ];
+  }
+}
+
+// Export singleton instance
+import { slotService } from './slot.service';
+import { refundService } from './refund.service';
+import { notificationService } from './notification.service';
+import { permissionService } from './permission.service';
+export const bookingService = new BookingService(
+  slotService,
+  refundService,
+  notificationService,
+  permissionService
+);
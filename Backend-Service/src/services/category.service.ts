@@ -0,0 +1,295 @@
+import Category from '../models/Category.model';
+import Service from '../models/Service.model';
+import sequelize from '../config/database';
+import { NotFoundError, ConflictError, BadRequestError } from '../utils/errors';
+import { slugify } from '../utils/helpers';
+import {
+  CreateCategoryInput,
+  UpdateCategoryInput,
+  ReorderCategoriesInput,
+} from '../schemas/category.schema';
+import { CategoryAttributes, CategoryTreeNode } from '../types';
+
+/**
+ * Category service with dependency injection
+ */
+export class CategoryService {
+  constructor(
+    private readonly categoryModel: typeof Category = Category,
+    private readonly serviceModel: typeof Service = Service
+  ) {}
+
+  /**
+   * Get the nested category tree (public)
+   * Inactive categories and their descendants are left out
+   */
+  async getCategoryTree(): Promise<CategoryTreeNode[]> {
+    const categories = await this.categoryModel.findAll({
+      where: { isActive: true },
+      order: [
+        ['displayOrder', 'ASC'],
+        ['name', 'ASC'],
+      ],
+    });
+
+    const nodes = new Map<number, CategoryTreeNode>();
+    categories.forEach((category) => {
+      nodes.set(category.id, {
+        id: category.id,
+        name: category.name,
+        slug: category.slug,
+        description: category.description,
+        icon: category.icon,
+        displayOrder: category.displayOrder,
+        children: [],
+      });
+    });
+
+    const roots: CategoryTreeNode[] = [];
+    categories.forEach((category) => {
+      const node = nodes.get(category.id) as CategoryTreeNode;
+
+      if (!category.parentId) {
+        roots.push(node);
+        return;
+      }
+
+      // Children of an inactive parent are not reachable from the tree
+      nodes.get(category.parentId)?.children.push(node);
+    });
+
+    return roots;
+  }
+
+  /**
+   * Get all categories as a flat list (admin only)
+   */
+  async getAllCategories(): Promise<CategoryAttributes[]> {
+    const categories = await this.categoryModel.findAll({
+      order: [
+        ['parentId', 'ASC'],
+        ['displayOrder', 'ASC'],
+        ['name', 'ASC'],
+      ],
+    });
+
+    return categories.map((category) => category.toJSON());
+  }
+
+  /**
+   * Get category by ID
+   */
+  async getCategoryById(categoryId: number): Promise<CategoryAttributes> {
+    const category = await this.findCategoryOrFail(categoryId);
+
+    return category.toJSON();
+  }
+
+  /**
+   * Get the slugs of a category and all of its descendants
+   * Used to match services in sub-categories when filtering by a parent
+   */
+  async getDescendantSlugs(slug: string): Promise<string[]> {
+    const categories = await this.categoryModel.findAll({
+      attributes: ['id', 'slug', 'parentId'],
+    });
+
+    const root = categories.find((category) => category.slug === slug);
+    if (!root) {
+      return [slug];
+    }
+
+    const slugs: string[] = [];
+    const queue: number[] = [root.id];
+
+    while (queue.length > 0) {
+      const currentId = queue.shift() as number;
+      const current = categories.find((category) => category.id === currentId);
+      if (current) {
+        slugs.push(current.slug);
+      }
+      categories
+        .filter((category) => category.parentId === currentId)
+        .forEach((child) => queue.push(child.id));
+    }
+
+    return slugs;
+  }
+
+  /**
+   * Ensure a category slug exists (used when assigning services)
+   */
+  async assertCategoryExists(slug: string): Promise<void> {
+    const count = await this.categoryModel.count({ where: { slug } });
+
+    if (count === 0) {
+      throw new BadRequestError(`Category '${slug}' does not exist`);
+    }
+  }
+
+  /**
+   * Create a new category (admin only)
+   */
+  async createCategory(data: CreateCategoryInput): Promise<CategoryAttributes> {
+    const slug = data.slug || slugify(data.name);
+
+    await this.assertSlugAvailable(slug);
+
+    if (data.parentId) {
+      await this.findCategoryOrFail(data.parentId);
+    }
+
+    const category = await this.categoryModel.create({
+      ...data,
+      slug,
+    });
+
+    return category.toJSON();
+  }
+
+  /**
+   * Update a category (admin only)
+   * Services reference their category by slug, so renaming the slug moves them along
+   */
+  async updateCategory(categoryId: number, data: UpdateCategoryInput): Promise<CategoryAttributes> {
+    const category = await this.findCategoryOrFail(categoryId);
+    const previousSlug = category.slug;
+
+    if (data.slug && data.slug !== previousSlug) {
+      await this.assertSlugAvailable(data.slug);
+    }
+
+    if (data.parentId) {
+      await this.assertValidParent(categoryId, data.parentId);
+    }
+
+    await sequelize.transaction(async (transaction) => {
+      await category.update(data, { transaction });
+
+      if (category.slug !== previousSlug) {
+        await this.serviceModel.update(
+          { category: category.slug },
+          { where: { category: previousSlug }, transaction }
+        );
+      }
+    });
+
+    return category.toJSON();
+  }
+
+  /**
+   * Update the display order of several categories at once (admin only)
+   */
+  async reorderCategories(data: ReorderCategoriesInput): Promise<{ message: string }> {
+    await sequelize.transaction(async (transaction) => {
+      for (const item of data.items) {
+        const [affected] = await this.categoryModel.update(
+          { displayOrder: item.displayOrder },
+          { where: { id: item.id }, transaction }
+        );
+
+        if (affected === 0) {
+          throw new NotFoundError(`Category ${item.id}`);
+        }
+      }
+    });
+
+    return { message: 'Categories reordered successfully' };
+  }
+
+  /**
+   * Delete a category (admin only - soft delete, see restoreCategory)
+   * Only empty leaf categories can be deleted; deactivate the others instead
+   */
+  async deleteCategory(categoryId: number): Promise<{ message: string }> {
+    const category = await this.findCategoryOrFail(categoryId);
+
+    const childCount = await this.categoryModel.count({ where: { parentId: categoryId } });
+    if (childCount > 0) {
+      throw new ConflictError('Category has sub-categories and cannot be deleted');
+    }
+
+    const serviceCount = await this.serviceModel.count({ where: { category: category.slug } });
+    if (serviceCount > 0) {
+      throw new ConflictError('Category has services and cannot be deleted');
+    }
+
+    await category.destroy();
+
+    return { message: 'Category deleted successfully' };
+  }
+
+  /**
+   * Restore a deleted category (admin only)
+   * A deleted parent has to be restored first
+   */
+  async restoreCategory(categoryId: number): Promise<CategoryAttributes> {
+    const category = await this.categoryModel.findByPk(categoryId, { paranoid: false });
+
+    if (!category) {
+      throw new NotFoundError('Category');
+    }
+
+    if (!category.deletedAt) {
+      throw new ConflictError('Category is not deleted');
+    }
+
+    if (category.parentId && !(await this.categoryModel.findByPk(category.parentId))) {
+      throw new ConflictError('Restore the parent category first');
+    }
+
+    await category.restore();
+
+    return category.toJSON();
+  }
+
+  /**
+   * Throw ConflictError if the slug is already taken
+   * Deleted categories keep their slug so that they can be restored
+   */
+  private async assertSlugAvailable(slug: string): Promise<void> {
+    const existing = await this.categoryModel.findOne({ where: { slug }, paranoid: false });
+
+    if (existing?.deletedAt) {
+      throw new ConflictError('A deleted category uses this slug; restore it instead');
+    }
+
+    if (existing) {
+      throw new ConflictError('Category with this slug already exists');
+    }
+  }
+
+  /**
+   * Ensure the new parent exists and does not create a cycle
+   */
+  private async assertValidParent(categoryId: number, parentId: number): Promise<void> {
+    if (categoryId === parentId) {
+      throw new BadRequestError('A category cannot be its own parent');
+    }
+
+    let ancestor: Category | null = await this.findCategoryOrFail(parentId);
+
+    while (ancestor?.parentId) {
+      if (ancestor.parentId === categoryId) {
+        throw new BadRequestError('A category cannot be moved under its own descendant');
+      }
+      ancestor = await this.categoryModel.findByPk(ancestor.parentId);
+    }
+  }
+
+  /**
+   * Find a category by primary key or throw NotFoundError
+   */
+  private async findCategoryOrFail(categoryId: number): Promise<Category> {
+    const category = await this.categoryModel.findByPk(categoryId);
+
+    if (!category) {
+      throw new NotFoundError('Category');
+    }
+
+    return category;
+  }
+}
+
+// Export singleton instance
+export const categoryService = new CategoryService();
@@ -0,0 +1,238 @@
+import config from '../config/environment';
+import { NotFoundError, ConflictError } from '../utils/errors';
+import logger from '../utils/logger';
+import { computeRetryDelayMs, describeJobError, getRecurringRun } from '../utils/jobs';
+import {
+  EnqueueJobOptions,
+  JobAttributes,
+  JobHandler,
+  JobPayload,
+  JobQueryFilters,
+  JobQueueStore,
+  RecurringJob,
+} from '../types';
+
+/**
+ * Job queue settings (config.jobs)
+ */
+export interface JobQueueOptions {
+  pollIntervalMs: number;
+  batchSize: number;
+  leaseMs: number;
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+}
+
+/**
+ * Job service with dependency injection
+ * Enqueues jobs into the persistent store and runs them with retry/backoff
+ * Jobs that run out of attempts are moved to the dead state for an admin to retry
+ */
+export class JobService {
+  private readonly handlers = new Map<string, JobHandler>();
+  private readonly recurring: RecurringJob[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private currentTick: Promise<number> | null = null;
+
+  constructor(
+    private readonly store: JobQueueStore,
+    private readonly options: JobQueueOptions = config.jobs
+  ) {}
+
+  /**
+   * Register the handler that runs jobs with the given name
+   */
+  register(name: string, handler: JobHandler): void {
+    this.handlers.set(name, handler);
+  }
+
+  /**
+   * Enqueue a job every `intervalMs`; the job must have a registered handler
+   */
+  schedule(name: string, intervalMs: number): void {
+    this.recurring.push({ name, intervalMs });
+  }
+
+  /**
+   * Add a job to the queue
+   * Returns null when a job with the same uniqueKey is already queued
+   */
+  async enqueue(
+    name: string,
+    payload: JobPayload = {},
+    options: EnqueueJobOptions = {}
+  ): Promise<JobAttributes | null> {
+    return this.store.enqueue({
+      name,
+      payload,
+      runAt: options.runAt || new Date(),
+      maxAttempts: options.maxAttempts || this.options.maxAttempts,
+      uniqueKey: options.uniqueKey || null,
+    });
+  }
+
+  /**
+   * Enqueue due recurring jobs, then claim and run one batch of due jobs
+   * Returns the number of jobs that were run
+   */
+  async runDueJobs(now: Date = new Date()): Promise<number> {
+    for (const { name, intervalMs } of this.recurring) {
+      const { runAt, uniqueKey } = getRecurringRun(name, intervalMs, now);
+      await this.enqueue(name, {}, { runAt, uniqueKey });
+    }
+
+    const jobs = await this.store.claim(this.options.batchSize, this.options.leaseMs, now);
+
+    for (const job of jobs) {
+      await this.runJob(job, now);
+    }
+
+    return jobs.length;
+  }
+
+  /**
+   * Start polling the queue (in-process or in the worker entrypoint)
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const poll = async () => {
+      this.currentTick = this.runDueJobs();
+
+      try {
+        await this.currentTick;
+      } catch (error) {
+        logger.error('Job queue poll failed:', error);
+      } finally {
+        this.currentTick = null;
+      }
+
+      if (this.timer) {
+        this.timer = setTimeout(poll, this.options.pollIntervalMs);
+      }
+    };
+
+    this.timer = setTimeout(poll, 0);
+    logger.info(`Job queue started (${this.handlers.size} job types)`);
+  }
+
+  /**
+   * Stop polling and wait for the batch in progress to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.currentTick) {
+      await this.currentTick.catch(() => undefined);
+    }
+  }
+
+  /**
+   * Get jobs with filters and pagination (admin only)
+   */
+  async getJobs(filters: JobQueryFilters = {}): Promise<{
+    jobs: JobAttributes[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 10;
+
+    const { jobs, total } = await this.store.list({ ...filters, page, limit });
+
+    return {
+      jobs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get a job by ID (admin only)
+   */
+  async getJobById(jobId: string): Promise<JobAttributes> {
+    const job = await this.store.find(jobId);
+
+    if (!job) {
+      throw new NotFoundError('Job');
+    }
+
+    return job;
+  }
+
+  /**
+   * Move a dead job back to the queue with a fresh set of attempts (admin only)
+   */
+  async retryJob(jobId: string): Promise<JobAttributes> {
+    await this.getJobById(jobId);
+
+    const job = await this.store.retry(jobId, new Date());
+
+    if (!job) {
+      throw new ConflictError('Only dead jobs can be retried');
+    }
+
+    return job;
+  }
+
+  /**
+   * Delete jobs completed before a date
+   */
+  async purgeCompletedJobs(before: Date): Promise<number> {
+    return this.store.purgeCompleted(before);
+  }
+
+  /**
+   * Run a claimed job and record the outcome
+   * A failed attempt is retried with exponential backoff until maxAttempts is reached
+   */
+  private async runJob(job: JobAttributes, now: Date): Promise<void> {
+    const handler = this.handlers.get(job.name);
+
+    if (!handler) {
+      logger.error(`No handler registered for job ${job.name} (${job.id})`);
+      await this.store.fail(job.id, `No handler registered for job ${job.name}`, null);
+      return;
+    }
+
+    try {
+      await handler(job.payload, job);
+      await this.store.complete(job.id, new Date());
+    } catch (error) {
+      const message = describeJobError(error);
+
+      if (job.attempts >= job.maxAttempts) {
+        logger.error(`Job ${job.name} (${job.id}) failed permanently: ${message}`);
+        await this.store.fail(job.id, message, null);
+        return;
+      }
+
+      const delayMs = computeRetryDelayMs(
+        job.attempts,
+        this.options.retryBaseDelayMs,
+        this.options.retryMaxDelayMs
+      );
+
+      logger.warn(`Job ${job.name} (${job.id}) failed, retrying in ${delayMs}ms: ${message}`);
+      await this.store.fail(job.id, message, new Date(now.getTime() + delayMs));
+    }
+  }
+}
+
+// Export singleton instance
+import { jobQueueStore } from '../providers/jobQueue';
+export const jobService = new JobService(jobQueueStore);
@@ -0,0 +1,262 @@
+import config from '../config/environment';
+import NotificationLog from '../models/NotificationLog.model';
+import logger from '../utils/logger';
+import { renderEmailTemplate } from '../utils/emailTemplates';
+import { bookingConfirmationSms, bookingReminderSms } from '../utils/smsTemplates';
+import {
+  BookingDetails,
+  BookingEmailData,
+  EmailTemplateData,
+  EmailTemplateName,
+  EmailTransport,
+  NotificationLogCreationAttributes,
+  PaymentAttributes,
+  SmsDelivery,
+  SmsProvider,
+  UserAttributes,
+} from '../types';
+
+/**
+ * Notification service with dependency injection
+ * Sends transactional emails, and texts to customers who opted in to SMS
+ * Every delivered notification is logged for the personal data export
+ * Delivery failures are logged and never fail the calling operation
+ */
+export class NotificationService {
+  constructor(
+    private readonly transport: EmailTransport,
+    private readonly smsProvider: SmsProvider,
+    private readonly notificationLogModel: typeof NotificationLog = NotificationLog,
+    private readonly from: string = config.email.from
+  ) {}
+
+  /**
+   * Welcome a newly registered user
+   */
+  async sendWelcomeEmail(
+    user: Pick<UserAttributes, 'id' | 'email' | 'firstName'>
+  ): Promise<boolean> {
+    return this.send(user, 'welcome', { firstName: user.firstName });
+  }
+
+  /**
+   * Email a link that confirms the user's email address
+   */
+  async sendEmailVerification(
+    user: Pick<UserAttributes, 'id' | 'email' | 'firstName'>,
+    verificationUrl: string,
+    expiresInHours: number
+  ): Promise<boolean> {
+    return this.send(user, 'emailVerification', {
+      firstName: user.firstName,
+      verificationUrl,
+      expiresInHours,
+    });
+  }
+
+  /**
+   * Email a password reset link
+   */
+  async sendPasswordReset(
+    user: Pick<UserAttributes, 'id' | 'email' | 'firstName'>,
+    resetUrl: string,
+    expiresInMinutes: number
+  ): Promise<boolean> {
+    return this.send(user, 'passwordReset', {
+      firstName: user.firstName,
+      resetUrl,
+      expiresInMinutes,
+    });
+  }
+
+  /**
+   * Tell the customer their booking is confirmed, by email and SMS when opted in
+   */
+  async sendBookingConfirmation(booking: BookingDetails): Promise<boolean> {
+    if (!booking.user) {
+      return false;
+    }
+
+    const data = this.bookingData(booking);
+
+    await this.sendSms(booking, 'confirmation', bookingConfirmationSms(data));
+
+    return this.send(booking.user, 'bookingConfirmation', data, booking.id);
+  }
+
+  /**
+   * Remind the customer of an upcoming appointment by SMS
+   * Returns null when the customer did not opt in or delivery failed
+   */
+  async sendBookingReminder(
+    booking: BookingDetails,
+    offsetHours: number
+  ): Promise<SmsDelivery | null> {
+    return this.sendSms(
+      booking,
+      'reminder',
+      bookingReminderSms(this.bookingData(booking), offsetHours)
+    );
+  }
+
+  /**
+   * Tell the customer their booking moved to a new time
+   */
+  async sendBookingRescheduled(
+    booking: BookingDetails,
+    previous: Pick<BookingDetails, 'bookingDate' | 'startTime'>
+  ): Promise<boolean> {
+    if (!booking.user) {
+      return false;
+    }
+
+    return this.send(
+      booking.user,
+      'bookingRescheduled',
+      {
+        ...this.bookingData(booking),
+        previousDate: previous.bookingDate,
+        previousStartTime: previous.startTime,
+      },
+      booking.id
+    );
+  }
+
+  /**
+   * Tell the customer their booking was cancelled and what happens to the deposit
+   */
+  async sendBookingCancellation(booking: BookingDetails): Promise<boolean> {
+    if (!booking.user) {
+      return false;
+    }
+
+    return this.send(
+      booking.user,
+      'bookingCancelled',
+      {
+        ...this.bookingData(booking),
+        reason: booking.cancellationReason || null,
+        depositForfeitPercent: booking.depositForfeitPercent ?? 0,
+      },
+      booking.id
+    );
+  }
+
+  /**
+   * Send a receipt for a completed payment
+   */
+  async sendPaymentReceipt(payment: PaymentAttributes, booking: BookingDetails): Promise<boolean> {
+    if (!booking.user) {
+      return false;
+    }
+
+    return this.send(
+      booking.user,
+      'paymentReceipt',
+      {
+        firstName: booking.user.firstName,
+        bookingId: booking.id,
+        serviceName: booking.service?.name || 'your appointment',
+        paymentId: payment.id,
+        amount: payment.amount,
+        currency: payment.currency,
+        paidAt: payment.paidAt || new Date(),
+      },
+      booking.id
+    );
+  }
+
+  /**
+   * Render a template and deliver it, logging instead of throwing on failure
+   */
+  private async send<T extends EmailTemplateName>(
+    user: Pick<UserAttributes, 'id' | 'email'>,
+    template: T,
+    data: EmailTemplateData[T] & { firstName: string },
+    bookingId: number | null = null
+  ): Promise<boolean> {
+    const to = user.email;
+
+    try {
+      const email = renderEmailTemplate(template, data);
+
+      await this.transport.send({ from: this.from, to, ...email });
+
+      logger.info(`Sent ${template} email to ${to} via ${this.transport.name}`);
+    } catch (error) {
+      logger.error(`Failed to send ${template} email to ${to}:`, error);
+      return false;
+    }
+
+    await this.record({ userId: user.id, bookingId, channel: 'email', template, recipient: to });
+    return true;
+  }
+
+  /**
+   * Text the customer of a booking if they opted in to SMS, logging instead of throwing on failure
+   */
+  private async sendSms(
+    booking: BookingDetails,
+    label: string,
+    body: string
+  ): Promise<SmsDelivery | null> {
+    const user = booking.user;
+
+    if (!user || !user.smsOptIn || !user.phone) {
+      return null;
+    }
+
+    let delivery: SmsDelivery;
+
+    try {
+      delivery = await this.smsProvider.send({ to: user.phone, body });
+
+      logger.info(`Sent ${label} SMS for booking ${booking.id} via ${this.smsProvider.name}`);
+    } catch (error) {
+      logger.error(`Failed to send ${label} SMS for booking ${booking.id}:`, error);
+      return null;
+    }
+
+    await this.record({
+      userId: user.id,
+      bookingId: booking.id,
+      channel: 'sms',
+      template: label,
+      recipient: user.phone,
+    });
+    return delivery;
+  }
+
+  /**
+   * Log a delivered notification; a failed write must not turn a sent message into a failure
+   */
+  private async record(values: NotificationLogCreationAttributes): Promise<void> {
+    try {
+      await this.notificationLogModel.create(values);
+    } catch (error) {
+      logger.error(
+        `Failed to log ${values.template} ${values.channel} for user ${values.userId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Appointment details used by booking emails
+   */
+  private bookingData(booking: BookingDetails): BookingEmailData {
+    return {
+      firstName: booking.user?.firstName || '',
+      bookingId: booking.id,
+      serviceName: booking.service?.name || 'your appointment',
+      bookingDate: booking.bookingDate,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+    };
+  }
+}
+
+// Export singleton instance
+import { emailTransport } from '../providers/email';
+import { smsProvider } from '../providers/sms';
+export const notificationService = new NotificationService(emailTransport, smsProvider);
@@ -0,0 +1,291 @@
+import Payment from '../models/Payment.model';
+import Refund from '../models/Refund.model';
+import config from '../config/environment';
+import { BookingActor, BookingService } from './booking.service';
+import { RefundService } from './refund.service';
+import { NotificationService } from './notification.service';
+import { PermissionService } from './permission.service';
+import { ConfiguredPaymentProvider } from '../providers/payment';
+import { NotFoundError, ConflictError, BadRequestError } from '../utils/errors';
+import logger from '../utils/logger';
+import { CreateDepositIntentInput } from '../schemas/payment.schema';
+import {
+  DepositIntent,
+  PaymentAttributes,
+  PaymentDetails,
+  PaymentProviderName,
+  ProviderPaymentStatus,
+} from '../types';
+
+/**
+ * Payment service with dependency injection
+ * Collects the booking deposit (config.booking.tokenAmount) through the configured provider
+ */
+export class PaymentService {
+  constructor(
+    private readonly bookingService: BookingService,
+    private readonly refundService: RefundService,
+    private readonly provider: ConfiguredPaymentProvider,
+    private readonly notificationService: NotificationService,
+    private readonly permissionService: PermissionService,
+    private readonly paymentModel: typeof Payment = Payment,
+    private readonly refundModel: typeof Refund = Refund
+  ) {}
+
+  /**
+   * Create a deposit payment intent for a pending booking
+   * An unpaid intent created earlier for the same deposit is handed out again instead of
+   * opening another one the customer could also pay
+   */
+  async createDepositIntent(
+    actor: BookingActor,
+    data: CreateDepositIntentInput
+  ): Promise<DepositIntent> {
+    const booking = await this.bookingService.getBookingById(data.bookingId, actor);
+
+    if (booking.status !== 'pending') {
+      throw new ConflictError('Only pending bookings require a deposit');
+    }
+
+    const completed = await this.paymentModel.findOne({
+      where: { bookingId: booking.id, status: 'completed' },
+    });
+
+    if (completed) {
+      throw new ConflictError('Deposit has already been paid');
+    }
+
+    // The deposit never exceeds the price of the booking
+    const amount = Math.min(config.booking.tokenAmount, booking.totalAmount);
+
+    if (amount <= 0) {
+      throw new BadRequestError('This booking does not require a deposit');
+    }
+
+    const existing = await this.paymentModel.findOne({
+      where: { bookingId: booking.id, provider: this.provider.name, amount, status: 'pending' },
+      order: [['createdAt', 'DESC']],
+    });
+
+    if (existing) {
+      const existingIntent = await this.provider.getPaymentIntent(existing.providerPaymentId);
+
+      if (existingIntent.status === 'pending') {
+        return {
+          payment: existing.toJSON(),
+          clientSecret: existingIntent.clientSecret,
+          publishableKey: this.provider.publishableKey,
+        };
+      }
+
+      // The provider settled the intent without us hearing about it yet, which also moves the
+      // booking on
+      await this.settlePayment(existing, { status: existingIntent.status });
+
+      throw new ConflictError(
+        existingIntent.status === 'completed'
+          ? 'Deposit has already been paid'
+          : 'Deposit payment failed'
+      );
+    }
+
+    const intent = await this.provider.createPaymentIntent({
+      amount,
+      currency: config.booking.currency,
+      description: `Deposit for booking #${booking.id}`,
+      metadata: {
+        bookingId: String(booking.id),
+        userId: String(booking.userId),
+      },
+    });
+
+    const payment = await this.paymentModel.create({
+      bookingId: booking.id,
+      userId: booking.userId,
+      provider: this.provider.name,
+      providerPaymentId: intent.providerPaymentId,
+      amount,
+      currency: config.booking.currency,
+      status: intent.status,
+    });
+
+    return {
+      payment: payment.toJSON(),
+      clientSecret: intent.clientSecret,
+      publishableKey: this.provider.publishableKey,
+    };
+  }
+
+  /**
+   * Confirm a payment with the provider and update the booking
+   * A successful deposit confirms the booking; a failed one cancels it and frees the slot
+   */
+  async confirmPayment(actor: BookingActor, paymentId: number): Promise<PaymentAttributes> {
+    const payment = await this.findPaymentOrFail(paymentId, actor);
+
+    if (payment.status !== 'pending') {
+      return payment.toJSON();
+    }
+
+    const result = await this.provider.getPaymentStatus(payment.providerPaymentId);
+
+    await this.settlePayment(payment, result);
+
+    return payment.toJSON();
+  }
+
+  /**
+   * Apply a status reported by a provider (webhooks) to the matching payment
+   * Returns null when no payment matches the provider payment ID
+   */
+  async settleProviderPayment(
+    provider: PaymentProviderName,
+    providerPaymentId: string,
+    result: ProviderPaymentStatus
+  ): Promise<PaymentAttributes | null> {
+    const payment = await this.paymentModel.findOne({ where: { provider, providerPaymentId } });
+
+    if (!payment) {
+      return null;
+    }
+
+    await this.settlePayment(payment, result);
+
+    return payment.toJSON();
+  }
+
+  /**
+   * Get the payment history of a booking, including refunds
+   * Customers can only see payments of their own bookings
+   */
+  async getBookingPayments(actor: BookingActor, bookingId: number): Promise<PaymentDetails[]> {
+    await this.bookingService.getBookingById(bookingId, actor);
+
+    const payments = await this.paymentModel.findAll({
+      where: { bookingId },
+      include: [{ model: this.refundModel, as: 'refunds' }],
+      order: [
+        ['createdAt', 'ASC'],
+        [{ model: this.refundModel, as: 'refunds' }, 'createdAt', 'ASC'],
+      ],
+    });
+
+    return payments.map((payment) => payment.toJSON() as PaymentDetails);
+  }
+
+  /**
+   * Record the final status of a pending payment and update its booking
+   * Payments that are already settled are left untouched, so repeated reports are harmless
+   */
+  private async settlePayment(payment: Payment, result: ProviderPaymentStatus): Promise<void> {
+    if (payment.status !== 'pending' || result.status === 'pending') {
+      return;
+    }
+
+    // Conditional update so a webhook and a client confirmation cannot both settle the payment
+    const [updated] = await this.paymentModel.update(
+      {
+        status: result.status,
+        failureReason: result.failureReason || null,
+        paidAt: result.status === 'completed' ? new Date() : null,
+      },
+      { where: { id: payment.id, status: 'pending' } }
+    );
+
+    await payment.reload();
+
+    if (updated === 0) {
+      return;
+    }
+
+    await this.applyPaymentOutcome(payment);
+
+    if (result.status === 'completed') {
+      const booking = await this.bookingService.getBookingById(payment.bookingId);
+      await this.notificationService.sendPaymentReceipt(payment.toJSON(), booking);
+    }
+  }
+
+  /**
+   * Move the booking forward once a payment reached a final status
+   * A deposit the booking no longer needs is refunded in full
+   */
+  private async applyPaymentOutcome(payment: Payment): Promise<void> {
+    const booking = await this.bookingService.getBookingById(payment.bookingId);
+
+    // The booking may have been cancelled, or confirmed by another payment, while the customer
+    // was paying
+    if (booking.status !== 'pending') {
+      logger.warn(
+        `Payment ${payment.id} ${payment.status} for booking ${booking.id} in status ${booking.status}`
+      );
+
+      if (payment.status === 'completed') {
+        await this.refundUnappliedPayment(payment, booking.id, booking.status);
+      }
+      return;
+    }
+
+    if (payment.status === 'completed') {
+      await this.bookingService.transitionBooking(booking.id, 'confirmed', null, 'Deposit paid');
+    } else if (payment.status === 'failed') {
+      await this.bookingService.transitionBooking(
+        booking.id,
+        'cancelled',
+        null,
+        'Deposit payment failed'
+      );
+    }
+  }
+
+  /**
+   * Refund a deposit its booking did not need
+   * Errors are logged instead of thrown: the payment is already settled, so a failed webhook
+   * delivery would not bring the refund back on a retry
+   */
+  private async refundUnappliedPayment(
+    payment: Payment,
+    bookingId: number,
+    bookingStatus: string
+  ): Promise<void> {
+    try {
+      await this.refundService.refundUnappliedPayment(
+        payment.id,
+        `Deposit paid for booking #${bookingId} while it was ${bookingStatus}`
+      );
+    } catch (error) {
+      logger.error(`Automatic refund of payment ${payment.id} failed:`, error);
+    }
+  }
+
+  /**
+   * Find a payment visible to the actor or throw NotFoundError
+   * Payments of other customers need payments:read:any
+   */
+  private async findPaymentOrFail(paymentId: number, actor: BookingActor): Promise<Payment> {
+    const payment = await this.paymentModel.findByPk(paymentId);
+
+    if (
+      !payment ||
+      !(await this.permissionService.canAccessOwned(actor, payment.userId, 'payments:read:any'))
+    ) {
+      throw new NotFoundError('Payment');
+    }
+
+    return payment;
+  }
+}
+
+// Export singleton instance
+import { bookingService } from './booking.service';
+import { refundService } from './refund.service';
+import { paymentProvider } from '../providers/payment';
+import { notificationService } from './notification.service';
+import { permissionService } from './permission.service';
+export const paymentService = new PaymentService(
+  bookingService,
+  refundService,
+  paymentProvider,
+  notificationService,
+  permissionService
+);
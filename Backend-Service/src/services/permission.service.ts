@@ -0,0 +1,148 @@
+import sequelize from '../config/database';
+import config from '../config/environment';
+import RolePermission from '../models/RolePermission.model';
+import { BadRequestError } from '../utils/errors';
+import {
+  PERMISSIONS,
+  ROLES,
+  PERMISSIONS_ADMIN_PERMISSION,
+  DEFAULT_ROLE_PERMISSIONS,
+  isOwnerOrPermitted,
+} from '../utils/permissions';
+import { Permission, PermissionActor, RolePermissionMap, UserRole } from '../types';
+
+// How long the role table is cached in memory (every authorized request reads it)
+const PERMISSION_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Permission settings (config.auth)
+ */
+export interface PermissionOptions {
+  requireAdminTwoFactor: boolean;
+}
+
+/**
+ * Permission service with dependency injection
+ * Resolves the permissions of a role from the role_permissions table
+ */
+export class PermissionService {
+  private cache: { roles: RolePermissionMap; loadedAt: number } | null = null;
+
+  constructor(
+    private readonly rolePermissionModel: typeof RolePermission = RolePermission,
+    private readonly options: PermissionOptions = config.auth
+  ) {}
+
+  /**
+   * Get the permissions granted to a role
+   */
+  async getPermissions(role: UserRole): Promise<Permission[]> {
+    const roles = await this.loadRolePermissions();
+
+    return roles[role] || [];
+  }
+
+  /**
+   * Check whether a role has a permission
+   */
+  async hasPermission(role: UserRole, permission: Permission): Promise<boolean> {
+    const granted = await this.getPermissions(role);
+
+    return granted.includes(permission);
+  }
+
+  /**
+   * Check whether an actor may use a permission
+   * Admins only use their permissions once they passed 2FA (see meetsAdminTwoFactor)
+   */
+  async actorHasPermission(actor: PermissionActor, permission: Permission): Promise<boolean> {
+    return this.meetsAdminTwoFactor(actor) && this.hasPermission(actor.role, permission);
+  }
+
+  /**
+   * Ownership policy: the owner of a resource, or a role with the permission, may access it
+   * Admins only use their permissions once they passed 2FA (see meetsAdminTwoFactor)
+   */
+  async canAccessOwned(
+    actor: PermissionActor,
+    ownerId: number,
+    permission: Permission
+  ): Promise<boolean> {
+    const granted = this.meetsAdminTwoFactor(actor) ? await this.getPermissions(actor.role) : [];
+
+    return isOwnerOrPermitted(actor, ownerId, granted, permission);
+  }
+
+  /**
+   * Admins must have passed 2FA in this session when config.auth.requireAdminTwoFactor is on
+   */
+  meetsAdminTwoFactor(actor: PermissionActor): boolean {
+    return (
+      !this.options.requireAdminTwoFactor || actor.role !== 'admin' || Boolean(actor.twoFactor)
+    );
+  }
+
+  /**
+   * List every permission and the permissions of each role (admin only)
+   */
+  async getRolePermissions(): Promise<{ permissions: Permission[]; roles: RolePermissionMap }> {
+    const roles = await this.loadRolePermissions();
+
+    return { permissions: [...PERMISSIONS], roles };
+  }
+
+  /**
+   * Replace the permissions of a role (admin only)
+   * Admins always keep the permission to edit the table so it cannot lock everyone out
+   */
+  async setRolePermissions(role: UserRole, permissions: Permission[]): Promise<Permission[]> {
+    const unique = Array.from(new Set(permissions));
+
+    if (role === 'admin' && !unique.includes(PERMISSIONS_ADMIN_PERMISSION)) {
+      throw new BadRequestError(
+        `The admin role must keep the ${PERMISSIONS_ADMIN_PERMISSION} permission`
+      );
+    }
+
+    await sequelize.transaction(async (transaction) => {
+      await this.rolePermissionModel.destroy({ where: { role }, transaction });
+      await this.rolePermissionModel.bulkCreate(
+        unique.map((permission) => ({ role, permission })),
+        { transaction }
+      );
+    });
+
+    this.cache = null;
+
+    return this.getPermissions(role);
+  }
+
+  /**
+   * Load the role table, cached for PERMISSION_CACHE_TTL_MS
+   * Falls back to the default permissions while the table is empty (not yet seeded)
+   */
+  private async loadRolePermissions(): Promise<RolePermissionMap> {
+    if (this.cache && Date.now() - this.cache.loadedAt < PERMISSION_CACHE_TTL_MS) {
+      return this.cache.roles;
+    }
+
+    const rows = await this.rolePermissionModel.findAll({ attributes: ['role', 'permission'] });
+
+    const roles =
+      rows.length === 0
+        ? DEFAULT_ROLE_PERMISSIONS
+        : ROLES.reduce((map, role) => {
+            map[role] = rows
+              .filter((row) => row.role === role && PERMISSIONS.includes(row.permission))
+              .map((row) => row.permission);
+            return map;
+          }, {} as RolePermissionMap);
+
+    this.cache = { roles, loadedAt: Date.now() };
+
+    return roles;
+  }
+}
+
+// Export singleton instance
+export const permissionService = new PermissionService();
@@ -0,0 +1,189 @@
+import { Op } from 'sequelize';
+import config from '../config/environment';
+import User from '../models/User.model';
+import Booking from '../models/Booking.model';
+import BookingStatusHistory from '../models/BookingStatusHistory.model';
+import Service from '../models/Service.model';
+import Payment from '../models/Payment.model';
+import Refund from '../models/Refund.model';
+import Session from '../models/Session.model';
+import DataErasureRequest from '../models/DataErasureRequest.model';
+import NotificationLog from '../models/NotificationLog.model';
+import { UserService } from './user.service';
+import { NotFoundError, ConflictError } from '../utils/errors';
+import { getErasureScheduledFor } from '../utils/privacy';
+import { DataErasureRequestAttributes, UserDataExport } from '../types';
+
+/**
+ * Personal data settings (config.privacy)
+ */
+export interface PrivacyOptions {
+  erasureGracePeriodDays: number;
+}
+
+/**
+ * Privacy service with dependency injection
+ * Exports the personal data of a user and carries out their erasure requests
+ */
+export class PrivacyService {
+  constructor(
+    private readonly userService: UserService,
+    private readonly userModel: typeof User = User,
+    private readonly bookingModel: typeof Booking = Booking,
+    private readonly statusHistoryModel: typeof BookingStatusHistory = BookingStatusHistory,
+    private readonly serviceModel: typeof Service = Service,
+    private readonly paymentModel: typeof Payment = Payment,
+    private readonly refundModel: typeof Refund = Refund,
+    private readonly sessionModel: typeof Session = Session,
+    private readonly erasureRequestModel: typeof DataErasureRequest = DataErasureRequest,
+    private readonly notificationLogModel: typeof NotificationLog = NotificationLog,
+    private readonly options: PrivacyOptions = config.privacy
+  ) {}
+
+  /**
+   * Export everything stored about a user: profile, bookings, payments, notifications sent,
+   * sessions and erasure requests
+   */
+  async exportUserData(userId: number): Promise<UserDataExport> {
+    const user = await this.userModel.findByPk(userId);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    const bookings = await this.bookingModel.findAll({
+      where: { userId },
+      include: [
+        { model: this.serviceModel, as: 'service', attributes: ['id', 'name'], paranoid: false },
+        { model: this.statusHistoryModel, as: 'statusHistory' },
+      ],
+      order: [['createdAt', 'ASC']],
+    });
+
+    const payments = await this.paymentModel.findAll({
+      where: { userId },
+      include: [{ model: this.refundModel, as: 'refunds' }],
+      order: [['createdAt', 'ASC']],
+    });
+
+    const notifications = await this.notificationLogModel.findAll({
+      where: { userId },
+      order: [['createdAt', 'ASC']],
+    });
+
+    const sessions = await this.sessionModel.findAll({
+      where: { userId },
+      attributes: [
+        'id',
+        'deviceName',
+        'userAgent',
+        'ipAddress',
+        'lastUsedAt',
+        'createdAt',
+        'revokedAt',
+      ],
+      order: [['createdAt', 'ASC']],
+    });
+
+    return {
+      exportedAt: new Date(),
+      profile: user.toSafeObject(),
+      bookings: bookings.map((booking) => booking.toJSON()),
+      payments: payments.map((payment) => payment.toJSON()),
+      notifications: notifications.map((notification) => notification.toJSON()),
+      sessions: sessions.map((session) => session.toJSON()),
+      erasureRequests: await this.getErasureRequests(userId),
+    };
+  }
+
+  /**
+   * Request the erasure of the own account
+   * The account stays usable until the grace period ends so the request can be cancelled
+   */
+  async requestErasure(
+    userId: number,
+    now: Date = new Date()
+  ): Promise<DataErasureRequestAttributes> {
+    const user = await this.userModel.findByPk(userId);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    const pending = await this.erasureRequestModel.findOne({
+      where: { userId, status: 'pending' },
+    });
+
+    if (pending) {
+      throw new ConflictError('An erasure request is already pending');
+    }
+
+    const request = await this.erasureRequestModel.create({
+      userId,
+      requestedAt: now,
+      scheduledFor: getErasureScheduledFor(now, this.options.erasureGracePeriodDays),
+    });
+
+    return request.toJSON();
+  }
+
+  /**
+   * List the erasure requests of a user, newest first
+   */
+  async getErasureRequests(userId: number): Promise<DataErasureRequestAttributes[]> {
+    const requests = await this.erasureRequestModel.findAll({
+      where: { userId },
+      order: [['requestedAt', 'DESC']],
+    });
+
+    return requests.map((request) => request.toJSON());
+  }
+
+  /**
+   * Cancel the pending erasure request of a user during the grace period
+   */
+  async cancelErasureRequest(userId: number): Promise<DataErasureRequestAttributes> {
+    const request = await this.erasureRequestModel.findOne({
+      where: { userId, status: 'pending' },
+    });
+
+    if (!request) {
+      throw new NotFoundError('Erasure request');
+    }
+
+    await request.update({ status: 'cancelled', cancelledAt: new Date() });
+
+    return request.toJSON();
+  }
+
+  /**
+   * Carry out the erasure requests whose grace period has ended (background job)
+   * The user is soft deleted and purged like an admin would; the request is kept as the record
+   */
+  async processDueErasureRequests(now: Date = new Date()): Promise<number> {
+    const due = await this.erasureRequestModel.findAll({
+      where: { status: 'pending', scheduledFor: { [Op.lte]: now } },
+      order: [['scheduledFor', 'ASC']],
+    });
+
+    for (const request of due) {
+      const user = await this.userModel.findByPk(request.userId, { paranoid: false });
+
+      if (user && !user.deletedAt) {
+        await this.userService.deleteUser(request.userId);
+      }
+
+      if (user && !user.purgedAt) {
+        await this.userService.purgeUser(request.userId);
+      }
+
+      await request.update({ status: 'completed', completedAt: new Date() });
+    }
+
+    return due.length;
+  }
+}
+
+// Export singleton instance
+import { userService } from './user.service';
+export const privacyService = new PrivacyService(userService);
@@ -0,0 +1,232 @@
+import { Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import Payment from '../models/Payment.model';
+import Refund from '../models/Refund.model';
+import { ConfiguredPaymentProvider } from '../providers/payment';
+import { NotFoundError, ConflictError, BadRequestError } from '../utils/errors';
+import logger from '../utils/logger';
+import { calculateDepositRefund } from '../utils/cancellationPolicy';
+import { RefundPaymentInput } from '../schemas/payment.schema';
+import { ProviderRefund, RefundAttributes } from '../types';
+
+/**
+ * Refund service with dependency injection
+ * Refunds go through the configured provider; payment.refundedAmount reserves the amount of
+ * refunds that completed or are still pending so a payment can never be refunded twice
+ */
+export class RefundService {
+  constructor(
+    private readonly provider: ConfiguredPaymentProvider,
+    private readonly paymentModel: typeof Payment = Payment,
+    private readonly refundModel: typeof Refund = Refund
+  ) {}
+
+  /**
+   * Refund the deposit of a cancelled booking, keeping the forfeited share
+   * Provider errors are recorded on the refund instead of failing the cancellation
+   */
+  async refundCancelledBooking(
+    bookingId: number,
+    forfeitPercent: number,
+    reason: string
+  ): Promise<RefundAttributes[]> {
+    const payments = await this.paymentModel.findAll({
+      where: { bookingId, status: 'completed' },
+    });
+
+    const refunds: RefundAttributes[] = [];
+
+    for (const payment of payments) {
+      const amount = Math.min(
+        calculateDepositRefund(payment.amount, forfeitPercent),
+        payment.amount - payment.refundedAmount
+      );
+
+      if (amount <= 0) {
+        continue;
+      }
+
+      try {
+        refunds.push(await this.issueRefund(payment, amount, reason, null));
+      } catch (error) {
+        logger.error(`Automatic refund of payment ${payment.id} failed:`, error);
+      }
+    }
+
+    return refunds;
+  }
+
+  /**
+   * Refund the whole of a payment that completed after its booking stopped waiting for it,
+   * e.g. a deposit paid after the booking expired or a second deposit for the same booking
+   */
+  async refundUnappliedPayment(paymentId: number, reason: string): Promise<RefundAttributes> {
+    const payment = await this.paymentModel.findByPk(paymentId);
+
+    if (!payment) {
+      throw new NotFoundError('Payment');
+    }
+
+    return this.issueRefund(payment, payment.amount - payment.refundedAmount, reason, null);
+  }
+
+  /**
+   * Apply a refund status reported by the provider (webhooks) to a pending refund
+   * A failed refund gives the reserved amount back to the payment so it can be refunded again.
+   * Returns null when no refund matches the provider refund ID
+   */
+  async settleProviderRefund(result: ProviderRefund): Promise<RefundAttributes | null> {
+    return sequelize.transaction(async (transaction) => {
+      const refund = await this.refundModel.findOne({
+        where: { providerRefundId: result.providerRefundId },
+        transaction,
+        lock: Transaction.LOCK.UPDATE,
+      });
+
+      if (!refund) {
+        return null;
+      }
+
+      // Settled refunds are left untouched, so repeated reports are harmless
+      if (refund.status !== 'pending' || result.status === 'pending') {
+        return refund.toJSON();
+      }
+
+      await refund.update(
+        { status: result.status, failureReason: result.failureReason || null },
+        { transaction }
+      );
+
+      if (result.status === 'failed') {
+        const payment = await this.paymentModel.findByPk(refund.paymentId, { transaction });
+
+        if (payment) {
+          await this.releaseRefundedAmount(payment, refund.amount, transaction);
+        }
+
+        logger.warn(
+          `Refund ${refund.id} of payment ${refund.paymentId} failed: ${refund.failureReason}`
+        );
+      }
+
+      return refund.toJSON();
+    });
+  }
+
+  /**
+   * Refund all or part of a completed payment (admin only)
+   * Without an amount, everything not refunded yet is refunded
+   */
+  async refundPayment(
+    paymentId: number,
+    adminId: number,
+    data: RefundPaymentInput
+  ): Promise<RefundAttributes> {
+    const payment = await this.paymentModel.findByPk(paymentId);
+
+    if (!payment) {
+      throw new NotFoundError('Payment');
+    }
+
+    const amount = data.amount ?? payment.amount - payment.refundedAmount;
+
+    return this.issueRefund(payment, amount, data.reason, adminId);
+  }
+
+  /**
+   * Reserve the amount on the payment, refund it with the provider and record the result
+   */
+  private async issueRefund(
+    payment: Payment,
+    amount: number,
+    reason: string,
+    initiatedBy: number | null
+  ): Promise<RefundAttributes> {
+    const refund = await sequelize.transaction(async (transaction) => {
+      // Re-read under a row lock so concurrent refunds cannot exceed the payment
+      await payment.reload({ transaction, lock: Transaction.LOCK.UPDATE });
+
+      if (payment.status !== 'completed') {
+        throw new ConflictError('Only completed payments can be refunded');
+      }
+
+      const refundable = payment.amount - payment.refundedAmount;
+
+      if (amount <= 0 || amount > refundable) {
+        throw new BadRequestError(`Refund amount must be between 1 and ${refundable}`);
+      }
+
+      await payment.update(
+        {
+          refundedAmount: payment.refundedAmount + amount,
+          ...(amount === refundable && { status: 'refunded' as const }),
+        },
+        { transaction }
+      );
+
+      return this.refundModel.create(
+        {
+          paymentId: payment.id,
+          bookingId: payment.bookingId,
+          amount,
+          currency: payment.currency,
+          reason,
+          initiatedBy,
+        },
+        { transaction }
+      );
+    });
+
+    try {
+      const result = await this.provider.refundPayment({
+        providerPaymentId: payment.providerPaymentId,
+        amount,
+        currency: payment.currency,
+        reason,
+      });
+
+      await refund.update({
+        providerRefundId: result.providerRefundId,
+        status: result.status,
+        failureReason: result.failureReason || null,
+      });
+    } catch (error) {
+      await refund.update({
+        status: 'failed',
+        failureReason: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (refund.status === 'failed') {
+      await sequelize.transaction((transaction) =>
+        this.releaseRefundedAmount(payment, amount, transaction)
+      );
+      logger.warn(`Refund ${refund.id} of payment ${payment.id} failed: ${refund.failureReason}`);
+    }
+
+    return refund.toJSON();
+  }
+
+  /**
+   * Give back the amount reserved by a refund that failed
+   */
+  private async releaseRefundedAmount(
+    payment: Payment,
+    amount: number,
+    transaction: Transaction
+  ): Promise<void> {
+    await payment.reload({ transaction, lock: Transaction.LOCK.UPDATE });
+
+    await payment.update(
+      {
+        refundedAmount: payment.refundedAmount - amount,
+        status: 'completed',
+      },
+      { transaction }
+    );
+  }
+}
+
+// Export singleton instance
+import { paymentProvider } from '../providers/payment';
+export const refundService = new RefundService(paymentProvider);
@@ -0,0 +1,125 @@
+import { Op, UniqueConstraintError } from 'sequelize';
+import Booking from '../models/Booking.model';
+import BookingReminder from '../models/BookingReminder.model';
+import Service from '../models/Service.model';
+import User from '../models/User.model';
+import { NotificationService } from './notification.service';
+import config from '../config/environment';
+import logger from '../utils/logger';
+import { fromLocalDateTime, toLocalDateTime } from '../utils/availability';
+import { selectDueReminderOffset } from '../utils/reminders';
+import { BookingDetails } from '../types';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Reminder service with dependency injection
+ * Texts customers who opted in to SMS at each configured offset before a confirmed appointment
+ */
+export class ReminderService {
+  constructor(
+    private readonly notificationService: NotificationService,
+    private readonly bookingModel: typeof Booking = Booking,
+    private readonly reminderModel: typeof BookingReminder = BookingReminder,
+    private readonly userModel: typeof User = User,
+    private readonly serviceModel: typeof Service = Service,
+    private readonly offsetsHours: number[] = config.notifications.reminderOffsetsHours
+  ) {}
+
+  /**
+   * Send every reminder that is due now and record it
+   * Meant to run periodically; returns the number of reminders sent
+   */
+  async sendDueReminders(now: Date = new Date()): Promise<number> {
+    if (this.offsetsHours.length === 0) {
+      return 0;
+    }
+
+    const horizon = new Date(now.getTime() + Math.max(...this.offsetsHours) * MS_PER_HOUR);
+
+    const bookings = await this.bookingModel.findAll({
+      where: {
+        status: 'confirmed',
+        bookingDate: {
+          [Op.between]: [toLocalDateTime(now).date, toLocalDateTime(horizon).date],
+        },
+      },
+      include: [
+        {
+          model: this.userModel,
+          as: 'user',
+          attributes: ['id', 'email', 'firstName', 'lastName', 'phone', 'smsOptIn'],
+          where: { smsOptIn: true },
+        },
+        {
+          model: this.serviceModel,
+          as: 'service',
+          attributes: ['id', 'name', 'duration', 'price'],
+        },
+      ],
+    });
+
+    if (bookings.length === 0) {
+      return 0;
+    }
+
+    const sentReminders = await this.reminderModel.findAll({
+      where: { bookingId: bookings.map((booking) => booking.id), channel: 'sms' },
+    });
+
+    let sent = 0;
+
+    for (const booking of bookings) {
+      const offset = selectDueReminderOffset(
+        this.offsetsHours,
+        fromLocalDateTime(booking.bookingDate, booking.startTime),
+        sentReminders
+          .filter((reminder) => reminder.bookingId === booking.id)
+          .map((reminder) => reminder.offsetHours),
+        now
+      );
+
+      if (offset === null) {
+        continue;
+      }
+
+      if (await this.sendReminder(booking.toJSON() as BookingDetails, offset)) {
+        sent += 1;
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Send one reminder and record it so it is not sent again
+   */
+  private async sendReminder(booking: BookingDetails, offsetHours: number): Promise<boolean> {
+    const delivery = await this.notificationService.sendBookingReminder(booking, offsetHours);
+
+    if (!delivery) {
+      return false;
+    }
+
+    try {
+      await this.reminderModel.create({
+        bookingId: booking.id,
+        channel: 'sms',
+        offsetHours,
+        providerMessageId: delivery.providerMessageId,
+      });
+    } catch (error) {
+      // Another sweep sent the same reminder concurrently
+      if (!(error instanceof UniqueConstraintError)) {
+        throw error;
+      }
+      logger.warn(`Reminder ${offsetHours}h for booking ${booking.id} was sent twice`);
+    }
+
+    return true;
+  }
+}
+
+// Export singleton instance
+import { notificationService } from './notification.service';
+export const reminderService = new ReminderService(notificationService);
@@ -0,0 +1,145 @@
+import { Op } from 'sequelize';
+import Service from '../models/Service.model';
+import { CategoryService } from './category.service';
+import { NotFoundError, ConflictError } from '../utils/errors';
+import { containsPattern } from '../utils/helpers';
+import { CreateServiceInput, UpdateServiceInput } from '../schemas/service.schema';
+import { ServiceAttributes, ServiceQueryFilters } from '../types';
+
+/**
+ * Service catalog service with dependency injection
+ */
+export class ServiceCatalogService {
+  constructor(
+    private readonly categoryService: CategoryService,
+    private readonly serviceModel: typeof Service = Service
+  ) {}
+
+  /**
+   * Get services with filters and pagination
+   */
+  async getServices(filters: ServiceQueryFilters = {}): Promise<{
+    services: ServiceAttributes[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 10;
+    const offset = (page - 1) * limit;
+
+    const where: Record<string, unknown> = {};
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    if (filters.category) {
+      // Filtering by a parent category also matches its sub-categories
+      where.category = await this.categoryService.getDescendantSlugs(filters.category);
+    }
+
+    if (filters.isPopular !== undefined) {
+      where.isPopular = filters.isPopular;
+    }
+
+    if (filters.search) {
+      where.name = { [Op.iLike]: containsPattern(filters.search) };
+    }
+
+    const { count, rows } = await this.serviceModel.findAndCountAll({
+      where,
+      limit,
+      offset,
+      order: [[filters.sortBy || 'createdAt', filters.sortOrder || 'DESC']],
+    });
+
+    return {
+      services: rows.map((service) => service.toJSON()),
+      pagination: {
+        page,
+        limit,
+        total: count,
+        totalPages: Math.ceil(count / limit),
+      },
+    };
+  }
+
+  /**
+   * Get service by ID
+   * Inactive and archived services are hidden unless explicitly requested (admin only),
+   * matching the active catalog that getServices lists for everyone else
+   */
+  async getServiceById(serviceId: number, includeHidden = false): Promise<ServiceAttributes> {
+    const service = await this.findServiceOrFail(serviceId);
+
+    if (service.status !== 'active' && !includeHidden) {
+      throw new NotFoundError('Service');
+    }
+
+    return service.toJSON();
+  }
+
+  /**
+   * Create a new service (admin only)
+   */
+  async createService(data: CreateServiceInput): Promise<ServiceAttributes> {
+    await this.categoryService.assertCategoryExists(data.category);
+
+    const service = await this.serviceModel.create(data);
+
+    return service.toJSON();
+  }
+
+  /**
+   * Update a service (admin only)
+   */
+  async updateService(serviceId: number, data: UpdateServiceInput): Promise<ServiceAttributes> {
+    const service = await this.findServiceOrFail(serviceId);
+
+    if (data.category && data.category !== service.category) {
+      await this.categoryService.assertCategoryExists(data.category);
+    }
+
+    await service.update(data);
+
+    return service.toJSON();
+  }
+
+  /**
+   * Archive a service (admin only)
+   * Archived services stay in the database so existing bookings keep their reference
+   */
+  async archiveService(serviceId: number): Promise<{ message: string }> {
+    const service = await this.findServiceOrFail(serviceId);
+
+    if (service.status === 'archived') {
+      throw new ConflictError('Service is already archived');
+    }
+
+    service.status = 'archived';
+    await service.save();
+
+    return { message: 'Service archived successfully' };
+  }
+
+  /**
+   * Find a service by primary key or throw NotFoundError
+   */
+  private async findServiceOrFail(serviceId: number): Promise<Service> {
+    const service = await this.serviceModel.findByPk(serviceId);
+
+    if (!service) {
+      throw new NotFoundError('Service');
+    }
+
+    return service;
+  }
+}
+
+// Export singleton instance
+import { categoryService } from './category.service';
+export const serviceCatalogService = new ServiceCatalogService(categoryService);
@@ -0,0 +1,186 @@
+import { Op } from 'sequelize';
+import Session from '../models/Session.model';
+import RefreshToken from '../models/RefreshToken.model';
+import { NotFoundError, UnauthorizedError } from '../utils/errors';
+import { describeUserAgent } from '../utils/userAgent';
+import { SessionContext, SessionResponse, SessionRevocationReason } from '../types';
+
+// How often an active session's last-used time is written back (avoids a write per request)
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Session service with dependency injection
+ * A session is one login; revoking it revokes its refresh tokens and rejects its access tokens
+ */
+export class SessionService {
+  constructor(
+    private readonly sessionModel: typeof Session = Session,
+    private readonly refreshTokenModel: typeof RefreshToken = RefreshToken
+  ) {}
+
+  /**
+   * Record a new login session
+   * The ID is chosen by the caller because it is embedded in the session's tokens
+   */
+  async createSession(
+    sessionId: string,
+    userId: number,
+    expiresAt: Date,
+    context: SessionContext = {}
+  ): Promise<Session> {
+    return this.sessionModel.create({
+      id: sessionId,
+      userId,
+      userAgent: context.userAgent ? context.userAgent.slice(0, 500) : null,
+      deviceName: describeUserAgent(context.userAgent),
+      ipAddress: context.ipAddress || null,
+      lastUsedAt: new Date(),
+      expiresAt,
+    });
+  }
+
+  /**
+   * Record a refresh of a session: new expiry and the client's latest IP
+   */
+  async recordRefresh(
+    sessionId: string,
+    expiresAt: Date,
+    context: SessionContext = {}
+  ): Promise<void> {
+    await this.sessionModel.update(
+      {
+        lastUsedAt: new Date(),
+        expiresAt,
+        ...(context.ipAddress && { ipAddress: context.ipAddress }),
+      },
+      { where: { id: sessionId } }
+    );
+  }
+
+  /**
+   * Ensure the session of an access token is still active and update its last-used time
+   * Throws UnauthorizedError once the session was revoked (logout, force-logout)
+   */
+  async assertSessionActive(sessionId: string, userId: number): Promise<void> {
+    const session = await this.sessionModel.findByPk(sessionId);
+
+    if (!session || session.userId !== userId || session.revokedAt) {
+      throw new UnauthorizedError('Session has been revoked');
+    }
+
+    const now = new Date();
+
+    if (now.getTime() - session.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+      await session.update({ lastUsedAt: now });
+    }
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   */
+  async getSessions(userId: number, currentSessionId?: string): Promise<SessionResponse[]> {
+    const sessions = await this.sessionModel.findAll({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { [Op.gt]: new Date() },
+      },
+      order: [['lastUsedAt', 'DESC']],
+    });
+
+    return sessions.map((session) => ({
+      id: session.id,
+      deviceName: session.deviceName,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      createdAt: session.createdAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   * Sessions of other users are reported as not found
+   */
+  async revokeUserSession(userId: number, sessionId: string): Promise<{ message: string }> {
+    const session = await this.sessionModel.findOne({
+      where: { id: sessionId, userId, revokedAt: null },
+    });
+
+    if (!session) {
+      throw new NotFoundError('Session');
+    }
+
+    await this.revokeSession(session.id, 'revoked_by_user');
+
+    return { message: 'Session revoked successfully' };
+  }
+
+  /**
+   * Revoke every session of a user except the current one
+   */
+  async revokeOtherSessions(
+    userId: number,
+    currentSessionId?: string
+  ): Promise<{ message: string; revoked: number }> {
+    const revoked = await this.revokeSessions(
+      {
+        userId,
+        ...(currentSessionId && { id: { [Op.ne]: currentSessionId } }),
+      },
+      'revoked_by_user'
+    );
+
+    return { message: 'Other sessions revoked successfully', revoked };
+  }
+
+  /**
+   * Revoke every session of a user (force-logout, password reset)
+   */
+  async revokeAllSessions(userId: number, reason: SessionRevocationReason): Promise<number> {
+    return this.revokeSessions({ userId }, reason);
+  }
+
+  /**
+   * Revoke a session and its refresh tokens
+   */
+  async revokeSession(sessionId: string, reason: SessionRevocationReason): Promise<void> {
+    await this.revokeSessions({ id: sessionId }, reason);
+  }
+
+  /**
+   * Revoke the active sessions matching a filter, together with their refresh tokens
+   */
+  private async revokeSessions(
+    where: Record<string, unknown>,
+    reason: SessionRevocationReason
+  ): Promise<number> {
+    const sessions = await this.sessionModel.findAll({
+      where: { ...where, revokedAt: null },
+      attributes: ['id'],
+    });
+
+    if (sessions.length === 0) {
+      return 0;
+    }
+
+    const ids = sessions.map((session) => session.id);
+    const revokedAt = new Date();
+
+    await this.sessionModel.update(
+      { revokedAt, revokedReason: reason },
+      { where: { id: { [Op.in]: ids } } }
+    );
+    await this.refreshTokenModel.update(
+      { revokedAt, revokedReason: reason },
+      { where: { familyId: { [Op.in]: ids }, revokedAt: null } }
+    );
+
+    return ids.length;
+  }
+}
+
+// Export singleton instance
+export const sessionService = new SessionService();
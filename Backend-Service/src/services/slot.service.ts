@@ -0,0 +1,619 @@
+import { Op } from 'sequelize';
+import Slot from '../models/Slot.model';
+import Service from '../models/Service.model';
+import OpeningHours from '../models/OpeningHours.model';
+import SalonClosure from '../models/SalonClosure.model';
+import Booking from '../models/Booking.model';
+import sequelize from '../config/database';
+import config from '../config/environment';
+import { slotLockStore } from '../providers/slotLock';
+import { StylistService } from './stylist.service';
+import { NotFoundError, BadRequestError, ConflictError } from '../utils/errors';
+import {
+  MinuteInterval,
+  addDays,
+  daysBetween,
+  excludeBusy,
+  generateCandidateSlots,
+  getDayOfWeek,
+  hasOverlappingIntervals,
+  intersectIntervals,
+  listDates,
+  minutesToTime,
+  overlaps,
+  timeToMinutes,
+  toLocalDateTime,
+  unionSlots,
+} from '../utils/availability';
+import {
+  AvailabilityQuery,
+  SetOpeningHoursInput,
+  CreateClosureInput,
+  GetClosuresQuery,
+} from '../schemas/slot.schema';
+import {
+  OpeningHoursAttributes,
+  SalonClosureAttributes,
+  ServiceAvailability,
+  SlotAttributes,
+  SlotCreationAttributes,
+  SlotLock,
+  SlotLockStore,
+  DayOfWeek,
+} from '../types';
+
+// Longest date range a single availability request may cover
+const MAX_AVAILABILITY_RANGE_DAYS = 31;
+
+// Default range when the client does not specify an end date
+const DEFAULT_AVAILABILITY_RANGE_DAYS = 7;
+
+/**
+ * Busy intervals keyed by date (YYYY-MM-DD)
+ */
+export type BusyIntervalsByDate = Map<string, MinuteInterval[]>;
+
+/**
+ * Slot service with dependency injection
+ * Generates slots from opening hours and service duration, then removes busy time
+ * With a stylist preference, slots are limited to the stylist's working hours and free time;
+ * without one, a slot is offered while any stylist who performs the service is free
+ */
+export class SlotService {
+  constructor(
+    private readonly stylistService: StylistService,
+    private readonly slotModel: typeof Slot = Slot,
+    private readonly serviceModel: typeof Service = Service,
+    private readonly openingHoursModel: typeof OpeningHours = OpeningHours,
+    private readonly closureModel: typeof SalonClosure = SalonClosure,
+    private readonly bookingModel: typeof Booking = Booking,
+    private readonly lockStore: SlotLockStore = slotLockStore
+  ) {}
+
+  /**
+   * Get free slots for a service over a date range, optionally with a specific stylist
+   * Slots held by other customers are hidden; the viewer still sees their own hold
+   */
+  async getAvailability(
+    serviceId: number,
+    query: AvailabilityQuery = {},
+    viewerId?: number
+  ): Promise<ServiceAvailability> {
+    const now = toLocalDateTime();
+    const startDate = query.startDate || now.date;
+    const endDate = query.endDate || addDays(startDate, DEFAULT_AVAILABILITY_RANGE_DAYS - 1);
+
+    if (endDate < startDate) {
+      throw new BadRequestError('End date must be on or after start date');
+    }
+
+    if (daysBetween(startDate, endDate) >= MAX_AVAILABILITY_RANGE_DAYS) {
+      throw new BadRequestError(`Date range must not exceed ${MAX_AVAILABILITY_RANGE_DAYS} days`);
+    }
+
+    const service = await this.serviceModel.findByPk(serviceId);
+
+    if (!service || service.status !== 'active') {
+      throw new NotFoundError('Service');
+    }
+
+    const stylistId = query.stylistId || null;
+
+    if (stylistId) {
+      await this.stylistService.assertBookable(stylistId, serviceId);
+    }
+
+    // Never offer slots in the past
+    const firstDate = startDate < now.date ? now.date : startDate;
+    const dates = firstDate <= endDate ? listDates(firstDate, endDate) : [];
+
+    // Services nobody is assigned to keep salon-wide slots
+    const stylistIds = stylistId
+      ? [stylistId]
+      : await this.stylistService.getBookableStylistIds(serviceId);
+
+    const freeByStylist = await Promise.all(
+      (stylistIds.length > 0 ? stylistIds : [null]).map((id) =>
+        this.getFreeSlots(serviceId, service.duration, dates, id)
+      )
+    );
+
+    const freeByDate = new Map<string, MinuteInterval[]>();
+
+    dates.forEach((date) => {
+      freeByDate.set(date, unionSlots(freeByStylist.map((free) => free.get(date) || [])));
+    });
+
+    const slotIds = await this.materializeSlots(serviceId, stylistId, freeByDate);
+    const locks = await this.lockStore.getMany(Array.from(slotIds.values()));
+    const unavailable = new Set(
+      locks.filter((lock) => lock.ownerId !== viewerId).map((lock) => lock.slotId)
+    );
+
+    // A slot takes one active booking. Without a stylist preference its time may still be free
+    // for other stylists, so booked slots are hidden here rather than through busy time
+    const booked = await this.bookingModel.findAll({
+      where: {
+        slotId: { [Op.in]: Array.from(slotIds.values()) },
+        status: { [Op.in]: ['pending', 'confirmed'] },
+      },
+      attributes: ['slotId'],
+    });
+    booked.forEach((booking) => unavailable.add(booking.slotId));
+
+    return {
+      serviceId,
+      stylistId,
+      startDate,
+      endDate,
+      days: dates.map((date) => ({
+        date,
+        slots: (freeByDate.get(date) || [])
+          .map((interval) => {
+            const startTime = minutesToTime(interval.start);
+            return {
+              id: slotIds.get(`${date} ${startTime}`) as number,
+              startTime,
+              endTime: minutesToTime(interval.end),
+            };
+          })
+          .filter((slot) => !unavailable.has(slot.id)),
+      })),
+    };
+  }
+
+  /**
+   * Get slot by ID
+   */
+  async getSlotById(slotId: number): Promise<SlotAttributes> {
+    const slot = await this.findSlotOrFail(slotId);
+    return slot.toJSON();
+  }
+
+  /**
+   * Hold a slot for a customer during checkout
+   * The hold expires after config.booking.slotLockDuration minutes
+   */
+  async lockSlot(slotId: number, userId: number): Promise<SlotLock> {
+    const slot = await this.findSlotOrFail(slotId);
+
+    await this.assertSlotAvailable(slot);
+
+    const lock = await this.lockStore.acquire(
+      slotId,
+      userId,
+      config.booking.slotLockDuration * 60 * 1000
+    );
+
+    if (!lock) {
+      throw new ConflictError('Slot is currently held by another customer');
+    }
+
+    return lock;
+  }
+
+  /**
+   * Release a customer's hold on a slot (checkout abandoned or payment failed)
+   * Releasing a slot that is not held by the customer is a no-op
+   */
+  async releaseSlotLock(slotId: number, userId: number): Promise<{ message: string }> {
+    await this.lockStore.release(slotId, userId);
+
+    return { message: 'Slot released successfully' };
+  }
+
+  /**
+   * Drop expired checkout holds (scheduled job)
+   */
+  async purgeExpiredLocks(): Promise<number> {
+    return this.lockStore.purgeExpired();
+  }
+
+  /**
+   * Ensure a slot is not held by another customer
+   */
+  async assertSlotNotHeldByOthers(slotId: number, userId: number): Promise<void> {
+    const lock = await this.lockStore.get(slotId);
+
+    if (lock && lock.ownerId !== userId) {
+      throw new ConflictError('Slot is currently held by another customer');
+    }
+  }
+
+  /**
+   * Ensure a slot is still free: in the future, inside opening hours and not busy
+   * Stylist slots must also still fall inside the stylist's working hours; slots without a
+   * stylist need a free stylist who performs the service (see assignStylist)
+   */
+  async assertSlotAvailable(slot: SlotAttributes): Promise<void> {
+    const now = toLocalDateTime();
+    const start = timeToMinutes(slot.startTime);
+
+    if (slot.date < now.date || (slot.date === now.date && start <= now.minutes)) {
+      throw new ConflictError('Slot is in the past');
+    }
+
+    if (!slot.stylistId) {
+      await this.assignStylist(slot);
+      return;
+    }
+
+    await this.stylistService.assertBookable(slot.stylistId, slot.serviceId);
+
+    if (!(await this.isSlotFree(slot, slot.stylistId))) {
+      throw new ConflictError('Slot is no longer available');
+    }
+  }
+
+  /**
+   * Pick the stylist for a booking of a slot offered without a stylist preference: the first
+   * free one who performs the service, so the booking counts against that stylist's time
+   * Returns null for services nobody is assigned to, which only need the salon to be free
+   */
+  async assignStylist(slot: SlotAttributes): Promise<number | null> {
+    const stylistIds = await this.stylistService.getBookableStylistIds(slot.serviceId);
+
+    if (stylistIds.length === 0) {
+      if (!(await this.isSlotFree(slot, null))) {
+        throw new ConflictError('Slot is no longer available');
+      }
+      return null;
+    }
+
+    for (const stylistId of stylistIds) {
+      if (await this.isSlotFree(slot, stylistId)) {
+        return stylistId;
+      }
+    }
+
+    throw new ConflictError('Slot is no longer available');
+  }
+
+  /**
+   * Get the weekly opening hours
+   */
+  async getOpeningHours(): Promise<OpeningHoursAttributes[]> {
+    const hours = await this.openingHoursModel.findAll({
+      order: [
+        ['dayOfWeek', 'ASC'],
+        ['openTime', 'ASC'],
+      ],
+    });
+
+    return hours.map((entry) => entry.toJSON());
+  }
+
+  /**
+   * Replace the weekly opening hours (admin only)
+   */
+  async setOpeningHours(data: SetOpeningHoursInput): Promise<OpeningHoursAttributes[]> {
+    // Intervals of the same weekday must not overlap
+    for (let day = 0; day <= 6; day++) {
+      const intervals = data.hours
+        .filter((entry) => entry.dayOfWeek === day)
+        .map((entry) => ({
+          start: timeToMinutes(entry.openTime),
+          end: timeToMinutes(entry.closeTime),
+        }));
+
+      if (hasOverlappingIntervals(intervals)) {
+        throw new BadRequestError(`Opening hours overlap on day ${day}`);
+      }
+    }
+
+    await sequelize.transaction(async (transaction) => {
+      await this.openingHoursModel.destroy({ where: {}, transaction });
+      await this.openingHoursModel.bulkCreate(
+        data.hours.map((entry) => ({
+          dayOfWeek: entry.dayOfWeek as DayOfWeek,
+          openTime: entry.openTime,
+          closeTime: entry.closeTime,
+        })),
+        { transaction }
+      );
+    });
+
+    return this.getOpeningHours();
+  }
+
+  /**
+   * List closures, optionally restricted to those overlapping a date range (admin only)
+   */
+  async getClosures(query: GetClosuresQuery = {}): Promise<SalonClosureAttributes[]> {
+    const where: Record<string, unknown> = {};
+
+    if (query.startDate) {
+      where.endDate = { [Op.gte]: query.startDate };
+    }
+
+    if (query.endDate) {
+      where.startDate = { [Op.lte]: query.endDate };
+    }
+
+    const closures = await this.closureModel.findAll({
+      where,
+      order: [['startDate', 'ASC']],
+    });
+
+    return closures.map((closure) => closure.toJSON());
+  }
+
+  /**
+   * Create a one-off closure (admin only)
+   */
+  async createClosure(data: CreateClosureInput): Promise<SalonClosureAttributes> {
+    const endDate = data.endDate || data.startDate;
+
+    if (endDate < data.startDate) {
+      throw new BadRequestError('End date must be on or after start date');
+    }
+
+    if (Boolean(data.startTime) !== Boolean(data.endTime)) {
+      throw new BadRequestError(
+        'Provide both start and end time, or neither for a full-day closure'
+      );
+    }
+
+    if (data.startTime && data.endTime && data.startTime >= data.endTime) {
+      throw new BadRequestError('End time must be after start time');
+    }
+
+    const closure = await this.closureModel.create({
+      startDate: data.startDate,
+      endDate,
+      startTime: data.startTime || null,
+      endTime: data.endTime || null,
+      reason: data.reason,
+    });
+
+    return closure.toJSON();
+  }
+
+  /**
+   * Delete a closure (admin only)
+   */
+  async deleteClosure(closureId: number): Promise<{ message: string }> {
+    const closure = await this.closureModel.findByPk(closureId);
+
+    if (!closure) {
+      throw new NotFoundError('Closure');
+    }
+
+    await closure.destroy();
+
+    return { message: 'Closure deleted successfully' };
+  }
+
+  /**
+   * Collect busy intervals per date: closures and active bookings of the service
+   * For a stylist, their time-off and all of their active bookings are used instead
+   */
+  private async getBusyIntervals(
+    serviceId: number,
+    startDate: string,
+    endDate: string,
+    stylistId: number | null = null
+  ): Promise<BusyIntervalsByDate> {
+    const busy: BusyIntervalsByDate = new Map();
+
+    const addBusy = (date: string, interval: MinuteInterval) => {
+      busy.set(date, [...(busy.get(date) || []), interval]);
+    };
+
+    const closures = await this.closureModel.findAll({
+      where: {
+        startDate: { [Op.lte]: endDate },
+        endDate: { [Op.gte]: startDate },
+      },
+    });
+
+    const timeOff = stylistId
+      ? await this.stylistService.getTimeOffBetween(stylistId, startDate, endDate)
+      : [];
+
+    // Time-off has the same shape as a closure: whole days or a time range on each day
+    [...closures, ...timeOff].forEach((entry) => {
+      const from = entry.startDate > startDate ? entry.startDate : startDate;
+      const to = entry.endDate < endDate ? entry.endDate : endDate;
+
+      listDates(from, to).forEach((date) => {
+        addBusy(
+          date,
+          entry.isFullDay
+            ? { start: 0, end: 24 * 60 }
+            : {
+                start: timeToMinutes(entry.startTime as string),
+                end: timeToMinutes(entry.endTime as string),
+              }
+        );
+      });
+    });
+
+    const bookings = await this.bookingModel.findAll({
+      where: {
+        ...(stylistId ? { stylistId } : { serviceId }),
+        bookingDate: { [Op.between]: [startDate, endDate] },
+        status: { [Op.in]: ['pending', 'confirmed'] },
+      },
+    });
+
+    bookings.forEach((booking) => {
+      addBusy(booking.bookingDate, {
+        start: timeToMinutes(booking.startTime),
+        end: timeToMinutes(booking.endTime),
+      });
+    });
+
+    return busy;
+  }
+
+  /**
+   * Find slot by ID or throw
+   */
+  private async findSlotOrFail(slotId: number): Promise<Slot> {
+    const slot = await this.slotModel.findByPk(slotId);
+
+    if (!slot) {
+      throw new NotFoundError('Slot');
+    }
+
+    return slot;
+  }
+
+  /**
+   * Free slots per date for the service, limited to a stylist's time when one is given
+   */
+  private async getFreeSlots(
+    serviceId: number,
+    duration: number,
+    dates: string[],
+    stylistId: number | null
+  ): Promise<Map<string, MinuteInterval[]>> {
+    const freeByDate = new Map<string, MinuteInterval[]>();
+
+    if (dates.length === 0) {
+      return freeByDate;
+    }
+
+    const now = toLocalDateTime();
+    const openingByDay = await this.getBookableIntervalsByDay(stylistId);
+    const busyByDate = await this.getBusyIntervals(
+      serviceId,
+      dates[0],
+      dates[dates.length - 1],
+      stylistId
+    );
+
+    dates.forEach((date) => {
+      const open = openingByDay.get(getDayOfWeek(date) as DayOfWeek) || [];
+      const candidates = generateCandidateSlots(open, duration, config.booking.slotInterval);
+
+      const busy = [...(busyByDate.get(date) || [])];
+      if (date === now.date) {
+        busy.push({ start: 0, end: now.minutes + 1 });
+      }
+
+      freeByDate.set(date, excludeBusy(candidates, busy));
+    });
+
+    return freeByDate;
+  }
+
+  /**
+   * Check that a slot falls inside bookable hours and overlaps no busy time,
+   * those of a stylist when one is given
+   */
+  private async isSlotFree(slot: SlotAttributes, stylistId: number | null): Promise<boolean> {
+    const interval = { start: timeToMinutes(slot.startTime), end: timeToMinutes(slot.endTime) };
+
+    const openingByDay = await this.getBookableIntervalsByDay(stylistId);
+    const open = openingByDay.get(getDayOfWeek(slot.date) as DayOfWeek) || [];
+    const withinOpeningHours = open.some(
+      (entry) => entry.start <= interval.start && interval.end <= entry.end
+    );
+
+    const busyByDate = await this.getBusyIntervals(slot.serviceId, slot.date, slot.date, stylistId);
+    const busy = busyByDate.get(slot.date) || [];
+
+    return withinOpeningHours && !busy.some((entry) => overlaps(entry, interval));
+  }
+
+  /**
+   * Bookable intervals by weekday: opening hours, narrowed to a stylist's working hours
+   */
+  private async getBookableIntervalsByDay(
+    stylistId: number | null
+  ): Promise<Map<DayOfWeek, MinuteInterval[]>> {
+    const openingByDay = await this.getOpeningIntervalsByDay();
+
+    if (!stylistId) {
+      return openingByDay;
+    }
+
+    const workingByDay = await this.stylistService.getWorkingIntervalsByDay(stylistId);
+    const byDay = new Map<DayOfWeek, MinuteInterval[]>();
+
+    workingByDay.forEach((working, day) => {
+      byDay.set(day, intersectIntervals(working, openingByDay.get(day) || []));
+    });
+
+    return byDay;
+  }
+
+  /**
+   * Group opening intervals by weekday
+   */
+  private async getOpeningIntervalsByDay(): Promise<Map<DayOfWeek, MinuteInterval[]>> {
+    const hours = await this.openingHoursModel.findAll();
+    const byDay = new Map<DayOfWeek, MinuteInterval[]>();
+
+    hours.forEach((entry) => {
+      byDay.set(entry.dayOfWeek, [
+        ...(byDay.get(entry.dayOfWeek) || []),
+        { start: timeToMinutes(entry.openTime), end: timeToMinutes(entry.closeTime) },
+      ]);
+    });
+
+    return byDay;
+  }
+
+  /**
+   * Persist free slots so they can be referenced by ID, returning "date HH:mm" -> slot ID
+   */
+  private async materializeSlots(
+    serviceId: number,
+    stylistId: number | null,
+    freeByDate: Map<string, MinuteInterval[]>
+  ): Promise<Map<string, number>> {
+    const rows: SlotCreationAttributes[] = [];
+
+    freeByDate.forEach((intervals, date) => {
+      intervals.forEach((interval) => {
+        rows.push({
+          serviceId,
+          stylistId,
+          date,
+          startTime: minutesToTime(interval.start),
+          endTime: minutesToTime(interval.end),
+        });
+      });
+    });
+
+    const ids = new Map<string, number>();
+
+    if (rows.length === 0) {
+      return ids;
+    }
+
+    await this.slotModel.bulkCreate(rows, { ignoreDuplicates: true });
+
+    const slots = await this.slotModel.findAll({
+      where: {
+        serviceId,
+        stylistId,
+        date: { [Op.in]: Array.from(freeByDate.keys()) },
+      },
+    });
+
+    const endTimes = new Map(rows.map((row) => [`${row.date} ${row.startTime}`, row.endTime]));
+
+    for (const slot of slots) {
+      const key = `${slot.date} ${slot.startTime}`;
+      const endTime = endTimes.get(key);
+
+      // Slots stored before the service duration changed keep their ID but take the new end time,
+      // so bookings made from this availability still match the slot
+      if (endTime && slot.endTime !== endTime) {
+        await slot.update({ endTime });
+      }
+
+      ids.set(key, slot.id);
+    }
+
+    return ids;
+  }
+}
+
+// Export singleton instance
+import { stylistService } from './stylist.service';
+export const slotService = new SlotService(stylistService);
@@ -0,0 +1,410 @@
+import { Op } from 'sequelize';
+import sequelize from '../config/database';
+import Stylist from '../models/Stylist.model';
+import StylistServiceLink from '../models/StylistServiceLink.model';
+import StylistSchedule from '../models/StylistSchedule.model';
+import StylistTimeOff from '../models/StylistTimeOff.model';
+import Service from '../models/Service.model';
+import User from '../models/User.model';
+import { NotFoundError, ConflictError, BadRequestError } from '../utils/errors';
+import { MinuteInterval, hasOverlappingIntervals, timeToMinutes } from '../utils/availability';
+import {
+  CreateStylistInput,
+  UpdateStylistInput,
+  SetStylistScheduleInput,
+  CreateTimeOffInput,
+  GetTimeOffQuery,
+} from '../schemas/stylist.schema';
+import {
+  DayOfWeek,
+  StylistProfile,
+  StylistQueryFilters,
+  StylistScheduleAttributes,
+  StylistTimeOffAttributes,
+} from '../types';
+
+/**
+ * Stylist service with dependency injection
+ * Manages stylist profiles, the services they perform, weekly schedules and time-off
+ */
+export class StylistService {
+  constructor(
+    private readonly stylistModel: typeof Stylist = Stylist,
+    private readonly linkModel: typeof StylistServiceLink = StylistServiceLink,
+    private readonly scheduleModel: typeof StylistSchedule = StylistSchedule,
+    private readonly timeOffModel: typeof StylistTimeOff = StylistTimeOff,
+    private readonly serviceModel: typeof Service = Service,
+    private readonly userModel: typeof User = User
+  ) {}
+
+  /**
+   * List stylists, optionally only those who perform a service
+   * Inactive stylists are left out unless includeInactive is set (admin only)
+   */
+  async getStylists(filters: StylistQueryFilters = {}): Promise<StylistProfile[]> {
+    const where: Record<string, unknown> = {};
+
+    if (!filters.includeInactive) {
+      where.isActive = true;
+    }
+
+    if (filters.serviceId) {
+      const links = await this.linkModel.findAll({
+        where: { serviceId: filters.serviceId },
+        attributes: ['stylistId'],
+      });
+      where.id = { [Op.in]: links.map((link) => link.stylistId) };
+    }
+
+    const stylists = await this.stylistModel.findAll({
+      where,
+      include: this.profileIncludes(),
+      order: [['id', 'ASC']],
+    });
+
+    return stylists.map((stylist) => stylist.toJSON() as StylistProfile);
+  }
+
+  /**
+   * Get a stylist profile by ID
+   * Inactive stylists are reported as not found unless includeInactive is set (admin only)
+   */
+  async getStylistById(stylistId: number, includeInactive = false): Promise<StylistProfile> {
+    const stylist = await this.stylistModel.findByPk(stylistId, {
+      include: this.profileIncludes(),
+    });
+
+    if (!stylist || (!stylist.isActive && !includeInactive)) {
+      throw new NotFoundError('Stylist');
+    }
+
+    return stylist.toJSON() as StylistProfile;
+  }
+
+  /**
+   * Create a stylist profile for a user (admin only)
+   * A customer account is promoted to staff; admins keep their role
+   */
+  async createStylist(data: CreateStylistInput): Promise<StylistProfile> {
+    const user = await this.userModel.findByPk(data.userId);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    const existing = await this.stylistModel.findOne({ where: { userId: user.id } });
+
+    if (existing) {
+      throw new ConflictError('User already has a stylist profile');
+    }
+
+    const serviceIds = await this.resolveServiceIds(data.serviceIds || []);
+
+    const stylist = await sequelize.transaction(async (transaction) => {
+      if (user.role === 'customer') {
+        await user.update({ role: 'staff' }, { transaction });
+      }
+
+      const created = await this.stylistModel.create(
+        {
+          userId: user.id,
+          bio: data.bio,
+          photoUrl: data.photoUrl,
+          isActive: data.isActive,
+        },
+        { transaction }
+      );
+
+      await this.linkModel.bulkCreate(
+        serviceIds.map((serviceId) => ({ stylistId: created.id, serviceId })),
+        { transaction }
+      );
+
+      return created;
+    });
+
+    return this.getStylistById(stylist.id, true);
+  }
+
+  /**
+   * Update a stylist profile (admin only)
+   * When serviceIds is given it replaces the services the stylist performs
+   */
+  async updateStylist(stylistId: number, data: UpdateStylistInput): Promise<StylistProfile> {
+    const stylist = await this.findStylistOrFail(stylistId);
+    const { serviceIds, ...changes } = data;
+
+    const resolvedServiceIds = serviceIds ? await this.resolveServiceIds(serviceIds) : null;
+
+    await sequelize.transaction(async (transaction) => {
+      await stylist.update(changes, { transaction });
+
+      if (resolvedServiceIds) {
+        await this.linkModel.destroy({ where: { stylistId }, transaction });
+        await this.linkModel.bulkCreate(
+          resolvedServiceIds.map((serviceId) => ({ stylistId, serviceId })),
+          { transaction }
+        );
+      }
+    });
+
+    return this.getStylistById(stylistId, true);
+  }
+
+  /**
+   * Get a stylist's weekly schedule
+   */
+  async getSchedule(stylistId: number): Promise<StylistScheduleAttributes[]> {
+    await this.findStylistOrFail(stylistId);
+
+    const schedule = await this.scheduleModel.findAll({
+      where: { stylistId },
+      order: [
+        ['dayOfWeek', 'ASC'],
+        ['startTime', 'ASC'],
+      ],
+    });
+
+    return schedule.map((entry) => entry.toJSON());
+  }
+
+  /**
+   * Replace a stylist's weekly schedule (admin only)
+   */
+  async setSchedule(
+    stylistId: number,
+    data: SetStylistScheduleInput
+  ): Promise<StylistScheduleAttributes[]> {
+    await this.findStylistOrFail(stylistId);
+
+    // Intervals of the same weekday must not overlap
+    for (let day = 0; day <= 6; day++) {
+      const intervals = data.schedule
+        .filter((entry) => entry.dayOfWeek === day)
+        .map((entry) => ({
+          start: timeToMinutes(entry.startTime),
+          end: timeToMinutes(entry.endTime),
+        }));
+
+      if (hasOverlappingIntervals(intervals)) {
+        throw new BadRequestError(`Working hours overlap on day ${day}`);
+      }
+    }
+
+    await sequelize.transaction(async (transaction) => {
+      await this.scheduleModel.destroy({ where: { stylistId }, transaction });
+      await this.scheduleModel.bulkCreate(
+        data.schedule.map((entry) => ({
+          stylistId,
+          dayOfWeek: entry.dayOfWeek as DayOfWeek,
+          startTime: entry.startTime,
+          endTime: entry.endTime,
+        })),
+        { transaction }
+      );
+    });
+
+    return this.getSchedule(stylistId);
+  }
+
+  /**
+   * List a stylist's time-off, optionally restricted to a date range (admin only)
+   */
+  async getTimeOff(
+    stylistId: number,
+    query: GetTimeOffQuery = {}
+  ): Promise<StylistTimeOffAttributes[]> {
+    await this.findStylistOrFail(stylistId);
+
+    const where: Record<string, unknown> = { stylistId };
+
+    if (query.startDate) {
+      where.endDate = { [Op.gte]: query.startDate };
+    }
+
+    if (query.endDate) {
+      where.startDate = { [Op.lte]: query.endDate };
+    }
+
+    const timeOff = await this.timeOffModel.findAll({
+      where,
+      order: [['startDate', 'ASC']],
+    });
+
+    return timeOff.map((entry) => entry.toJSON());
+  }
+
+  /**
+   * Add time-off for a stylist (admin only)
+   */
+  async createTimeOff(
+    stylistId: number,
+    data: CreateTimeOffInput
+  ): Promise<StylistTimeOffAttributes> {
+    await this.findStylistOrFail(stylistId);
+
+    const endDate = data.endDate || data.startDate;
+
+    if (endDate < data.startDate) {
+      throw new BadRequestError('End date must be on or after start date');
+    }
+
+    if (Boolean(data.startTime) !== Boolean(data.endTime)) {
+      throw new BadRequestError('Provide both start and end time, or neither for whole days off');
+    }
+
+    if (data.startTime && data.endTime && data.startTime >= data.endTime) {
+      throw new BadRequestError('End time must be after start time');
+    }
+
+    const timeOff = await this.timeOffModel.create({
+      stylistId,
+      startDate: data.startDate,
+      endDate,
+      startTime: data.startTime || null,
+      endTime: data.endTime || null,
+      reason: data.reason,
+    });
+
+    return timeOff.toJSON();
+  }
+
+  /**
+   * Delete a stylist's time-off (admin only)
+   */
+  async deleteTimeOff(stylistId: number, timeOffId: number): Promise<{ message: string }> {
+    const timeOff = await this.timeOffModel.findOne({ where: { id: timeOffId, stylistId } });
+
+    if (!timeOff) {
+      throw new NotFoundError('Time-off');
+    }
+
+    await timeOff.destroy();
+
+    return { message: 'Time-off deleted successfully' };
+  }
+
+  /**
+   * Ensure a stylist is active and performs a service (availability and booking)
+   */
+  async assertBookable(stylistId: number, serviceId: number): Promise<void> {
+    const stylist = await this.stylistModel.findByPk(stylistId);
+
+    if (!stylist || !stylist.isActive) {
+      throw new NotFoundError('Stylist');
+    }
+
+    const link = await this.linkModel.findOne({ where: { stylistId, serviceId } });
+
+    if (!link) {
+      throw new BadRequestError('Stylist does not perform this service');
+    }
+  }
+
+  /**
+   * IDs of the active stylists who perform a service, in a stable order
+   */
+  async getBookableStylistIds(serviceId: number): Promise<number[]> {
+    const links = await this.linkModel.findAll({ where: { serviceId }, attributes: ['stylistId'] });
+
+    if (links.length === 0) {
+      return [];
+    }
+
+    const stylists = await this.stylistModel.findAll({
+      where: { id: { [Op.in]: links.map((link) => link.stylistId) }, isActive: true },
+      attributes: ['id'],
+      order: [['id', 'ASC']],
+    });
+
+    return stylists.map((stylist) => stylist.id);
+  }
+
+  /**
+   * Group a stylist's working intervals by weekday
+   */
+  async getWorkingIntervalsByDay(stylistId: number): Promise<Map<DayOfWeek, MinuteInterval[]>> {
+    const schedule = await this.scheduleModel.findAll({ where: { stylistId } });
+    const byDay = new Map<DayOfWeek, MinuteInterval[]>();
+
+    schedule.forEach((entry) => {
+      byDay.set(entry.dayOfWeek, [
+        ...(byDay.get(entry.dayOfWeek) || []),
+        { start: timeToMinutes(entry.startTime), end: timeToMinutes(entry.endTime) },
+      ]);
+    });
+
+    return byDay;
+  }
+
+  /**
+   * Get a stylist's time-off overlapping a date range
+   */
+  async getTimeOffBetween(
+    stylistId: number,
+    startDate: string,
+    endDate: string
+  ): Promise<StylistTimeOff[]> {
+    return this.timeOffModel.findAll({
+      where: {
+        stylistId,
+        startDate: { [Op.lte]: endDate },
+        endDate: { [Op.gte]: startDate },
+      },
+    });
+  }
+
+  /**
+   * Check that every service exists, dropping duplicates
+   */
+  private async resolveServiceIds(serviceIds: number[]): Promise<number[]> {
+    const unique = Array.from(new Set(serviceIds));
+
+    if (unique.length === 0) {
+      return unique;
+    }
+
+    const count = await this.serviceModel.count({ where: { id: { [Op.in]: unique } } });
+
+    if (count !== unique.length) {
+      throw new BadRequestError('One or more services do not exist');
+    }
+
+    return unique;
+  }
+
+  /**
+   * Find stylist by ID or throw
+   */
+  private async findStylistOrFail(stylistId: number): Promise<Stylist> {
+    const stylist = await this.stylistModel.findByPk(stylistId);
+
+    if (!stylist) {
+      throw new NotFoundError('Stylist');
+    }
+
+    return stylist;
+  }
+
+  /**
+   * Associations included in stylist responses
+   */
+  private profileIncludes() {
+    return [
+      {
+        model: this.userModel,
+        as: 'user',
+        attributes: ['id', 'firstName', 'lastName'],
+      },
+      {
+        model: this.serviceModel,
+        as: 'services',
+        attributes: ['id', 'name', 'duration'],
+        through: { attributes: [] },
+      },
+    ];
+  }
+}
+
+// Export singleton instance
+export const stylistService = new StylistService();
@@ -0,0 +1,244 @@
+import { Op } from 'sequelize';
+import config from '../config/environment';
+import User from '../models/User.model';
+import TwoFactorRecoveryCode from '../models/TwoFactorRecoveryCode.model';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+} from '../utils/errors';
+import { decryptSecret, encryptSecret } from '../utils/encryption';
+import logger from '../utils/logger';
+import { hashToken } from '../utils/tokens';
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifyTotp,
+} from '../utils/totp';
+import { TwoFactorSetup } from '../types';
+
+/**
+ * Two-factor settings (config.auth)
+ */
+export interface TwoFactorOptions {
+  twoFactorIssuer: string;
+  twoFactorEncryptionKey: string;
+  requireAdminTwoFactor: boolean;
+}
+
+/**
+ * Two-factor authentication service with dependency injection
+ * Enrols users in TOTP, manages their recovery codes and checks second-factor codes
+ */
+export class TwoFactorService {
+  constructor(
+    private readonly userModel: typeof User = User,
+    private readonly recoveryCodeModel: typeof TwoFactorRecoveryCode = TwoFactorRecoveryCode,
+    private readonly options: TwoFactorOptions = config.auth
+  ) {}
+
+  /**
+   * Start TOTP enrolment with a new secret
+   * 2FA is only enabled once a code from the authenticator app is confirmed
+   */
+  async setup(userId: number): Promise<TwoFactorSetup> {
+    const user = await this.findUserOrFail(userId);
+
+    if (user.twoFactorEnabledAt) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+
+    await user.update({
+      twoFactorSecret: encryptSecret(secret, this.options.twoFactorEncryptionKey),
+      twoFactorLastUsedStep: null,
+    });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, this.options.twoFactorIssuer),
+    };
+  }
+
+  /**
+   * Confirm enrolment with a code from the authenticator app and issue recovery codes
+   * The recovery codes are only returned here, in plain text
+   */
+  async enable(userId: number, code: string): Promise<{ recoveryCodes: string[] }> {
+    const user = await this.findUserOrFail(userId);
+
+    if (user.twoFactorEnabledAt) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    if (!user.twoFactorSecret) {
+      throw new BadRequestError('Two-factor setup has not been started');
+    }
+
+    if (!(await this.verifyTotpCode(user, code))) {
+      throw new BadRequestError('Invalid two-factor code');
+    }
+
+    await user.update({ twoFactorEnabledAt: new Date() });
+
+    return { recoveryCodes: await this.replaceRecoveryCodes(user.id) };
+  }
+
+  /**
+   * Turn 2FA off after checking the password and a current code
+   * Admins cannot turn it off while config.auth.requireAdminTwoFactor is on
+   */
+  async disable(userId: number, password: string, code: string): Promise<{ message: string }> {
+    const user = await this.findUserOrFail(userId);
+
+    if (!user.twoFactorEnabledAt) {
+      throw new ConflictError('Two-factor authentication is not enabled');
+    }
+
+    if (this.options.requireAdminTwoFactor && user.role === 'admin') {
+      throw new ForbiddenError('Two-factor authentication is required for admin accounts');
+    }
+
+    if (!(await user.comparePassword(password))) {
+      throw new UnauthorizedError('Password is incorrect');
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      throw new BadRequestError('Invalid two-factor code');
+    }
+
+    await user.update({
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorLastUsedStep: null,
+    });
+    await this.recoveryCodeModel.destroy({ where: { userId: user.id } });
+
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  /**
+   * Replace the recovery codes after checking a current code
+   */
+  async regenerateRecoveryCodes(
+    userId: number,
+    code: string
+  ): Promise<{ recoveryCodes: string[] }> {
+    const user = await this.findUserOrFail(userId);
+
+    if (!user.twoFactorEnabledAt) {
+      throw new ConflictError('Two-factor authentication is not enabled');
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      throw new BadRequestError('Invalid two-factor code');
+    }
+
+    return { recoveryCodes: await this.replaceRecoveryCodes(user.id) };
+  }
+
+  /**
+   * Check a second-factor code: a TOTP code, or an unused recovery code (which is consumed)
+   */
+  async verifyCode(user: User, code: string): Promise<boolean> {
+    if (await this.verifyTotpCode(user, code)) {
+      return true;
+    }
+
+    const normalized = normalizeRecoveryCode(code);
+
+    if (normalized.length !== 12) {
+      return false;
+    }
+
+    // Conditional update: a recovery code can only be consumed once, even concurrently
+    const [consumed] = await this.recoveryCodeModel.update(
+      { usedAt: new Date() },
+      { where: { userId: user.id, codeHash: hashToken(normalized), usedAt: null } }
+    );
+
+    return consumed > 0;
+  }
+
+  /**
+   * Number of unused recovery codes of a user
+   */
+  async countRecoveryCodes(userId: number): Promise<number> {
+    return this.recoveryCodeModel.count({ where: { userId, usedAt: null } });
+  }
+
+  /**
+   * Check a TOTP code and remember its step so the same code cannot be replayed
+   */
+  private async verifyTotpCode(user: User, code: string): Promise<boolean> {
+    if (!user.twoFactorSecret) {
+      return false;
+    }
+
+    let secret: string;
+
+    try {
+      secret = decryptSecret(user.twoFactorSecret, this.options.twoFactorEncryptionKey);
+    } catch (error) {
+      // The encryption key changed; only recovery codes can be used until the user re-enrols
+      logger.error(`Cannot decrypt the TOTP secret of user ${user.id}:`, error);
+      return false;
+    }
+
+    const step = verifyTotp(secret, code);
+
+    if (step === null) {
+      return false;
+    }
+
+    // Conditional update: a code is only accepted once, even by concurrent requests
+    const [updated] = await this.userModel.update(
+      { twoFactorLastUsedStep: step },
+      {
+        where: {
+          id: user.id,
+          [Op.or]: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { [Op.lt]: step } }],
+        },
+      }
+    );
+
+    if (updated === 0) {
+      return false;
+    }
+
+    user.twoFactorLastUsedStep = step;
+    return true;
+  }
+
+  /**
+   * Replace a user's recovery codes with a new set, storing only their hashes
+   */
+  private async replaceRecoveryCodes(userId: number): Promise<string[]> {
+    const codes = generateRecoveryCodes();
+
+    await this.recoveryCodeModel.destroy({ where: { userId } });
+    await this.recoveryCodeModel.bulkCreate(
+      codes.map((code) => ({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) }))
+    );
+
+    return codes;
+  }
+
+  private async findUserOrFail(userId: number): Promise<User> {
+    const user = await this.userModel.findByPk(userId);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    return user;
+  }
+}
+
+// Export singleton instance
+export const twoFactorService = new TwoFactorService();
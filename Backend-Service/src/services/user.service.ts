@@ -1,25 +1,65 @@
+import { Op, col, fn, where as whereFn } from 'sequelize';
+import sequelize from '../config/database';
 import User from '../models/User.model';
-import { NotFoundError, UnauthorizedError, ConflictError } from '../utils/errors';
+import Session from '../models/Session.model';
+import AccountLockout from '../models/AccountLockout.model';
+import Booking from '../models/Booking.model';
+import Stylist from '../models/Stylist.model';
+import NotificationLog from '../models/NotificationLog.model';
+import { SessionService } from './session.service';
+import { PermissionService } from './permission.service';
+import { NotFoundError, UnauthorizedError, ConflictError, BadRequestError } from '../utils/errors';
+import { containsPattern } from '../utils/helpers';
+import { anonymisedUserFields } from '../utils/privacy';
 import { UpdateProfileInput, ChangePasswordInput } from '../schemas/auth.schema';
-import { UserAttributes } from '../types';
+import {
+  PaginatedResponse,
+  PermissionActor,
+  PublicUserProfile,
+  UserAttributes,
+  UserQueryFilters,
+} from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * User service with dependency injection
  */
 export class UserService {
-  constructor(private readonly userModel: typeof User = User) {}
+  constructor(
+    private readonly sessionService: SessionService,
+    private readonly permissionService: PermissionService,
+    private readonly userModel: typeof User = User,
+    private readonly sessionModel: typeof Session = Session,
+    private readonly lockoutModel: typeof AccountLockout = AccountLockout,
+    private readonly bookingModel: typeof Booking = Booking,
+    private readonly stylistModel: typeof Stylist = Stylist,
+    private readonly notificationLogModel: typeof NotificationLog = NotificationLog
+  ) {}
 
   /**
-   * Get user by ID
+   * Get user by ID as seen by a viewer
+   * The owner and users with users:read:any get the full account, others the public profile
    */
-  async getUserById(userId: number): Promise<Omit<UserAttributes, 'password'>> {
+  async getUserById(
+    userId: number,
+    viewer: PermissionActor
+  ): Promise<Omit<UserAttributes, 'password'> | PublicUserProfile> {
     const user = await this.userModel.findByPk(userId);
 
     if (!user) {
       throw new NotFoundError('User');
     }
 
-    return user.toSafeObject();
+    if (await this.permissionService.canAccessOwned(viewer, user.id, 'users:read:any')) {
+      return user.toSafeObject();
+    }
+
+    return {
+      id: user.id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+    };
   }
 
   /**
@@ -60,6 +100,14 @@ export class UserService {
     if (data.phone !== undefined) {
       user.phone = data.phone;
     }
+    if (data.smsOptIn !== undefined) {
+      user.smsOptIn = data.smsOptIn;
+    }
+
+    // SMS confirmations and reminders need somewhere to go
+    if (user.smsOptIn && !user.phone) {
+      throw new BadRequestError('A phone number is required to receive SMS notifications');
+    }
 
     await user.save();
 
@@ -130,42 +178,81 @@ export class UserService {
     return { message: 'Account activated successfully' };
   }
 
+  /**
+   * Revoke every session of a user (admin only)
+   * Existing access and refresh tokens stop working immediately
+   */
+  async forceLogout(userId: number): Promise<{ message: string; revoked: number }> {
+    const user = await this.userModel.findByPk(userId);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    const revoked = await this.sessionService.revokeAllSessions(userId, 'admin_force_logout');
+
+    return { message: 'User logged out of all sessions', revoked };
+  }
+
   /**
    * Get all users (admin only)
+   * Search matches email, first name, last name or the full name, case-insensitively;
+   * the created-date range covers whole UTC days
    */
-  async getAllUsers(options: {
-    page?: number;
-    limit?: number;
-    role?: 'customer' | 'admin';
-    isActive?: boolean;
-  } = {}): Promise<{
+  async getAllUsers(filters: UserQueryFilters = {}): Promise<{
     users: Array<Omit<UserAttributes, 'password'>>;
-    pagination: {
-      page: number;
-      limit: number;
-      total: number;
-      totalPages: number;
-    };
+    pagination: PaginatedResponse<unknown>['pagination'];
   }> {
-    const page = options.page || 1;
-    const limit = options.limit || 10;
+    const page = filters.page || 1;
+    const limit = filters.limit || 10;
     const offset = (page - 1) * limit;
 
-    const where: any = {};
+    const where: Record<string | symbol, unknown> = {};
 
-    if (options.role) {
-      where.role = options.role;
+    if (filters.role) {
+      where.role = filters.role;
     }
 
-    if (options.isActive !== undefined) {
-      where.isActive = options.isActive;
+    if (filters.isActive !== undefined) {
+      where.isActive = filters.isActive;
     }
 
+    // Soft-deleted users are only listed on request, e.g. to restore them
+    if (filters.deleted) {
+      where.deletedAt = { [Op.ne]: null };
+    }
+
+    if (filters.createdAtFrom || filters.createdAtTo) {
+      where.createdAt = {
+        ...(filters.createdAtFrom && { [Op.gte]: new Date(`${filters.createdAtFrom}T00:00:00Z`) }),
+        ...(filters.createdAtTo && {
+          [Op.lt]: new Date(new Date(`${filters.createdAtTo}T00:00:00Z`).getTime() + DAY_MS),
+        }),
+      };
+    }
+
+    if (filters.search) {
+      const pattern = containsPattern(filters.search);
+      where[Op.or] = [
+        { email: { [Op.iLike]: pattern } },
+        { firstName: { [Op.iLike]: pattern } },
+        { lastName: { [Op.iLike]: pattern } },
+        whereFn(fn('concat', col('first_name'), ' ', col('last_name')), { [Op.iLike]: pattern }),
+      ];
+    }
+
+    const sortOrder = filters.sortOrder || 'DESC';
+
     const { count, rows } = await this.userModel.findAndCountAll({
       where,
       limit,
       offset,
-      order: [['createdAt', 'DESC']],
+      // The ID keeps pages stable when many users share the sorted value
+      order: [
+        [filters.sortBy || 'createdAt', sortOrder],
+        ['id', sortOrder],
+      ],
+      paranoid: !filters.deleted,
     });
 
     return {
@@ -173,14 +260,16 @@ export class UserService {
       pagination: {
         page,
         limit,
-        total: count,
+        totalItems: count,
         totalPages: Math.ceil(count / limit),
       },
     };
   }
 
   /**
-   * Delete user (admin only - hard delete)
+   * Delete user (admin only - soft delete)
+   * The account disappears and its sessions are revoked, but bookings and payments keep
+   * referencing it; restoreUser undoes this until the user is purged
    */
   async deleteUser(userId: number): Promise<{ message: string }> {
     const user = await this.userModel.findByPk(userId);
@@ -190,10 +279,80 @@ export class UserService {
     }
 
     await user.destroy();
+    await this.sessionService.revokeAllSessions(userId, 'account_deleted');
 
     return { message: 'User deleted successfully' };
   }
+
+  /**
+   * Restore a soft-deleted user (admin only)
+   */
+  async restoreUser(userId: number): Promise<Omit<UserAttributes, 'password'>> {
+    const user = await this.findDeletedUserOrFail(userId);
+
+    if (user.purgedAt) {
+      throw new ConflictError('User has been purged and cannot be restored');
+    }
+
+    await user.restore();
+
+    return user.toSafeObject();
+  }
+
+  /**
+   * Purge the personal data of a soft-deleted user (admin only)
+   * Name, contact details and credentials are anonymised and login metadata, booking notes and
+   * notification recipients are cleared; bookings, payments and refunds are kept for the
+   * financial records
+   */
+  async purgeUser(userId: number): Promise<{ message: string }> {
+    const user = await this.findDeletedUserOrFail(userId);
+
+    if (user.purgedAt) {
+      throw new ConflictError('User has already been purged');
+    }
+
+    await sequelize.transaction(async (transaction) => {
+      await user.update({ ...anonymisedUserFields(userId), purgedAt: new Date() }, { transaction });
+      await this.sessionModel.update(
+        { userAgent: null, deviceName: null, ipAddress: null },
+        { where: { userId }, transaction }
+      );
+      await this.lockoutModel.destroy({ where: { userId }, transaction });
+      await this.bookingModel.update({ notes: null }, { where: { userId }, transaction });
+      await this.stylistModel.update(
+        { bio: null, photoUrl: null, isActive: false },
+        { where: { userId }, transaction }
+      );
+      await this.notificationLogModel.update(
+        { recipient: null },
+        { where: { userId }, transaction }
+      );
+    });
+
+    return { message: 'User personal data purged successfully' };
+  }
+
+  /**
+   * Find a soft-deleted user by ID or throw
+   * Users that were not deleted first cannot be restored or purged
+   */
+  private async findDeletedUserOrFail(userId: number): Promise<User> {
+    const user = await this.userModel.findByPk(userId, { paranoid: false });
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    if (!user.deletedAt) {
+      throw new ConflictError('User is not deleted');
+    }
+
+    return user;
+  }
 }
 
 // Export singleton instance
-export const userService = new UserService();
+import { sessionService } from './session.service';
+import { permissionService } from './permission.service';
+export const userService = new UserService(sessionService, permissionService);
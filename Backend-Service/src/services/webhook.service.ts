@@ -0,0 +1,220 @@
+import { UniqueConstraintError } from 'sequelize';
+import PaymentWebhookEvent from '../models/PaymentWebhookEvent.model';
+import { PaymentService } from './payment.service';
+import { RefundService } from './refund.service';
+import { ConfiguredPaymentProvider } from '../providers/payment';
+import { NotFoundError, BadRequestError, InternalServerError } from '../utils/errors';
+import logger from '../utils/logger';
+import {
+  ProviderWebhookEvent,
+  PaymentWebhookEventAttributes,
+  WebhookEventQueryFilters,
+  WebhookHeaders,
+  WebhookReceipt,
+} from '../types';
+
+/**
+ * Payment webhook service with dependency injection
+ * Verifies provider webhooks, stores every event once and settles the matching payment or refund
+ */
+export class WebhookService {
+  constructor(
+    private readonly paymentService: PaymentService,
+    private readonly refundService: RefundService,
+    private readonly provider: ConfiguredPaymentProvider,
+    private readonly webhookEventModel: typeof PaymentWebhookEvent = PaymentWebhookEvent
+  ) {}
+
+  /**
+   * Receive a webhook for a provider
+   * Events already processed (or ignored) are acknowledged without being applied again;
+   * failed events are retried when the provider delivers them again
+   */
+  async handleWebhook(
+    providerName: string,
+    rawBody: Buffer | undefined,
+    headers: WebhookHeaders
+  ): Promise<WebhookReceipt> {
+    if (providerName !== this.provider.name) {
+      throw new NotFoundError('Webhook endpoint');
+    }
+
+    if (!rawBody) {
+      throw new BadRequestError('Missing webhook payload');
+    }
+
+    const event = this.provider.constructWebhookEvent(rawBody, headers);
+
+    let record = await this.webhookEventModel.findOne({
+      where: { provider: this.provider.name, eventId: event.eventId },
+    });
+
+    if (record && record.status !== 'failed') {
+      return { eventId: event.eventId, duplicate: true, status: record.status };
+    }
+
+    if (!record) {
+      try {
+        record = await this.storeEvent(event);
+      } catch (error) {
+        // The same event is being delivered concurrently and the other delivery stored it first
+        if (error instanceof UniqueConstraintError) {
+          return { eventId: event.eventId, duplicate: true, status: 'ignored' };
+        }
+        throw error;
+      }
+    }
+
+    await this.processEvent(record);
+
+    // Answer with an error so the provider delivers the event again later
+    if (record.status === 'failed') {
+      throw new InternalServerError('Webhook processing failed');
+    }
+
+    return { eventId: event.eventId, duplicate: false, status: record.status };
+  }
+
+  /**
+   * Apply a stored event again (admin only)
+   * Meant for debugging reconciliation problems: the processing result is stored on the event
+   */
+  async replayEvent(eventRecordId: number): Promise<PaymentWebhookEventAttributes> {
+    const record = await this.webhookEventModel.findByPk(eventRecordId);
+
+    if (!record) {
+      throw new NotFoundError('Webhook event');
+    }
+
+    logger.info(`Replaying ${record.provider} webhook event ${record.eventId}`);
+
+    await this.processEvent(record);
+
+    return record.toJSON();
+  }
+
+  /**
+   * Get stored webhook events with filters and pagination, newest first (admin only)
+   */
+  async getEvents(filters: WebhookEventQueryFilters = {}): Promise<{
+    events: PaymentWebhookEventAttributes[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 10;
+    const offset = (page - 1) * limit;
+
+    const where: Record<string, unknown> = {};
+
+    if (filters.provider) {
+      where.provider = filters.provider;
+    }
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    const { count, rows } = await this.webhookEventModel.findAndCountAll({
+      where,
+      limit,
+      offset,
+      order: [['createdAt', 'DESC']],
+    });
+
+    return {
+      events: rows.map((event) => event.toJSON()),
+      pagination: {
+        page,
+        limit,
+        total: count,
+        totalPages: Math.ceil(count / limit),
+      },
+    };
+  }
+
+  /**
+   * Store a verified event before processing it
+   */
+  private async storeEvent(event: ProviderWebhookEvent): Promise<PaymentWebhookEvent> {
+    return this.webhookEventModel.create({
+      provider: this.provider.name,
+      eventId: event.eventId,
+      type: event.type,
+      providerPaymentId: event.providerPaymentId,
+      paymentStatus: event.outcome ? event.outcome.status : null,
+      failureReason: event.outcome?.failureReason || event.refund?.failureReason || null,
+      providerRefundId: event.refund ? event.refund.providerRefundId : null,
+      refundStatus: event.refund ? event.refund.status : null,
+      payload: event.payload,
+    });
+  }
+
+  /**
+   * Settle the payment or refund an event refers to and record the result on the event
+   * Events without an outcome or for unknown payments and refunds are marked as ignored
+   */
+  private async processEvent(record: PaymentWebhookEvent): Promise<void> {
+    let status: PaymentWebhookEventAttributes['status'] = 'ignored';
+    let error: string | null = null;
+
+    try {
+      if (record.providerPaymentId && record.paymentStatus) {
+        const payment = await this.paymentService.settleProviderPayment(
+          record.provider,
+          record.providerPaymentId,
+          {
+            status: record.paymentStatus,
+            failureReason: record.failureReason || undefined,
+          }
+        );
+
+        if (payment) {
+          status = 'processed';
+        } else {
+          logger.warn(
+            `${record.provider} webhook event ${record.eventId} refers to unknown payment ${record.providerPaymentId}`
+          );
+        }
+      } else if (record.providerRefundId && record.refundStatus) {
+        const refund = await this.refundService.settleProviderRefund({
+          providerRefundId: record.providerRefundId,
+          status: record.refundStatus,
+          failureReason: record.failureReason || undefined,
+        });
+
+        if (refund) {
+          status = 'processed';
+        } else {
+          logger.warn(
+            `${record.provider} webhook event ${record.eventId} refers to unknown refund ${record.providerRefundId}`
+          );
+        }
+      }
+    } catch (processingError) {
+      status = 'failed';
+      error = processingError instanceof Error ? processingError.message : String(processingError);
+      logger.error(
+        `Failed to process ${record.provider} webhook event ${record.eventId}:`,
+        processingError
+      );
+    }
+
+    await record.update({
+      status,
+      error,
+      attempts: record.attempts + 1,
+      processedAt: new Date(),
+    });
+  }
+}
+
+// Export singleton instance
+import { paymentService } from './payment.service';
+import { refundService } from './refund.service';
+import { paymentProvider } from '../providers/payment';
+export const webhookService = new WebhookService(paymentService, refundService, paymentProvider);
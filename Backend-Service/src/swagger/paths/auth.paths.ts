@@ -140,13 +140,17 @@ export const authPaths = {
             },
           },
         },
+        '429': {
+          description: 'Too many registration attempts from this IP',
+        },
       },
     },
   },
   '/api/v1/auth/login': {
     post: {
       summary: 'Login user',
-      description: 'Authenticate user with email and password',
+      description:
+        'Authenticate user with email and password. When the user has two-factor authentication enabled, no tokens are issued; the response carries a short-lived challenge token to complete the login at /api/v1/auth/login/2fa.',
       tags: ['Authentication'],
       requestBody: {
         required: true,
@@ -173,7 +177,8 @@ export const authPaths = {
       },
       responses: {
         '200': {
-          description: 'Login successful',
+          description:
+            'Login successful, or two-factor authentication required (data then holds twoFactorRequired, challengeToken and expiresIn)',
           content: {
             'application/json': {
               schema: {
@@ -255,13 +260,62 @@ export const authPaths = {
             },
           },
         },
+        '429': {
+          description:
+            'Too many attempts from this IP or for this email, or account temporarily locked after repeated failed logins',
+        },
+      },
+    },
+  },
+  '/api/v1/auth/login/2fa': {
+    post: {
+      summary: 'Complete two-factor login',
+      description:
+        'Exchange the challenge token from /api/v1/auth/login and a code from the authenticator app (or an unused recovery code) for access and refresh tokens',
+      tags: ['Authentication'],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['challengeToken', 'code'],
+              properties: {
+                challengeToken: {
+                  type: 'string',
+                  example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+                },
+                code: {
+                  type: 'string',
+                  example: '287082',
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '200': {
+          description: 'Login successful (same shape as /api/v1/auth/login)',
+        },
+        '400': {
+          description: 'Validation error',
+        },
+        '401': {
+          description: 'Invalid or expired challenge token, or invalid two-factor code',
+        },
+        '429': {
+          description:
+            'Too many attempts from this IP, or account temporarily locked after repeated failed codes',
+        },
       },
     },
   },
   '/api/v1/auth/refresh-token': {
     post: {
       summary: 'Refresh access token',
-      description: 'Get a new access token using refresh token',
+      description:
+        'Exchange a refresh token for a new token pair. Each refresh token can only be used once; presenting an already rotated token revokes the whole session.',
       tags: ['Authentication'],
       requestBody: {
         required: true,
@@ -315,7 +369,7 @@ export const authPaths = {
           },
         },
         '401': {
-          description: 'Invalid refresh token',
+          description: 'Invalid, expired, revoked or already used refresh token',
           content: {
             'application/json': {
               schema: {
@@ -337,6 +391,217 @@ export const authPaths = {
       },
     },
   },
+  '/api/v1/auth/verify-email': {
+    post: {
+      summary: 'Verify email address',
+      description:
+        'Confirm the email address of an account with the token from the verification email. Bookings require a verified email address.',
+      tags: ['Authentication'],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['token'],
+              properties: {
+                token: {
+                  type: 'string',
+                  example: '9b1e4c...',
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '200': {
+          description: 'Email verified successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Email verified successfully',
+                  },
+                },
+              },
+            },
+          },
+        },
+        '400': {
+          description: 'Validation error, or invalid, expired or already used verification token',
+        },
+        '429': {
+          description: 'Too many attempts from this IP',
+        },
+      },
+    },
+  },
+  '/api/v1/auth/resend-verification': {
+    post: {
+      summary: 'Resend verification email',
+      description:
+        'Email a new verification link to the authenticated user. Earlier links stop working.',
+      tags: ['Authentication'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Verification email sent',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Verification email sent',
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '409': {
+          description: 'Email is already verified',
+        },
+        '429': {
+          description: 'Too many attempts from this IP or for this account',
+        },
+      },
+    },
+  },
+  '/api/v1/auth/forgot-password': {
+    post: {
+      summary: 'Request password reset',
+      description:
+        'Email a single-use password reset link. The response is the same whether or not an account exists for the email.',
+      tags: ['Authentication'],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['email'],
+              properties: {
+                email: {
+                  type: 'string',
+                  format: 'email',
+                  example: 'john.doe@example.com',
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '200': {
+          description: 'Reset link sent if the account exists',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example:
+                      'If an account exists for this email, a password reset link has been sent',
+                  },
+                },
+              },
+            },
+          },
+        },
+        '400': {
+          description: 'Validation error',
+        },
+        '429': {
+          description: 'Too many attempts from this IP or for this email',
+        },
+      },
+    },
+  },
+  '/api/v1/auth/reset-password': {
+    post: {
+      summary: 'Reset password',
+      description:
+        'Set a new password with the token from a reset email. The token can be used once, and every existing session of the user is revoked.',
+      tags: ['Authentication'],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['token', 'password'],
+              properties: {
+                token: {
+                  type: 'string',
+                  example: '3f7a9c...',
+                },
+                password: {
+                  type: 'string',
+                  format: 'password',
+                  minLength: 8,
+                  example: 'NewSecurePass123',
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '200': {
+          description: 'Password reset successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Password has been reset successfully',
+                  },
+                },
+              },
+            },
+          },
+        },
+        '400': {
+          description: 'Validation error, or invalid, expired or already used reset token',
+        },
+        '429': {
+          description: 'Too many attempts from this IP',
+        },
+      },
+    },
+  },
   '/api/v1/auth/me': {
     get: {
       summary: 'Get current user profile',
@@ -382,6 +647,11 @@ export const authPaths = {
                         type: 'string',
                         example: '+1234567890',
                       },
+                      smsOptIn: {
+                        type: 'boolean',
+                        description: 'Receive SMS confirmations and appointment reminders',
+                        example: false,
+                      },
                       role: {
                         type: 'string',
                         example: 'customer',
@@ -390,6 +660,12 @@ export const authPaths = {
                         type: 'boolean',
                         example: true,
                       },
+                      emailVerifiedAt: {
+                        type: 'string',
+                        format: 'date-time',
+                        nullable: true,
+                        description: 'When the email address was verified (null until verified)',
+                      },
                     },
                   },
                 },
@@ -423,7 +699,8 @@ export const authPaths = {
   '/api/v1/auth/logout': {
     post: {
       summary: 'Logout user',
-      description: 'Logout the authenticated user (client-side token invalidation)',
+      description:
+        'Logout the authenticated user and revoke the refresh tokens of the current session',
       tags: ['Authentication'],
       security: [
         {
@@ -474,4 +751,450 @@ export const authPaths = {
       },
     },
   },
+  '/api/v1/auth/sessions': {
+    get: {
+      summary: 'List sessions',
+      description:
+        'List the active sessions (devices) of the authenticated user, most recently used first',
+      tags: ['Authentication'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Sessions retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: {
+                          type: 'string',
+                          format: 'uuid',
+                        },
+                        deviceName: {
+                          type: 'string',
+                          nullable: true,
+                          example: 'Chrome on macOS',
+                        },
+                        userAgent: {
+                          type: 'string',
+                          nullable: true,
+                        },
+                        ipAddress: {
+                          type: 'string',
+                          nullable: true,
+                          example: '203.0.113.10',
+                        },
+                        lastUsedAt: {
+                          type: 'string',
+                          format: 'date-time',
+                        },
+                        expiresAt: {
+                          type: 'string',
+                          format: 'date-time',
+                        },
+                        createdAt: {
+                          type: 'string',
+                          format: 'date-time',
+                        },
+                        current: {
+                          type: 'boolean',
+                          description: 'Whether this is the session of the request',
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+      },
+    },
+    delete: {
+      summary: 'Revoke other sessions',
+      description: 'Revoke every session of the authenticated user except the current one',
+      tags: ['Authentication'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Other sessions revoked successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Other sessions revoked successfully',
+                  },
+                  data: {
+                    type: 'object',
+                    properties: {
+                      revoked: {
+                        type: 'integer',
+                        example: 2,
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+      },
+    },
+  },
+  '/api/v1/auth/sessions/{id}': {
+    delete: {
+      summary: 'Revoke a session',
+      description:
+        'Revoke one session of the authenticated user; its access and refresh tokens stop working',
+      tags: ['Authentication'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: {
+            type: 'string',
+            format: 'uuid',
+          },
+          description: 'Session ID',
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Session revoked successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Session revoked successfully',
+                  },
+                },
+              },
+            },
+          },
+        },
+        '400': {
+          description: 'Validation error',
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '404': {
+          description: 'Session not found',
+        },
+      },
+    },
+  },
+  '/api/v1/auth/2fa/setup': {
+    post: {
+      summary: 'Start two-factor enrolment',
+      description:
+        'Generate a new TOTP secret for the authenticated user. Render otpauthUri as a QR code for the authenticator app, then confirm with /api/v1/auth/2fa/enable.',
+      tags: ['Authentication'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Secret generated',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Scan the QR code with your authenticator app, then confirm a code',
+                  },
+                  data: {
+                    type: 'object',
+                    properties: {
+                      secret: {
+                        type: 'string',
+                        example: 'JBSWY3DPEHPK3PXP',
+                      },
+                      otpauthUri: {
+                        type: 'string',
+                        example:
+                          'otpauth://totp/Salon%20Booking%3Ajohn.doe%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Salon+Booking&algorithm=SHA1&digits=6&period=30',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '409': {
+          description: 'Two-factor authentication is already enabled',
+        },
+      },
+    },
+  },
+  '/api/v1/auth/2fa/enable': {
+    post: {
+      summary: 'Enable two-factor authentication',
+      description:
+        'Confirm enrolment with a code from the authenticator app. The recovery codes are only shown once.',
+      tags: ['Authentication'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['code'],
+              properties: {
+                code: {
+                  type: 'string',
+                  example: '287082',
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '200': {
+          description: 'Two-factor authentication enabled',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Two-factor authentication enabled',
+                  },
+                  data: {
+                    type: 'object',
+                    properties: {
+                      recoveryCodes: {
+                        type: 'array',
+                        items: {
+                          type: 'string',
+                          example: 'a1b2-c3d4-e5f6',
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '400': {
+          description: 'Validation error, setup not started, or invalid code',
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '409': {
+          description: 'Two-factor authentication is already enabled',
+        },
+      },
+    },
+  },
+  '/api/v1/auth/2fa/disable': {
+    post: {
+      summary: 'Disable two-factor authentication',
+      description:
+        'Turn two-factor authentication off. Requires the current password and a code. Admins cannot disable it while it is required for admin access.',
+      tags: ['Authentication'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['password', 'code'],
+              properties: {
+                password: {
+                  type: 'string',
+                  format: 'password',
+                  example: 'SecurePass123!',
+                },
+                code: {
+                  type: 'string',
+                  example: '287082',
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '200': {
+          description: 'Two-factor authentication disabled',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Two-factor authentication disabled',
+                  },
+                },
+              },
+            },
+          },
+        },
+        '400': {
+          description: 'Validation error or invalid code',
+        },
+        '401': {
+          description: 'Unauthorized or incorrect password',
+        },
+        '403': {
+          description: 'Two-factor authentication is required for admin accounts',
+        },
+        '409': {
+          description: 'Two-factor authentication is not enabled',
+        },
+      },
+    },
+  },
+  '/api/v1/auth/2fa/recovery-codes': {
+    post: {
+      summary: 'Regenerate recovery codes',
+      description:
+        'Replace all recovery codes of the authenticated user. Requires a current code; earlier recovery codes stop working.',
+      tags: ['Authentication'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['code'],
+              properties: {
+                code: {
+                  type: 'string',
+                  example: '287082',
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '200': {
+          description: 'Recovery codes regenerated',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Recovery codes regenerated',
+                  },
+                  data: {
+                    type: 'object',
+                    properties: {
+                      recoveryCodes: {
+                        type: 'array',
+                        items: {
+                          type: 'string',
+                          example: 'a1b2-c3d4-e5f6',
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '400': {
+          description: 'Validation error or invalid code',
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '409': {
+          description: 'Two-factor authentication is not enabled',
+        },
+      },
+    },
+  },
 };
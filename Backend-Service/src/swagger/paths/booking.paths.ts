@@ -0,0 +1,526 @@
+const bookingProperties = {
+  id: {
+    type: 'integer',
+    example: 1,
+  },
+  userId: {
+    type: 'integer',
+    example: 7,
+  },
+  serviceId: {
+    type: 'integer',
+    example: 1,
+  },
+  slotId: {
+    type: 'integer',
+    example: 42,
+  },
+  stylistId: {
+    type: 'integer',
+    nullable: true,
+    description:
+      'Stylist the slot was offered with, or the free stylist the booking was given when none was chosen; null for services no stylist performs',
+    example: 3,
+  },
+  bookingDate: {
+    type: 'string',
+    format: 'date',
+    example: '2026-11-02',
+  },
+  startTime: {
+    type: 'string',
+    example: '09:00',
+  },
+  endTime: {
+    type: 'string',
+    example: '09:45',
+  },
+  status: {
+    type: 'string',
+    enum: ['pending', 'confirmed', 'cancelled', 'completed'],
+    example: 'pending',
+  },
+  totalAmount: {
+    type: 'integer',
+    description: 'Service price at booking time, in cents',
+    example: 4050,
+  },
+  notes: {
+    type: 'string',
+    example: 'Please use fragrance-free products',
+  },
+  cancellationReason: {
+    type: 'string',
+    nullable: true,
+    example: null,
+  },
+  cancelledAt: {
+    type: 'string',
+    format: 'date-time',
+    nullable: true,
+    example: null,
+  },
+  isLateCancellation: {
+    type: 'boolean',
+    example: false,
+  },
+  depositForfeitPercent: {
+    type: 'integer',
+    nullable: true,
+    description: 'Share of the deposit kept because of a late cancellation',
+    example: null,
+  },
+  service: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer', example: 1 },
+      name: { type: 'string', example: 'Classic Haircut' },
+      duration: { type: 'integer', example: 45 },
+      price: { type: 'integer', example: 4500 },
+    },
+  },
+  user: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer', example: 7 },
+      email: { type: 'string', example: 'jane@example.com' },
+      firstName: { type: 'string', example: 'Jane' },
+      lastName: { type: 'string', example: 'Doe' },
+      phone: { type: 'string', example: '+15551234567' },
+      smsOptIn: { type: 'boolean', example: true },
+    },
+  },
+};
+
+const bookingIdParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: {
+    type: 'integer',
+  },
+  description: 'Booking ID',
+  example: 1,
+};
+
+const bookingListParameters = [
+  { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+  { name: 'limit', in: 'query', schema: { type: 'integer', default: 10, maximum: 100 } },
+  {
+    name: 'status',
+    in: 'query',
+    schema: { type: 'string', enum: ['pending', 'confirmed', 'cancelled', 'completed'] },
+  },
+  { name: 'serviceId', in: 'query', schema: { type: 'integer' } },
+  { name: 'stylistId', in: 'query', schema: { type: 'integer' } },
+  { name: 'startDate', in: 'query', schema: { type: 'string', format: 'date' } },
+  { name: 'endDate', in: 'query', schema: { type: 'string', format: 'date' } },
+  { name: 'sortOrder', in: 'query', schema: { type: 'string', enum: ['ASC', 'DESC'] } },
+];
+
+const bookingResponse = (description: string) => ({
+  description,
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        properties: {
+          success: {
+            type: 'boolean',
+            example: true,
+          },
+          message: {
+            type: 'string',
+            example: description,
+          },
+          data: {
+            type: 'object',
+            properties: bookingProperties,
+          },
+        },
+      },
+    },
+  },
+});
+
+const bookingListResponse = {
+  description: 'Bookings retrieved successfully',
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        properties: {
+          success: {
+            type: 'boolean',
+            example: true,
+          },
+          data: {
+            type: 'object',
+            properties: {
+              bookings: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: bookingProperties,
+                },
+              },
+              pagination: {
+                type: 'object',
+                properties: {
+                  page: { type: 'integer', example: 1 },
+                  limit: { type: 'integer', example: 10 },
+                  total: { type: 'integer', example: 3 },
+                  totalPages: { type: 'integer', example: 1 },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+export const bookingPaths = {
+  '/api/v1/bookings': {
+    post: {
+      summary: 'Create a booking',
+      description:
+        'Book a free slot returned by the availability endpoint. The slot must not be held by another customer. The booking starts as pending.',
+      tags: ['Bookings'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['serviceId', 'slotId', 'bookingDate', 'startTime', 'endTime'],
+              properties: {
+                serviceId: bookingProperties.serviceId,
+                slotId: bookingProperties.slotId,
+                stylistId: bookingProperties.stylistId,
+                bookingDate: bookingProperties.bookingDate,
+                startTime: bookingProperties.startTime,
+                endTime: bookingProperties.endTime,
+                notes: bookingProperties.notes,
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '201': bookingResponse('Booking created successfully'),
+        '400': {
+          description: 'Validation error or details do not match the slot',
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '403': {
+          description: 'Email address not verified (when verification is required)',
+        },
+        '404': {
+          description: 'Slot or service not found',
+        },
+        '409': {
+          description: 'Slot is no longer available or held by another customer',
+        },
+      },
+    },
+    get: {
+      summary: 'Get all bookings',
+      description: 'Retrieve bookings of all customers with filters and pagination (admin only)',
+      tags: ['Bookings'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: bookingListParameters,
+      responses: {
+        '200': bookingListResponse,
+        '401': {
+          description: 'Unauthorized',
+        },
+        '403': {
+          description: 'Forbidden - Admin access required',
+        },
+      },
+    },
+  },
+  '/api/v1/bookings/me': {
+    get: {
+      summary: 'Get my bookings',
+      description: "Retrieve the current user's bookings with filters and pagination",
+      tags: ['Bookings'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: bookingListParameters,
+      responses: {
+        '200': bookingListResponse,
+        '401': {
+          description: 'Unauthorized',
+        },
+      },
+    },
+  },
+  '/api/v1/bookings/{id}': {
+    get: {
+      summary: 'Get booking by ID',
+      description: 'Retrieve one of your bookings (admins can retrieve any booking)',
+      tags: ['Bookings'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [bookingIdParameter],
+      responses: {
+        '200': bookingResponse('Booking retrieved successfully'),
+        '401': {
+          description: 'Unauthorized',
+        },
+        '404': {
+          description: 'Booking not found',
+        },
+      },
+    },
+  },
+  '/api/v1/bookings/{id}/cancel': {
+    put: {
+      summary: 'Cancel a booking',
+      description:
+        'Cancel one of your pending or confirmed bookings. Inside the cancellation window the policy either rejects the cancellation or marks it late and forfeits part of the deposit. The rest of a paid deposit is refunded automatically. Admins can cancel any booking and bypass the policy (full refund).',
+      tags: ['Bookings'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [bookingIdParameter],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['reason'],
+              properties: {
+                reason: {
+                  type: 'string',
+                  minLength: 10,
+                  maxLength: 500,
+                  example: 'I have a schedule conflict',
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '200': bookingResponse('Booking cancelled successfully'),
+        '400': {
+          description: 'Validation error',
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '404': {
+          description: 'Booking not found',
+        },
+        '409': {
+          description:
+            'Booking can no longer be cancelled, or the policy rejects late cancellations',
+        },
+      },
+    },
+  },
+  '/api/v1/bookings/{id}/cancellation-policy': {
+    get: {
+      summary: 'Get cancellation policy',
+      description:
+        'Get the effective cancellation policy of a booking (service override or global default) and what cancelling now would mean',
+      tags: ['Bookings'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [bookingIdParameter],
+      responses: {
+        '200': {
+          description: 'Cancellation policy retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'object',
+                    properties: {
+                      policy: {
+                        type: 'object',
+                        properties: {
+                          windowHours: { type: 'integer', example: 24 },
+                          lateAction: { type: 'string', enum: ['reject', 'forfeit'] },
+                          forfeitPercent: { type: 'integer', example: 100 },
+                        },
+                      },
+                      deadline: { type: 'string', format: 'date-time' },
+                      isLate: { type: 'boolean', example: false },
+                      allowed: { type: 'boolean', example: true },
+                      forfeitPercent: { type: 'integer', example: 0 },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '404': {
+          description: 'Booking not found',
+        },
+      },
+    },
+  },
+  '/api/v1/bookings/{id}/status': {
+    put: {
+      summary: 'Update booking status',
+      description:
+        'Update the status of a booking (admin only). Allowed transitions: pending → confirmed or cancelled, confirmed → completed or cancelled. Cancelled and completed are final.',
+      tags: ['Bookings'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [bookingIdParameter],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['status'],
+              properties: {
+                status: bookingProperties.status,
+                reason: {
+                  type: 'string',
+                  maxLength: 500,
+                  description: 'Recorded in the status timeline',
+                  example: 'Deposit received at the front desk',
+                },
+                cancellationReason: {
+                  type: 'string',
+                  minLength: 10,
+                  maxLength: 500,
+                  example: 'Stylist unavailable',
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '200': bookingResponse('Booking status updated successfully'),
+        '400': {
+          description: 'Validation error',
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '403': {
+          description: 'Forbidden - Admin access required',
+        },
+        '404': {
+          description: 'Booking not found',
+        },
+        '409': {
+          description: 'Status transition not allowed',
+        },
+      },
+    },
+  },
+  '/api/v1/bookings/{id}/timeline': {
+    get: {
+      summary: 'Get booking status timeline',
+      description:
+        'Retrieve every status transition of a booking, oldest first (own bookings, or any booking for admins)',
+      tags: ['Bookings'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [bookingIdParameter],
+      responses: {
+        '200': {
+          description: 'Timeline retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'integer', example: 2 },
+                        bookingId: { type: 'integer', example: 1 },
+                        fromStatus: { type: 'string', nullable: true, example: 'pending' },
+                        toStatus: { type: 'string', example: 'confirmed' },
+                        actorId: { type: 'integer', nullable: true, example: 1 },
+                        actorRole: {
+                          type: 'string',
+                          enum: ['customer', 'admin', 'system'],
+                          example: 'admin',
+                        },
+                        reason: { type: 'string', nullable: true, example: null },
+                        createdAt: { type: 'string', format: 'date-time' },
+                        actor: {
+                          type: 'object',
+                          nullable: true,
+                          properties: {
+                            id: { type: 'integer', example: 1 },
+                            firstName: { type: 'string', example: 'Admin' },
+                            lastName: { type: 'string', example: 'User' },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '404': {
+          description: 'Booking not found',
+        },
+      },
+    },
+  },
+};
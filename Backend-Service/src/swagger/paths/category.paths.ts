@@ -0,0 +1,349 @@
+const categoryProperties = {
+  id: {
+    type: 'integer',
+    example: 1,
+  },
+  name: {
+    type: 'string',
+    example: 'Hair Services',
+  },
+  slug: {
+    type: 'string',
+    example: 'hair',
+  },
+  description: {
+    type: 'string',
+    example: 'Haircuts, styling, and treatments',
+  },
+  icon: {
+    type: 'string',
+    example: 'scissors',
+  },
+  parentId: {
+    type: 'integer',
+    nullable: true,
+    example: null,
+  },
+  displayOrder: {
+    type: 'integer',
+    example: 0,
+  },
+  isActive: {
+    type: 'boolean',
+    example: true,
+  },
+};
+
+const categoryIdParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: {
+    type: 'integer',
+  },
+  description: 'Category ID',
+  example: 1,
+};
+
+const categoryRequestProperties = {
+  name: categoryProperties.name,
+  slug: {
+    ...categoryProperties.slug,
+    description: 'Derived from the name when omitted',
+  },
+  description: categoryProperties.description,
+  icon: categoryProperties.icon,
+  parentId: categoryProperties.parentId,
+  displayOrder: categoryProperties.displayOrder,
+  isActive: categoryProperties.isActive,
+};
+
+const adminResponses = {
+  '401': {
+    description: 'Unauthorized',
+  },
+  '403': {
+    description: 'Forbidden - Admin access required',
+  },
+};
+
+export const categoryPaths = {
+  '/api/v1/categories/tree': {
+    get: {
+      summary: 'Get category tree',
+      description: 'Retrieve active categories nested by parent, ordered by display order',
+      tags: ['Categories'],
+      responses: {
+        '200': {
+          description: 'Category tree retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: categoryProperties.id,
+                        name: categoryProperties.name,
+                        slug: categoryProperties.slug,
+                        description: categoryProperties.description,
+                        icon: categoryProperties.icon,
+                        displayOrder: categoryProperties.displayOrder,
+                        children: {
+                          type: 'array',
+                          items: {
+                            type: 'object',
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  '/api/v1/categories': {
+    get: {
+      summary: 'Get all categories',
+      description: 'Retrieve every category as a flat list, including inactive ones (admin only)',
+      tags: ['Categories'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Categories retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: categoryProperties,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        ...adminResponses,
+      },
+    },
+    post: {
+      summary: 'Create a category',
+      description: 'Create a root category or a sub-category (admin only)',
+      tags: ['Categories'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['name'],
+              properties: categoryRequestProperties,
+            },
+          },
+        },
+      },
+      responses: {
+        '201': {
+          description: 'Category created successfully',
+        },
+        '400': {
+          description: 'Validation error',
+        },
+        ...adminResponses,
+        '404': {
+          description: 'Parent category not found',
+        },
+        '409': {
+          description: 'Slug already in use',
+        },
+      },
+    },
+  },
+  '/api/v1/categories/reorder': {
+    put: {
+      summary: 'Reorder categories',
+      description: 'Set the display order of several categories in one request (admin only)',
+      tags: ['Categories'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['items'],
+              properties: {
+                items: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    required: ['id', 'displayOrder'],
+                    properties: {
+                      id: categoryProperties.id,
+                      displayOrder: categoryProperties.displayOrder,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '200': {
+          description: 'Categories reordered successfully',
+        },
+        '400': {
+          description: 'Validation error',
+        },
+        ...adminResponses,
+        '404': {
+          description: 'Category not found',
+        },
+      },
+    },
+  },
+  '/api/v1/categories/{id}': {
+    get: {
+      summary: 'Get category by ID',
+      description: 'Retrieve a single category (admin only)',
+      tags: ['Categories'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [categoryIdParameter],
+      responses: {
+        '200': {
+          description: 'Category retrieved successfully',
+        },
+        ...adminResponses,
+        '404': {
+          description: 'Category not found',
+        },
+      },
+    },
+    put: {
+      summary: 'Update a category',
+      description:
+        'Rename, move or reorder a category (admin only). Changing the slug moves its services to the new slug.',
+      tags: ['Categories'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [categoryIdParameter],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: categoryRequestProperties,
+            },
+          },
+        },
+      },
+      responses: {
+        '200': {
+          description: 'Category updated successfully',
+        },
+        '400': {
+          description: 'Validation error or invalid parent',
+        },
+        ...adminResponses,
+        '404': {
+          description: 'Category not found',
+        },
+        '409': {
+          description: 'Slug already in use',
+        },
+      },
+    },
+    delete: {
+      summary: 'Delete a category',
+      description:
+        'Soft delete a category that has no sub-categories and no services (admin only). Deleted categories keep their slug and can be restored.',
+      tags: ['Categories'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [categoryIdParameter],
+      responses: {
+        '200': {
+          description: 'Category deleted successfully',
+        },
+        ...adminResponses,
+        '404': {
+          description: 'Category not found',
+        },
+        '409': {
+          description: 'Category still has sub-categories or services',
+        },
+      },
+    },
+  },
+  '/api/v1/categories/{id}/restore': {
+    post: {
+      summary: 'Restore a category',
+      description:
+        'Restore a deleted category (admin only). A deleted parent must be restored first.',
+      tags: ['Categories'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [categoryIdParameter],
+      responses: {
+        '200': {
+          description: 'Category restored successfully',
+        },
+        ...adminResponses,
+        '404': {
+          description: 'Category not found',
+        },
+        '409': {
+          description: 'Category is not deleted or its parent is deleted',
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,202 @@
+const jobProperties = {
+  id: { type: 'string', format: 'uuid', example: '2f1c9a52-7a4e-4d5b-9a51-0c3c7d0f8e11' },
+  name: { type: 'string', example: 'reminders.send' },
+  payload: { type: 'object', example: {} },
+  status: {
+    type: 'string',
+    enum: ['pending', 'running', 'completed', 'dead'],
+    example: 'dead',
+  },
+  attempts: { type: 'integer', example: 5 },
+  maxAttempts: { type: 'integer', example: 5 },
+  runAt: { type: 'string', format: 'date-time' },
+  lockedUntil: { type: 'string', format: 'date-time', nullable: true, example: null },
+  lastError: { type: 'string', nullable: true, example: 'SMS provider unavailable' },
+  uniqueKey: {
+    type: 'string',
+    nullable: true,
+    description: 'Set on recurring jobs so each run is only enqueued once',
+    example: 'reminders.send:5946912',
+  },
+  completedAt: { type: 'string', format: 'date-time', nullable: true, example: null },
+  createdAt: { type: 'string', format: 'date-time' },
+  updatedAt: { type: 'string', format: 'date-time' },
+};
+
+const jobIdParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: {
+    type: 'string',
+    format: 'uuid',
+  },
+  description: 'Job ID',
+};
+
+export const jobPaths = {
+  '/api/v1/jobs': {
+    get: {
+      summary: 'Get background jobs',
+      description:
+        'Retrieve queued, running, completed and dead jobs, latest run time first (admin only). Filter on status=dead to inspect jobs that ran out of attempts.',
+      tags: ['Jobs'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [
+        { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+        { name: 'limit', in: 'query', schema: { type: 'integer', default: 10 } },
+        { name: 'name', in: 'query', schema: { type: 'string', example: 'reminders.send' } },
+        {
+          name: 'status',
+          in: 'query',
+          schema: { type: 'string', enum: ['pending', 'running', 'completed', 'dead'] },
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Jobs retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'object',
+                    properties: {
+                      jobs: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: jobProperties,
+                        },
+                      },
+                      pagination: {
+                        type: 'object',
+                        properties: {
+                          page: { type: 'integer', example: 1 },
+                          limit: { type: 'integer', example: 10 },
+                          total: { type: 'integer', example: 1 },
+                          totalPages: { type: 'integer', example: 1 },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '403': {
+          description: 'Forbidden - Admin access required',
+        },
+      },
+    },
+  },
+  '/api/v1/jobs/{id}': {
+    get: {
+      summary: 'Get a background job by ID',
+      description: 'Retrieve a single job including its last error (admin only)',
+      tags: ['Jobs'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [jobIdParameter],
+      responses: {
+        '200': {
+          description: 'Job retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'object',
+                    properties: jobProperties,
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '403': {
+          description: 'Forbidden - Admin access required',
+        },
+        '404': {
+          description: 'Job not found',
+        },
+      },
+    },
+  },
+  '/api/v1/jobs/{id}/retry': {
+    post: {
+      summary: 'Retry a dead job',
+      description:
+        'Move a job that ran out of attempts back to the queue with a fresh set of attempts (admin only)',
+      tags: ['Jobs'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [jobIdParameter],
+      responses: {
+        '200': {
+          description: 'Job queued for retry',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Job queued for retry',
+                  },
+                  data: {
+                    type: 'object',
+                    properties: jobProperties,
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '403': {
+          description: 'Forbidden - Admin access required',
+        },
+        '404': {
+          description: 'Job not found',
+        },
+        '409': {
+          description: 'Only dead jobs can be retried',
+        },
+      },
+    },
+  },
+};
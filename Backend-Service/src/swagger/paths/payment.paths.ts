@@ -0,0 +1,610 @@
+const paymentProperties = {
+  id: {
+    type: 'integer',
+    example: 1,
+  },
+  bookingId: {
+    type: 'integer',
+    example: 1,
+  },
+  userId: {
+    type: 'integer',
+    example: 7,
+  },
+  provider: {
+    type: 'string',
+    enum: ['stripe', 'razorpay', 'fake'],
+    example: 'stripe',
+  },
+  providerPaymentId: {
+    type: 'string',
+    example: 'pi_3OqX2a2eZvKYlo2C1x2y3z4w',
+  },
+  amount: {
+    type: 'integer',
+    description: 'Amount in cents',
+    example: 500,
+  },
+  currency: {
+    type: 'string',
+    example: 'USD',
+  },
+  status: {
+    type: 'string',
+    enum: ['pending', 'completed', 'failed', 'refunded'],
+    example: 'pending',
+  },
+  failureReason: {
+    type: 'string',
+    nullable: true,
+    example: null,
+  },
+  paidAt: {
+    type: 'string',
+    format: 'date-time',
+    nullable: true,
+    example: null,
+  },
+  refundedAmount: {
+    type: 'integer',
+    description: 'Amount in cents refunded or being refunded',
+    example: 0,
+  },
+  createdAt: {
+    type: 'string',
+    format: 'date-time',
+  },
+  updatedAt: {
+    type: 'string',
+    format: 'date-time',
+  },
+};
+
+const refundProperties = {
+  id: { type: 'integer', example: 1 },
+  paymentId: { type: 'integer', example: 1 },
+  bookingId: { type: 'integer', example: 1 },
+  providerRefundId: { type: 'string', nullable: true, example: 're_3OqX2a2eZvKYlo2C0aBcDeFg' },
+  amount: { type: 'integer', description: 'Amount in cents', example: 500 },
+  currency: { type: 'string', example: 'USD' },
+  status: {
+    type: 'string',
+    enum: ['pending', 'completed', 'failed'],
+    example: 'completed',
+  },
+  reason: { type: 'string', example: 'Booking #1 cancelled' },
+  failureReason: { type: 'string', nullable: true, example: null },
+  initiatedBy: {
+    type: 'integer',
+    nullable: true,
+    description:
+      'Admin who issued the refund; null for automatic refunds on cancellation or of deposits paid after the booking stopped waiting for them',
+    example: null,
+  },
+  createdAt: { type: 'string', format: 'date-time' },
+  updatedAt: { type: 'string', format: 'date-time' },
+};
+
+const paymentResponse = (description: string) => ({
+  description,
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        properties: {
+          success: {
+            type: 'boolean',
+            example: true,
+          },
+          message: {
+            type: 'string',
+          },
+          data: {
+            type: 'object',
+            properties: paymentProperties,
+          },
+        },
+      },
+    },
+  },
+});
+
+const webhookEventProperties = {
+  id: { type: 'integer', example: 1 },
+  provider: paymentProperties.provider,
+  eventId: { type: 'string', example: 'evt_1OqX2a2eZvKYlo2C' },
+  type: { type: 'string', example: 'payment_intent.succeeded' },
+  providerPaymentId: { type: 'string', nullable: true, example: 'pi_3OqX2a2eZvKYlo2C1x2y3z4w' },
+  paymentStatus: {
+    type: 'string',
+    nullable: true,
+    enum: ['completed', 'failed'],
+    example: 'completed',
+  },
+  failureReason: { type: 'string', nullable: true, example: null },
+  providerRefundId: { type: 'string', nullable: true, example: null },
+  refundStatus: {
+    type: 'string',
+    nullable: true,
+    enum: ['pending', 'completed', 'failed'],
+    example: null,
+  },
+  payload: { type: 'object', description: 'Event as sent by the provider' },
+  status: {
+    type: 'string',
+    enum: ['processed', 'ignored', 'failed'],
+    example: 'processed',
+  },
+  error: { type: 'string', nullable: true, example: null },
+  attempts: { type: 'integer', example: 1 },
+  processedAt: { type: 'string', format: 'date-time', nullable: true },
+  createdAt: { type: 'string', format: 'date-time' },
+  updatedAt: { type: 'string', format: 'date-time' },
+};
+
+export const paymentPaths = {
+  '/api/v1/payments/webhooks/{provider}': {
+    post: {
+      summary: 'Receive a payment provider webhook',
+      description:
+        'Endpoint to register with the payment provider. The signature is verified against the raw request body (Stripe-Signature, X-Razorpay-Signature or X-Fake-Signature header). Each event ID is applied once; duplicate deliveries are acknowledged without changes. Payment events settle deposits; refund events (charge.refund.updated / refund.updated, refund.processed / refund.failed) settle pending refunds, and a failed refund makes its amount refundable again.',
+      tags: ['Payments'],
+      parameters: [
+        {
+          name: 'provider',
+          in: 'path',
+          required: true,
+          schema: {
+            type: 'string',
+            enum: ['stripe', 'razorpay', 'fake'],
+          },
+          description: 'Must match the configured payment provider',
+          example: 'stripe',
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              description: 'Event payload as sent by the provider',
+            },
+          },
+        },
+      },
+      responses: {
+        '200': {
+          description: 'Webhook received',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'object',
+                    properties: {
+                      eventId: webhookEventProperties.eventId,
+                      duplicate: { type: 'boolean', example: false },
+                      status: webhookEventProperties.status,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '400': {
+          description: 'Invalid signature or payload',
+        },
+        '404': {
+          description: 'Provider is not the configured payment provider',
+        },
+        '500': {
+          description: 'Processing failed; the provider should deliver the event again',
+        },
+      },
+    },
+  },
+  '/api/v1/payments/webhooks/events': {
+    get: {
+      summary: 'Get stored webhook events',
+      description: 'Retrieve received webhook events, newest first (admin only)',
+      tags: ['Payments'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [
+        { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+        { name: 'limit', in: 'query', schema: { type: 'integer', default: 10 } },
+        {
+          name: 'provider',
+          in: 'query',
+          schema: { type: 'string', enum: ['stripe', 'razorpay', 'fake'] },
+        },
+        {
+          name: 'status',
+          in: 'query',
+          schema: { type: 'string', enum: ['processed', 'ignored', 'failed'] },
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Webhook events retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'object',
+                    properties: {
+                      events: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: webhookEventProperties,
+                        },
+                      },
+                      pagination: {
+                        type: 'object',
+                        properties: {
+                          page: { type: 'integer', example: 1 },
+                          limit: { type: 'integer', example: 10 },
+                          total: { type: 'integer', example: 1 },
+                          totalPages: { type: 'integer', example: 1 },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '403': {
+          description: 'Forbidden - Admin access required',
+        },
+      },
+    },
+  },
+  '/api/v1/payments/webhooks/events/{id}/replay': {
+    post: {
+      summary: 'Replay a stored webhook event',
+      description:
+        'Apply a stored event again to debug reconciliation problems (admin only). Settled payments are never changed twice; the processing result is stored on the event.',
+      tags: ['Payments'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: {
+            type: 'integer',
+          },
+          description: 'Stored webhook event ID',
+          example: 1,
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Webhook event replayed',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Webhook event replayed (processed)',
+                  },
+                  data: {
+                    type: 'object',
+                    properties: webhookEventProperties,
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '403': {
+          description: 'Forbidden - Admin access required',
+        },
+        '404': {
+          description: 'Webhook event not found',
+        },
+      },
+    },
+  },
+  '/api/v1/payments/intent': {
+    post: {
+      summary: 'Create a deposit payment intent',
+      description:
+        'Start paying the deposit of a pending booking with the configured provider (Stripe, Razorpay or the local fake). Use the returned client secret and publishable key to complete the payment on the client. While an earlier intent for the deposit is unpaid, that intent is returned again.',
+      tags: ['Payments'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['bookingId'],
+              properties: {
+                bookingId: paymentProperties.bookingId,
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '201': {
+          description: 'Payment intent created successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Payment intent created successfully',
+                  },
+                  data: {
+                    type: 'object',
+                    properties: {
+                      payment: {
+                        type: 'object',
+                        properties: paymentProperties,
+                      },
+                      clientSecret: {
+                        type: 'string',
+                        nullable: true,
+                        example: 'pi_3OqX2a2eZvKYlo2C1x2y3z4w_secret_abc',
+                      },
+                      publishableKey: {
+                        type: 'string',
+                        example: 'pk_test_51H...',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '400': {
+          description: 'Validation error or the booking does not require a deposit',
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '404': {
+          description: 'Booking not found',
+        },
+        '409': {
+          description: 'Booking is not pending or the deposit has already been paid',
+        },
+      },
+    },
+  },
+  '/api/v1/payments/{id}/confirm': {
+    post: {
+      summary: 'Confirm a payment',
+      description:
+        'Check the payment with the provider. A completed deposit confirms the booking; a failed one cancels it and frees the slot.',
+      tags: ['Payments'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: {
+            type: 'integer',
+          },
+          description: 'Payment ID',
+          example: 1,
+        },
+      ],
+      responses: {
+        '200': paymentResponse('Payment status retrieved'),
+        '401': {
+          description: 'Unauthorized',
+        },
+        '404': {
+          description: 'Payment not found',
+        },
+      },
+    },
+  },
+  '/api/v1/payments/{id}/refund': {
+    post: {
+      summary: 'Refund a payment',
+      description:
+        'Refund all or part of a completed payment through the payment provider (admin only). Without an amount, everything not refunded yet is refunded. Deposits of bookings cancelled within policy are refunded automatically.',
+      tags: ['Payments'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: {
+            type: 'integer',
+          },
+          description: 'Payment ID',
+          example: 1,
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['reason'],
+              properties: {
+                amount: {
+                  type: 'integer',
+                  description: 'Amount in cents (defaults to the refundable remainder)',
+                  example: 250,
+                },
+                reason: {
+                  type: 'string',
+                  example: 'Stylist ran late, partial goodwill refund',
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '201': {
+          description: 'Refund issued (check its status)',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Refund is completed',
+                  },
+                  data: {
+                    type: 'object',
+                    properties: refundProperties,
+                  },
+                },
+              },
+            },
+          },
+        },
+        '400': {
+          description: 'Validation error or amount exceeds the refundable remainder',
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '403': {
+          description: 'Forbidden - Admin access required',
+        },
+        '404': {
+          description: 'Payment not found',
+        },
+        '409': {
+          description: 'Payment is not completed (pending, failed or already fully refunded)',
+        },
+      },
+    },
+  },
+  '/api/v1/payments/booking/{bookingId}': {
+    get: {
+      summary: 'Get booking payments',
+      description:
+        'Retrieve the payment history of a booking with its refunds, oldest first (own bookings, or any booking for admins)',
+      tags: ['Payments'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [
+        {
+          name: 'bookingId',
+          in: 'path',
+          required: true,
+          schema: {
+            type: 'integer',
+          },
+          description: 'Booking ID',
+          example: 1,
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Payments retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        ...paymentProperties,
+                        refunds: {
+                          type: 'array',
+                          items: {
+                            type: 'object',
+                            properties: refundProperties,
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '404': {
+          description: 'Booking not found',
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,141 @@
+const permissionList = {
+  type: 'array',
+  items: {
+    type: 'string',
+  },
+  example: ['bookings:read:any', 'closures:read', 'stylists:time-off:read'],
+};
+
+const adminResponses = {
+  '401': {
+    description: 'Unauthorized',
+  },
+  '403': {
+    description: 'Forbidden - Admin access required',
+  },
+};
+
+export const permissionPaths = {
+  '/api/v1/permissions': {
+    get: {
+      summary: 'Get role permissions',
+      description:
+        'List every named permission and the permissions granted to each role (admin only)',
+      tags: ['Permissions'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Role permissions retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'object',
+                    properties: {
+                      permissions: {
+                        ...permissionList,
+                        description: 'Every permission the API checks',
+                      },
+                      roles: {
+                        type: 'object',
+                        properties: {
+                          customer: { ...permissionList, example: [] },
+                          staff: permissionList,
+                          admin: { ...permissionList, example: ['bookings:read:any', '...'] },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        ...adminResponses,
+      },
+    },
+  },
+  '/api/v1/permissions/{role}': {
+    put: {
+      summary: 'Set role permissions',
+      description:
+        'Replace the permissions granted to a role (admin only). The admin role must keep permissions:write. Changes apply to every instance within a minute.',
+      tags: ['Permissions'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [
+        {
+          name: 'role',
+          in: 'path',
+          required: true,
+          schema: {
+            type: 'string',
+            enum: ['customer', 'staff', 'admin'],
+          },
+          description: 'Role',
+          example: 'staff',
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['permissions'],
+              properties: {
+                permissions: permissionList,
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '200': {
+          description: 'Role permissions updated successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Role permissions updated successfully',
+                  },
+                  data: {
+                    type: 'object',
+                    properties: {
+                      role: { type: 'string', example: 'staff' },
+                      permissions: permissionList,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '400': {
+          description: 'Validation error, unknown permission or admin losing permissions:write',
+        },
+        ...adminResponses,
+      },
+    },
+  },
+};
@@ -0,0 +1,215 @@
+const erasureRequestProperties = {
+  id: {
+    type: 'integer',
+    example: 1,
+  },
+  userId: {
+    type: 'integer',
+    example: 12,
+  },
+  status: {
+    type: 'string',
+    enum: ['pending', 'cancelled', 'completed'],
+    example: 'pending',
+  },
+  requestedAt: {
+    type: 'string',
+    format: 'date-time',
+    example: '2026-03-01T10:00:00.000Z',
+  },
+  scheduledFor: {
+    type: 'string',
+    format: 'date-time',
+    description: 'End of the grace period; personal data is anonymised after this',
+    example: '2026-03-31T10:00:00.000Z',
+  },
+  cancelledAt: {
+    type: 'string',
+    format: 'date-time',
+    nullable: true,
+    example: null,
+  },
+  completedAt: {
+    type: 'string',
+    format: 'date-time',
+    nullable: true,
+    example: null,
+  },
+};
+
+const erasureRequestResponse = (description: string) => ({
+  description,
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        properties: {
+          success: {
+            type: 'boolean',
+            example: true,
+          },
+          message: {
+            type: 'string',
+          },
+          data: {
+            type: 'object',
+            properties: erasureRequestProperties,
+          },
+        },
+      },
+    },
+  },
+});
+
+export const privacyPaths = {
+  '/api/v1/users/me/export': {
+    get: {
+      summary: 'Export personal data',
+      description:
+        'Download everything stored about the current user: profile, bookings, payments, notifications sent, sessions and erasure requests. With format=zip the export is an archive with one JSON file per section.',
+      tags: ['Users'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [
+        {
+          name: 'format',
+          in: 'query',
+          schema: {
+            type: 'string',
+            enum: ['json', 'zip'],
+            default: 'json',
+          },
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Personal data exported successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'object',
+                    properties: {
+                      exportedAt: { type: 'string', format: 'date-time' },
+                      profile: { type: 'object' },
+                      bookings: { type: 'array', items: { type: 'object' } },
+                      payments: { type: 'array', items: { type: 'object' } },
+                      notifications: { type: 'array', items: { type: 'object' } },
+                      sessions: { type: 'array', items: { type: 'object' } },
+                      erasureRequests: {
+                        type: 'array',
+                        items: { type: 'object', properties: erasureRequestProperties },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            'application/zip': {
+              schema: {
+                type: 'string',
+                format: 'binary',
+              },
+            },
+          },
+        },
+        '400': {
+          description: 'Validation error',
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+      },
+    },
+  },
+  '/api/v1/users/me/erasure-requests': {
+    get: {
+      summary: 'List erasure requests',
+      description: 'List the erasure requests of the current user, newest first',
+      tags: ['Users'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Erasure requests retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: erasureRequestProperties,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+      },
+    },
+    post: {
+      summary: 'Request erasure',
+      description:
+        'Request the erasure of the current account. The account stays usable during the grace period (ERASURE_GRACE_PERIOD_DAYS) and the request can be cancelled; afterwards the account is deleted and its personal data anonymised. Bookings and payments are kept for the financial records and the request itself is kept permanently.',
+      tags: ['Users'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      responses: {
+        '201': erasureRequestResponse('Erasure requested successfully'),
+        '401': {
+          description: 'Unauthorized',
+        },
+        '409': {
+          description: 'An erasure request is already pending',
+        },
+      },
+    },
+  },
+  '/api/v1/users/me/erasure-requests/cancel': {
+    post: {
+      summary: 'Cancel erasure request',
+      description: 'Cancel the pending erasure request of the current user',
+      tags: ['Users'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      responses: {
+        '200': erasureRequestResponse('Erasure request cancelled successfully'),
+        '401': {
+          description: 'Unauthorized',
+        },
+        '404': {
+          description: 'No pending erasure request',
+        },
+      },
+    },
+  },
+};
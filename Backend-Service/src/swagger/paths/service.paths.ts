@@ -0,0 +1,343 @@
+const serviceProperties = {
+  id: {
+    type: 'integer',
+    example: 1,
+  },
+  name: {
+    type: 'string',
+    example: 'Classic Haircut',
+  },
+  description: {
+    type: 'string',
+    example: 'Wash, cut and blow-dry with a senior stylist',
+  },
+  price: {
+    type: 'integer',
+    description: 'Price in cents',
+    example: 4500,
+  },
+  duration: {
+    type: 'integer',
+    description: 'Duration in minutes',
+    example: 45,
+  },
+  category: {
+    type: 'string',
+    example: 'hair',
+  },
+  imageUrl: {
+    type: 'string',
+    format: 'uri',
+    example: 'https://cdn.example.com/services/haircut.jpg',
+  },
+  isPopular: {
+    type: 'boolean',
+    example: true,
+  },
+  discount: {
+    type: 'integer',
+    description: 'Discount percentage (0-100)',
+    example: 10,
+  },
+  status: {
+    type: 'string',
+    enum: ['active', 'inactive', 'archived'],
+    example: 'active',
+  },
+  cancellationWindowHours: {
+    type: 'integer',
+    nullable: true,
+    description:
+      'Hours before the appointment after which a cancellation is late (null = global default)',
+    example: 48,
+  },
+  lateCancellationAction: {
+    type: 'string',
+    enum: ['reject', 'forfeit'],
+    nullable: true,
+    description: 'What happens to late customer cancellations (null = global default)',
+    example: 'forfeit',
+  },
+  lateCancellationForfeitPercent: {
+    type: 'integer',
+    nullable: true,
+    description: 'Share of the deposit kept on a late cancellation (null = global default)',
+    example: 50,
+  },
+};
+
+const serviceIdParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: {
+    type: 'integer',
+  },
+  description: 'Service ID',
+  example: 1,
+};
+
+const serviceRequestProperties = {
+  name: serviceProperties.name,
+  description: serviceProperties.description,
+  price: serviceProperties.price,
+  duration: serviceProperties.duration,
+  category: serviceProperties.category,
+  imageUrl: serviceProperties.imageUrl,
+  isPopular: serviceProperties.isPopular,
+  discount: serviceProperties.discount,
+  status: serviceProperties.status,
+  cancellationWindowHours: serviceProperties.cancellationWindowHours,
+  lateCancellationAction: serviceProperties.lateCancellationAction,
+  lateCancellationForfeitPercent: serviceProperties.lateCancellationForfeitPercent,
+};
+
+export const servicePaths = {
+  '/api/v1/services': {
+    get: {
+      summary: 'Get all services',
+      description:
+        'Retrieve the service catalog. Only active services are returned unless the caller is an admin.',
+      tags: ['Services'],
+      parameters: [
+        { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+        { name: 'limit', in: 'query', schema: { type: 'integer', default: 10, maximum: 100 } },
+        { name: 'category', in: 'query', schema: { type: 'string' }, example: 'hair' },
+        {
+          name: 'status',
+          in: 'query',
+          schema: { type: 'string', enum: ['active', 'inactive', 'archived'] },
+          description: 'Admin only',
+        },
+        { name: 'isPopular', in: 'query', schema: { type: 'boolean' } },
+        { name: 'search', in: 'query', schema: { type: 'string' }, description: 'Search by name' },
+        {
+          name: 'sortBy',
+          in: 'query',
+          schema: { type: 'string', enum: ['name', 'price', 'duration', 'createdAt'] },
+        },
+        { name: 'sortOrder', in: 'query', schema: { type: 'string', enum: ['ASC', 'DESC'] } },
+      ],
+      responses: {
+        '200': {
+          description: 'Services retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'object',
+                    properties: {
+                      services: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: serviceProperties,
+                        },
+                      },
+                      pagination: {
+                        type: 'object',
+                        properties: {
+                          page: { type: 'integer', example: 1 },
+                          limit: { type: 'integer', example: 10 },
+                          total: { type: 'integer', example: 24 },
+                          totalPages: { type: 'integer', example: 3 },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '400': {
+          description: 'Invalid query parameters',
+        },
+      },
+    },
+    post: {
+      summary: 'Create a service',
+      description: 'Add a new service to the catalog (admin only)',
+      tags: ['Services'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['name', 'description', 'price', 'duration', 'category'],
+              properties: serviceRequestProperties,
+            },
+          },
+        },
+      },
+      responses: {
+        '201': {
+          description: 'Service created successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Service created successfully',
+                  },
+                  data: {
+                    type: 'object',
+                    properties: serviceProperties,
+                  },
+                },
+              },
+            },
+          },
+        },
+        '400': {
+          description: 'Validation error',
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '403': {
+          description: 'Forbidden - Admin access required',
+        },
+      },
+    },
+  },
+  '/api/v1/services/{id}': {
+    get: {
+      summary: 'Get service by ID',
+      description:
+        'Retrieve a single service. Inactive and archived services are only visible to admins.',
+      tags: ['Services'],
+      parameters: [serviceIdParameter],
+      responses: {
+        '200': {
+          description: 'Service retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'object',
+                    properties: serviceProperties,
+                  },
+                },
+              },
+            },
+          },
+        },
+        '404': {
+          description: 'Service not found',
+        },
+      },
+    },
+    put: {
+      summary: 'Update a service',
+      description: 'Update fields of an existing service (admin only)',
+      tags: ['Services'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [serviceIdParameter],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: serviceRequestProperties,
+            },
+          },
+        },
+      },
+      responses: {
+        '200': {
+          description: 'Service updated successfully',
+        },
+        '400': {
+          description: 'Validation error',
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '403': {
+          description: 'Forbidden - Admin access required',
+        },
+        '404': {
+          description: 'Service not found',
+        },
+      },
+    },
+  },
+  '/api/v1/services/{id}/archive': {
+    put: {
+      summary: 'Archive a service',
+      description:
+        'Remove a service from the public catalog while keeping its history (admin only)',
+      tags: ['Services'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [serviceIdParameter],
+      responses: {
+        '200': {
+          description: 'Service archived successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Service archived successfully',
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '403': {
+          description: 'Forbidden - Admin access required',
+        },
+        '404': {
+          description: 'Service not found',
+        },
+        '409': {
+          description: 'Service is already archived',
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,449 @@
+const openingHoursProperties = {
+  dayOfWeek: {
+    type: 'integer',
+    minimum: 0,
+    maximum: 6,
+    description: '0 = Sunday, 6 = Saturday',
+    example: 1,
+  },
+  openTime: {
+    type: 'string',
+    example: '09:00',
+  },
+  closeTime: {
+    type: 'string',
+    example: '18:00',
+  },
+};
+
+const closureProperties = {
+  id: {
+    type: 'integer',
+    example: 1,
+  },
+  startDate: {
+    type: 'string',
+    format: 'date',
+    example: '2026-12-25',
+  },
+  endDate: {
+    type: 'string',
+    format: 'date',
+    example: '2026-12-26',
+  },
+  startTime: {
+    type: 'string',
+    nullable: true,
+    description: 'Omit for a full-day closure',
+    example: null,
+  },
+  endTime: {
+    type: 'string',
+    nullable: true,
+    description: 'Omit for a full-day closure',
+    example: null,
+  },
+  reason: {
+    type: 'string',
+    example: 'Christmas holidays',
+  },
+};
+
+const adminResponses = {
+  '401': {
+    description: 'Unauthorized',
+  },
+  '403': {
+    description: 'Forbidden - Admin access required',
+  },
+};
+
+const slotIdParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: {
+    type: 'integer',
+  },
+  description: 'Slot ID',
+  example: 42,
+};
+
+export const slotPaths = {
+  '/api/v1/slots/availability/{serviceId}': {
+    get: {
+      summary: 'Get service availability',
+      description:
+        'Generate free slots for a service from opening hours and service duration, excluding closures, existing bookings and slots held by other customers. With a stylist preference, slots are limited to the working hours of the stylist and exclude their time-off and bookings; without one, a slot is offered while any stylist who performs the service is free. Defaults to the next 7 days; at most 31 days per request.',
+      tags: ['Slots'],
+      parameters: [
+        {
+          name: 'serviceId',
+          in: 'path',
+          required: true,
+          schema: {
+            type: 'integer',
+          },
+          description: 'Service ID',
+          example: 1,
+        },
+        {
+          name: 'startDate',
+          in: 'query',
+          schema: { type: 'string', format: 'date' },
+          example: '2026-11-02',
+        },
+        {
+          name: 'endDate',
+          in: 'query',
+          schema: { type: 'string', format: 'date' },
+          example: '2026-11-08',
+        },
+        {
+          name: 'stylistId',
+          in: 'query',
+          schema: { type: 'integer' },
+          description: 'Only offer slots with this stylist',
+          example: 3,
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Availability retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'object',
+                    properties: {
+                      serviceId: { type: 'integer', example: 1 },
+                      stylistId: { type: 'integer', nullable: true, example: 3 },
+                      startDate: { type: 'string', format: 'date', example: '2026-11-02' },
+                      endDate: { type: 'string', format: 'date', example: '2026-11-08' },
+                      days: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            date: { type: 'string', format: 'date', example: '2026-11-02' },
+                            slots: {
+                              type: 'array',
+                              items: {
+                                type: 'object',
+                                properties: {
+                                  id: { type: 'integer', example: 42 },
+                                  startTime: { type: 'string', example: '09:00' },
+                                  endTime: { type: 'string', example: '09:45' },
+                                },
+                              },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '400': {
+          description: 'Invalid date range, or the stylist does not perform this service',
+        },
+        '404': {
+          description: 'Service or stylist not found',
+        },
+      },
+    },
+  },
+  '/api/v1/slots/opening-hours': {
+    get: {
+      summary: 'Get opening hours',
+      description: 'Retrieve the weekly opening hours of the salon',
+      tags: ['Slots'],
+      responses: {
+        '200': {
+          description: 'Opening hours retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: openingHoursProperties,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    put: {
+      summary: 'Set opening hours',
+      description:
+        'Replace the weekly opening hours (admin only). Weekdays without an interval are closed; several intervals per weekday model split shifts.',
+      tags: ['Slots'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['hours'],
+              properties: {
+                hours: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    required: ['dayOfWeek', 'openTime', 'closeTime'],
+                    properties: openingHoursProperties,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '200': {
+          description: 'Opening hours updated successfully',
+        },
+        '400': {
+          description: 'Validation error or overlapping intervals',
+        },
+        ...adminResponses,
+      },
+    },
+  },
+  '/api/v1/slots/closures': {
+    get: {
+      summary: 'List closures',
+      description: 'List one-off closures, optionally overlapping a date range (admin only)',
+      tags: ['Slots'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [
+        { name: 'startDate', in: 'query', schema: { type: 'string', format: 'date' } },
+        { name: 'endDate', in: 'query', schema: { type: 'string', format: 'date' } },
+      ],
+      responses: {
+        '200': {
+          description: 'Closures retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: closureProperties,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        ...adminResponses,
+      },
+    },
+    post: {
+      summary: 'Create a closure',
+      description: 'Close the salon for one or more days or part of a day (admin only)',
+      tags: ['Slots'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['startDate'],
+              properties: {
+                startDate: closureProperties.startDate,
+                endDate: closureProperties.endDate,
+                startTime: closureProperties.startTime,
+                endTime: closureProperties.endTime,
+                reason: closureProperties.reason,
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '201': {
+          description: 'Closure created successfully',
+        },
+        '400': {
+          description: 'Validation error',
+        },
+        ...adminResponses,
+      },
+    },
+  },
+  '/api/v1/slots/closures/{id}': {
+    delete: {
+      summary: 'Delete a closure',
+      description: 'Remove a one-off closure (admin only)',
+      tags: ['Slots'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: {
+            type: 'integer',
+          },
+          description: 'Closure ID',
+          example: 1,
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Closure deleted successfully',
+        },
+        ...adminResponses,
+        '404': {
+          description: 'Closure not found',
+        },
+      },
+    },
+  },
+  '/api/v1/slots/{id}': {
+    get: {
+      summary: 'Get slot by ID',
+      description: 'Retrieve a generated slot',
+      tags: ['Slots'],
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: {
+            type: 'integer',
+          },
+          description: 'Slot ID',
+          example: 42,
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Slot retrieved successfully',
+        },
+        '404': {
+          description: 'Slot not found',
+        },
+      },
+    },
+  },
+  '/api/v1/slots/{id}/lock': {
+    post: {
+      summary: 'Hold a slot',
+      description:
+        'Hold a slot during checkout. The hold expires after SLOT_LOCK_DURATION_MINUTES; holding an own slot again extends it.',
+      tags: ['Slots'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [slotIdParameter],
+      responses: {
+        '200': {
+          description: 'Slot held successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Slot held successfully',
+                  },
+                  data: {
+                    type: 'object',
+                    properties: {
+                      slotId: { type: 'integer', example: 42 },
+                      ownerId: { type: 'integer', example: 7 },
+                      expiresAt: { type: 'string', format: 'date-time' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '404': {
+          description: 'Slot not found',
+        },
+        '409': {
+          description: 'Slot is no longer available or held by another customer',
+        },
+      },
+    },
+    delete: {
+      summary: 'Release a held slot',
+      description: 'Release the hold on a slot when checkout is abandoned',
+      tags: ['Slots'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [slotIdParameter],
+      responses: {
+        '200': {
+          description: 'Slot released successfully',
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+      },
+    },
+  },
+};
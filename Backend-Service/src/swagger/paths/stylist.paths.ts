@@ -0,0 +1,485 @@
+const stylistProperties = {
+  id: {
+    type: 'integer',
+    example: 3,
+  },
+  userId: {
+    type: 'integer',
+    example: 12,
+  },
+  bio: {
+    type: 'string',
+    nullable: true,
+    example: 'Colour specialist with ten years of experience',
+  },
+  photoUrl: {
+    type: 'string',
+    nullable: true,
+    example: 'https://cdn.example.com/stylists/3.jpg',
+  },
+  isActive: {
+    type: 'boolean',
+    example: true,
+  },
+  user: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer', example: 12 },
+      firstName: { type: 'string', example: 'Maria' },
+      lastName: { type: 'string', example: 'Lopez' },
+    },
+  },
+  services: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        id: { type: 'integer', example: 1 },
+        name: { type: 'string', example: 'Haircut' },
+        duration: { type: 'integer', example: 45 },
+      },
+    },
+  },
+};
+
+const stylistBodyProperties = {
+  bio: stylistProperties.bio,
+  photoUrl: stylistProperties.photoUrl,
+  serviceIds: {
+    type: 'array',
+    items: { type: 'integer' },
+    description: 'Services the stylist can perform (replaces the current list)',
+    example: [1, 2],
+  },
+  isActive: stylistProperties.isActive,
+};
+
+const scheduleProperties = {
+  dayOfWeek: {
+    type: 'integer',
+    minimum: 0,
+    maximum: 6,
+    description: '0 = Sunday, 6 = Saturday',
+    example: 2,
+  },
+  startTime: {
+    type: 'string',
+    example: '10:00',
+  },
+  endTime: {
+    type: 'string',
+    example: '18:00',
+  },
+};
+
+const timeOffProperties = {
+  id: {
+    type: 'integer',
+    example: 1,
+  },
+  stylistId: stylistProperties.id,
+  startDate: {
+    type: 'string',
+    format: 'date',
+    example: '2026-12-01',
+  },
+  endDate: {
+    type: 'string',
+    format: 'date',
+    example: '2026-12-05',
+  },
+  startTime: {
+    type: 'string',
+    nullable: true,
+    description: 'Omit for whole days off',
+    example: null,
+  },
+  endTime: {
+    type: 'string',
+    nullable: true,
+    description: 'Omit for whole days off',
+    example: null,
+  },
+  reason: {
+    type: 'string',
+    example: 'Holiday',
+  },
+};
+
+const adminResponses = {
+  '401': {
+    description: 'Unauthorized',
+  },
+  '403': {
+    description: 'Forbidden - Admin access required',
+  },
+};
+
+const stylistIdParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: {
+    type: 'integer',
+  },
+  description: 'Stylist ID',
+  example: 3,
+};
+
+const stylistResponse = (description: string) => ({
+  description,
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        properties: {
+          success: {
+            type: 'boolean',
+            example: true,
+          },
+          data: {
+            type: 'object',
+            properties: stylistProperties,
+          },
+        },
+      },
+    },
+  },
+});
+
+const scheduleResponse = (description: string) => ({
+  description,
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        properties: {
+          success: {
+            type: 'boolean',
+            example: true,
+          },
+          data: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: scheduleProperties,
+            },
+          },
+        },
+      },
+    },
+  },
+});
+
+export const stylistPaths = {
+  '/api/v1/stylists': {
+    get: {
+      summary: 'List stylists',
+      description:
+        'List active stylists with the services they perform. Admins may include inactive stylists.',
+      tags: ['Stylists'],
+      parameters: [
+        {
+          name: 'serviceId',
+          in: 'query',
+          schema: { type: 'integer' },
+          description: 'Only stylists who perform this service',
+        },
+        {
+          name: 'includeInactive',
+          in: 'query',
+          schema: { type: 'boolean' },
+          description: 'Include inactive stylists (admin only)',
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Stylists retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: stylistProperties,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    post: {
+      summary: 'Create a stylist',
+      description:
+        'Create a stylist profile for an existing user (admin only). Customer accounts are promoted to staff.',
+      tags: ['Stylists'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['userId'],
+              properties: {
+                userId: stylistProperties.userId,
+                ...stylistBodyProperties,
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '201': stylistResponse('Stylist created successfully'),
+        '400': {
+          description: 'Validation error or unknown service',
+        },
+        ...adminResponses,
+        '404': {
+          description: 'User not found',
+        },
+        '409': {
+          description: 'User already has a stylist profile',
+        },
+      },
+    },
+  },
+  '/api/v1/stylists/{id}': {
+    get: {
+      summary: 'Get stylist by ID',
+      description: 'Retrieve a stylist profile. Inactive stylists are only visible to admins.',
+      tags: ['Stylists'],
+      parameters: [stylistIdParameter],
+      responses: {
+        '200': stylistResponse('Stylist retrieved successfully'),
+        '404': {
+          description: 'Stylist not found',
+        },
+      },
+    },
+    put: {
+      summary: 'Update a stylist',
+      description: 'Update a stylist profile and the services they perform (admin only)',
+      tags: ['Stylists'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [stylistIdParameter],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: stylistBodyProperties,
+            },
+          },
+        },
+      },
+      responses: {
+        '200': stylistResponse('Stylist updated successfully'),
+        '400': {
+          description: 'Validation error or unknown service',
+        },
+        ...adminResponses,
+        '404': {
+          description: 'Stylist not found',
+        },
+      },
+    },
+  },
+  '/api/v1/stylists/{id}/schedule': {
+    get: {
+      summary: 'Get stylist schedule',
+      description: 'Retrieve the weekly working hours of a stylist',
+      tags: ['Stylists'],
+      parameters: [stylistIdParameter],
+      responses: {
+        '200': scheduleResponse('Schedule retrieved successfully'),
+        '404': {
+          description: 'Stylist not found',
+        },
+      },
+    },
+    put: {
+      summary: 'Set stylist schedule',
+      description:
+        'Replace the weekly working hours of a stylist (admin only). Weekdays without an interval are days off; only hours inside the opening hours can be booked.',
+      tags: ['Stylists'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [stylistIdParameter],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['schedule'],
+              properties: {
+                schedule: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    required: ['dayOfWeek', 'startTime', 'endTime'],
+                    properties: scheduleProperties,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '200': scheduleResponse('Schedule updated successfully'),
+        '400': {
+          description: 'Validation error or overlapping intervals',
+        },
+        ...adminResponses,
+        '404': {
+          description: 'Stylist not found',
+        },
+      },
+    },
+  },
+  '/api/v1/stylists/{id}/time-off': {
+    get: {
+      summary: 'List stylist time-off',
+      description:
+        'List the time-off of a stylist, optionally overlapping a date range (admin only)',
+      tags: ['Stylists'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [
+        stylistIdParameter,
+        { name: 'startDate', in: 'query', schema: { type: 'string', format: 'date' } },
+        { name: 'endDate', in: 'query', schema: { type: 'string', format: 'date' } },
+      ],
+      responses: {
+        '200': {
+          description: 'Time-off retrieved successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  data: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: timeOffProperties,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        ...adminResponses,
+        '404': {
+          description: 'Stylist not found',
+        },
+      },
+    },
+    post: {
+      summary: 'Add stylist time-off',
+      description: 'Mark a stylist as off for one or more days or part of a day (admin only)',
+      tags: ['Stylists'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [stylistIdParameter],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['startDate'],
+              properties: {
+                startDate: timeOffProperties.startDate,
+                endDate: timeOffProperties.endDate,
+                startTime: timeOffProperties.startTime,
+                endTime: timeOffProperties.endTime,
+                reason: timeOffProperties.reason,
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '201': {
+          description: 'Time-off created successfully',
+        },
+        '400': {
+          description: 'Validation error',
+        },
+        ...adminResponses,
+        '404': {
+          description: 'Stylist not found',
+        },
+      },
+    },
+  },
+  '/api/v1/stylists/{id}/time-off/{timeOffId}': {
+    delete: {
+      summary: 'Delete stylist time-off',
+      description: 'Delete a time-off entry of a stylist (admin only)',
+      tags: ['Stylists'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [
+        stylistIdParameter,
+        {
+          name: 'timeOffId',
+          in: 'path',
+          required: true,
+          schema: {
+            type: 'integer',
+          },
+          description: 'Time-off ID',
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'Time-off deleted successfully',
+        },
+        ...adminResponses,
+        '404': {
+          description: 'Time-off not found',
+        },
+      },
+    },
+  },
+};
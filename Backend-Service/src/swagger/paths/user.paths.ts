@@ -2,13 +2,63 @@ export const userPaths = {
   '/api/v1/users': {
     get: {
       summary: 'Get all users',
-      description: 'Retrieve a list of all users (admin only)',
+      description:
+        'Search, filter and sort users (admin only). The search matches email, first name, last name or the full name, case-insensitively.',
       tags: ['Users'],
       security: [
         {
           BearerAuth: [],
         },
       ],
+      parameters: [
+        { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+        { name: 'limit', in: 'query', schema: { type: 'integer', default: 10, maximum: 100 } },
+        {
+          name: 'search',
+          in: 'query',
+          schema: { type: 'string' },
+          description: 'Part of the email, first name, last name or full name',
+          example: 'doe',
+        },
+        {
+          name: 'role',
+          in: 'query',
+          schema: { type: 'string', enum: ['customer', 'staff', 'admin'] },
+        },
+        { name: 'isActive', in: 'query', schema: { type: 'boolean' } },
+        {
+          name: 'createdAtFrom',
+          in: 'query',
+          schema: { type: 'string', format: 'date' },
+          description: 'Only users created on or after this day (UTC)',
+        },
+        {
+          name: 'createdAtTo',
+          in: 'query',
+          schema: { type: 'string', format: 'date' },
+          description: 'Only users created on or before this day (UTC)',
+        },
+        {
+          name: 'sortBy',
+          in: 'query',
+          schema: {
+            type: 'string',
+            enum: ['createdAt', 'lastLoginAt', 'email', 'firstName', 'lastName', 'role'],
+            default: 'createdAt',
+          },
+        },
+        {
+          name: 'sortOrder',
+          in: 'query',
+          schema: { type: 'string', enum: ['ASC', 'DESC'], default: 'DESC' },
+        },
+        {
+          name: 'deleted',
+          in: 'query',
+          schema: { type: 'boolean' },
+          description: 'List soft-deleted users instead, e.g. to restore or purge them',
+        },
+      ],
       responses: {
         '200': {
           description: 'Users retrieved successfully',
@@ -21,6 +71,10 @@ export const userPaths = {
                     type: 'boolean',
                     example: true,
                   },
+                  message: {
+                    type: 'string',
+                    example: 'Users retrieved successfully',
+                  },
                   data: {
                     type: 'array',
                     items: {
@@ -46,6 +100,11 @@ export const userPaths = {
                           type: 'string',
                           example: '+1234567890',
                         },
+                        smsOptIn: {
+                          type: 'boolean',
+                          description: 'Receive SMS confirmations and appointment reminders',
+                          example: false,
+                        },
                         role: {
                           type: 'string',
                           example: 'customer',
@@ -57,11 +116,23 @@ export const userPaths = {
                       },
                     },
                   },
+                  pagination: {
+                    type: 'object',
+                    properties: {
+                      page: { type: 'integer', example: 1 },
+                      limit: { type: 'integer', example: 10 },
+                      totalPages: { type: 'integer', example: 5 },
+                      totalItems: { type: 'integer', example: 42 },
+                    },
+                  },
                 },
               },
             },
           },
         },
+        '400': {
+          description: 'Validation error or unknown sort column',
+        },
         '401': {
           description: 'Unauthorized',
         },
@@ -74,7 +145,8 @@ export const userPaths = {
   '/api/v1/users/{id}': {
     get: {
       summary: 'Get user by ID',
-      description: 'Retrieve a specific user by their ID',
+      description:
+        'Retrieve a specific user by their ID. The owner and users with the users:read:any permission get the full account; everyone else gets the public profile (id, firstName and lastName).',
       tags: ['Users'],
       security: [
         {
@@ -128,6 +200,11 @@ export const userPaths = {
                         type: 'string',
                         example: '+1234567890',
                       },
+                      smsOptIn: {
+                        type: 'boolean',
+                        description: 'Receive SMS confirmations and appointment reminders',
+                        example: false,
+                      },
                       role: {
                         type: 'string',
                         example: 'customer',
@@ -153,7 +230,8 @@ export const userPaths = {
     },
     delete: {
       summary: 'Delete user',
-      description: 'Delete a user by their ID (admin only)',
+      description:
+        'Soft delete a user by their ID and revoke their sessions (admin only). Bookings and payments keep referencing the user, who can be restored until purged.',
       tags: ['Users'],
       security: [
         {
@@ -234,6 +312,11 @@ export const userPaths = {
                   type: 'string',
                   example: '+1234567890',
                 },
+                smsOptIn: {
+                  type: 'boolean',
+                  description: 'Receive SMS confirmations and appointment reminders',
+                  example: false,
+                },
               },
             },
           },
@@ -278,6 +361,11 @@ export const userPaths = {
                         type: 'string',
                         example: '+1234567890',
                       },
+                      smsOptIn: {
+                        type: 'boolean',
+                        description: 'Receive SMS confirmations and appointment reminders',
+                        example: false,
+                      },
                     },
                   },
                 },
@@ -285,6 +373,9 @@ export const userPaths = {
             },
           },
         },
+        '400': {
+          description: 'Opting in to SMS requires a phone number',
+        },
         '401': {
           description: 'Unauthorized',
         },
@@ -450,4 +541,165 @@ export const userPaths = {
       },
     },
   },
+  '/api/v1/users/{id}/force-logout': {
+    post: {
+      summary: 'Force-logout user',
+      description: 'Revoke all sessions of a user so their tokens stop working (admin only)',
+      tags: ['Users'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: {
+            type: 'string',
+          },
+          description: 'User ID',
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'User logged out of all sessions',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'User logged out of all sessions',
+                  },
+                  data: {
+                    type: 'object',
+                    properties: {
+                      revoked: {
+                        type: 'integer',
+                        example: 3,
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '403': {
+          description: 'Forbidden - Admin access required',
+        },
+        '404': {
+          description: 'User not found',
+        },
+      },
+    },
+  },
+  '/api/v1/users/{id}/restore': {
+    post: {
+      summary: 'Restore user',
+      description: 'Restore a soft-deleted user that was not purged (admin only)',
+      tags: ['Users'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: {
+            type: 'string',
+          },
+          description: 'User ID',
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'User restored successfully',
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '403': {
+          description: 'Forbidden - Admin access required',
+        },
+        '404': {
+          description: 'User not found',
+        },
+        '409': {
+          description: 'User is not deleted or has been purged',
+        },
+      },
+    },
+  },
+  '/api/v1/users/{id}/purge': {
+    post: {
+      summary: 'Purge user',
+      description:
+        'Anonymise the personal data of a soft-deleted user (admin only). Name, contact details, credentials, login metadata and booking notes are removed; bookings, payments and refunds are kept for the financial records. This cannot be undone.',
+      tags: ['Users'],
+      security: [
+        {
+          BearerAuth: [],
+        },
+      ],
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: {
+            type: 'string',
+          },
+          description: 'User ID',
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'User personal data purged successfully',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: {
+                    type: 'boolean',
+                    example: true,
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'User personal data purged successfully',
+                  },
+                },
+              },
+            },
+          },
+        },
+        '401': {
+          description: 'Unauthorized',
+        },
+        '403': {
+          description: 'Forbidden - Admin access required',
+        },
+        '404': {
+          description: 'User not found',
+        },
+        '409': {
+          description: 'User is not deleted or has already been purged',
+        },
+      },
+    },
+  },
 };
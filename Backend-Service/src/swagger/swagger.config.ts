@@ -2,6 +2,15 @@ import config from '../config/environment';
 import { healthPaths } from './paths/health.paths';
 import { authPaths } from './paths/auth.paths';
 import { userPaths } from './paths/user.paths';
+import { servicePaths } from './paths/service.paths';
+import { categoryPaths } from './paths/category.paths';
+import { slotPaths } from './paths/slot.paths';
+import { stylistPaths } from './paths/stylist.paths';
+import { bookingPaths } from './paths/booking.paths';
+import { paymentPaths } from './paths/payment.paths';
+import { jobPaths } from './paths/job.paths';
+import { permissionPaths } from './paths/permission.paths';
+import { privacyPaths } from './paths/privacy.paths';
 
 export const swaggerSpec = {
   openapi: '3.0.0',
@@ -33,5 +42,14 @@ export const swaggerSpec = {
     ...healthPaths,
     ...authPaths,
     ...userPaths,
+    ...privacyPaths,
+    ...servicePaths,
+    ...categoryPaths,
+    ...slotPaths,
+    ...stylistPaths,
+    ...bookingPaths,
+    ...paymentPaths,
+    ...jobPaths,
+    ...permissionPaths,
   },
 };
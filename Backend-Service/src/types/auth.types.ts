@@ -0,0 +1,223 @@
+/**
+ * Authentication domain types
+ */
+
+/**
+ * Why a session (and its refresh tokens) was revoked
+ * reuse_detected: a rotated token was presented again, so its whole family was revoked
+ */
+export type SessionRevocationReason =
+  | 'logout'
+  | 'reuse_detected'
+  | 'revoked_by_user'
+  | 'admin_force_logout'
+  | 'password_reset'
+  | 'account_deleted';
+
+/**
+ * Client details recorded for a session
+ */
+export interface SessionContext {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+/**
+ * Session attributes (matches database schema)
+ * One session per login; its ID is the family ID of its refresh tokens
+ */
+export interface SessionAttributes {
+  id: string;
+  userId: number;
+  userAgent: string | null;
+  deviceName: string | null;
+  ipAddress: string | null;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason: SessionRevocationReason | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Session creation attributes (for Sequelize)
+ */
+export interface SessionCreationAttributes {
+  id?: string;
+  userId: number;
+  userAgent?: string | null;
+  deviceName?: string | null;
+  ipAddress?: string | null;
+  lastUsedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Session as listed to its owner
+ */
+export interface SessionResponse {
+  id: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  createdAt?: Date;
+  current: boolean;
+}
+
+/**
+ * Refresh token attributes (matches database schema)
+ * Only a SHA-256 hash of the token is stored; tokens of one login share a family ID
+ */
+export interface RefreshTokenAttributes {
+  id: number;
+  userId: number;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  rotatedAt: Date | null;
+  revokedAt: Date | null;
+  revokedReason: SessionRevocationReason | null;
+  createdAt?: Date;
+}
+
+/**
+ * Refresh token creation attributes (for Sequelize)
+ */
+export interface RefreshTokenCreationAttributes {
+  userId: number;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+/**
+ * State of a presented refresh token
+ * rotated: already exchanged for a new token, so presenting it again means it was stolen
+ */
+export type RefreshTokenState = 'active' | 'rotated' | 'revoked' | 'expired';
+
+/**
+ * Password reset token attributes (matches database schema)
+ * Only a SHA-256 hash of the emailed token is stored; a token can be used once
+ */
+export interface PasswordResetTokenAttributes {
+  id: number;
+  userId: number;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt?: Date;
+}
+
+/**
+ * Password reset token creation attributes (for Sequelize)
+ */
+export interface PasswordResetTokenCreationAttributes {
+  userId: number;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+/**
+ * Email verification token attributes (matches database schema)
+ * Only a SHA-256 hash of the emailed token is stored; a token can be used once
+ */
+export interface EmailVerificationTokenAttributes {
+  id: number;
+  userId: number;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt?: Date;
+}
+
+/**
+ * Email verification token creation attributes (for Sequelize)
+ */
+export interface EmailVerificationTokenCreationAttributes {
+  userId: number;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+/**
+ * Account lockout attributes (matches database schema)
+ * One row per lockout caused by repeated failed logins
+ */
+export interface AccountLockoutAttributes {
+  id: number;
+  userId: number;
+  failedAttempts: number;
+  lockedUntil: Date;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt?: Date;
+}
+
+/**
+ * Account lockout creation attributes (for Sequelize)
+ */
+export interface AccountLockoutCreationAttributes {
+  userId: number;
+  failedAttempts: number;
+  lockedUntil: Date;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+/**
+ * Lockout settings (config.auth)
+ */
+export interface LockoutPolicy {
+  maxFailedLogins: number;
+  lockoutDuration: number; // Minutes
+}
+
+/**
+ * Outcome of a failed login for the account's lockout state
+ */
+export interface FailedLoginOutcome {
+  failedLoginAttempts: number;
+  lockedUntil: Date | null;
+}
+
+/**
+ * Two-factor recovery code attributes (matches database schema)
+ * Only a SHA-256 hash of each code is stored; each code can be used once
+ */
+export interface TwoFactorRecoveryCodeAttributes {
+  id: number;
+  userId: number;
+  codeHash: string;
+  usedAt: Date | null;
+  createdAt?: Date;
+}
+
+/**
+ * Two-factor recovery code creation attributes (for Sequelize)
+ */
+export interface TwoFactorRecoveryCodeCreationAttributes {
+  userId: number;
+  codeHash: string;
+}
+
+/**
+ * Pending TOTP enrolment shown to the user once
+ * otpauthUri is what the client renders as a QR code
+ */
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * Second login step returned instead of tokens when the account uses 2FA
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number; // Seconds
+}
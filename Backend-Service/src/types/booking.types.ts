@@ -0,0 +1,127 @@
+import { BookingStatus, SoftDeletable, SortOrder } from './common.types';
+import { LateCancellationAction, ServiceAttributes } from './service.types';
+import { StylistProfile } from './stylist.types';
+import { UserAttributes, UserRole } from './user.types';
+
+/**
+ * Booking attributes interface (matches database schema)
+ * Date and times are copied from the booked slot (salon-local)
+ */
+export interface BookingAttributes extends SoftDeletable {
+  id: number;
+  userId: number;
+  serviceId: number;
+  slotId: number;
+  stylistId?: number | null; // Stylist chosen by the customer, copied from the slot
+  bookingDate: string; // YYYY-MM-DD
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  status: BookingStatus;
+  totalAmount: number; // In cents, service price at booking time
+  notes?: string | null;
+  cancellationReason?: string | null;
+  cancelledAt?: Date | null;
+  isLateCancellation: boolean;
+  depositForfeitPercent?: number | null; // Share of the deposit kept on a late cancellation
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Booking creation attributes (for Sequelize)
+ */
+export interface BookingCreationAttributes {
+  userId: number;
+  serviceId: number;
+  slotId: number;
+  stylistId?: number | null;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  status?: BookingStatus;
+  totalAmount: number;
+  notes?: string | null;
+}
+
+/**
+ * Effective cancellation policy of a booking (service override or global default)
+ */
+export interface CancellationPolicy {
+  windowHours: number;
+  lateAction: LateCancellationAction;
+  forfeitPercent: number;
+}
+
+/**
+ * Outcome of applying a cancellation policy at a point in time
+ */
+export interface CancellationAssessment {
+  policy: CancellationPolicy;
+  deadline: Date; // Last moment for a free cancellation
+  isLate: boolean;
+  allowed: boolean;
+  forfeitPercent: number;
+}
+
+/**
+ * Booking with its service and customer summaries (for API responses)
+ */
+export interface BookingDetails extends BookingAttributes {
+  service?: Pick<ServiceAttributes, 'id' | 'name' | 'duration' | 'price'>;
+  user?: Pick<UserAttributes, 'id' | 'email' | 'firstName' | 'lastName' | 'phone' | 'smsOptIn'>;
+  stylist?: Pick<StylistProfile, 'id' | 'user'> | null;
+}
+
+/**
+ * Booking query filters (for list endpoints)
+ */
+export interface BookingQueryFilters {
+  page?: number;
+  limit?: number;
+  userId?: number;
+  status?: BookingStatus;
+  serviceId?: number;
+  stylistId?: number;
+  startDate?: string;
+  endDate?: string;
+  sortOrder?: SortOrder;
+}
+
+/**
+ * Who changed a booking status: a user role, or the system for automated jobs
+ */
+export type BookingActorRole = UserRole | 'system';
+
+/**
+ * Booking status history attributes (one row per status transition)
+ * fromStatus is null for the initial status of a booking
+ */
+export interface BookingStatusHistoryAttributes {
+  id: number;
+  bookingId: number;
+  fromStatus?: BookingStatus | null;
+  toStatus: BookingStatus;
+  actorId?: number | null;
+  actorRole: BookingActorRole;
+  reason?: string | null;
+  createdAt?: Date;
+}
+
+/**
+ * Booking status history creation attributes (for Sequelize)
+ */
+export interface BookingStatusHistoryCreationAttributes {
+  bookingId: number;
+  fromStatus?: BookingStatus | null;
+  toStatus: BookingStatus;
+  actorId?: number | null;
+  actorRole: BookingActorRole;
+  reason?: string | null;
+}
+
+/**
+ * Status timeline entry with the acting user's summary (for API responses)
+ */
+export interface BookingTimelineEntry extends BookingStatusHistoryAttributes {
+  actor?: Pick<UserAttributes, 'id' | 'firstName' | 'lastName'> | null;
+}
@@ -0,0 +1,43 @@
+import { SoftDeletable } from './common.types';
+
+/**
+ * Category attributes interface (matches database schema)
+ */
+export interface CategoryAttributes extends SoftDeletable {
+  id: number;
+  name: string;
+  slug: string;
+  description?: string;
+  icon?: string;
+  parentId?: number | null;
+  displayOrder: number;
+  isActive: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Category creation attributes (for Sequelize)
+ */
+export interface CategoryCreationAttributes {
+  name: string;
+  slug: string;
+  description?: string;
+  icon?: string;
+  parentId?: number | null;
+  displayOrder?: number;
+  isActive?: boolean;
+}
+
+/**
+ * Category with its nested children (for the public tree endpoint)
+ */
+export interface CategoryTreeNode {
+  id: number;
+  name: string;
+  slug: string;
+  description?: string;
+  icon?: string;
+  displayOrder: number;
+  children: CategoryTreeNode[];
+}
@@ -45,7 +45,7 @@ export interface PaginatedResponse<T> {
 export interface JwtPayload {
   userId: number;
   email: string;
-  role: 'customer' | 'admin';
+  role: 'customer' | 'staff' | 'admin';
   iat?: number;
   exp?: number;
 }
@@ -1,13 +1,15 @@
 import { JWTPayload } from '../utils/jwt';
 
 /**
- * Extend Express Request to include user property
+ * Extend Express Request to include user and raw body properties
  */
 declare global {
   // eslint-disable-next-line @typescript-eslint/no-namespace
   namespace Express {
     interface Request {
       user?: JWTPayload;
+      // Unparsed JSON body, needed to verify webhook signatures
+      rawBody?: Buffer;
     }
   }
 }
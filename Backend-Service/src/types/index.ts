@@ -8,9 +8,14 @@ export * from './common.types';
 
 // Domain-specific types
 export * from './user.types';
-
-// Add more domain exports as you create them:
-// export * from './booking.types';
-// export * from './service.types';
-// export * from './slot.types';
-// export * from './payment.types';
+export * from './auth.types';
+export * from './service.types';
+export * from './category.types';
+export * from './slot.types';
+export * from './booking.types';
+export * from './payment.types';
+export * from './notification.types';
+export * from './job.types';
+export * from './stylist.types';
+export * from './permission.types';
+export * from './privacy.types';
@@ -0,0 +1,127 @@
+/**
+ * Background job domain types
+ */
+
+/**
+ * Job lifecycle state
+ * Failed attempts go back to pending with a delay; jobs out of attempts end up dead
+ */
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+/**
+ * Arbitrary JSON payload handed to a job handler
+ */
+export type JobPayload = Record<string, unknown>;
+
+/**
+ * Job attributes (matches the Postgres schema; the Redis store keeps the same shape)
+ */
+export interface JobAttributes {
+  id: string;
+  name: string;
+  payload: JobPayload;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedUntil: Date | null;
+  lastError: string | null;
+  uniqueKey: string | null;
+  completedAt: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Job creation attributes (for Sequelize)
+ */
+export interface JobCreationAttributes {
+  id?: string;
+  name: string;
+  payload?: JobPayload;
+  status?: JobStatus;
+  maxAttempts: number;
+  runAt: Date;
+  uniqueKey?: string | null;
+}
+
+/**
+ * Options when enqueuing a job
+ * A job whose uniqueKey is already queued is not enqueued again
+ */
+export interface EnqueueJobOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+  uniqueKey?: string;
+}
+
+/**
+ * Filters for listing jobs
+ */
+export interface JobQueryFilters {
+  page?: number;
+  limit?: number;
+  name?: string;
+  status?: JobStatus;
+}
+
+/**
+ * Function that runs a job; throwing schedules a retry
+ */
+export type JobHandler = (payload: JobPayload, job: JobAttributes) => Promise<void>;
+
+/**
+ * Job enqueued on a fixed interval
+ */
+export interface RecurringJob {
+  name: string;
+  intervalMs: number;
+}
+
+/**
+ * Pluggable persistent storage for the job queue
+ */
+export interface JobQueueStore {
+  /**
+   * Add a job to the queue
+   * Returns null when a job with the same uniqueKey already exists
+   */
+  enqueue(job: JobCreationAttributes): Promise<JobAttributes | null>;
+
+  /**
+   * Claim up to `limit` due jobs for `leaseMs` and count the attempt
+   * Running jobs whose lease expired (crashed worker) can be claimed again
+   */
+  claim(limit: number, leaseMs: number, now: Date): Promise<JobAttributes[]>;
+
+  /**
+   * Mark a claimed job as completed
+   */
+  complete(jobId: string, now: Date): Promise<void>;
+
+  /**
+   * Record a failed attempt; the job is retried at retryAt, or moved to dead when it is null
+   */
+  fail(jobId: string, error: string, retryAt: Date | null): Promise<void>;
+
+  /**
+   * Get a job by ID
+   */
+  find(jobId: string): Promise<JobAttributes | null>;
+
+  /**
+   * List jobs, most recently scheduled first
+   */
+  list(filters: JobQueryFilters): Promise<{ jobs: JobAttributes[]; total: number }>;
+
+  /**
+   * Move a dead job back to pending with a fresh set of attempts
+   * Returns null when the job is not dead
+   */
+  retry(jobId: string, now: Date): Promise<JobAttributes | null>;
+
+  /**
+   * Delete jobs completed before a date
+   */
+  purgeCompleted(before: Date): Promise<number>;
+}
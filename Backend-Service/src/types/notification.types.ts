@@ -0,0 +1,213 @@
+/**
+ * Supported email transports
+ * smtp delivers through config.email; file and memory keep messages local (development and tests)
+ */
+export type EmailTransportName = 'smtp' | 'file' | 'memory';
+
+/**
+ * Email ready to be delivered
+ */
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Pluggable email transport
+ */
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+
+  /**
+   * Deliver a message (throws when delivery fails)
+   */
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Subject and bodies produced by an email template
+ */
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Data for the registration welcome email
+ */
+export interface WelcomeEmailData {
+  firstName: string;
+}
+
+/**
+ * Data for the email address verification email
+ */
+export interface EmailVerificationEmailData {
+  firstName: string;
+  verificationUrl: string;
+  expiresInHours: number;
+}
+
+/**
+ * Data for the password reset email
+ */
+export interface PasswordResetEmailData {
+  firstName: string;
+  resetUrl: string;
+  expiresInMinutes: number;
+}
+
+/**
+ * Appointment details shared by booking emails
+ */
+export interface BookingEmailData {
+  firstName: string;
+  bookingId: number;
+  serviceName: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Data for the reschedule email
+ */
+export interface BookingRescheduledEmailData extends BookingEmailData {
+  previousDate: string;
+  previousStartTime: string;
+}
+
+/**
+ * Data for the cancellation email
+ */
+export interface BookingCancelledEmailData extends BookingEmailData {
+  reason: string | null;
+  depositForfeitPercent: number;
+}
+
+/**
+ * Data for the payment receipt email
+ * Amounts are in cents (currency subunits)
+ */
+export interface PaymentReceiptEmailData {
+  firstName: string;
+  bookingId: number;
+  serviceName: string;
+  paymentId: number;
+  amount: number;
+  currency: string;
+  paidAt: Date;
+}
+
+/**
+ * Data expected by each email template
+ */
+export interface EmailTemplateData {
+  welcome: WelcomeEmailData;
+  emailVerification: EmailVerificationEmailData;
+  passwordReset: PasswordResetEmailData;
+  bookingConfirmation: BookingEmailData;
+  bookingRescheduled: BookingRescheduledEmailData;
+  bookingCancelled: BookingCancelledEmailData;
+  paymentReceipt: PaymentReceiptEmailData;
+}
+
+/**
+ * Available email templates
+ */
+export type EmailTemplateName = keyof EmailTemplateData;
+
+/**
+ * Supported SMS providers
+ */
+export type SmsProviderName = 'twilio' | 'fake';
+
+/**
+ * Text message ready to be delivered
+ * to is the recipient's phone number in E.164 format
+ */
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+/**
+ * Result of handing a text message to the provider
+ */
+export interface SmsDelivery {
+  providerMessageId: string;
+}
+
+/**
+ * Pluggable SMS provider
+ */
+export interface SmsProvider {
+  readonly name: SmsProviderName;
+
+  /**
+   * Deliver a text message (throws when delivery fails)
+   */
+  send(message: SmsMessage): Promise<SmsDelivery>;
+}
+
+/**
+ * Channel a reminder was sent through
+ */
+export type ReminderChannel = 'sms';
+
+/**
+ * Booking reminder attributes (matches database schema)
+ * One row per reminder sent, so every offset is only sent once
+ */
+export interface BookingReminderAttributes {
+  id: number;
+  bookingId: number;
+  channel: ReminderChannel;
+  offsetHours: number;
+  providerMessageId: string | null;
+  createdAt?: Date;
+}
+
+/**
+ * Booking reminder creation attributes (for Sequelize)
+ */
+export interface BookingReminderCreationAttributes {
+  bookingId: number;
+  channel?: ReminderChannel;
+  offsetHours: number;
+  providerMessageId?: string | null;
+}
+
+/**
+ * Channel a notification was sent through
+ */
+export type NotificationChannel = 'email' | 'sms';
+
+/**
+ * Notification log attributes (matches database schema)
+ * One row per email or text delivered to a user, exported with their personal data
+ */
+export interface NotificationLogAttributes {
+  id: number;
+  userId: number;
+  bookingId: number | null;
+  channel: NotificationChannel;
+  template: string; // Email template name or SMS label
+  recipient: string | null; // Email address or phone number, cleared when the user is purged
+  createdAt?: Date;
+}
+
+/**
+ * Notification log creation attributes (for Sequelize)
+ */
+export interface NotificationLogCreationAttributes {
+  userId: number;
+  bookingId?: number | null;
+  channel: NotificationChannel;
+  template: string;
+  recipient: string | null;
+}
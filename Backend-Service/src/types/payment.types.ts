@@ -0,0 +1,255 @@
+import { PaymentStatus, SoftDeletable } from './common.types';
+
+/**
+ * Supported payment providers
+ */
+export type PaymentProviderName = 'stripe' | 'razorpay' | 'fake';
+
+/**
+ * Payment attributes interface (matches database schema)
+ * Amounts are stored in cents (currency subunits)
+ */
+export interface PaymentAttributes extends SoftDeletable {
+  id: number;
+  bookingId: number;
+  userId: number;
+  provider: PaymentProviderName;
+  providerPaymentId: string; // Stripe PaymentIntent ID, Razorpay order ID, ...
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  failureReason?: string | null;
+  paidAt?: Date | null;
+  refundedAmount: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Payment creation attributes (for Sequelize)
+ */
+export interface PaymentCreationAttributes {
+  bookingId: number;
+  userId: number;
+  provider: PaymentProviderName;
+  providerPaymentId: string;
+  amount: number;
+  currency: string;
+  status?: PaymentStatus;
+  refundedAmount?: number;
+}
+
+/**
+ * Refund status
+ */
+export type RefundStatus = 'pending' | 'completed' | 'failed';
+
+/**
+ * Refund attributes interface (matches database schema)
+ * initiatedBy is null for automatic refunds on cancellation
+ */
+export interface RefundAttributes {
+  id: number;
+  paymentId: number;
+  bookingId: number;
+  providerRefundId: string | null;
+  amount: number;
+  currency: string;
+  status: RefundStatus;
+  reason: string;
+  failureReason: string | null;
+  initiatedBy: number | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Refund creation attributes (for Sequelize)
+ */
+export interface RefundCreationAttributes {
+  paymentId: number;
+  bookingId: number;
+  amount: number;
+  currency: string;
+  reason: string;
+  initiatedBy: number | null;
+  status?: RefundStatus;
+}
+
+/**
+ * Payment with its refunds (booking payment history)
+ */
+export interface PaymentDetails extends PaymentAttributes {
+  refunds: RefundAttributes[];
+}
+
+/**
+ * Parameters for creating a payment intent with a provider
+ */
+export interface CreatePaymentIntentParams {
+  amount: number;
+  currency: string;
+  description: string;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Payment intent returned by a provider
+ * clientSecret is what the client SDK needs to complete the payment
+ */
+export interface ProviderPaymentIntent {
+  providerPaymentId: string;
+  clientSecret: string | null;
+  status: PaymentStatus;
+}
+
+/**
+ * Current state of a payment at the provider
+ */
+export interface ProviderPaymentStatus {
+  status: PaymentStatus;
+  failureReason?: string;
+}
+
+/**
+ * Parameters for refunding (part of) a payment with a provider
+ */
+export interface RefundPaymentParams {
+  providerPaymentId: string;
+  amount: number;
+  currency: string;
+  reason: string;
+}
+
+/**
+ * Refund returned by a provider
+ */
+export interface ProviderRefund {
+  providerRefundId: string;
+  status: RefundStatus;
+  failureReason?: string;
+}
+
+/**
+ * Incoming HTTP headers of a webhook request
+ */
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+/**
+ * Webhook event verified and normalised by a provider
+ * outcome is null for events that do not settle a payment, refund for events that do not
+ * report the status of a refund
+ */
+export interface ProviderWebhookEvent {
+  eventId: string;
+  type: string;
+  providerPaymentId: string | null;
+  outcome: ProviderPaymentStatus | null;
+  refund: ProviderRefund | null;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Processing state of a stored webhook event
+ */
+export type WebhookEventStatus = 'processed' | 'ignored' | 'failed';
+
+/**
+ * Stored webhook event attributes (matches database schema)
+ * Kept for idempotency and to replay events while debugging reconciliation
+ */
+export interface PaymentWebhookEventAttributes {
+  id: number;
+  provider: PaymentProviderName;
+  eventId: string;
+  type: string;
+  providerPaymentId: string | null;
+  paymentStatus: PaymentStatus | null;
+  failureReason: string | null;
+  providerRefundId: string | null;
+  refundStatus: RefundStatus | null;
+  payload: Record<string, unknown>;
+  status: WebhookEventStatus;
+  error: string | null;
+  attempts: number;
+  processedAt: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Stored webhook event creation attributes (for Sequelize)
+ */
+export interface PaymentWebhookEventCreationAttributes {
+  provider: PaymentProviderName;
+  eventId: string;
+  type: string;
+  providerPaymentId: string | null;
+  paymentStatus: PaymentStatus | null;
+  failureReason: string | null;
+  providerRefundId: string | null;
+  refundStatus: RefundStatus | null;
+  payload: Record<string, unknown>;
+  status?: WebhookEventStatus;
+}
+
+/**
+ * Result of receiving a webhook
+ */
+export interface WebhookReceipt {
+  eventId: string;
+  duplicate: boolean;
+  status: WebhookEventStatus;
+}
+
+/**
+ * Filters for listing stored webhook events
+ */
+export interface WebhookEventQueryFilters {
+  page?: number;
+  limit?: number;
+  provider?: PaymentProviderName;
+  status?: WebhookEventStatus;
+}
+
+/**
+ * Pluggable payment provider
+ */
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+
+  /**
+   * Create a payment intent (Stripe) or order (Razorpay) for an amount
+   */
+  createPaymentIntent(params: CreatePaymentIntentParams): Promise<ProviderPaymentIntent>;
+
+  /**
+   * Fetch the current status of a payment
+   */
+  getPaymentStatus(providerPaymentId: string): Promise<ProviderPaymentStatus>;
+
+  /**
+   * Fetch a payment intent again, e.g. to hand out the client secret of an unpaid deposit
+   */
+  getPaymentIntent(providerPaymentId: string): Promise<ProviderPaymentIntent>;
+
+  /**
+   * Refund an amount of a completed payment
+   */
+  refundPayment(params: RefundPaymentParams): Promise<ProviderRefund>;
+
+  /**
+   * Verify the signature of a webhook request against its raw body and parse the event
+   * Throws BadRequestError when the signature is missing or invalid
+   */
+  constructWebhookEvent(rawBody: Buffer, headers: WebhookHeaders): ProviderWebhookEvent;
+}
+
+/**
+ * Deposit intent returned to the client
+ */
+export interface DepositIntent {
+  payment: PaymentAttributes;
+  clientSecret: string | null;
+  publishableKey?: string;
+}
@@ -0,0 +1,63 @@
+import { UserRole } from './user.types';
+
+/**
+ * Named permission ("resource:action" with an optional scope)
+ * ":any" grants access to resources owned by other users, ":all" includes inactive records
+ */
+export type Permission =
+  | 'bookings:read:any'
+  | 'bookings:write:any'
+  | 'services:write'
+  | 'categories:read:all'
+  | 'categories:write'
+  | 'opening-hours:write'
+  | 'closures:read'
+  | 'closures:write'
+  | 'stylists:write'
+  | 'stylists:time-off:read'
+  | 'payments:read:any'
+  | 'payments:refund'
+  | 'payments:webhooks:read'
+  | 'payments:webhooks:replay'
+  | 'jobs:read'
+  | 'jobs:retry'
+  | 'users:read:any'
+  | 'users:activate'
+  | 'users:force-logout'
+  | 'users:delete'
+  | 'users:restore'
+  | 'users:purge'
+  | 'permissions:read'
+  | 'permissions:write';
+
+/**
+ * Role permission attributes (one row per permission granted to a role)
+ */
+export interface RolePermissionAttributes {
+  id: number;
+  role: UserRole;
+  permission: Permission;
+  createdAt?: Date;
+}
+
+/**
+ * Role permission creation attributes (for Sequelize)
+ */
+export interface RolePermissionCreationAttributes {
+  role: UserRole;
+  permission: Permission;
+}
+
+/**
+ * Permissions granted to each role
+ */
+export type RolePermissionMap = Record<UserRole, Permission[]>;
+
+/**
+ * User acting on a resource (for permission and ownership checks)
+ */
+export interface PermissionActor {
+  userId: number;
+  role: UserRole;
+  twoFactor?: boolean; // The login passed a second factor (TOTP or recovery code)
+}
@@ -0,0 +1,67 @@
+import { BookingAttributes, BookingStatusHistoryAttributes } from './booking.types';
+import { PaymentAttributes, RefundAttributes } from './payment.types';
+import { NotificationLogAttributes } from './notification.types';
+import { UserAttributes } from './user.types';
+
+/**
+ * Personal data export formats
+ */
+export type DataExportFormat = 'json' | 'zip';
+
+/**
+ * Erasure request status
+ * pending until the grace period ends, then completed; users can cancel while pending
+ */
+export type ErasureRequestStatus = 'pending' | 'cancelled' | 'completed';
+
+/**
+ * Data erasure request attributes (matches database schema)
+ * Requests are kept permanently as the record that the erasure was asked for and carried out
+ */
+export interface DataErasureRequestAttributes {
+  id: number;
+  userId: number;
+  status: ErasureRequestStatus;
+  requestedAt: Date;
+  scheduledFor: Date; // End of the grace period; personal data is anonymised after this
+  cancelledAt: Date | null;
+  completedAt: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Data erasure request creation attributes (for Sequelize)
+ */
+export interface DataErasureRequestCreationAttributes {
+  userId: number;
+  status?: ErasureRequestStatus;
+  requestedAt: Date;
+  scheduledFor: Date;
+}
+
+/**
+ * Everything stored about a user, as returned by the personal data export
+ */
+export interface UserDataExport {
+  exportedAt: Date;
+  profile: Omit<UserAttributes, 'password'>;
+  bookings: Array<
+    BookingAttributes & {
+      service?: { id: number; name: string };
+      statusHistory?: BookingStatusHistoryAttributes[];
+    }
+  >;
+  payments: Array<PaymentAttributes & { refunds?: RefundAttributes[] }>;
+  notifications: NotificationLogAttributes[];
+  sessions: Array<{
+    id: string;
+    deviceName: string | null;
+    userAgent: string | null;
+    ipAddress: string | null;
+    lastUsedAt: Date;
+    createdAt?: Date;
+    revokedAt: Date | null;
+  }>;
+  erasureRequests: DataErasureRequestAttributes[];
+}
@@ -0,0 +1,63 @@
+import { ServiceStatus, SoftDeletable } from './common.types';
+
+/**
+ * What happens to a customer cancellation inside the cancellation window
+ * reject: the cancellation is refused; forfeit: it goes through and part of the deposit is kept
+ */
+export type LateCancellationAction = 'reject' | 'forfeit';
+
+/**
+ * Service attributes interface (matches database schema)
+ * Prices are stored in cents
+ */
+export interface ServiceAttributes extends SoftDeletable {
+  id: number;
+  name: string;
+  description: string;
+  price: number;
+  duration: number; // in minutes
+  category: string;
+  imageUrl?: string;
+  isPopular: boolean;
+  discount?: number; // percentage
+  status: ServiceStatus;
+  // Cancellation policy overrides; null falls back to the global booking config
+  cancellationWindowHours?: number | null;
+  lateCancellationAction?: LateCancellationAction | null;
+  lateCancellationForfeitPercent?: number | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Service creation attributes (for Sequelize)
+ * Optional fields that are auto-generated or defaulted
+ */
+export interface ServiceCreationAttributes {
+  name: string;
+  description: string;
+  price: number;
+  duration: number;
+  category: string;
+  imageUrl?: string;
+  isPopular?: boolean;
+  discount?: number;
+  status?: ServiceStatus;
+  cancellationWindowHours?: number | null;
+  lateCancellationAction?: LateCancellationAction | null;
+  lateCancellationForfeitPercent?: number | null;
+}
+
+/**
+ * Service query filters (for list/search endpoints)
+ */
+export interface ServiceQueryFilters {
+  page?: number;
+  limit?: number;
+  category?: string;
+  status?: ServiceStatus;
+  isPopular?: boolean;
+  search?: string; // Search by name
+  sortBy?: 'name' | 'price' | 'duration' | 'createdAt';
+  sortOrder?: 'ASC' | 'DESC';
+}
@@ -0,0 +1,147 @@
+/**
+ * Weekday number (0 = Sunday, 6 = Saturday)
+ */
+export type DayOfWeek = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Opening hours attributes (one row per open interval of a weekday)
+ */
+export interface OpeningHoursAttributes {
+  id: number;
+  dayOfWeek: DayOfWeek;
+  openTime: string; // HH:mm
+  closeTime: string; // HH:mm
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Opening hours creation attributes (for Sequelize)
+ */
+export interface OpeningHoursCreationAttributes {
+  dayOfWeek: DayOfWeek;
+  openTime: string;
+  closeTime: string;
+}
+
+/**
+ * Salon closure attributes (one-off closure spanning one or more days)
+ * When startTime/endTime are empty the salon is closed for the whole day
+ */
+export interface SalonClosureAttributes {
+  id: number;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  startTime?: string | null; // HH:mm
+  endTime?: string | null; // HH:mm
+  reason?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Salon closure creation attributes (for Sequelize)
+ */
+export interface SalonClosureCreationAttributes {
+  startDate: string;
+  endDate: string;
+  startTime?: string | null;
+  endTime?: string | null;
+  reason?: string;
+}
+
+/**
+ * Slot attributes (a bookable window for a service on a date)
+ * Slots are materialized by the availability engine so they can be referenced by ID
+ */
+export interface SlotAttributes {
+  id: number;
+  serviceId: number;
+  stylistId: number | null; // Set when the slot is offered with a specific stylist
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Slot creation attributes (for Sequelize)
+ */
+export interface SlotCreationAttributes {
+  serviceId: number;
+  stylistId?: number | null;
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * A free slot returned by the availability endpoint
+ */
+export interface AvailableSlot {
+  id: number;
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Free slots for a single date
+ */
+export interface DayAvailability {
+  date: string;
+  slots: AvailableSlot[];
+}
+
+/**
+ * Availability response for a service over a date range
+ */
+export interface ServiceAvailability {
+  serviceId: number;
+  stylistId: number | null;
+  startDate: string;
+  endDate: string;
+  days: DayAvailability[];
+}
+
+/**
+ * Temporary hold on a slot while its owner completes checkout
+ */
+export interface SlotLock {
+  slotId: number;
+  ownerId: number;
+  expiresAt: Date;
+}
+
+/**
+ * Pluggable storage for slot locks
+ * Locks must expire on their own once the TTL has elapsed
+ */
+export interface SlotLockStore {
+  /**
+   * Hold a slot for an owner; re-acquiring an own lock extends it
+   * Returns null when another owner holds the slot
+   */
+  acquire(slotId: number, ownerId: number, ttlMs: number): Promise<SlotLock | null>;
+
+  /**
+   * Release a slot if it is held by the given owner
+   */
+  release(slotId: number, ownerId: number): Promise<boolean>;
+
+  /**
+   * Get the active lock of a slot
+   */
+  get(slotId: number): Promise<SlotLock | null>;
+
+  /**
+   * Get the active locks among the given slots
+   */
+  getMany(slotIds: number[]): Promise<SlotLock[]>;
+
+  /**
+   * Drop expired locks that the store does not expire on its own
+   * Returns the number of locks removed
+   */
+  purgeExpired(): Promise<number>;
+}
@@ -0,0 +1,112 @@
+import { SoftDeletable } from './common.types';
+import { DayOfWeek } from './slot.types';
+import { ServiceAttributes } from './service.types';
+import { UserAttributes } from './user.types';
+
+/**
+ * Stylist attributes (profile of a staff member who performs services)
+ */
+export interface StylistAttributes extends SoftDeletable {
+  id: number;
+  userId: number;
+  bio?: string | null;
+  photoUrl?: string | null;
+  isActive: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Stylist creation attributes (for Sequelize)
+ */
+export interface StylistCreationAttributes {
+  userId: number;
+  bio?: string | null;
+  photoUrl?: string | null;
+  isActive?: boolean;
+}
+
+/**
+ * Stylist service attributes (a service a stylist can perform)
+ */
+export interface StylistServiceLinkAttributes {
+  stylistId: number;
+  serviceId: number;
+  createdAt?: Date;
+}
+
+/**
+ * Stylist service creation attributes (for Sequelize)
+ */
+export interface StylistServiceLinkCreationAttributes {
+  stylistId: number;
+  serviceId: number;
+}
+
+/**
+ * Stylist schedule attributes (one row per working interval of a weekday)
+ * Working hours only count where they fall inside the salon's opening hours
+ */
+export interface StylistScheduleAttributes {
+  id: number;
+  stylistId: number;
+  dayOfWeek: DayOfWeek;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Stylist schedule creation attributes (for Sequelize)
+ */
+export interface StylistScheduleCreationAttributes {
+  stylistId: number;
+  dayOfWeek: DayOfWeek;
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Stylist time-off attributes (leave spanning one or more days)
+ * When startTime/endTime are empty the stylist is off for the whole day
+ */
+export interface StylistTimeOffAttributes {
+  id: number;
+  stylistId: number;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  startTime?: string | null; // HH:mm
+  endTime?: string | null; // HH:mm
+  reason?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Stylist time-off creation attributes (for Sequelize)
+ */
+export interface StylistTimeOffCreationAttributes {
+  stylistId: number;
+  startDate: string;
+  endDate: string;
+  startTime?: string | null;
+  endTime?: string | null;
+  reason?: string;
+}
+
+/**
+ * Stylist with their name and services (for API responses)
+ */
+export interface StylistProfile extends StylistAttributes {
+  user?: Pick<UserAttributes, 'id' | 'firstName' | 'lastName'>;
+  services?: Array<Pick<ServiceAttributes, 'id' | 'name' | 'duration'>>;
+}
+
+/**
+ * Stylist query filters (for list endpoints)
+ */
+export interface StylistQueryFilters {
+  serviceId?: number;
+  includeInactive?: boolean;
+}
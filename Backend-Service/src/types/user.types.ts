@@ -1,22 +1,32 @@
+import { SoftDeletable } from './common.types';
+
 /**
  * User role type
  */
-export type UserRole = 'customer' | 'admin';
+export type UserRole = 'customer' | 'staff' | 'admin';
 
 /**
  * User attributes interface (matches database schema)
  * This is the complete model representation
  */
-export interface UserAttributes {
+export interface UserAttributes extends SoftDeletable {
   id: number;
   email: string;
   password: string;
   firstName: string;
   lastName: string;
-  phone?: string;
+  phone?: string | null;
+  smsOptIn: boolean; // Consent to SMS confirmations and reminders
   role: UserRole;
   isActive: boolean;
+  emailVerifiedAt: Date | null;
+  failedLoginAttempts: number; // Consecutive failed logins since the last success or lockout
+  lockedUntil: Date | null;
+  twoFactorSecret?: string | null; // Encrypted TOTP secret, never included in responses
+  twoFactorEnabledAt: Date | null;
+  twoFactorLastUsedStep?: number | null; // Last accepted TOTP step, so a code cannot be replayed
   lastLoginAt?: Date;
+  purgedAt?: Date | null; // Personal data was anonymised; the account can no longer be restored
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -31,8 +41,15 @@ export interface UserCreationAttributes {
   firstName: string;
   lastName: string;
   phone?: string;
+  smsOptIn?: boolean;
   role?: UserRole;
   isActive?: boolean;
+  emailVerifiedAt?: Date | null;
+  failedLoginAttempts?: number;
+  lockedUntil?: Date | null;
+  twoFactorSecret?: string | null;
+  twoFactorEnabledAt?: Date | null;
+  twoFactorLastUsedStep?: number | null;
   lastLoginAt?: Date;
 }
 
@@ -46,8 +63,10 @@ export interface UserResponse {
   firstName: string;
   lastName: string;
   phone?: string;
+  smsOptIn: boolean;
   role: UserRole;
   isActive: boolean;
+  emailVerifiedAt: Date | null;
   lastLoginAt?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -117,16 +136,25 @@ export interface ChangePasswordDTO {
   newPassword: string;
 }
 
+/**
+ * Columns the user list can be sorted by
+ */
+export type UserSortField =
+  'createdAt' | 'lastLoginAt' | 'email' | 'firstName' | 'lastName' | 'role';
+
 /**
  * User query filters (for list/search endpoints)
  */
 export interface UserQueryFilters {
   role?: UserRole;
   isActive?: boolean;
+  deleted?: boolean; // List soft-deleted users instead
   search?: string; // Search by email, first name, or last name
+  createdAtFrom?: string; // YYYY-MM-DD, inclusive
+  createdAtTo?: string; // YYYY-MM-DD, inclusive
   page?: number;
   limit?: number;
-  sortBy?: keyof UserAttributes;
+  sortBy?: UserSortField;
   sortOrder?: 'ASC' | 'DESC';
 }
 
@@ -138,6 +166,7 @@ export interface UserStatistics {
   activeUsers: number;
   inactiveUsers: number;
   customerCount: number;
+  staffCount: number;
   adminCount: number;
   recentSignups: number; // Last 7 days
 }
@@ -0,0 +1,187 @@
+/**
+ * Pure helpers for the slot availability engine
+ * Times are salon-local "HH:mm" strings and dates are "YYYY-MM-DD" strings
+ */
+
+/**
+ * Half-open time interval in minutes since midnight: [start, end)
+ */
+export interface MinuteInterval {
+  start: number;
+  end: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Convert "HH:mm" (or "HH:mm:ss" as returned by Postgres TIME) to minutes since midnight
+ */
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Convert minutes since midnight to "HH:mm"
+ */
+export const minutesToTime = (totalMinutes: number): string => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+/**
+ * Parse a "YYYY-MM-DD" string as a UTC midnight timestamp
+ */
+const parseDate = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+/**
+ * Format a UTC timestamp as "YYYY-MM-DD"
+ */
+const formatDate = (timestamp: number): string => {
+  return new Date(timestamp).toISOString().slice(0, 10);
+};
+
+/**
+ * Day of week for a date string (0 = Sunday, 6 = Saturday)
+ */
+export const getDayOfWeek = (date: string): number => {
+  return new Date(parseDate(date)).getUTCDay();
+};
+
+/**
+ * Add a number of days to a date string
+ */
+export const addDays = (date: string, days: number): string => {
+  return formatDate(parseDate(date) + days * MS_PER_DAY);
+};
+
+/**
+ * Number of days between two date strings (end - start)
+ */
+export const daysBetween = (startDate: string, endDate: string): number => {
+  return Math.round((parseDate(endDate) - parseDate(startDate)) / MS_PER_DAY);
+};
+
+/**
+ * List every date from startDate to endDate inclusive
+ */
+export const listDates = (startDate: string, endDate: string): string[] => {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+/**
+ * Local calendar date and minutes since midnight for a Date (defaults to now)
+ */
+export const toLocalDateTime = (value: Date = new Date()): { date: string; minutes: number } => {
+  const date = [
+    value.getFullYear(),
+    String(value.getMonth() + 1).padStart(2, '0'),
+    String(value.getDate()).padStart(2, '0'),
+  ].join('-');
+
+  return { date, minutes: value.getHours() * 60 + value.getMinutes() };
+};
+
+/**
+ * Build a Date from a salon-local date and "HH:mm" time
+ */
+export const fromLocalDateTime = (date: string, time: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+};
+
+/**
+ * Check whether two intervals overlap
+ */
+export const overlaps = (a: MinuteInterval, b: MinuteInterval): boolean => {
+  return a.start < b.end && b.start < a.end;
+};
+
+/**
+ * Generate candidate slots inside opening intervals
+ * A slot starts every `stepMinutes` and must fit entirely before closing time
+ */
+export const generateCandidateSlots = (
+  openIntervals: MinuteInterval[],
+  durationMinutes: number,
+  stepMinutes: number
+): MinuteInterval[] => {
+  const slots: MinuteInterval[] = [];
+
+  [...openIntervals]
+    .sort((a, b) => a.start - b.start)
+    .forEach((interval) => {
+      for (
+        let start = interval.start;
+        start + durationMinutes <= interval.end;
+        start += stepMinutes
+      ) {
+        slots.push({ start, end: start + durationMinutes });
+      }
+    });
+
+  return slots;
+};
+
+/**
+ * Remove every candidate that overlaps a busy interval
+ */
+export const excludeBusy = (
+  candidates: MinuteInterval[],
+  busy: MinuteInterval[]
+): MinuteInterval[] => {
+  return candidates.filter((candidate) => !busy.some((interval) => overlaps(candidate, interval)));
+};
+
+/**
+ * Combine slot lists (e.g. the free slots of several stylists), keeping each slot once
+ */
+export const unionSlots = (lists: MinuteInterval[][]): MinuteInterval[] => {
+  const byStart = new Map<number, MinuteInterval>();
+
+  lists.forEach((slots) => {
+    slots.forEach((slot) => byStart.set(slot.start, slot));
+  });
+
+  return Array.from(byStart.values()).sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Parts of `intervals` that also fall inside `limits` (e.g. working hours within opening hours)
+ */
+export const intersectIntervals = (
+  intervals: MinuteInterval[],
+  limits: MinuteInterval[]
+): MinuteInterval[] => {
+  const result: MinuteInterval[] = [];
+
+  intervals.forEach((interval) => {
+    limits.forEach((limit) => {
+      const start = Math.max(interval.start, limit.start);
+      const end = Math.min(interval.end, limit.end);
+
+      if (start < end) {
+        result.push({ start, end });
+      }
+    });
+  });
+
+  return result.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Check whether any two intervals of a list overlap
+ */
+export const hasOverlappingIntervals = (intervals: MinuteInterval[]): boolean => {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  return sorted.some((interval, i) => i > 0 && interval.start < sorted[i - 1].end);
+};
@@ -0,0 +1,29 @@
+import { BookingStatus } from '../types';
+import { ConflictError } from './errors';
+
+/**
+ * Allowed booking status transitions
+ * Cancelled and completed are final states
+ */
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['completed', 'cancelled'],
+  cancelled: [],
+  completed: [],
+};
+
+/**
+ * Check whether a booking may move from one status to another
+ */
+export const canTransitionBookingStatus = (from: BookingStatus, to: BookingStatus): boolean => {
+  return BOOKING_STATUS_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Throw a ConflictError when a status transition is not allowed
+ */
+export const assertBookingStatusTransition = (from: BookingStatus, to: BookingStatus): void => {
+  if (!canTransitionBookingStatus(from, to)) {
+    throw new ConflictError(`Cannot change booking status from ${from} to ${to}`);
+  }
+};
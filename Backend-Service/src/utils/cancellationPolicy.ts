@@ -0,0 +1,51 @@
+import { CancellationAssessment, CancellationPolicy, ServiceAttributes } from '../types';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Resolve the effective cancellation policy of a service
+ * Each service setting left empty falls back to the global default
+ */
+export const resolveCancellationPolicy = (
+  service: Pick<
+    ServiceAttributes,
+    'cancellationWindowHours' | 'lateCancellationAction' | 'lateCancellationForfeitPercent'
+  >,
+  defaults: CancellationPolicy
+): CancellationPolicy => {
+  return {
+    windowHours: service.cancellationWindowHours ?? defaults.windowHours,
+    lateAction: service.lateCancellationAction ?? defaults.lateAction,
+    forfeitPercent: service.lateCancellationForfeitPercent ?? defaults.forfeitPercent,
+  };
+};
+
+/**
+ * Apply a cancellation policy to an appointment
+ * Cancelling on or after the deadline is late: it is either rejected or forfeits part of the deposit
+ */
+export const assessCancellation = (
+  policy: CancellationPolicy,
+  appointmentStart: Date,
+  now: Date = new Date()
+): CancellationAssessment => {
+  const deadline = new Date(appointmentStart.getTime() - policy.windowHours * MS_PER_HOUR);
+  const isLate = now.getTime() >= deadline.getTime();
+
+  return {
+    policy,
+    deadline,
+    isLate,
+    allowed: !isLate || policy.lateAction === 'forfeit',
+    forfeitPercent: isLate && policy.lateAction === 'forfeit' ? policy.forfeitPercent : 0,
+  };
+};
+
+/**
+ * Share of a deposit refunded after a cancellation that forfeits forfeitPercent of it
+ * Rounded down to whole cents so the refund never exceeds what was paid
+ */
+export const calculateDepositRefund = (depositAmount: number, forfeitPercent: number): number => {
+  const keptPercent = Math.min(Math.max(forfeitPercent, 0), 100);
+  return Math.floor((depositAmount * (100 - keptPercent)) / 100);
+};
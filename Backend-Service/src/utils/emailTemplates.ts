@@ -0,0 +1,126 @@
+import { BookingEmailData, EmailTemplateData, EmailTemplateName, RenderedEmail } from '../types';
+
+/**
+ * Plain-text email templates rendered to a text body and a matching HTML body
+ * Each template returns a subject and its paragraphs; the layout is shared
+ */
+
+const SALON_NAME = 'Salon Booking';
+
+interface TemplateContent {
+  subject: string;
+  paragraphs: string[];
+}
+
+/**
+ * Escape text for use inside HTML
+ */
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * Format an amount in cents, e.g. 4050 USD -> "$40.50"
+ */
+export const formatMoney = (amount: number, currency: string): string => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount / 100);
+};
+
+/**
+ * Describe an appointment, e.g. "Classic Haircut on 2026-11-02 from 09:00 to 09:45"
+ */
+const describeAppointment = (data: BookingEmailData): string => {
+  return `${data.serviceName} on ${data.bookingDate} from ${data.startTime.slice(0, 5)} to ${data.endTime.slice(0, 5)}`;
+};
+
+const templates: {
+  [T in EmailTemplateName]: (data: EmailTemplateData[T]) => TemplateContent;
+} = {
+  welcome: () => ({
+    subject: `Welcome to ${SALON_NAME}`,
+    paragraphs: [
+      'Thanks for creating an account.',
+      'You can now browse our services and book your next appointment online.',
+    ],
+  }),
+
+  emailVerification: (data) => ({
+    subject: 'Confirm your email address',
+    paragraphs: [
+      `Please confirm your email address to start booking appointments: ${data.verificationUrl}`,
+      `This link expires in ${data.expiresInHours} hours. If you did not create an account, you can ignore this email.`,
+    ],
+  }),
+
+  passwordReset: (data) => ({
+    subject: `Reset your ${SALON_NAME} password`,
+    paragraphs: [
+      'We received a request to reset the password of your account.',
+      `Choose a new password here: ${data.resetUrl}`,
+      `This link expires in ${data.expiresInMinutes} minutes and can only be used once. If you did not ask to reset your password, you can ignore this email.`,
+    ],
+  }),
+
+  bookingConfirmation: (data) => ({
+    subject: `Booking #${data.bookingId} confirmed`,
+    paragraphs: [
+      `Your booking for ${describeAppointment(data)} is confirmed.`,
+      'If your plans change, please cancel as early as possible from your bookings page.',
+    ],
+  }),
+
+  bookingRescheduled: (data) => ({
+    subject: `Booking #${data.bookingId} rescheduled`,
+    paragraphs: [
+      `Your appointment on ${data.previousDate} at ${data.previousStartTime.slice(0, 5)} has been moved.`,
+      `New time: ${describeAppointment(data)}.`,
+    ],
+  }),
+
+  bookingCancelled: (data) => ({
+    subject: `Booking #${data.bookingId} cancelled`,
+    paragraphs: [
+      `Your booking for ${describeAppointment(data)} has been cancelled.`,
+      ...(data.reason ? [`Reason: ${data.reason}`] : []),
+      data.depositForfeitPercent > 0
+        ? `As this was a late cancellation, ${data.depositForfeitPercent}% of your deposit is kept. Any remaining deposit is refunded to your original payment method.`
+        : 'Any deposit you paid is refunded to your original payment method.',
+    ],
+  }),
+
+  paymentReceipt: (data) => ({
+    subject: `Receipt for booking #${data.bookingId}`,
+    paragraphs: [
+      `We received your payment of ${formatMoney(data.amount, data.currency)} for ${data.serviceName} (booking #${data.bookingId}).`,
+      `Payment reference: #${data.paymentId}, paid on ${data.paidAt.toISOString().slice(0, 10)}.`,
+    ],
+  }),
+};
+
+/**
+ * Render an email template with its data
+ */
+export const renderEmailTemplate = <T extends EmailTemplateName>(
+  template: T,
+  data: EmailTemplateData[T] & { firstName: string }
+): RenderedEmail => {
+  const content = templates[template](data);
+  const greeting = `Hi ${data.firstName},`;
+  const signature = `The ${SALON_NAME} team`;
+
+  const text = [greeting, ...content.paragraphs, signature].join('\n\n');
+  const html = [greeting, ...content.paragraphs, signature]
+    .map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`)
+    .join('\n');
+
+  return {
+    subject: content.subject,
+    text,
+    html: `<!DOCTYPE html>\n<html>\n<body>\n${html}\n</body>\n</html>`,
+  };
+};
@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+
+/**
+ * Symmetric encryption for secrets that must be read back (e.g. TOTP secrets)
+ * AES-256-GCM with a key derived from a configured passphrase; output is "iv.tag.ciphertext" in base64
+ */
+
+const deriveKey = (passphrase: string): Buffer => {
+  return crypto.createHash('sha256').update(passphrase).digest();
+};
+
+/**
+ * Encrypt a value with a passphrase
+ */
+export const encryptSecret = (value: string, passphrase: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase), iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join('.');
+};
+
+/**
+ * Decrypt a value produced by encryptSecret; throws when it was tampered with or the key is wrong
+ */
+export const decryptSecret = (payload: string, passphrase: string): string => {
+  const [iv, tag, ciphertext] = payload.split('.').map((part) => Buffer.from(part, 'base64'));
+
+  if (!iv || !tag || !ciphertext) {
+    throw new Error('Malformed encrypted value');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(passphrase), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
@@ -74,6 +74,15 @@ export class BadRequestError extends AppError {
   }
 }
 
+/**
+ * Too many requests error (429)
+ */
+export class TooManyRequestsError extends AppError {
+  constructor(message = 'Too many requests, please try again later') {
+    super(message, 429, 'TOO_MANY_REQUESTS');
+  }
+}
+
 /**
  * Internal server error (500)
  */
@@ -0,0 +1,24 @@
+/**
+ * General-purpose helper functions
+ */
+
+/**
+ * Convert a display name into a URL-friendly slug
+ * Example: "Hair & Beauty" -> "hair-beauty"
+ */
+export const slugify = (value: string): string => {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+/**
+ * Build a LIKE/ILIKE pattern that matches the value anywhere in a column
+ * %, _ and the backslash escape character in the value are matched literally
+ */
+export const containsPattern = (value: string): string => {
+  return `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+};
@@ -0,0 +1,44 @@
+/**
+ * Pure helpers for the background job queue
+ */
+
+/**
+ * Delay before retrying a job after its nth failed attempt (1-based)
+ * Doubles with every attempt and never exceeds maxDelayMs
+ */
+export const computeRetryDelayMs = (
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number
+): number => {
+  const exponent = Math.max(attempt - 1, 0);
+  return Math.min(baseDelayMs * 2 ** exponent, maxDelayMs);
+};
+
+/**
+ * Scheduled run of a recurring job for the interval containing `now`
+ * Every process computes the same unique key, so the run is only enqueued once
+ */
+export const getRecurringRun = (
+  name: string,
+  intervalMs: number,
+  now: Date
+): { runAt: Date; uniqueKey: string } => {
+  const period = Math.floor(now.getTime() / intervalMs);
+
+  return {
+    runAt: new Date(period * intervalMs),
+    uniqueKey: `${name}:${period}`,
+  };
+};
+
+/**
+ * Short error description stored on a failed job
+ */
+export const describeJobError = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.message || error.name;
+  }
+
+  return String(error);
+};
@@ -1,4 +1,5 @@
 import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
 import config from '../config/environment';
 import { UnauthorizedError } from './errors';
 
@@ -8,7 +9,16 @@ import { UnauthorizedError } from './errors';
 export interface JWTPayload {
   userId: number;
   email: string;
-  role: 'customer' | 'admin';
+  role: 'customer' | 'staff' | 'admin';
+  sessionId?: string; // Refresh token family of the login that issued the token
+  twoFactor?: boolean; // The login passed a second factor (TOTP or recovery code)
+}
+
+/**
+ * Payload of the short-lived token issued between the password and the 2FA step of a login
+ */
+export interface ChallengeTokenPayload {
+  userId: number;
 }
 
 /**
@@ -51,10 +61,12 @@ export class JWTUtil {
 
   /**
    * Generate refresh token
+   * Every token gets a unique ID so two tokens issued in the same second never collide
    */
   generateRefreshToken(payload: JWTPayload): string {
     return jwt.sign(payload, this.refreshSecret, {
       expiresIn: this.refreshExpiresIn,
+      jwtid: uuidv4(),
     } as jwt.SignOptions);
   }
 
@@ -104,6 +116,37 @@ export class JWTUtil {
     }
   }
 
+  /**
+   * Generate a two-factor login challenge token
+   * Signed with a key derived from the access token secret, so it is never accepted as an access token
+   */
+  generateChallengeToken(payload: ChallengeTokenPayload, expiresInSeconds: number): string {
+    return jwt.sign({ userId: payload.userId }, this.getChallengeSecret(), {
+      expiresIn: expiresInSeconds,
+      jwtid: uuidv4(),
+    });
+  }
+
+  /**
+   * Verify a two-factor login challenge token
+   */
+  verifyChallengeToken(token: string): ChallengeTokenPayload {
+    try {
+      const decoded = jwt.verify(token, this.getChallengeSecret()) as jwt.JwtPayload;
+      return { userId: decoded.userId };
+    } catch {
+      throw new UnauthorizedError('Invalid or expired challenge token');
+    }
+  }
+
+  /**
+   * Expiry date of a token, read without verification
+   */
+  getTokenExpiry(token: string): Date | null {
+    const decoded = jwt.decode(token) as jwt.JwtPayload | null;
+    return decoded?.exp ? new Date(decoded.exp * 1000) : null;
+  }
+
   /**
    * Decode token without verification (useful for debugging)
    */
@@ -114,6 +157,10 @@ export class JWTUtil {
       return null;
     }
   }
+
+  private getChallengeSecret(): string {
+    return `${this.jwtSecret}:two-factor-challenge`;
+  }
 }
 
 // Export singleton instance for convenience
@@ -0,0 +1,36 @@
+import { FailedLoginOutcome, LockoutPolicy } from '../types';
+
+/**
+ * Minutes until a locked account unlocks (0 when it is not locked)
+ */
+export const getLockoutRemainingMinutes = (
+  lockedUntil: Date | null,
+  now: Date = new Date()
+): number => {
+  if (!lockedUntil || lockedUntil <= now) {
+    return 0;
+  }
+
+  return Math.ceil((lockedUntil.getTime() - now.getTime()) / (60 * 1000));
+};
+
+/**
+ * Count a failed login and lock the account once the limit is reached
+ * The counter restarts after a lockout, so each lockout takes the full number of failures
+ */
+export const evaluateFailedLogin = (
+  failedLoginAttempts: number,
+  policy: LockoutPolicy,
+  now: Date = new Date()
+): FailedLoginOutcome => {
+  const attempts = failedLoginAttempts + 1;
+
+  if (attempts < policy.maxFailedLogins) {
+    return { failedLoginAttempts: attempts, lockedUntil: null };
+  }
+
+  return {
+    failedLoginAttempts: 0,
+    lockedUntil: new Date(now.getTime() + policy.lockoutDuration * 60 * 1000),
+  };
+};
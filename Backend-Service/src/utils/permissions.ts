@@ -0,0 +1,63 @@
+import { Permission, PermissionActor, RolePermissionMap, UserRole } from '../types';
+
+/**
+ * Every permission the API checks
+ */
+export const PERMISSIONS: readonly Permission[] = [
+  'bookings:read:any',
+  'bookings:write:any',
+  'services:write',
+  'categories:read:all',
+  'categories:write',
+  'opening-hours:write',
+  'closures:read',
+  'closures:write',
+  'stylists:write',
+  'stylists:time-off:read',
+  'payments:read:any',
+  'payments:refund',
+  'payments:webhooks:read',
+  'payments:webhooks:replay',
+  'jobs:read',
+  'jobs:retry',
+  'users:read:any',
+  'users:activate',
+  'users:force-logout',
+  'users:delete',
+  'users:restore',
+  'users:purge',
+  'permissions:read',
+  'permissions:write',
+];
+
+/**
+ * Roles in the order they are listed to admins
+ */
+export const ROLES: readonly UserRole[] = ['customer', 'staff', 'admin'];
+
+/**
+ * Permission an admin can never lose, so the role table stays editable
+ */
+export const PERMISSIONS_ADMIN_PERMISSION: Permission = 'permissions:write';
+
+/**
+ * Role permissions seeded by the migration, also used while the role table is empty
+ * Customers act on their own resources only, which needs no permission
+ */
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissionMap = {
+  customer: [],
+  staff: ['bookings:read:any', 'closures:read', 'stylists:time-off:read'],
+  admin: [...PERMISSIONS],
+};
+
+/**
+ * Ownership policy: users may act on their own resources, others need the permission
+ */
+export const isOwnerOrPermitted = (
+  actor: PermissionActor,
+  ownerId: number,
+  granted: readonly Permission[],
+  permission: Permission
+): boolean => {
+  return actor.userId === ownerId || granted.includes(permission);
+};
@@ -0,0 +1,67 @@
+import { generateToken } from './tokens';
+import { createZip } from './zip';
+import { UserAttributes, UserDataExport } from '../types';
+
+// Reserved top-level domain (RFC 2606), so anonymised addresses can never receive mail
+const ANONYMISED_EMAIL_DOMAIN = 'deleted.invalid';
+
+/**
+ * Personal data of a user replaced on purge
+ */
+export type AnonymisedUserFields = Pick<
+  UserAttributes,
+  | 'email'
+  | 'password'
+  | 'firstName'
+  | 'lastName'
+  | 'phone'
+  | 'smsOptIn'
+  | 'isActive'
+  | 'emailVerifiedAt'
+  | 'twoFactorSecret'
+  | 'twoFactorEnabledAt'
+  | 'twoFactorLastUsedStep'
+  | 'lockedUntil'
+>;
+
+/**
+ * Replacement values for the personal data of a purged user
+ * The email stays unique per user and frees the original address for a new account;
+ * the random password is never revealed, so nobody can log in again
+ */
+export const anonymisedUserFields = (userId: number): AnonymisedUserFields => ({
+  email: `deleted-user-${userId}@${ANONYMISED_EMAIL_DOMAIN}`,
+  password: generateToken(),
+  firstName: 'Deleted',
+  lastName: 'User',
+  phone: null,
+  smsOptIn: false,
+  isActive: false,
+  emailVerifiedAt: null,
+  twoFactorSecret: null,
+  twoFactorEnabledAt: null,
+  twoFactorLastUsedStep: null,
+  lockedUntil: null,
+});
+
+/**
+ * End of the grace period of an erasure request
+ */
+export const getErasureScheduledFor = (requestedAt: Date, gracePeriodDays: number): Date => {
+  return new Date(requestedAt.getTime() + gracePeriodDays * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Bundle a personal data export as a ZIP archive with one JSON file per section
+ */
+export const buildDataExportArchive = (data: UserDataExport): Buffer => {
+  const { exportedAt, ...sections } = data;
+
+  return createZip(
+    Object.entries(sections).map(([section, content]) => ({
+      name: `${section}.json`,
+      data: JSON.stringify(content, null, 2),
+    })),
+    exportedAt
+  );
+};
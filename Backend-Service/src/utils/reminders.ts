@@ -0,0 +1,28 @@
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Pick the reminder offset (hours before the appointment) that is due now, or null
+ * Only the closest due offset counts, so a sweep that runs late never sends several reminders at once
+ */
+export const selectDueReminderOffset = (
+  offsetsHours: number[],
+  appointmentStart: Date,
+  sentOffsetsHours: number[],
+  now: Date = new Date()
+): number | null => {
+  if (now.getTime() >= appointmentStart.getTime()) {
+    return null;
+  }
+
+  const due = offsetsHours.filter(
+    (offset) => now.getTime() >= appointmentStart.getTime() - offset * MS_PER_HOUR
+  );
+
+  if (due.length === 0) {
+    return null;
+  }
+
+  const closest = Math.min(...due);
+
+  return sentOffsetsHours.includes(closest) ? null : closest;
+};
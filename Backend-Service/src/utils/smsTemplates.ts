@@ -0,0 +1,29 @@
+import { BookingEmailData } from '../types';
+
+/**
+ * Short SMS texts for booking notifications
+ * Kept under 160 characters for typical service names so they fit in one segment
+ */
+
+const SALON_NAME = 'Salon Booking';
+
+/**
+ * Describe an appointment, e.g. "Classic Haircut on 2026-11-02 at 09:00"
+ */
+const describeAppointment = (data: BookingEmailData): string => {
+  return `${data.serviceName} on ${data.bookingDate} at ${data.startTime.slice(0, 5)}`;
+};
+
+/**
+ * Text sent when a booking is confirmed
+ */
+export const bookingConfirmationSms = (data: BookingEmailData): string => {
+  return `${SALON_NAME}: your ${describeAppointment(data)} is confirmed (booking #${data.bookingId}).`;
+};
+
+/**
+ * Text sent offsetHours before an appointment
+ */
+export const bookingReminderSms = (data: BookingEmailData, offsetHours: number): string => {
+  return `${SALON_NAME} reminder: ${describeAppointment(data)}, in ${offsetHours}h (booking #${data.bookingId}).`;
+};
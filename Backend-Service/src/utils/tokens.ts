@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+import { RefreshTokenAttributes, RefreshTokenState } from '../types';
+
+/**
+ * Generate a random URL-safe token (hex) for emailed links
+ */
+export const generateToken = (bytes = 32): string => {
+  return crypto.randomBytes(bytes).toString('hex');
+};
+
+/**
+ * Hash a token for storage; only the hash is kept so a database leak does not expose tokens
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Classify a stored refresh token at a given time
+ * A revoked token stays revoked even after it expires, and rotation is checked before expiry
+ * so that replaying an old rotated token is always reported as reuse
+ */
+export const getRefreshTokenState = (
+  token: Pick<RefreshTokenAttributes, 'expiresAt' | 'rotatedAt' | 'revokedAt'>,
+  now: Date = new Date()
+): RefreshTokenState => {
+  if (token.revokedAt) {
+    return 'revoked';
+  }
+
+  if (token.rotatedAt) {
+    return 'rotated';
+  }
+
+  if (token.expiresAt <= now) {
+    return 'expired';
+  }
+
+  return 'active';
+};
@@ -0,0 +1,48 @@
+/**
+ * Lightweight User-Agent parsing for session device labels
+ * Only recognises common browsers and platforms; anything else is reported as unknown
+ */
+
+// Checked in order: Edge and Opera also announce Chrome, and Chrome also announces Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/PostmanRuntime\//, 'Postman'],
+  [/curl\//, 'curl'],
+];
+
+// Checked in order: Android and iOS user agents also mention Linux and Mac OS X
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+const match = (value: string, candidates: Array<[RegExp, string]>): string | null => {
+  const found = candidates.find(([pattern]) => pattern.test(value));
+  return found ? found[1] : null;
+};
+
+/**
+ * Short device label such as "Chrome on macOS" (null when there is no User-Agent)
+ */
+export const describeUserAgent = (userAgent?: string | null): string | null => {
+  if (!userAgent) {
+    return null;
+  }
+
+  const browser = match(userAgent, BROWSERS);
+  const platform = match(userAgent, PLATFORMS);
+
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+
+  return browser || platform || 'Unknown device';
+};
@@ -0,0 +1,58 @@
+import config from './config/environment';
+import { testConnection } from './config/database';
+import { closeRedisClient } from './config/redis';
+import { startJobs } from './jobs';
+import { JobService } from './services/job.service';
+import logger from './utils/logger';
+
+// Models (registers associations)
+import './models';
+
+/**
+ * Standalone background job worker
+ * Run alongside API processes started with JOBS_RUN_IN_PROCESS=false
+ */
+let jobService: JobService | null = null;
+
+const startWorker = async () => {
+  try {
+    // Jobs need the database, so the worker does not start without it
+    await testConnection();
+    logger.info('✅ Database connection established');
+
+    jobService = startJobs();
+    logger.info(`⚙️  Job worker running in ${config.nodeEnv} mode`);
+  } catch (error) {
+    logger.error('Failed to start job worker:', error);
+    process.exit(1);
+  }
+};
+
+// Handle unhandled promise rejections
+process.on('unhandledRejection', (reason: Error) => {
+  logger.error('Unhandled Promise Rejection:', reason);
+  process.exit(1);
+});
+
+// Handle uncaught exceptions
+process.on('uncaughtException', (error: Error) => {
+  logger.error('Uncaught Exception:', error);
+  process.exit(1);
+});
+
+// Graceful shutdown: let the job batch in progress finish first
+const shutdown = async (signal: string) => {
+  logger.info(`${signal} signal received: stopping job worker`);
+  if (jobService) {
+    await jobService.stop();
+  }
+  await closeRedisClient();
+  process.exit(0);
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+
+// Start the worker
+startWorker();
@@ -0,0 +1,379 @@
+import { AuthService } from '../../src/services/auth.service';
+import { NotificationService } from '../../src/services/notification.service';
+import { SessionService } from '../../src/services/session.service';
+import { TwoFactorService } from '../../src/services/twoFactor.service';
+import User from '../../src/models/User.model';
+import RefreshToken from '../../src/models/RefreshToken.model';
+import PasswordResetToken from '../../src/models/PasswordResetToken.model';
+import { JWTPayload, JWTUtil } from '../../src/utils/jwt';
+import { hashToken } from '../../src/utils/tokens';
+
+// Models need a database connection; these tests inject in-memory fakes instead
+jest.mock('../../src/models/User.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/RefreshToken.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/PasswordResetToken.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/EmailVerificationToken.model', () => ({
+  __esModule: true,
+  default: {},
+}));
+jest.mock('../../src/models/AccountLockout.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/services/notification.service', () => ({ notificationService: {} }));
+jest.mock('../../src/services/session.service', () => ({ sessionService: {} }));
+jest.mock('../../src/services/twoFactor.service', () => ({ twoFactorService: {} }));
+
+const jwtUtil = new JWTUtil('access-secret', '15m', 'refresh-secret', '7d');
+
+const account = { id: 7, email: 'jane@example.com', role: 'customer', isActive: true };
+
+interface StoredRefreshToken {
+  id: number;
+  userId: number;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  rotatedAt: Date | null;
+  revokedAt: Date | null;
+}
+
+/**
+ * In-memory refresh token table with the conditional update the rotation relies on
+ */
+const createRefreshTokenStore = () => {
+  const tokens: StoredRefreshToken[] = [];
+
+  const model = {
+    findOne: jest.fn(
+      async ({ where }: { where: { tokenHash: string } }) =>
+        tokens.find((token) => token.tokenHash === where.tokenHash) || null
+    ),
+    create: jest.fn(async (values: Omit<StoredRefreshToken, 'id' | 'rotatedAt' | 'revokedAt'>) => {
+      const token = { ...values, id: tokens.length + 1, rotatedAt: null, revokedAt: null };
+      tokens.push(token);
+      return token;
+    }),
+    update: jest.fn(
+      async (
+        values: Partial<StoredRefreshToken>,
+        { where }: { where: { id: number; rotatedAt: null; revokedAt: null } }
+      ) => {
+        const matching = tokens.filter(
+          (token) => token.id === where.id && !token.rotatedAt && !token.revokedAt
+        );
+        matching.forEach((token) => Object.assign(token, values));
+        return [matching.length];
+      }
+    ),
+  };
+
+  return { tokens, model };
+};
+
+const setup = (user: Record<string, unknown> | null = account) => {
+  const store = createRefreshTokenStore();
+  const userModel = { findByPk: jest.fn().mockResolvedValue(user) };
+  const sessionService = {
+    recordRefresh: jest.fn(),
+    // Revoking a session revokes every refresh token of its family
+    revokeSession: jest.fn(async (sessionId: string) => {
+      store.tokens
+        .filter((token) => token.familyId === sessionId)
+        .forEach((token) => Object.assign(token, { revokedAt: new Date() }));
+    }),
+  };
+
+  const service = new AuthService(
+    jwtUtil,
+    {} as NotificationService,
+    sessionService as unknown as SessionService,
+    {} as TwoFactorService,
+    userModel as unknown as typeof User,
+    store.model as unknown as typeof RefreshToken
+  );
+
+  /**
+   * Issue the first refresh token of a session, as a login does
+   */
+  const login = async (claims: Partial<JWTPayload> = {}): Promise<string> => {
+    const { refreshToken } = jwtUtil.generateTokens({
+      userId: account.id,
+      email: account.email,
+      role: 'customer',
+      sessionId: 'session-1',
+      ...claims,
+    });
+    await store.model.create({
+      userId: account.id,
+      familyId: 'session-1',
+      tokenHash: hashToken(refreshToken),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+    return refreshToken;
+  };
+
+  return { service, store, sessionService, login };
+};
+
+describe('AuthService.refreshToken', () => {
+  it('should rotate the refresh token within the same session', async () => {
+    const { service, store, sessionService, login } = setup();
+    const refreshToken = await login();
+
+    const tokens = await service.refreshToken(refreshToken, { ipAddress: '203.0.113.5' });
+
+    expect(tokens.refreshToken).not.toBe(refreshToken);
+    expect(store.tokens[0].rotatedAt).toBeInstanceOf(Date);
+    expect(store.tokens[1]).toMatchObject({
+      familyId: 'session-1',
+      tokenHash: hashToken(tokens.refreshToken),
+      rotatedAt: null,
+    });
+    expect(jwtUtil.verifyAccessToken(tokens.accessToken).sessionId).toBe('session-1');
+    expect(sessionService.recordRefresh).toHaveBeenCalledWith('session-1', expect.any(Date), {
+      ipAddress: '203.0.113.5',
+    });
+  });
+
+  it('should keep the second factor of the login', async () => {
+    const { service, login } = setup();
+    const refreshToken = await login({ twoFactor: true });
+
+    const tokens = await service.refreshToken(refreshToken);
+
+    expect(jwtUtil.verifyAccessToken(tokens.accessToken).twoFactor).toBe(true);
+  });
+
+  it('should revoke the whole session when a rotated token is used again', async () => {
+    const { service, store, sessionService, login } = setup();
+    const refreshToken = await login();
+    const rotated = await service.refreshToken(refreshToken);
+
+    await expect(service.refreshToken(refreshToken)).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Refresh token has already been used',
+    });
+    expect(sessionService.revokeSession).toHaveBeenCalledWith('session-1', 'reuse_detected');
+    expect(store.tokens.every((token) => token.revokedAt)).toBe(true);
+
+    // The token issued to whoever refreshed first stops working as well
+    await expect(service.refreshToken(rotated.refreshToken)).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Session has been revoked',
+    });
+  });
+
+  it('should treat the losing one of two concurrent refreshes as reuse', async () => {
+    const { service, store, sessionService, login } = setup();
+    const refreshToken = await login();
+    // The other refresh rotated the token between the read and the conditional update
+    store.model.update.mockResolvedValueOnce([0]);
+
+    await expect(service.refreshToken(refreshToken)).rejects.toMatchObject({ statusCode: 401 });
+    expect(sessionService.revokeSession).toHaveBeenCalledWith('session-1', 'reuse_detected');
+    expect(store.tokens).toHaveLength(1);
+  });
+
+  it('should reject refresh tokens that were never stored', async () => {
+    const { service } = setup();
+    const { refreshToken } = jwtUtil.generateTokens({
+      userId: account.id,
+      email: account.email,
+      role: 'customer',
+    });
+
+    await expect(service.refreshToken(refreshToken)).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Invalid refresh token',
+    });
+  });
+
+  it('should reject expired refresh tokens', async () => {
+    const { service, store, login } = setup();
+    const refreshToken = await login();
+    store.tokens[0].expiresAt = new Date(Date.now() - 1000);
+
+    await expect(service.refreshToken(refreshToken)).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Refresh token expired',
+    });
+  });
+
+  it('should end the session of deactivated users', async () => {
+    const { service, sessionService, login } = setup({ ...account, isActive: false });
+    const refreshToken = await login();
+
+    await expect(service.refreshToken(refreshToken)).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Account is deactivated',
+    });
+    expect(sessionService.revokeSession).toHaveBeenCalledWith('session-1', 'logout');
+  });
+});
+
+describe('AuthService password reset', () => {
+  interface StoredResetToken {
+    id: number;
+    userId: number;
+    tokenHash: string;
+    expiresAt: Date;
+    usedAt: Date | null;
+  }
+
+  interface FakeUser {
+    id: number;
+    email: string;
+    isActive: boolean;
+    password: string;
+    failedLoginAttempts: number;
+    lockedUntil: Date | null;
+    save: jest.Mock;
+  }
+
+  const createUser = (values: Partial<FakeUser> = {}): FakeUser => ({
+    ...account,
+    password: 'OldPassword1!',
+    failedLoginAttempts: 4,
+    lockedUntil: new Date(Date.now() + 60 * 1000),
+    ...values,
+    save: jest.fn(),
+  });
+
+  const setupReset = (user: FakeUser | null) => {
+    const resetTokens: StoredResetToken[] = [];
+    const passwordResetTokenModel = {
+      // The service asks for an unused, unexpired token with the hash
+      findOne: jest.fn(
+        async ({ where }: { where: { tokenHash: string } }) =>
+          resetTokens.find(
+            (token) =>
+              token.tokenHash === where.tokenHash && !token.usedAt && token.expiresAt > new Date()
+          ) || null
+      ),
+      update: jest.fn(
+        async (values: Partial<StoredResetToken>, { where }: { where: { id: number } }) => {
+          const matching = resetTokens.filter((token) => token.id === where.id && !token.usedAt);
+          matching.forEach((token) => Object.assign(token, values));
+          return [matching.length];
+        }
+      ),
+      destroy: jest.fn(),
+      create: jest.fn(async (values: Omit<StoredResetToken, 'id' | 'usedAt'>) => {
+        resetTokens.push({ ...values, id: resetTokens.length + 1, usedAt: null });
+      }),
+    };
+    const userModel = {
+      findByPk: jest.fn().mockResolvedValue(user),
+      findOne: jest.fn().mockResolvedValue(user),
+    };
+    const sessionService = { revokeAllSessions: jest.fn().mockResolvedValue(2) };
+    const notificationService = { sendPasswordReset: jest.fn() };
+
+    const service = new AuthService(
+      jwtUtil,
+      notificationService as unknown as NotificationService,
+      sessionService as unknown as SessionService,
+      {} as TwoFactorService,
+      userModel as unknown as typeof User,
+      undefined,
+      passwordResetTokenModel as unknown as typeof PasswordResetToken
+    );
+
+    /**
+     * Request a reset link and return the token it carries
+     */
+    const requestReset = async (): Promise<string> => {
+      await service.forgotPassword({ email: account.email });
+      const [, resetUrl] = notificationService.sendPasswordReset.mock.calls.at(-1);
+      return new URL(resetUrl).searchParams.get('token') as string;
+    };
+
+    return { service, resetTokens, passwordResetTokenModel, sessionService, requestReset };
+  };
+
+  it('should email a single-use link and only keep the latest one', async () => {
+    const { resetTokens, passwordResetTokenModel, requestReset } = setupReset(createUser());
+
+    const token = await requestReset();
+
+    expect(passwordResetTokenModel.destroy).toHaveBeenCalledWith({
+      where: { userId: 7, usedAt: null },
+    });
+    expect(resetTokens).toEqual([
+      expect.objectContaining({ userId: 7, tokenHash: hashToken(token) }),
+    ]);
+  });
+
+  it('should answer the same for unknown accounts without sending anything', async () => {
+    const { service, passwordResetTokenModel } = setupReset(null);
+
+    await expect(service.forgotPassword({ email: 'nobody@example.com' })).resolves.toEqual({
+      message: 'If an account exists for this email, a password reset link has been sent',
+    });
+    expect(passwordResetTokenModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should set the new password, lift the lockout and revoke every session', async () => {
+    const user = createUser();
+    const { service, resetTokens, sessionService, requestReset } = setupReset(user);
+    const token = await requestReset();
+
+    await service.resetPassword({ token, password: 'NewPassword1!' });
+
+    expect(user).toMatchObject({
+      password: 'NewPassword1!',
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+    });
+    expect(user.save).toHaveBeenCalled();
+    expect(resetTokens[0].usedAt).toBeInstanceOf(Date);
+    expect(sessionService.revokeAllSessions).toHaveBeenCalledWith(7, 'password_reset');
+  });
+
+  it('should only accept a reset token once', async () => {
+    const { service, sessionService, requestReset } = setupReset(createUser());
+    const token = await requestReset();
+
+    await service.resetPassword({ token, password: 'NewPassword1!' });
+
+    await expect(
+      service.resetPassword({ token, password: 'OtherPassword1!' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(sessionService.revokeAllSessions).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject the token that lost a concurrent reset', async () => {
+    const user = createUser();
+    const { service, passwordResetTokenModel, requestReset } = setupReset(user);
+    const token = await requestReset();
+    passwordResetTokenModel.update.mockResolvedValueOnce([0]);
+
+    await expect(service.resetPassword({ token, password: 'NewPassword1!' })).rejects.toMatchObject(
+      { statusCode: 400 }
+    );
+    expect(user.save).not.toHaveBeenCalled();
+  });
+
+  it('should reject expired and unknown tokens', async () => {
+    const { service, resetTokens, requestReset } = setupReset(createUser());
+    const token = await requestReset();
+    resetTokens[0].expiresAt = new Date(Date.now() - 1000);
+
+    await expect(service.resetPassword({ token, password: 'NewPassword1!' })).rejects.toMatchObject(
+      { statusCode: 400 }
+    );
+    await expect(
+      service.resetPassword({ token: 'unknown', password: 'NewPassword1!' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should not reset the password of deactivated accounts', async () => {
+    const user = createUser();
+    const { service, requestReset } = setupReset(user);
+    const token = await requestReset();
+    user.isActive = false;
+
+    await expect(service.resetPassword({ token, password: 'NewPassword1!' })).rejects.toMatchObject(
+      { statusCode: 400 }
+    );
+    expect(user.save).not.toHaveBeenCalled();
+  });
+});
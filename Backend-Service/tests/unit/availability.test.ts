@@ -0,0 +1,148 @@
+import {
+  addDays,
+  daysBetween,
+  excludeBusy,
+  fromLocalDateTime,
+  generateCandidateSlots,
+  getDayOfWeek,
+  hasOverlappingIntervals,
+  intersectIntervals,
+  listDates,
+  minutesToTime,
+  timeToMinutes,
+  toLocalDateTime,
+  unionSlots,
+} from '../../src/utils/availability';
+
+describe('Availability helpers', () => {
+  describe('time conversion', () => {
+    it('should convert between HH:mm and minutes', () => {
+      expect(timeToMinutes('09:30')).toBe(570);
+      expect(timeToMinutes('18:00:00')).toBe(1080);
+      expect(minutesToTime(570)).toBe('09:30');
+      expect(minutesToTime(0)).toBe('00:00');
+    });
+  });
+
+  describe('date helpers', () => {
+    it('should resolve the day of week', () => {
+      expect(getDayOfWeek('2026-11-01')).toBe(0);
+      expect(getDayOfWeek('2026-11-07')).toBe(6);
+    });
+
+    it('should list dates inclusively across month boundaries', () => {
+      expect(listDates('2026-10-30', '2026-11-02')).toEqual([
+        '2026-10-30',
+        '2026-10-31',
+        '2026-11-01',
+        '2026-11-02',
+      ]);
+    });
+
+    it('should add and count days', () => {
+      expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+      expect(daysBetween('2026-11-01', '2026-11-08')).toBe(7);
+    });
+
+    it('should split a local date time into date and minutes', () => {
+      expect(toLocalDateTime(new Date(2026, 10, 2, 9, 15))).toEqual({
+        date: '2026-11-02',
+        minutes: 555,
+      });
+      expect(toLocalDateTime().date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    });
+
+    it('should build a local Date from a date and time', () => {
+      expect(fromLocalDateTime('2026-11-02', '09:15')).toEqual(new Date(2026, 10, 2, 9, 15));
+    });
+  });
+
+  describe('generateCandidateSlots', () => {
+    it('should only generate slots that fit before closing time', () => {
+      const slots = generateCandidateSlots([{ start: 540, end: 660 }], 45, 30);
+
+      expect(slots.map((slot) => minutesToTime(slot.start))).toEqual(['09:00', '09:30', '10:00']);
+      expect(slots[2].end).toBe(645);
+    });
+
+    it('should handle split shifts', () => {
+      const slots = generateCandidateSlots(
+        [
+          { start: 840, end: 900 },
+          { start: 540, end: 600 },
+        ],
+        60,
+        30
+      );
+
+      expect(slots).toEqual([
+        { start: 540, end: 600 },
+        { start: 840, end: 900 },
+      ]);
+    });
+  });
+
+  describe('excludeBusy', () => {
+    it('should drop candidates overlapping busy intervals', () => {
+      const candidates = generateCandidateSlots([{ start: 540, end: 720 }], 60, 30);
+      const free = excludeBusy(candidates, [{ start: 600, end: 630 }]);
+
+      expect(free.map((slot) => minutesToTime(slot.start))).toEqual(['09:00', '10:30', '11:00']);
+    });
+  });
+
+  describe('intersectIntervals', () => {
+    it('should keep only the parts inside the limits', () => {
+      const working = [{ start: 480, end: 780 }];
+      const opening = [
+        { start: 540, end: 720 },
+        { start: 750, end: 1080 },
+      ];
+
+      expect(intersectIntervals(working, opening)).toEqual([
+        { start: 540, end: 720 },
+        { start: 750, end: 780 },
+      ]);
+      expect(intersectIntervals(working, [{ start: 780, end: 900 }])).toEqual([]);
+    });
+  });
+
+  describe('unionSlots', () => {
+    it('should keep each slot once, ordered by start', () => {
+      expect(
+        unionSlots([
+          [
+            { start: 600, end: 660 },
+            { start: 690, end: 750 },
+          ],
+          [
+            { start: 540, end: 600 },
+            { start: 600, end: 660 },
+          ],
+          [],
+        ])
+      ).toEqual([
+        { start: 540, end: 600 },
+        { start: 600, end: 660 },
+        { start: 690, end: 750 },
+      ]);
+    });
+  });
+
+  describe('hasOverlappingIntervals', () => {
+    it('should detect overlaps regardless of order', () => {
+      expect(
+        hasOverlappingIntervals([
+          { start: 780, end: 900 },
+          { start: 540, end: 720 },
+        ])
+      ).toBe(false);
+      expect(
+        hasOverlappingIntervals([
+          { start: 700, end: 800 },
+          { start: 540, end: 720 },
+        ])
+      ).toBe(true);
+    });
+  });
+});
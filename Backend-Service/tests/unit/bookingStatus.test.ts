@@ -0,0 +1,33 @@
+import {
+  BOOKING_STATUS_TRANSITIONS,
+  assertBookingStatusTransition,
+  canTransitionBookingStatus,
+} from '../../src/utils/bookingStatus';
+import { ConflictError } from '../../src/utils/errors';
+
+describe('Booking status transitions', () => {
+  it('should allow the normal booking lifecycle', () => {
+    expect(canTransitionBookingStatus('pending', 'confirmed')).toBe(true);
+    expect(canTransitionBookingStatus('confirmed', 'completed')).toBe(true);
+    expect(canTransitionBookingStatus('pending', 'cancelled')).toBe(true);
+    expect(canTransitionBookingStatus('confirmed', 'cancelled')).toBe(true);
+  });
+
+  it('should treat cancelled and completed as final', () => {
+    expect(BOOKING_STATUS_TRANSITIONS.cancelled).toEqual([]);
+    expect(BOOKING_STATUS_TRANSITIONS.completed).toEqual([]);
+    expect(canTransitionBookingStatus('completed', 'pending')).toBe(false);
+  });
+
+  it('should reject a pending booking being completed directly', () => {
+    expect(canTransitionBookingStatus('pending', 'completed')).toBe(false);
+  });
+
+  it('should throw a ConflictError for illegal transitions', () => {
+    expect(() => assertBookingStatusTransition('completed', 'pending')).toThrow(ConflictError);
+    expect(() => assertBookingStatusTransition('completed', 'pending')).toThrow(
+      'Cannot change booking status from completed to pending'
+    );
+    expect(() => assertBookingStatusTransition('pending', 'confirmed')).not.toThrow();
+  });
+});
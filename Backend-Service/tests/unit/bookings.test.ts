@@ -0,0 +1,281 @@
+import { BookingService } from '../../src/services/booking.service';
+import { SlotService } from '../../src/services/slot.service';
+import { RefundService } from '../../src/services/refund.service';
+import { NotificationService } from '../../src/services/notification.service';
+import { PermissionService } from '../../src/services/permission.service';
+import Booking from '../../src/models/Booking.model';
+import BookingStatusHistory from '../../src/models/BookingStatusHistory.model';
+import Service from '../../src/models/Service.model';
+import RolePermission from '../../src/models/RolePermission.model';
+import { BookingStatus } from '../../src/types';
+
+// Models need a database connection; these tests inject in-memory fakes instead
+jest.mock('../../src/config/database', () => ({
+  __esModule: true,
+  default: { transaction: jest.fn((callback) => callback('transaction')) },
+}));
+jest.mock('../../src/models/Booking.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/BookingStatusHistory.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Service.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Slot.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Stylist.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/User.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/RolePermission.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/services/slot.service', () => ({ slotService: {} }));
+jest.mock('../../src/services/refund.service', () => ({ refundService: {} }));
+jest.mock('../../src/services/notification.service', () => ({ notificationService: {} }));
+
+const admin = { userId: 1, role: 'admin' as const };
+const customer = { userId: 7, role: 'customer' as const };
+const staff = { userId: 2, role: 'staff' as const };
+
+interface FakeBooking {
+  id: number;
+  userId: number;
+  serviceId: number;
+  status: BookingStatus;
+  bookingDate: string;
+  startTime: string;
+  depositForfeitPercent: number | null;
+  reload: jest.Mock;
+  update: jest.Mock;
+  toJSON: () => Record<string, unknown>;
+}
+
+const createBooking = (status: BookingStatus, values: Partial<FakeBooking> = {}): FakeBooking => {
+  const booking: FakeBooking = {
+    id: 5,
+    userId: customer.userId,
+    serviceId: 1,
+    status,
+    bookingDate: '2099-01-01',
+    startTime: '10:00',
+    depositForfeitPercent: null,
+    ...values,
+    reload: jest.fn(),
+    update: jest.fn(async (changes: Partial<FakeBooking>) => Object.assign(booking, changes)),
+    toJSON: () => ({ id: booking.id, userId: booking.userId, status: booking.status }),
+  };
+  return booking;
+};
+
+const setup = (
+  bookings: FakeBooking[],
+  serviceValues: Record<string, unknown> = {},
+  requireAdminTwoFactor = false
+) => {
+  const bookingModel = {
+    findByPk: jest.fn(async (id: number) => bookings.find((booking) => booking.id === id) || null),
+    findAll: jest.fn().mockResolvedValue(bookings),
+  };
+  const historyModel = { create: jest.fn() };
+  const serviceModel = {
+    findByPk: jest.fn().mockResolvedValue({
+      id: 1,
+      cancellationWindowHours: 24,
+      lateCancellationAction: 'reject',
+      lateCancellationForfeitPercent: null,
+      ...serviceValues,
+    }),
+  };
+  const refundService = { refundCancelledBooking: jest.fn() };
+  const notificationService = {
+    sendBookingConfirmation: jest.fn(),
+    sendBookingCancellation: jest.fn(),
+  };
+
+  const service = new BookingService(
+    {} as SlotService,
+    refundService as unknown as RefundService,
+    notificationService as unknown as NotificationService,
+    // An empty role table falls back to the default role permissions
+    new PermissionService(
+      { findAll: jest.fn().mockResolvedValue([]) } as unknown as typeof RolePermission,
+      { requireAdminTwoFactor }
+    ),
+    bookingModel as unknown as typeof Booking,
+    serviceModel as unknown as typeof Service,
+    undefined,
+    undefined,
+    historyModel as unknown as typeof BookingStatusHistory
+  );
+
+  return { service, bookingModel, historyModel, refundService, notificationService };
+};
+
+describe('BookingService status changes', () => {
+  it('should confirm a pending booking and record the transition', async () => {
+    const booking = createBooking('pending');
+    const { service, historyModel, notificationService } = setup([booking]);
+
+    await service.updateBookingStatus(5, admin, { status: 'confirmed' });
+
+    expect(booking.status).toBe('confirmed');
+    expect(historyModel.create).toHaveBeenCalledWith(
+      {
+        bookingId: 5,
+        fromStatus: 'pending',
+        toStatus: 'confirmed',
+        actorId: 1,
+        actorRole: 'admin',
+        reason: null,
+      },
+      { transaction: 'transaction' }
+    );
+    expect(notificationService.sendBookingConfirmation).toHaveBeenCalled();
+  });
+
+  it('should reject transitions the state machine does not allow', async () => {
+    const booking = createBooking('completed');
+    const { service, historyModel } = setup([booking]);
+
+    await expect(
+      service.updateBookingStatus(5, admin, { status: 'confirmed' })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(booking.update).not.toHaveBeenCalled();
+    expect(historyModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should check the status again after locking the booking', async () => {
+    const booking = createBooking('pending');
+    // Another request cancelled the booking between the read and the row lock
+    booking.reload.mockImplementation(async () => Object.assign(booking, { status: 'cancelled' }));
+    const { service } = setup([booking]);
+
+    await expect(
+      service.updateBookingStatus(5, admin, { status: 'confirmed' })
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('should refund the deposit when an admin cancels', async () => {
+    const booking = createBooking('confirmed');
+    const { service, refundService, notificationService } = setup([booking]);
+
+    await service.updateBookingStatus(5, admin, { status: 'cancelled', reason: 'Stylist ill' });
+
+    expect(booking.status).toBe('cancelled');
+    expect(refundService.refundCancelledBooking).toHaveBeenCalledWith(5, 0, 'Booking #5 cancelled');
+    expect(notificationService.sendBookingCancellation).toHaveBeenCalled();
+  });
+
+  it('should record automated changes as the system', async () => {
+    const booking = createBooking('pending');
+    const { service, historyModel } = setup([booking]);
+
+    await service.transitionBooking(5, 'confirmed', null, 'Deposit paid');
+
+    expect(historyModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ actorId: null, actorRole: 'system', reason: 'Deposit paid' }),
+      { transaction: 'transaction' }
+    );
+  });
+});
+
+describe('BookingService cancellation', () => {
+  it('should let customers cancel their own bookings before the deadline', async () => {
+    const booking = createBooking('confirmed');
+    const { service, refundService } = setup([booking]);
+
+    await service.cancelBooking(5, customer, { reason: 'Cannot make it' });
+
+    expect(booking).toMatchObject({
+      status: 'cancelled',
+      cancellationReason: 'Cannot make it',
+      isLateCancellation: false,
+      depositForfeitPercent: 0,
+    });
+    expect(refundService.refundCancelledBooking).toHaveBeenCalledWith(5, 0, 'Booking #5 cancelled');
+  });
+
+  it('should reject late cancellations when the policy says so', async () => {
+    const booking = createBooking('confirmed', { bookingDate: '2020-01-01' });
+    const { service, refundService } = setup([booking]);
+
+    await expect(
+      service.cancelBooking(5, customer, { reason: 'Cannot make it' })
+    ).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    expect(refundService.refundCancelledBooking).not.toHaveBeenCalled();
+  });
+
+  it('should forfeit the deposit share on late cancellations when the policy allows it', async () => {
+    const booking = createBooking('confirmed', { bookingDate: '2020-01-01' });
+    const { service } = setup([booking], {
+      lateCancellationAction: 'forfeit',
+      lateCancellationForfeitPercent: 50,
+    });
+
+    await service.cancelBooking(5, customer, { reason: 'Cannot make it' });
+
+    expect(booking).toMatchObject({ isLateCancellation: true, depositForfeitPercent: 50 });
+  });
+
+  it('should not let customers cancel the bookings of others', async () => {
+    const booking = createBooking('confirmed', { userId: 8 });
+    const { service } = setup([booking]);
+
+    await expect(
+      service.cancelBooking(5, customer, { reason: 'Cannot make it' })
+    ).rejects.toMatchObject({
+      statusCode: 404,
+    });
+    expect(booking.update).not.toHaveBeenCalled();
+  });
+
+  it('should let staff see but not cancel the bookings of customers', async () => {
+    const booking = createBooking('confirmed');
+    const { service } = setup([booking]);
+
+    await expect(service.getBookingById(5, staff)).resolves.toMatchObject({ id: 5 });
+    await expect(
+      service.cancelBooking(5, staff, { reason: 'Cannot make it' })
+    ).rejects.toMatchObject({
+      statusCode: 404,
+    });
+    expect(booking.update).not.toHaveBeenCalled();
+  });
+
+  it('should let admins cancel late without forfeiting the deposit', async () => {
+    const booking = createBooking('confirmed', { bookingDate: '2020-01-01' });
+    const { service, refundService } = setup([booking]);
+
+    await service.cancelBooking(5, admin, { reason: 'Salon closed' });
+
+    expect(booking).toMatchObject({ status: 'cancelled', isLateCancellation: false });
+    expect(refundService.refundCancelledBooking).toHaveBeenCalledWith(5, 0, 'Booking #5 cancelled');
+  });
+
+  it('should not let admins without 2FA override the policy or cancel for others', async () => {
+    const own = createBooking('confirmed', { userId: admin.userId, bookingDate: '2020-01-01' });
+    const other = createBooking('confirmed', { id: 6 });
+    const { service, refundService } = setup([own, other], {}, true);
+
+    await expect(service.cancelBooking(5, admin, { reason: 'Salon closed' })).rejects.toMatchObject(
+      { statusCode: 409 }
+    );
+    await expect(service.cancelBooking(6, admin, { reason: 'Salon closed' })).rejects.toMatchObject(
+      { statusCode: 404 }
+    );
+    await expect(
+      service.cancelBooking(6, { ...admin, twoFactor: true }, { reason: 'Salon closed' })
+    ).resolves.toMatchObject({ id: 6 });
+    expect(own.update).not.toHaveBeenCalled();
+    expect(refundService.refundCancelledBooking).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('BookingService scheduled transitions', () => {
+  it('should complete past bookings and skip those that changed meanwhile', async () => {
+    const past = createBooking('confirmed', { id: 5 });
+    const changed = createBooking('confirmed', { id: 6 });
+    changed.reload.mockImplementation(async () => Object.assign(changed, { status: 'cancelled' }));
+    const { service } = setup([past, changed]);
+
+    const completed = await service.completePastBookings();
+
+    expect(completed).toBe(1);
+    expect(past.status).toBe('completed');
+    expect(changed.status).toBe('cancelled');
+  });
+});
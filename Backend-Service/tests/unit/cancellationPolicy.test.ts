@@ -0,0 +1,75 @@
+import {
+  assessCancellation,
+  calculateDepositRefund,
+  resolveCancellationPolicy,
+} from '../../src/utils/cancellationPolicy';
+import { CancellationPolicy } from '../../src/types';
+
+describe('Cancellation policy', () => {
+  const defaults: CancellationPolicy = {
+    windowHours: 24,
+    lateAction: 'forfeit',
+    forfeitPercent: 100,
+  };
+  const appointment = new Date(2026, 10, 10, 14, 0);
+
+  describe('resolveCancellationPolicy', () => {
+    it('should fall back to the global defaults', () => {
+      expect(resolveCancellationPolicy({}, defaults)).toEqual(defaults);
+    });
+
+    it('should apply per-service overrides field by field', () => {
+      const policy = resolveCancellationPolicy(
+        {
+          cancellationWindowHours: 48,
+          lateCancellationAction: null,
+          lateCancellationForfeitPercent: 0,
+        },
+        defaults
+      );
+
+      expect(policy).toEqual({ windowHours: 48, lateAction: 'forfeit', forfeitPercent: 0 });
+    });
+  });
+
+  describe('assessCancellation', () => {
+    it('should allow free cancellation before the deadline', () => {
+      const result = assessCancellation(defaults, appointment, new Date(2026, 10, 9, 13, 59));
+
+      expect(result.deadline).toEqual(new Date(2026, 10, 9, 14, 0));
+      expect(result).toMatchObject({ isLate: false, allowed: true, forfeitPercent: 0 });
+    });
+
+    it('should forfeit the deposit share for late cancellations', () => {
+      const policy = { ...defaults, forfeitPercent: 50 };
+      const result = assessCancellation(policy, appointment, new Date(2026, 10, 9, 14, 0));
+
+      expect(result).toMatchObject({ isLate: true, allowed: true, forfeitPercent: 50 });
+    });
+
+    it('should reject late cancellations when the policy says so', () => {
+      const policy: CancellationPolicy = { ...defaults, lateAction: 'reject' };
+      const result = assessCancellation(policy, appointment, new Date(2026, 10, 10, 9, 0));
+
+      expect(result).toMatchObject({ isLate: true, allowed: false, forfeitPercent: 0 });
+    });
+
+    it('should default to the current time', () => {
+      expect(assessCancellation(defaults, new Date(Date.now() - 1000)).isLate).toBe(true);
+    });
+  });
+
+  describe('calculateDepositRefund', () => {
+    it('should refund the share of the deposit that is not forfeited', () => {
+      expect(calculateDepositRefund(500, 0)).toBe(500);
+      expect(calculateDepositRefund(500, 100)).toBe(0);
+      expect(calculateDepositRefund(500, 50)).toBe(250);
+    });
+
+    it('should round down and clamp the forfeit percent', () => {
+      expect(calculateDepositRefund(333, 50)).toBe(166);
+      expect(calculateDepositRefund(500, 150)).toBe(0);
+      expect(calculateDepositRefund(500, -10)).toBe(500);
+    });
+  });
+});
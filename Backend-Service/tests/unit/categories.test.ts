@@ -0,0 +1,214 @@
+import { CategoryService } from '../../src/services/category.service';
+import Category from '../../src/models/Category.model';
+import Service from '../../src/models/Service.model';
+
+// Models need a database connection; these tests inject in-memory fakes instead
+jest.mock('../../src/config/database', () => ({
+  __esModule: true,
+  default: { transaction: jest.fn((callback) => callback('transaction')) },
+}));
+jest.mock('../../src/models/Category.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Service.model', () => ({ __esModule: true, default: {} }));
+
+interface FakeCategory {
+  id: number;
+  name: string;
+  slug: string;
+  description: string | null;
+  icon: string | null;
+  displayOrder: number;
+  parentId: number | null;
+  isActive: boolean;
+  deletedAt: Date | null;
+  update: jest.Mock;
+  destroy: jest.Mock;
+  restore: jest.Mock;
+  toJSON: () => Record<string, unknown>;
+}
+
+const createCategory = (values: Partial<FakeCategory> & { id: number; slug: string }) => {
+  const category: FakeCategory = {
+    name: values.slug,
+    description: null,
+    icon: null,
+    displayOrder: 0,
+    parentId: null,
+    isActive: true,
+    deletedAt: null,
+    ...values,
+    update: jest.fn(async (changes: Record<string, unknown>) => Object.assign(category, changes)),
+    destroy: jest.fn(),
+    restore: jest.fn(),
+    toJSON: () => ({ id: category.id, slug: category.slug, parentId: category.parentId }),
+  };
+  return category;
+};
+
+// hair > colour > balayage, nails
+const createTree = () => [
+  createCategory({ id: 1, slug: 'hair' }),
+  createCategory({ id: 2, slug: 'colour', parentId: 1 }),
+  createCategory({ id: 3, slug: 'balayage', parentId: 2 }),
+  createCategory({ id: 4, slug: 'nails', displayOrder: 1 }),
+];
+
+const setup = (categories: FakeCategory[] = createTree(), serviceCount = 0) => {
+  const categoryModel = {
+    findAll: jest.fn(async () => categories),
+    findByPk: jest.fn(
+      async (id: number, options: { paranoid?: boolean } = {}) =>
+        categories.find(
+          (category) => category.id === id && (options.paranoid === false || !category.deletedAt)
+        ) || null
+    ),
+    findOne: jest.fn(
+      async ({ where }: { where: { slug: string } }) =>
+        categories.find((category) => category.slug === where.slug) || null
+    ),
+    count: jest.fn(
+      async ({ where }: { where: Partial<FakeCategory> }) =>
+        categories.filter((category) =>
+          Object.entries(where).every(
+            ([key, value]) => category[key as keyof FakeCategory] === value
+          )
+        ).length
+    ),
+  };
+  const serviceModel = {
+    count: jest.fn().mockResolvedValue(serviceCount),
+    update: jest.fn().mockResolvedValue([serviceCount]),
+  };
+
+  const service = new CategoryService(
+    categoryModel as unknown as typeof Category,
+    serviceModel as unknown as typeof Service
+  );
+
+  return { service, categories, categoryModel, serviceModel };
+};
+
+describe('CategoryService tree', () => {
+  it('should nest active categories under their parents', async () => {
+    const { service } = setup();
+
+    const tree = await service.getCategoryTree();
+
+    expect(tree.map((node) => node.slug)).toEqual(['hair', 'nails']);
+    expect(tree[0].children[0].slug).toBe('colour');
+    expect(tree[0].children[0].children[0].slug).toBe('balayage');
+  });
+
+  it('should only query active categories', async () => {
+    const { service, categoryModel } = setup();
+
+    await service.getCategoryTree();
+
+    expect(categoryModel.findAll).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { isActive: true } })
+    );
+  });
+
+  it('should return a category with all of its descendants', async () => {
+    const { service } = setup();
+
+    expect(await service.getDescendantSlugs('hair')).toEqual(['hair', 'colour', 'balayage']);
+    expect(await service.getDescendantSlugs('colour')).toEqual(['colour', 'balayage']);
+    expect(await service.getDescendantSlugs('nails')).toEqual(['nails']);
+  });
+
+  it('should fall back to the slug itself for unknown categories', async () => {
+    const { service } = setup();
+
+    expect(await service.getDescendantSlugs('unknown')).toEqual(['unknown']);
+  });
+});
+
+describe('CategoryService changes', () => {
+  it('should reject services in unknown categories', async () => {
+    const { service } = setup();
+
+    await expect(service.assertCategoryExists('hair')).resolves.toBeUndefined();
+    await expect(service.assertCategoryExists('unknown')).rejects.toMatchObject({
+      statusCode: 400,
+    });
+  });
+
+  it('should move the services along when the slug changes', async () => {
+    const { service, categories, serviceModel } = setup();
+
+    await service.updateCategory(1, { slug: 'hairdressing' });
+
+    expect(categories[0].slug).toBe('hairdressing');
+    expect(serviceModel.update).toHaveBeenCalledWith(
+      { category: 'hairdressing' },
+      { where: { category: 'hair' }, transaction: 'transaction' }
+    );
+  });
+
+  it('should leave the services alone when the slug is unchanged', async () => {
+    const { service, serviceModel } = setup();
+
+    await service.updateCategory(1, { name: 'Hair', slug: 'hair' });
+
+    expect(serviceModel.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject a slug that is already taken', async () => {
+    const { service } = setup();
+
+    await expect(service.updateCategory(1, { slug: 'nails' })).rejects.toMatchObject({
+      statusCode: 409,
+    });
+  });
+
+  it('should not move a category under itself or its descendants', async () => {
+    const { service } = setup();
+
+    await expect(service.updateCategory(1, { parentId: 1 })).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    await expect(service.updateCategory(1, { parentId: 3 })).rejects.toMatchObject({
+      statusCode: 400,
+    });
+  });
+});
+
+describe('CategoryService delete and restore', () => {
+  it('should not delete categories with sub-categories', async () => {
+    const { service } = setup();
+
+    await expect(service.deleteCategory(1)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('should not delete categories that still have services', async () => {
+    const { service, serviceModel } = setup(createTree(), 2);
+
+    await expect(service.deleteCategory(4)).rejects.toMatchObject({ statusCode: 409 });
+    expect(serviceModel.count).toHaveBeenCalledWith({ where: { category: 'nails' } });
+  });
+
+  it('should soft delete empty leaf categories', async () => {
+    const { service, categories } = setup();
+
+    await service.deleteCategory(4);
+
+    expect(categories[3].destroy).toHaveBeenCalled();
+  });
+
+  it('should only restore a category once its parent is restored', async () => {
+    const categories = createTree();
+    categories[1].deletedAt = new Date();
+    categories[2].deletedAt = new Date();
+    const { service } = setup(categories);
+
+    await expect(service.restoreCategory(3)).rejects.toMatchObject({ statusCode: 409 });
+    await service.restoreCategory(2);
+    expect(categories[1].restore).toHaveBeenCalled();
+  });
+
+  it('should not restore categories that are not deleted', async () => {
+    const { service } = setup();
+
+    await expect(service.restoreCategory(1)).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
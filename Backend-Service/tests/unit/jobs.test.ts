@@ -0,0 +1,158 @@
+import { MemoryJobQueueStore } from '../../src/providers/jobQueue/memory.store';
+import { JobService } from '../../src/services/job.service';
+import { computeRetryDelayMs, describeJobError, getRecurringRun } from '../../src/utils/jobs';
+
+// The shared store is backed by Postgres; these tests only use the in-memory store
+jest.mock('../../src/providers/jobQueue', () => ({ jobQueueStore: {} }));
+
+describe('Job queue helpers', () => {
+  it('should back off exponentially up to the maximum delay', () => {
+    expect(computeRetryDelayMs(1, 1000, 10_000)).toBe(1000);
+    expect(computeRetryDelayMs(2, 1000, 10_000)).toBe(2000);
+    expect(computeRetryDelayMs(4, 1000, 10_000)).toBe(8000);
+    expect(computeRetryDelayMs(5, 1000, 10_000)).toBe(10_000);
+  });
+
+  it('should compute the same recurring run within an interval', () => {
+    const first = getRecurringRun('cleanup', 60_000, new Date(120_500));
+    const second = getRecurringRun('cleanup', 60_000, new Date(179_999));
+
+    expect(first).toEqual({ runAt: new Date(120_000), uniqueKey: 'cleanup:2' });
+    expect(second).toEqual(first);
+    expect(getRecurringRun('cleanup', 60_000, new Date(180_000)).uniqueKey).toBe('cleanup:3');
+  });
+
+  it('should describe job errors', () => {
+    expect(describeJobError(new Error('boom'))).toBe('boom');
+    expect(describeJobError(new TypeError())).toBe('TypeError');
+    expect(describeJobError('timeout')).toBe('timeout');
+  });
+});
+
+describe('JobService', () => {
+  let store: MemoryJobQueueStore;
+  let jobs: JobService;
+
+  beforeEach(() => {
+    store = new MemoryJobQueueStore();
+    jobs = new JobService(store, {
+      pollIntervalMs: 1000,
+      batchSize: 10,
+      leaseMs: 60_000,
+      maxAttempts: 3,
+      retryBaseDelayMs: 1000,
+      retryMaxDelayMs: 10_000,
+    });
+  });
+
+  it('should run due jobs with their payload and complete them', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    jobs.register('email.send', handler);
+
+    const job = await jobs.enqueue('email.send', { bookingId: 1 });
+    await jobs.enqueue('email.send', {}, { runAt: new Date(Date.now() + 60_000) });
+
+    expect(await jobs.runDueJobs()).toBe(1);
+    expect(handler).toHaveBeenCalledWith(
+      { bookingId: 1 },
+      expect.objectContaining({ attempts: 1 })
+    );
+    expect(await jobs.getJobById(job!.id)).toMatchObject({ status: 'completed', attempts: 1 });
+  });
+
+  it('should retry failed jobs with backoff and move them to dead after maxAttempts', async () => {
+    jobs.register('sms.send', jest.fn().mockRejectedValue(new Error('provider down')));
+    const job = await jobs.enqueue('sms.send');
+
+    await jobs.runDueJobs();
+    const retried = await jobs.getJobById(job!.id);
+
+    expect(retried).toMatchObject({ status: 'pending', attempts: 1, lastError: 'provider down' });
+    expect(retried.runAt.getTime()).toBeGreaterThan(Date.now());
+
+    // Not due again until the backoff has elapsed
+    expect(await jobs.runDueJobs()).toBe(0);
+
+    await jobs.runDueJobs(new Date(Date.now() + 5_000));
+    await jobs.runDueJobs(new Date(Date.now() + 60_000));
+
+    expect(await jobs.getJobById(job!.id)).toMatchObject({ status: 'dead', attempts: 3 });
+  });
+
+  it('should move jobs without a handler straight to dead', async () => {
+    const job = await jobs.enqueue('unknown.job');
+
+    await jobs.runDueJobs();
+
+    expect(await jobs.getJobById(job!.id)).toMatchObject({
+      status: 'dead',
+      lastError: 'No handler registered for job unknown.job',
+    });
+  });
+
+  it('should let an admin retry dead jobs only', async () => {
+    const job = await jobs.enqueue('unknown.job');
+    await jobs.runDueJobs();
+
+    await expect(jobs.getJobById('missing')).rejects.toThrow('Job not found');
+
+    const retried = await jobs.retryJob(job!.id);
+
+    expect(retried).toMatchObject({ status: 'pending', attempts: 0 });
+    await expect(jobs.retryJob(job!.id)).rejects.toThrow('Only dead jobs can be retried');
+  });
+
+  it('should enqueue each recurring run only once', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    jobs.register('bookings.complete-past', handler);
+    jobs.schedule('bookings.complete-past', 60_000);
+
+    const now = new Date(Date.UTC(2026, 10, 2, 9, 0, 30));
+    await jobs.runDueJobs(now);
+    await jobs.runDueJobs(new Date(now.getTime() + 10_000));
+    await jobs.runDueJobs(new Date(now.getTime() + 60_000));
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reclaim running jobs whose lease expired', async () => {
+    const job = await jobs.enqueue('report.build');
+    const now = new Date();
+
+    // A worker claimed the job and crashed before finishing it
+    await store.claim(1, 60_000, now);
+    jobs.register('report.build', jest.fn().mockResolvedValue(undefined));
+
+    expect(await jobs.runDueJobs(new Date(now.getTime() + 30_000))).toBe(0);
+    expect(await jobs.runDueJobs(new Date(now.getTime() + 60_000))).toBe(1);
+    expect(await jobs.getJobById(job!.id)).toMatchObject({ status: 'completed', attempts: 2 });
+  });
+
+  it('should list jobs with filters and pagination and purge completed jobs', async () => {
+    jobs.register('ok', jest.fn().mockResolvedValue(undefined));
+    await jobs.enqueue('ok');
+    await jobs.enqueue('unknown.job');
+    await jobs.runDueJobs();
+
+    const dead = await jobs.getJobs({ status: 'dead' });
+    expect(dead.jobs.map((job) => job.name)).toEqual(['unknown.job']);
+    expect(dead.pagination).toEqual({ page: 1, limit: 10, total: 1, totalPages: 1 });
+    expect((await jobs.getJobs({ name: 'ok' })).jobs).toHaveLength(1);
+
+    expect(await jobs.purgeCompletedJobs(new Date(Date.now() + 1000))).toBe(1);
+    expect((await jobs.getJobs()).pagination.total).toBe(1);
+  });
+
+  it('should poll until stopped', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    jobs.register('ok', handler);
+    await jobs.enqueue('ok');
+
+    jobs.start();
+    jobs.start();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await jobs.stop();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,389 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { NotificationService } from '../../src/services/notification.service';
+import NotificationLog from '../../src/models/NotificationLog.model';
+import nodemailer from 'nodemailer';
+import { FileEmailTransport } from '../../src/providers/email/file.transport';
+import { MemoryEmailTransport } from '../../src/providers/email/memory.transport';
+import { SmtpEmailTransport } from '../../src/providers/email/smtp.transport';
+import { FakeSmsProvider } from '../../src/providers/sms/fake.provider';
+import { escapeHtml, formatMoney, renderEmailTemplate } from '../../src/utils/emailTemplates';
+import {
+  BookingDetails,
+  EmailMessage,
+  EmailTransport,
+  NotificationLogCreationAttributes,
+  PaymentAttributes,
+} from '../../src/types';
+
+// Models need a database connection; these tests inject in-memory fakes instead
+jest.mock('../../src/models/NotificationLog.model', () => ({ __esModule: true, default: {} }));
+
+const booking: BookingDetails = {
+  id: 12,
+  userId: 7,
+  serviceId: 1,
+  slotId: 42,
+  bookingDate: '2026-11-02',
+  startTime: '09:00:00',
+  endTime: '09:45:00',
+  status: 'confirmed',
+  totalAmount: 4050,
+  isLateCancellation: false,
+  depositForfeitPercent: null,
+  isDeleted: false,
+  service: { id: 1, name: 'Classic Haircut', duration: 45, price: 4500 },
+  user: {
+    id: 7,
+    email: 'jane@example.com',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    phone: '+15551234567',
+    smsOptIn: false,
+  },
+};
+
+describe('Email templates', () => {
+  it('should render text and HTML bodies with a greeting', () => {
+    const email = renderEmailTemplate('bookingConfirmation', {
+      firstName: 'Jane',
+      bookingId: 12,
+      serviceName: 'Classic Haircut',
+      bookingDate: '2026-11-02',
+      startTime: '09:00:00',
+      endTime: '09:45:00',
+    });
+
+    expect(email.subject).toBe('Booking #12 confirmed');
+    expect(email.text).toContain('Hi Jane,');
+    expect(email.text).toContain('Classic Haircut on 2026-11-02 from 09:00 to 09:45');
+    expect(email.html).toContain('<p>Hi Jane,</p>');
+  });
+
+  it('should escape user content in HTML', () => {
+    const email = renderEmailTemplate('welcome', { firstName: '<b>Jane</b>' });
+
+    expect(email.html).toContain('Hi &lt;b&gt;Jane&lt;/b&gt;,');
+    expect(email.text).toContain('Hi <b>Jane</b>,');
+    expect(escapeHtml(`"'&`)).toBe('&quot;&#39;&amp;');
+  });
+
+  it('should include the verification link in verification emails', () => {
+    const email = renderEmailTemplate('emailVerification', {
+      firstName: 'Jane',
+      verificationUrl: 'http://localhost:3000/verify-email?token=abc',
+      expiresInHours: 48,
+    });
+
+    expect(email.subject).toBe('Confirm your email address');
+    expect(email.text).toContain('http://localhost:3000/verify-email?token=abc');
+  });
+
+  it('should include the reset link and its expiry in password reset emails', () => {
+    const email = renderEmailTemplate('passwordReset', {
+      firstName: 'Jane',
+      resetUrl: 'http://localhost:3000/reset-password?token=abc',
+      expiresInMinutes: 60,
+    });
+
+    expect(email.text).toContain('http://localhost:3000/reset-password?token=abc');
+    expect(email.text).toContain('expires in 60 minutes');
+  });
+
+  it('should mention forfeited deposits on late cancellations', () => {
+    const data = {
+      firstName: 'Jane',
+      bookingId: 12,
+      serviceName: 'Classic Haircut',
+      bookingDate: '2026-11-02',
+      startTime: '09:00',
+      endTime: '09:45',
+      reason: 'Feeling unwell',
+    };
+
+    const late = renderEmailTemplate('bookingCancelled', { ...data, depositForfeitPercent: 50 });
+    const onTime = renderEmailTemplate('bookingCancelled', {
+      ...data,
+      reason: null,
+      depositForfeitPercent: 0,
+    });
+
+    expect(late.text).toContain('Reason: Feeling unwell');
+    expect(late.text).toContain('50% of your deposit is kept');
+    expect(onTime.text).not.toContain('Reason:');
+    expect(onTime.text).toContain('Any deposit you paid is refunded');
+  });
+
+  it('should render reschedule and receipt emails', () => {
+    const rescheduled = renderEmailTemplate('bookingRescheduled', {
+      firstName: 'Jane',
+      bookingId: 12,
+      serviceName: 'Classic Haircut',
+      bookingDate: '2026-11-03',
+      startTime: '10:00',
+      endTime: '10:45',
+      previousDate: '2026-11-02',
+      previousStartTime: '09:00:00',
+    });
+    const receipt = renderEmailTemplate('paymentReceipt', {
+      firstName: 'Jane',
+      bookingId: 12,
+      serviceName: 'Classic Haircut',
+      paymentId: 3,
+      amount: 500,
+      currency: 'USD',
+      paidAt: new Date('2026-10-20T10:00:00Z'),
+    });
+
+    expect(rescheduled.text).toContain('on 2026-11-02 at 09:00 has been moved');
+    expect(receipt.text).toContain('payment of $5.00');
+    expect(formatMoney(4050, 'EUR')).toBe('€40.50');
+  });
+});
+
+describe('NotificationService', () => {
+  let transport: MemoryEmailTransport;
+  let sms: FakeSmsProvider;
+  let notificationLogModel: { create: jest.Mock };
+  let service: NotificationService;
+
+  const optedIn: BookingDetails = {
+    ...booking,
+    user: { ...booking.user, smsOptIn: true } as BookingDetails['user'],
+  };
+
+  beforeEach(() => {
+    transport = new MemoryEmailTransport();
+    sms = new FakeSmsProvider();
+    notificationLogModel = { create: jest.fn() };
+    service = new NotificationService(
+      transport,
+      sms,
+      notificationLogModel as unknown as typeof NotificationLog,
+      'salon@example.com'
+    );
+  });
+
+  it('should send booking emails to the customer', async () => {
+    expect(await service.sendBookingConfirmation(booking)).toBe(true);
+    expect(
+      await service.sendWelcomeEmail({ id: 8, email: 'new@example.com', firstName: 'Sam' })
+    ).toBe(true);
+
+    expect(transport.sent).toHaveLength(2);
+    expect(transport.sent[0]).toMatchObject({
+      from: 'salon@example.com',
+      to: 'jane@example.com',
+      subject: 'Booking #12 confirmed',
+    });
+    expect(transport.sent[1].subject).toBe('Welcome to Salon Booking');
+  });
+
+  it('should only text customers who opted in to SMS', async () => {
+    await service.sendBookingConfirmation(booking);
+    expect(await service.sendBookingReminder(booking, 24)).toBeNull();
+    expect(sms.sent).toHaveLength(0);
+
+    await service.sendBookingConfirmation(optedIn);
+    const delivery = await service.sendBookingReminder(optedIn, 2);
+
+    expect(delivery).toEqual({ providerMessageId: 'fake_sms_2' });
+    expect(sms.sent).toEqual([
+      {
+        to: '+15551234567',
+        body: 'Salon Booking: your Classic Haircut on 2026-11-02 at 09:00 is confirmed (booking #12).',
+      },
+      {
+        to: '+15551234567',
+        body: 'Salon Booking reminder: Classic Haircut on 2026-11-02 at 09:00, in 2h (booking #12).',
+      },
+    ]);
+  });
+
+  it('should not throw when an SMS cannot be delivered', async () => {
+    jest.spyOn(sms, 'send').mockRejectedValue(new Error('Invalid number'));
+
+    expect(await service.sendBookingReminder(optedIn, 24)).toBeNull();
+    expect(notificationLogModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should log every delivered email and text for the user', async () => {
+    await service.sendBookingConfirmation(optedIn);
+    await service.sendWelcomeEmail({ id: 8, email: 'new@example.com', firstName: 'Sam' });
+
+    const logged: NotificationLogCreationAttributes[] = notificationLogModel.create.mock.calls.map(
+      ([values]) => values
+    );
+
+    expect(logged).toEqual([
+      {
+        userId: 7,
+        bookingId: 12,
+        channel: 'sms',
+        template: 'confirmation',
+        recipient: '+15551234567',
+      },
+      {
+        userId: 7,
+        bookingId: 12,
+        channel: 'email',
+        template: 'bookingConfirmation',
+        recipient: 'jane@example.com',
+      },
+      {
+        userId: 8,
+        bookingId: null,
+        channel: 'email',
+        template: 'welcome',
+        recipient: 'new@example.com',
+      },
+    ]);
+  });
+
+  it('should report a delivered email as sent when logging it fails', async () => {
+    notificationLogModel.create.mockRejectedValue(new Error('Connection lost'));
+
+    expect(await service.sendBookingConfirmation(booking)).toBe(true);
+    expect(transport.sent).toHaveLength(1);
+  });
+
+  it('should send cancellation, reschedule and receipt emails', async () => {
+    const payment: PaymentAttributes = {
+      id: 3,
+      bookingId: 12,
+      userId: 7,
+      provider: 'fake',
+      providerPaymentId: 'fake_pi_1',
+      amount: 500,
+      currency: 'USD',
+      status: 'completed',
+      refundedAmount: 0,
+      paidAt: new Date('2026-10-20T10:00:00Z'),
+      isDeleted: false,
+    };
+
+    await service.sendBookingCancellation({ ...booking, status: 'cancelled' });
+    await service.sendBookingRescheduled(booking, {
+      bookingDate: '2026-11-01',
+      startTime: '15:00',
+    });
+    await service.sendPaymentReceipt(payment, booking);
+
+    expect(transport.sent.map((email) => email.subject)).toEqual([
+      'Booking #12 cancelled',
+      'Booking #12 rescheduled',
+      'Receipt for booking #12',
+    ]);
+
+    transport.clear();
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it('should skip bookings loaded without their customer', async () => {
+    const { user: _user, ...withoutUser } = booking;
+
+    expect(await service.sendBookingConfirmation(withoutUser)).toBe(false);
+    expect(await service.sendBookingCancellation(withoutUser)).toBe(false);
+    expect(await service.sendBookingRescheduled(withoutUser, booking)).toBe(false);
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it('should fall back to a generic service name', async () => {
+    const { service: _service, ...withoutService } = booking;
+
+    await service.sendBookingConfirmation(withoutService);
+
+    expect(transport.sent[0].text).toContain('your appointment on 2026-11-02');
+  });
+
+  it('should not throw when delivery fails', async () => {
+    const failing: EmailTransport = {
+      name: 'smtp',
+      send: async (_message: EmailMessage) => {
+        throw new Error('Connection refused');
+      },
+    };
+
+    const result = await new NotificationService(
+      failing,
+      sms,
+      notificationLogModel as unknown as typeof NotificationLog,
+      'salon@example.com'
+    ).sendBookingConfirmation(booking);
+
+    expect(result).toBe(false);
+    expect(notificationLogModel.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('SmtpEmailTransport', () => {
+  it('should send through a lazily created nodemailer transport', async () => {
+    const sendMail = jest.fn().mockResolvedValue({});
+    const createTransport = jest
+      .spyOn(nodemailer, 'createTransport')
+      .mockReturnValue({ sendMail } as unknown as ReturnType<typeof nodemailer.createTransport>);
+
+    const transport = new SmtpEmailTransport({
+      host: 'smtp.example.com',
+      port: 587,
+      secure: false,
+      user: 'mailer',
+      password: 'secret',
+    });
+    const message = {
+      from: 'salon@example.com',
+      to: 'jane@example.com',
+      subject: 'Hello',
+      text: 'Hi',
+      html: '<p>Hi</p>',
+    };
+
+    expect(createTransport).not.toHaveBeenCalled();
+
+    await transport.send(message);
+    await transport.send(message);
+
+    expect(createTransport).toHaveBeenCalledTimes(1);
+    expect(createTransport).toHaveBeenCalledWith(
+      expect.objectContaining({
+        host: 'smtp.example.com',
+        auth: { user: 'mailer', pass: 'secret' },
+      })
+    );
+    expect(sendMail).toHaveBeenCalledWith(message);
+
+    createTransport.mockRestore();
+  });
+});
+
+describe('FileEmailTransport', () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await mkdtemp(path.join(os.tmpdir(), 'emails-'));
+  });
+
+  afterEach(async () => {
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('should write each message to a JSON file', async () => {
+    const transport = new FileEmailTransport(path.join(outputDir, 'nested'));
+
+    await transport.send({
+      from: 'salon@example.com',
+      to: 'jane@example.com',
+      subject: 'Hello',
+      text: 'Hi',
+      html: '<p>Hi</p>',
+    });
+
+    const files = await readdir(path.join(outputDir, 'nested'));
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/jane@example\.com\.json$/);
+
+    const stored = JSON.parse(await readFile(path.join(outputDir, 'nested', files[0]), 'utf8'));
+    expect(stored).toMatchObject({ to: 'jane@example.com', subject: 'Hello' });
+  });
+});
@@ -0,0 +1,400 @@
+import Stripe from 'stripe';
+import {
+  FakePaymentProvider,
+  FAKE_WEBHOOK_SIGNATURE_HEADER,
+} from '../../src/providers/payment/fake.provider';
+import { RazorpayPaymentProvider } from '../../src/providers/payment/razorpay.provider';
+import { StripePaymentProvider } from '../../src/providers/payment/stripe.provider';
+import { computeHmacSignature } from '../../src/providers/payment/webhook.utils';
+
+describe('FakePaymentProvider', () => {
+  let provider: FakePaymentProvider;
+
+  beforeEach(() => {
+    provider = new FakePaymentProvider();
+  });
+
+  const createIntent = () =>
+    provider.createPaymentIntent({
+      amount: 500,
+      currency: 'USD',
+      description: 'Deposit for booking #1',
+      metadata: { bookingId: '1' },
+    });
+
+  it('should create pending intents with unique ids', async () => {
+    const first = await createIntent();
+    const second = await createIntent();
+
+    expect(first.status).toBe('pending');
+    expect(first.clientSecret).toBe(`${first.providerPaymentId}_secret`);
+    expect(second.providerPaymentId).not.toBe(first.providerPaymentId);
+  });
+
+  it('should complete a pending payment on the first status check', async () => {
+    const intent = await createIntent();
+
+    expect(await provider.getPaymentStatus(intent.providerPaymentId)).toEqual({
+      status: 'completed',
+    });
+  });
+
+  it('should report a forced failure', async () => {
+    const intent = await createIntent();
+    provider.setStatus(intent.providerPaymentId, 'failed', 'Card declined');
+
+    expect(await provider.getPaymentStatus(intent.providerPaymentId)).toEqual({
+      status: 'failed',
+      failureReason: 'Card declined',
+    });
+  });
+
+  it('should refund payments unless refunds are set to fail', async () => {
+    const params = { providerPaymentId: 'fake_pi_1', amount: 250, currency: 'USD', reason: 'Test' };
+
+    expect(await provider.refundPayment(params)).toMatchObject({ status: 'completed' });
+
+    provider.failRefunds = true;
+
+    expect(await provider.refundPayment(params)).toMatchObject({
+      status: 'failed',
+      failureReason: 'Refund declined',
+    });
+  });
+
+  it('should leave refunds pending when they are set to be delayed', async () => {
+    provider.delayRefunds = true;
+
+    expect(
+      await provider.refundPayment({
+        providerPaymentId: 'fake_pi_1',
+        amount: 250,
+        currency: 'USD',
+        reason: 'Test',
+      })
+    ).toMatchObject({ status: 'pending' });
+  });
+
+  it('should fetch an intent again without completing it', async () => {
+    const intent = await createIntent();
+
+    expect(await provider.getPaymentIntent(intent.providerPaymentId)).toEqual(intent);
+    expect(await provider.getPaymentIntent(intent.providerPaymentId)).toMatchObject({
+      status: 'pending',
+    });
+  });
+
+  it('should fail unknown payments', async () => {
+    expect(await provider.getPaymentStatus('missing')).toMatchObject({ status: 'failed' });
+  });
+});
+
+describe('Payment webhook verification', () => {
+  describe('FakePaymentProvider', () => {
+    const provider = new FakePaymentProvider('whsec_test');
+
+    const body = JSON.stringify({
+      id: 'evt_1',
+      type: 'payment.failed',
+      data: { providerPaymentId: 'fake_pi_1', failureReason: 'Card declined' },
+    });
+
+    it('should parse a correctly signed event', () => {
+      const event = provider.constructWebhookEvent(Buffer.from(body), {
+        [FAKE_WEBHOOK_SIGNATURE_HEADER]: provider.signWebhookPayload(body),
+      });
+
+      expect(event).toMatchObject({
+        eventId: 'evt_1',
+        type: 'payment.failed',
+        providerPaymentId: 'fake_pi_1',
+        outcome: { status: 'failed', failureReason: 'Card declined' },
+      });
+    });
+
+    it('should reject missing or tampered signatures', () => {
+      const signature = provider.signWebhookPayload(body);
+
+      expect(() => provider.constructWebhookEvent(Buffer.from(body), {})).toThrow(
+        'Invalid webhook signature'
+      );
+      expect(() =>
+        provider.constructWebhookEvent(Buffer.from(body.replace('failed', 'completed')), {
+          [FAKE_WEBHOOK_SIGNATURE_HEADER]: signature,
+        })
+      ).toThrow('Invalid webhook signature');
+    });
+
+    it('should leave other event types without an outcome', () => {
+      const other = JSON.stringify({ id: 'evt_2', type: 'payment.created' });
+
+      const event = provider.constructWebhookEvent(Buffer.from(other), {
+        [FAKE_WEBHOOK_SIGNATURE_HEADER]: provider.signWebhookPayload(other),
+      });
+
+      expect(event).toMatchObject({ providerPaymentId: null, outcome: null, refund: null });
+    });
+
+    it('should parse refund outcomes', () => {
+      const refund = JSON.stringify({
+        id: 'evt_3',
+        type: 'refund.failed',
+        data: { providerRefundId: 'fake_re_1', failureReason: 'Card closed' },
+      });
+
+      const event = provider.constructWebhookEvent(Buffer.from(refund), {
+        [FAKE_WEBHOOK_SIGNATURE_HEADER]: provider.signWebhookPayload(refund),
+      });
+
+      expect(event).toMatchObject({
+        outcome: null,
+        refund: { providerRefundId: 'fake_re_1', status: 'failed', failureReason: 'Card closed' },
+      });
+    });
+
+    it('should reject signed bodies that are not events', () => {
+      const invalid = '[1, 2]';
+
+      expect(() =>
+        provider.constructWebhookEvent(Buffer.from(invalid), {
+          [FAKE_WEBHOOK_SIGNATURE_HEADER]: provider.signWebhookPayload(invalid),
+        })
+      ).toThrow('Invalid webhook payload');
+    });
+  });
+
+  describe('StripePaymentProvider', () => {
+    const webhookSecret = 'whsec_test';
+    const provider = new StripePaymentProvider({
+      secretKey: 'sk_test_123',
+      publishableKey: 'pk_test_123',
+      webhookSecret,
+    });
+    const stripe = new Stripe('sk_test_123');
+
+    const stripeEvent = (type: string, status: string) =>
+      JSON.stringify({
+        id: 'evt_stripe_1',
+        object: 'event',
+        type,
+        data: { object: { id: 'pi_123', object: 'payment_intent', status } },
+      });
+
+    it('should settle payments on succeeded events', () => {
+      const payload = stripeEvent('payment_intent.succeeded', 'succeeded');
+      const signature = stripe.webhooks.generateTestHeaderString({
+        payload,
+        secret: webhookSecret,
+      });
+
+      const event = provider.constructWebhookEvent(Buffer.from(payload), {
+        'stripe-signature': signature,
+      });
+
+      expect(event).toMatchObject({
+        eventId: 'evt_stripe_1',
+        providerPaymentId: 'pi_123',
+        outcome: { status: 'completed' },
+      });
+    });
+
+    it('should not settle payments on failed attempts', () => {
+      const payload = stripeEvent('payment_intent.payment_failed', 'requires_payment_method');
+      const signature = stripe.webhooks.generateTestHeaderString({
+        payload,
+        secret: webhookSecret,
+      });
+
+      const event = provider.constructWebhookEvent(Buffer.from(payload), {
+        'stripe-signature': signature,
+      });
+
+      expect(event.providerPaymentId).toBe('pi_123');
+      expect(event.outcome).toBeNull();
+    });
+
+    it('should fail payments on canceled events', () => {
+      const payload = JSON.stringify({
+        id: 'evt_stripe_2',
+        object: 'event',
+        type: 'payment_intent.canceled',
+        data: {
+          object: {
+            id: 'pi_123',
+            object: 'payment_intent',
+            status: 'canceled',
+            cancellation_reason: 'abandoned',
+          },
+        },
+      });
+      const signature = stripe.webhooks.generateTestHeaderString({
+        payload,
+        secret: webhookSecret,
+      });
+
+      const event = provider.constructWebhookEvent(Buffer.from(payload), {
+        'stripe-signature': signature,
+      });
+
+      expect(event.outcome).toEqual({ status: 'failed', failureReason: 'abandoned' });
+    });
+
+    it('should ignore events that are not about payment intents', () => {
+      const payload = JSON.stringify({
+        id: 'evt_stripe_3',
+        object: 'event',
+        type: 'customer.created',
+        data: { object: { id: 'cus_123', object: 'customer' } },
+      });
+      const signature = stripe.webhooks.generateTestHeaderString({
+        payload,
+        secret: webhookSecret,
+      });
+
+      const event = provider.constructWebhookEvent(Buffer.from(payload), {
+        'stripe-signature': signature,
+      });
+
+      expect(event).toMatchObject({ providerPaymentId: null, outcome: null, refund: null });
+    });
+
+    it.each([
+      ['succeeded', 'completed'],
+      ['failed', 'failed'],
+      ['pending', 'pending'],
+    ])('should report %s refunds as %s', (stripeStatus, status) => {
+      const payload = JSON.stringify({
+        id: 'evt_stripe_4',
+        object: 'event',
+        type: 'charge.refund.updated',
+        data: {
+          object: {
+            id: 're_123',
+            object: 'refund',
+            status: stripeStatus,
+            failure_reason: stripeStatus === 'failed' ? 'expired_or_canceled_card' : null,
+          },
+        },
+      });
+      const signature = stripe.webhooks.generateTestHeaderString({
+        payload,
+        secret: webhookSecret,
+      });
+
+      const event = provider.constructWebhookEvent(Buffer.from(payload), {
+        'stripe-signature': signature,
+      });
+
+      expect(event.outcome).toBeNull();
+      expect(event.refund).toMatchObject({ providerRefundId: 're_123', status });
+    });
+
+    it('should refuse webhooks when no webhook secret is configured', () => {
+      expect(() =>
+        new StripePaymentProvider().constructWebhookEvent(Buffer.from('{}'), {})
+      ).toThrow('Stripe webhook secret is not configured');
+    });
+
+    it('should reject invalid signatures', () => {
+      const payload = stripeEvent('payment_intent.succeeded', 'succeeded');
+      const signature = stripe.webhooks.generateTestHeaderString({
+        payload,
+        secret: 'whsec_other',
+      });
+
+      expect(() =>
+        provider.constructWebhookEvent(Buffer.from(payload), { 'stripe-signature': signature })
+      ).toThrow('Invalid webhook signature');
+      expect(() => provider.constructWebhookEvent(Buffer.from(payload), {})).toThrow(
+        'Invalid webhook signature'
+      );
+    });
+  });
+
+  describe('RazorpayPaymentProvider', () => {
+    const webhookSecret = 'rzp_whsec_test';
+    const provider = new RazorpayPaymentProvider({
+      keyId: 'rzp_test_123',
+      keySecret: 'secret',
+      webhookSecret,
+    });
+
+    const payload = JSON.stringify({
+      event: 'order.paid',
+      payload: { order: { entity: { id: 'order_123' } } },
+    });
+
+    it('should settle orders on order.paid events', () => {
+      const event = provider.constructWebhookEvent(Buffer.from(payload), {
+        'x-razorpay-signature': computeHmacSignature(payload, webhookSecret),
+        'x-razorpay-event-id': 'evt_rzp_1',
+      });
+
+      expect(event).toMatchObject({
+        eventId: 'evt_rzp_1',
+        type: 'order.paid',
+        providerPaymentId: 'order_123',
+        outcome: { status: 'completed' },
+      });
+    });
+
+    it('should record payment failures without settling the order', () => {
+      const failed = JSON.stringify({
+        event: 'payment.failed',
+        payload: { payment: { entity: { order_id: 'order_123' } } },
+      });
+
+      const event = provider.constructWebhookEvent(Buffer.from(failed), {
+        'x-razorpay-signature': [computeHmacSignature(failed, webhookSecret)],
+        'x-razorpay-event-id': 'evt_rzp_2',
+      });
+
+      expect(event.providerPaymentId).toBe('order_123');
+      expect(event.outcome).toBeNull();
+    });
+
+    it.each([
+      ['refund.processed', 'completed'],
+      ['refund.failed', 'failed'],
+    ])('should report %s events as %s refunds', (type, status) => {
+      const refund = JSON.stringify({
+        event: type,
+        payload: {
+          refund: { entity: { id: 'rfnd_123' } },
+          payment: { entity: { order_id: 'order_123' } },
+        },
+      });
+
+      const event = provider.constructWebhookEvent(Buffer.from(refund), {
+        'x-razorpay-signature': computeHmacSignature(refund, webhookSecret),
+        'x-razorpay-event-id': 'evt_rzp_3',
+      });
+
+      expect(event.outcome).toBeNull();
+      expect(event.refund).toEqual({ providerRefundId: 'rfnd_123', status });
+    });
+
+    it('should require the event ID header', () => {
+      expect(() =>
+        provider.constructWebhookEvent(Buffer.from(payload), {
+          'x-razorpay-signature': computeHmacSignature(payload, webhookSecret),
+        })
+      ).toThrow('Invalid webhook payload');
+    });
+
+    it('should refuse webhooks when no webhook secret is configured', () => {
+      expect(() =>
+        new RazorpayPaymentProvider().constructWebhookEvent(Buffer.from(payload), {})
+      ).toThrow('Razorpay webhook secret is not configured');
+    });
+
+    it('should reject invalid signatures', () => {
+      expect(() =>
+        provider.constructWebhookEvent(Buffer.from(payload), {
+          'x-razorpay-signature': computeHmacSignature(payload, 'other'),
+          'x-razorpay-event-id': 'evt_rzp_1',
+        })
+      ).toThrow('Invalid webhook signature');
+    });
+  });
+});
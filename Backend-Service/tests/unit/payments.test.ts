@@ -0,0 +1,243 @@
+import { PaymentService } from '../../src/services/payment.service';
+import { RefundService } from '../../src/services/refund.service';
+import { BookingService } from '../../src/services/booking.service';
+import { NotificationService } from '../../src/services/notification.service';
+import { PermissionService } from '../../src/services/permission.service';
+import { FakePaymentProvider } from '../../src/providers/payment/fake.provider';
+import Payment from '../../src/models/Payment.model';
+import { PaymentStatus } from '../../src/types';
+
+// Models need a database connection; these tests inject in-memory fakes instead
+jest.mock('../../src/models/Payment.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Refund.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/services/booking.service', () => ({ bookingService: {} }));
+jest.mock('../../src/services/refund.service', () => ({ refundService: {} }));
+jest.mock('../../src/services/notification.service', () => ({ notificationService: {} }));
+jest.mock('../../src/services/permission.service', () => ({ permissionService: {} }));
+jest.mock('../../src/providers/payment', () => ({ paymentProvider: {} }));
+
+describe('PaymentService', () => {
+  interface FakePayment {
+    id: number;
+    bookingId: number;
+    userId: number;
+    providerPaymentId: string;
+    amount: number;
+    status: PaymentStatus;
+    reload: jest.Mock;
+    toJSON: () => Record<string, unknown>;
+  }
+
+  const createPayment = (status: PaymentStatus = 'pending', providerPaymentId = 'fake_pi_1') => {
+    const payment: FakePayment = {
+      id: 1,
+      bookingId: 5,
+      userId: 7,
+      providerPaymentId,
+      amount: 500,
+      status,
+      reload: jest.fn(),
+      toJSON: () => ({ id: payment.id, bookingId: payment.bookingId, status: payment.status }),
+    };
+    return payment;
+  };
+
+  const setup = (
+    payment: FakePayment | null,
+    bookingStatus = 'pending',
+    provider = new FakePaymentProvider()
+  ) => {
+    const paymentModel = {
+      findOne: jest.fn().mockResolvedValue(payment),
+      create: jest.fn(async (values: Partial<FakePayment>) => ({ toJSON: () => values })),
+      // Mirrors the conditional update: only a pending payment is settled
+      update: jest.fn(async (values: Partial<FakePayment>) => {
+        if (!payment || payment.status !== 'pending') {
+          return [0];
+        }
+        Object.assign(payment, values);
+        return [1];
+      }),
+    };
+    const bookingService = {
+      getBookingById: jest
+        .fn()
+        .mockResolvedValue({ id: 5, userId: 7, status: bookingStatus, totalAmount: 4000 }),
+      transitionBooking: jest.fn(),
+    };
+    const refundService = { refundUnappliedPayment: jest.fn() };
+    const notificationService = { sendPaymentReceipt: jest.fn() };
+
+    const service = new PaymentService(
+      bookingService as unknown as BookingService,
+      refundService as unknown as RefundService,
+      provider,
+      notificationService as unknown as NotificationService,
+      {} as PermissionService,
+      paymentModel as unknown as typeof Payment
+    );
+
+    return { service, paymentModel, bookingService, refundService, notificationService };
+  };
+
+  it('should confirm the booking once the deposit is paid', async () => {
+    const payment = createPayment();
+    const { service, bookingService, notificationService } = setup(payment);
+
+    const result = await service.settleProviderPayment('fake', 'fake_pi_1', {
+      status: 'completed',
+    });
+
+    expect(result).toMatchObject({ id: 1, status: 'completed' });
+    expect(bookingService.transitionBooking).toHaveBeenCalledWith(
+      5,
+      'confirmed',
+      null,
+      'Deposit paid'
+    );
+    expect(notificationService.sendPaymentReceipt).toHaveBeenCalled();
+  });
+
+  it('should cancel the booking when the deposit fails', async () => {
+    const payment = createPayment();
+    const { service, bookingService, notificationService } = setup(payment);
+
+    await service.settleProviderPayment('fake', 'fake_pi_1', {
+      status: 'failed',
+      failureReason: 'Card declined',
+    });
+
+    expect(payment).toMatchObject({ status: 'failed', failureReason: 'Card declined' });
+    expect(bookingService.transitionBooking).toHaveBeenCalledWith(
+      5,
+      'cancelled',
+      null,
+      'Deposit payment failed'
+    );
+    expect(notificationService.sendPaymentReceipt).not.toHaveBeenCalled();
+  });
+
+  it('should settle a payment only once', async () => {
+    const payment = createPayment();
+    const { service, bookingService, notificationService } = setup(payment);
+
+    await service.settleProviderPayment('fake', 'fake_pi_1', { status: 'completed' });
+    await service.settleProviderPayment('fake', 'fake_pi_1', { status: 'completed' });
+
+    expect(bookingService.transitionBooking).toHaveBeenCalledTimes(1);
+    expect(notificationService.sendPaymentReceipt).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave the payment alone while the provider still reports it as pending', async () => {
+    const payment = createPayment();
+    const { service, paymentModel } = setup(payment);
+
+    await service.settleProviderPayment('fake', 'fake_pi_1', { status: 'pending' });
+
+    expect(paymentModel.update).not.toHaveBeenCalled();
+  });
+
+  it('should refund a deposit paid after the booking was cancelled', async () => {
+    const payment = createPayment();
+    const { service, bookingService, refundService } = setup(payment, 'cancelled');
+
+    await service.settleProviderPayment('fake', 'fake_pi_1', { status: 'completed' });
+
+    expect(refundService.refundUnappliedPayment).toHaveBeenCalledWith(
+      1,
+      'Deposit paid for booking #5 while it was cancelled'
+    );
+    expect(bookingService.transitionBooking).not.toHaveBeenCalled();
+  });
+
+  it('should keep the payment settled when the automatic refund fails', async () => {
+    const payment = createPayment();
+    const { service, refundService } = setup(payment, 'confirmed');
+    refundService.refundUnappliedPayment.mockRejectedValue(new Error('Database unavailable'));
+
+    await expect(
+      service.settleProviderPayment('fake', 'fake_pi_1', { status: 'completed' })
+    ).resolves.toMatchObject({ status: 'completed' });
+  });
+
+  it('should not refund failed payments of bookings that moved on', async () => {
+    const payment = createPayment();
+    const { service, refundService } = setup(payment, 'cancelled');
+
+    await service.settleProviderPayment('fake', 'fake_pi_1', { status: 'failed' });
+
+    expect(refundService.refundUnappliedPayment).not.toHaveBeenCalled();
+  });
+
+  it('should return null for unknown payments', async () => {
+    const { service } = setup(null);
+
+    await expect(
+      service.settleProviderPayment('fake', 'fake_pi_9', { status: 'completed' })
+    ).resolves.toBeNull();
+  });
+
+  describe('createDepositIntent', () => {
+    const customer = { userId: 7, role: 'customer' as const };
+
+    it('should create an intent for the deposit', async () => {
+      const { service, paymentModel } = setup(null);
+
+      const result = await service.createDepositIntent(customer, { bookingId: 5 });
+
+      expect(paymentModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ bookingId: 5, provider: 'fake', status: 'pending' })
+      );
+      expect(result.clientSecret).toMatch(/^fake_pi_.*_secret$/);
+    });
+
+    it('should hand out the unpaid intent again instead of creating another', async () => {
+      const provider = new FakePaymentProvider();
+      const intent = await provider.createPaymentIntent({
+        amount: 500,
+        currency: 'USD',
+        description: 'Deposit for booking #5',
+        metadata: {},
+      });
+      const { service, paymentModel } = setup(
+        createPayment('pending', intent.providerPaymentId),
+        'pending',
+        provider
+      );
+      // No completed deposit, then the pending one
+      paymentModel.findOne.mockResolvedValueOnce(null);
+
+      const result = await service.createDepositIntent(customer, { bookingId: 5 });
+
+      expect(result.clientSecret).toBe(intent.clientSecret);
+      expect(result.payment).toMatchObject({ id: 1 });
+      expect(paymentModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should settle an intent the customer already paid', async () => {
+      const provider = new FakePaymentProvider();
+      const intent = await provider.createPaymentIntent({
+        amount: 500,
+        currency: 'USD',
+        description: 'Deposit for booking #5',
+        metadata: {},
+      });
+      provider.setStatus(intent.providerPaymentId, 'completed');
+      const payment = createPayment('pending', intent.providerPaymentId);
+      const { service, paymentModel, bookingService } = setup(payment, 'pending', provider);
+      paymentModel.findOne.mockResolvedValueOnce(null);
+
+      await expect(service.createDepositIntent(customer, { bookingId: 5 })).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(payment.status).toBe('completed');
+      expect(bookingService.transitionBooking).toHaveBeenCalledWith(
+        5,
+        'confirmed',
+        null,
+        'Deposit paid'
+      );
+      expect(paymentModel.create).not.toHaveBeenCalled();
+    });
+  });
+});
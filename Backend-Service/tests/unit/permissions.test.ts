@@ -0,0 +1,120 @@
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSIONS,
+  PERMISSIONS_ADMIN_PERMISSION,
+  isOwnerOrPermitted,
+} from '../../src/utils/permissions';
+import { setRolePermissionsSchema } from '../../src/schemas/permission.schema';
+import { PermissionService } from '../../src/services/permission.service';
+import RolePermission from '../../src/models/RolePermission.model';
+
+// The role table needs a database connection; these tests inject an in-memory fake instead
+jest.mock('../../src/models/RolePermission.model', () => ({ __esModule: true, default: {} }));
+
+describe('Permissions', () => {
+  describe('default role permissions', () => {
+    it('should grant admins every permission', () => {
+      expect([...DEFAULT_ROLE_PERMISSIONS.admin].sort()).toEqual([...PERMISSIONS].sort());
+      expect(DEFAULT_ROLE_PERMISSIONS.admin).toContain(PERMISSIONS_ADMIN_PERMISSION);
+    });
+
+    it('should grant customers nothing beyond their own resources', () => {
+      expect(DEFAULT_ROLE_PERMISSIONS.customer).toEqual([]);
+    });
+
+    it('should only grant staff known permissions', () => {
+      DEFAULT_ROLE_PERMISSIONS.staff.forEach((permission) => {
+        expect(PERMISSIONS).toContain(permission);
+      });
+      expect(DEFAULT_ROLE_PERMISSIONS.staff).not.toContain('permissions:write');
+    });
+  });
+
+  describe('isOwnerOrPermitted', () => {
+    const customer = { userId: 7, role: 'customer' as const };
+
+    it('should allow owners without the permission', () => {
+      expect(isOwnerOrPermitted(customer, 7, [], 'users:read:any')).toBe(true);
+    });
+
+    it('should deny other users without the permission', () => {
+      expect(isOwnerOrPermitted(customer, 8, [], 'users:read:any')).toBe(false);
+    });
+
+    it('should allow other users with the permission', () => {
+      expect(isOwnerOrPermitted(customer, 8, ['users:read:any'], 'users:read:any')).toBe(true);
+      expect(isOwnerOrPermitted(customer, 8, ['users:delete'], 'users:read:any')).toBe(false);
+    });
+  });
+
+  describe('setRolePermissionsSchema', () => {
+    it('should reject unknown permissions', () => {
+      expect(setRolePermissionsSchema.safeParse({ permissions: ['jobs:read'] }).success).toBe(true);
+      expect(setRolePermissionsSchema.safeParse({ permissions: ['jobs:nuke'] }).success).toBe(
+        false
+      );
+    });
+  });
+
+  describe('PermissionService', () => {
+    const createService = (rows: Array<{ role: string; permission: string }>) => {
+      const rolePermissionModel = {
+        findAll: jest.fn().mockResolvedValue(rows),
+      } as unknown as typeof RolePermission;
+
+      return {
+        rolePermissionModel,
+        service: new PermissionService(rolePermissionModel, { requireAdminTwoFactor: true }),
+      };
+    };
+
+    it('should read permissions from the role table', async () => {
+      const { service } = createService([
+        { role: 'staff', permission: 'jobs:read' },
+        { role: 'staff', permission: 'retired:permission' },
+        { role: 'admin', permission: 'permissions:write' },
+      ]);
+
+      expect(await service.getPermissions('staff')).toEqual(['jobs:read']);
+      expect(await service.hasPermission('staff', 'bookings:read:any')).toBe(false);
+      expect(await service.getPermissions('customer')).toEqual([]);
+    });
+
+    it('should fall back to the defaults while the role table is empty', async () => {
+      const { service } = createService([]);
+
+      expect(await service.getRolePermissions()).toEqual({
+        permissions: [...PERMISSIONS],
+        roles: DEFAULT_ROLE_PERMISSIONS,
+      });
+    });
+
+    it('should cache the role table', async () => {
+      const { service, rolePermissionModel } = createService([]);
+
+      await service.hasPermission('admin', 'jobs:read');
+      await service.hasPermission('staff', 'jobs:read');
+
+      expect(rolePermissionModel.findAll).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only let admins use permissions on resources of others after 2FA', async () => {
+      const { service } = createService([]);
+      const admin = { userId: 1, role: 'admin' as const };
+
+      expect(await service.canAccessOwned(admin, 1, 'users:read:any')).toBe(true);
+      expect(await service.canAccessOwned(admin, 7, 'users:read:any')).toBe(false);
+      expect(await service.canAccessOwned({ ...admin, twoFactor: true }, 7, 'users:read:any')).toBe(
+        true
+      );
+    });
+
+    it('should not let admins lose the permission to edit roles', async () => {
+      const { service } = createService([]);
+
+      await expect(service.setRolePermissions('admin', ['jobs:read'])).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+  });
+});
@@ -0,0 +1,284 @@
+import zlib from 'zlib';
+import { PrivacyService } from '../../src/services/privacy.service';
+import { UserService } from '../../src/services/user.service';
+import User from '../../src/models/User.model';
+import DataErasureRequest from '../../src/models/DataErasureRequest.model';
+import NotificationLog from '../../src/models/NotificationLog.model';
+import { createZip, crc32 } from '../../src/utils/zip';
+import { buildDataExportArchive, getErasureScheduledFor } from '../../src/utils/privacy';
+import {
+  DataErasureRequestAttributes,
+  NotificationLogAttributes,
+  UserDataExport,
+} from '../../src/types';
+
+// Models need a database connection; these tests inject in-memory fakes instead
+jest.mock('../../src/models/User.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Booking.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/BookingStatusHistory.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Service.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Payment.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Refund.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Session.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/DataErasureRequest.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/NotificationLog.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/services/user.service', () => ({ userService: {} }));
+
+/**
+ * Read the entries of a ZIP archive by walking its local file headers
+ */
+const readZip = (archive: Buffer): Record<string, string> => {
+  const files: Record<string, string> = {};
+  let offset = 0;
+
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const checksum = archive.readUInt32LE(offset + 14);
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.toString('utf8', offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength;
+    const data = zlib.inflateRawSync(archive.subarray(start, start + compressedSize));
+
+    expect(crc32(data)).toBe(checksum);
+    files[name] = data.toString('utf8');
+    offset = start + compressedSize;
+  }
+
+  return files;
+};
+
+describe('createZip', () => {
+  it('should compute the standard CRC-32 checksum', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should create an archive whose entries can be read back', () => {
+    const archive = createZip([
+      { name: 'hello.txt', data: 'Hello, world' },
+      { name: 'données.json', data: Buffer.from('{"a":1}') },
+    ]);
+
+    expect(readZip(archive)).toEqual({
+      'hello.txt': 'Hello, world',
+      'données.json': '{"a":1}',
+    });
+    // End of central directory record with the number of entries
+    expect(archive.readUInt32LE(archive.length - 22)).toBe(0x06054b50);
+    expect(archive.readUInt16LE(archive.length - 12)).toBe(2);
+  });
+});
+
+describe('buildDataExportArchive', () => {
+  it('should write one JSON file per section of the export', () => {
+    const data = {
+      exportedAt: new Date('2026-03-01T10:00:00Z'),
+      profile: { id: 7, email: 'jane@example.com' },
+      bookings: [{ id: 1 }],
+      payments: [],
+      notifications: [],
+      sessions: [],
+      erasureRequests: [],
+    } as unknown as UserDataExport;
+
+    const files = readZip(buildDataExportArchive(data));
+
+    expect(Object.keys(files)).toEqual([
+      'profile.json',
+      'bookings.json',
+      'payments.json',
+      'notifications.json',
+      'sessions.json',
+      'erasureRequests.json',
+    ]);
+    expect(JSON.parse(files['profile.json'])).toEqual({ id: 7, email: 'jane@example.com' });
+    expect(JSON.parse(files['bookings.json'])).toEqual([{ id: 1 }]);
+  });
+});
+
+describe('PrivacyService export', () => {
+  const rows = <T extends object>(values: T[]) =>
+    values.map((value) => ({ ...value, toJSON: () => value }));
+
+  it('should export the notifications logged for the user', async () => {
+    const notification: NotificationLogAttributes = {
+      id: 3,
+      userId: 7,
+      bookingId: 12,
+      channel: 'email',
+      template: 'bookingConfirmation',
+      recipient: 'jane@example.com',
+      createdAt: new Date('2026-03-01T10:00:00Z'),
+    };
+    const findAll = (values: object[] = []) => ({
+      findAll: jest.fn().mockResolvedValue(rows(values)),
+    });
+    const notificationLogModel = findAll([notification]);
+    const unused = {} as never;
+
+    const service = new PrivacyService(
+      {} as UserService,
+      {
+        findByPk: jest.fn().mockResolvedValue({ toSafeObject: () => ({ id: 7 }) }),
+      } as unknown as typeof User,
+      findAll([{ id: 12 }]) as never,
+      unused,
+      unused,
+      findAll() as never,
+      unused,
+      findAll() as never,
+      findAll() as unknown as typeof DataErasureRequest,
+      notificationLogModel as unknown as typeof NotificationLog,
+      { erasureGracePeriodDays: 30 }
+    );
+
+    const data = await service.exportUserData(7);
+
+    expect(notificationLogModel.findAll).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: 7 } })
+    );
+    expect(data.notifications).toEqual([notification]);
+    expect(data.bookings).toEqual([{ id: 12 }]);
+  });
+
+  it('should return 404 for unknown users', async () => {
+    const unused = {} as never;
+    const service = new PrivacyService(
+      {} as UserService,
+      { findByPk: jest.fn().mockResolvedValue(null) } as unknown as typeof User,
+      unused
+    );
+
+    await expect(service.exportUserData(7)).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
+
+describe('PrivacyService erasure requests', () => {
+  const now = new Date('2026-03-01T10:00:00Z');
+
+  type FakeErasureRequest = DataErasureRequestAttributes & {
+    update: jest.Mock;
+    toJSON: () => DataErasureRequestAttributes;
+  };
+
+  const createRequest = (values: Partial<DataErasureRequestAttributes>): FakeErasureRequest => {
+    const request: FakeErasureRequest = {
+      id: 1,
+      userId: 7,
+      status: 'pending',
+      requestedAt: now,
+      scheduledFor: getErasureScheduledFor(now, 30),
+      cancelledAt: null,
+      completedAt: null,
+      ...values,
+      update: jest.fn(async (changes: Record<string, unknown>) => Object.assign(request, changes)),
+      toJSON: () => ({ ...request }),
+    };
+    return request;
+  };
+
+  const setup = (
+    options: {
+      pending?: FakeErasureRequest | null;
+      due?: FakeErasureRequest[];
+      user?: { deletedAt: Date | null; purgedAt: Date | null } | null;
+    } = {}
+  ) => {
+    const userModel = {
+      findByPk: jest
+        .fn()
+        .mockResolvedValue(
+          options.user === undefined ? { id: 7, deletedAt: null, purgedAt: null } : options.user
+        ),
+    } as unknown as typeof User;
+    const erasureRequestModel = {
+      findOne: jest.fn().mockResolvedValue(options.pending ?? null),
+      findAll: jest.fn().mockResolvedValue(options.due ?? []),
+      create: jest.fn(async (values: Partial<DataErasureRequestAttributes>) =>
+        createRequest(values)
+      ),
+    };
+    const userService = {
+      deleteUser: jest.fn().mockResolvedValue({ message: 'User deleted successfully' }),
+      purgeUser: jest.fn().mockResolvedValue({ message: 'User personal data purged successfully' }),
+    };
+    const unused = {} as never;
+
+    const service = new PrivacyService(
+      userService as unknown as UserService,
+      userModel,
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+      erasureRequestModel as unknown as typeof DataErasureRequest,
+      unused,
+      { erasureGracePeriodDays: 30 }
+    );
+
+    return { service, userService, erasureRequestModel };
+  };
+
+  it('should schedule the erasure at the end of the grace period', async () => {
+    const { service, erasureRequestModel } = setup();
+
+    const request = await service.requestErasure(7, now);
+
+    expect(erasureRequestModel.create).toHaveBeenCalledWith({
+      userId: 7,
+      requestedAt: now,
+      scheduledFor: new Date('2026-03-31T10:00:00Z'),
+    });
+    expect(request.scheduledFor).toEqual(new Date('2026-03-31T10:00:00Z'));
+  });
+
+  it('should reject a second request while one is pending', async () => {
+    const { service } = setup({ pending: createRequest({}) });
+
+    await expect(service.requestErasure(7, now)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('should cancel the pending request and keep it', async () => {
+    const pending = createRequest({});
+    const { service } = setup({ pending });
+
+    const request = await service.cancelErasureRequest(7);
+
+    expect(request.status).toBe('cancelled');
+    expect(request.cancelledAt).toBeInstanceOf(Date);
+  });
+
+  it('should return 404 when there is no pending request to cancel', async () => {
+    const { service } = setup();
+
+    await expect(service.cancelErasureRequest(7)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should delete and purge the user once the grace period has ended', async () => {
+    const due = createRequest({});
+    const { service, userService } = setup({ due: [due] });
+
+    const processed = await service.processDueErasureRequests(new Date('2026-04-01T00:00:00Z'));
+
+    expect(processed).toBe(1);
+    expect(userService.deleteUser).toHaveBeenCalledWith(7);
+    expect(userService.purgeUser).toHaveBeenCalledWith(7);
+    expect(due.status).toBe('completed');
+    expect(due.completedAt).toBeInstanceOf(Date);
+  });
+
+  it('should only purge users an admin already deleted', async () => {
+    const due = createRequest({});
+    const { service, userService } = setup({
+      due: [due],
+      user: { deletedAt: new Date('2026-03-10T00:00:00Z'), purgedAt: null },
+    });
+
+    await service.processDueErasureRequests(new Date('2026-04-01T00:00:00Z'));
+
+    expect(userService.deleteUser).not.toHaveBeenCalled();
+    expect(userService.purgeUser).toHaveBeenCalledWith(7);
+    expect(due.status).toBe('completed');
+  });
+});
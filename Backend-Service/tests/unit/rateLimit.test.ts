@@ -0,0 +1,82 @@
+import express, { Request, Response } from 'express';
+import request from 'supertest';
+import {
+  createRateLimiter,
+  getEmailRateLimitKey,
+} from '../../src/middlewares/rateLimit.middleware';
+import { errorHandler } from '../../src/middlewares/error.middleware';
+import { evaluateFailedLogin, getLockoutRemainingMinutes } from '../../src/utils/lockout';
+
+describe('Account lockout', () => {
+  const policy = { maxFailedLogins: 3, lockoutDuration: 15 };
+  const now = new Date('2026-11-02T09:00:00Z');
+
+  it('should count failed logins below the limit', () => {
+    expect(evaluateFailedLogin(0, policy, now)).toEqual({
+      failedLoginAttempts: 1,
+      lockedUntil: null,
+    });
+    expect(evaluateFailedLogin(1, policy, now).lockedUntil).toBeNull();
+  });
+
+  it('should lock the account and restart the counter at the limit', () => {
+    expect(evaluateFailedLogin(2, policy, now)).toEqual({
+      failedLoginAttempts: 0,
+      lockedUntil: new Date('2026-11-02T09:15:00Z'),
+    });
+  });
+
+  it('should report the minutes left on a lockout', () => {
+    expect(getLockoutRemainingMinutes(new Date('2026-11-02T09:14:30Z'), now)).toBe(15);
+    expect(getLockoutRemainingMinutes(new Date('2026-11-02T09:00:20Z'), now)).toBe(1);
+    expect(getLockoutRemainingMinutes(now, now)).toBe(0);
+    expect(getLockoutRemainingMinutes(null, now)).toBe(0);
+  });
+});
+
+describe('Rate limiter', () => {
+  const createApp = (limiter: express.RequestHandler) => {
+    const app = express();
+    app.use(express.json());
+    app.post('/login', limiter, (_req: Request, res: Response) => {
+      res.status(200).json({ success: true });
+    });
+    app.use(errorHandler);
+    return app;
+  };
+
+  it('should reject requests over the limit with a 429 error response', async () => {
+    const app = createApp(createRateLimiter({ name: 'test-ip', windowMs: 60_000, limit: 2 }));
+
+    await request(app).post('/login').expect(200);
+    await request(app).post('/login').expect(200);
+    const response = await request(app).post('/login').expect(429);
+
+    expect(response.body).toMatchObject({ success: false, code: 'TOO_MANY_REQUESTS' });
+    expect(response.headers['ratelimit-policy']).toBeDefined();
+  });
+
+  it('should limit per email and ignore requests without one', async () => {
+    const app = createApp(
+      createRateLimiter({
+        name: 'test-email',
+        windowMs: 60_000,
+        limit: 1,
+        keyGenerator: getEmailRateLimitKey,
+      })
+    );
+
+    await request(app).post('/login').send({ email: 'Jane@Example.com' }).expect(200);
+    await request(app).post('/login').send({ email: ' jane@example.com' }).expect(429);
+    await request(app).post('/login').send({ email: 'sam@example.com' }).expect(200);
+    await request(app).post('/login').send({}).expect(200);
+    await request(app).post('/login').send({}).expect(200);
+  });
+
+  it('should fall back to the email of the signed-in user', () => {
+    const req = { body: {}, user: { userId: 7, email: 'Jane@Example.com', role: 'customer' } };
+
+    expect(getEmailRateLimitKey(req as unknown as Request)).toBe('jane@example.com');
+    expect(getEmailRateLimitKey({ body: {} } as Request)).toBe('');
+  });
+});
@@ -0,0 +1,238 @@
+import { RefundService } from '../../src/services/refund.service';
+import { FakePaymentProvider } from '../../src/providers/payment/fake.provider';
+import Payment from '../../src/models/Payment.model';
+import Refund from '../../src/models/Refund.model';
+import { PaymentStatus, RefundStatus } from '../../src/types';
+
+// Models need a database connection; these tests inject in-memory fakes instead
+jest.mock('../../src/config/database', () => ({
+  __esModule: true,
+  default: { transaction: jest.fn((callback) => callback('transaction')) },
+}));
+jest.mock('../../src/models/Payment.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Refund.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/providers/payment', () => ({ paymentProvider: {} }));
+
+interface FakePayment {
+  id: number;
+  bookingId: number;
+  providerPaymentId: string;
+  amount: number;
+  refundedAmount: number;
+  currency: string;
+  status: PaymentStatus;
+  reload: jest.Mock;
+  update: jest.Mock;
+}
+
+interface FakeRefund {
+  id: number;
+  paymentId: number;
+  amount: number;
+  providerRefundId: string | null;
+  status: RefundStatus;
+  failureReason: string | null;
+  initiatedBy: number | null;
+  update: jest.Mock;
+  toJSON: () => Record<string, unknown>;
+}
+
+const createPayment = (values: Partial<FakePayment> = {}): FakePayment => {
+  const payment: FakePayment = {
+    id: 1,
+    bookingId: 5,
+    providerPaymentId: 'fake_pi_1',
+    amount: 500,
+    refundedAmount: 0,
+    currency: 'USD',
+    status: 'completed',
+    ...values,
+    reload: jest.fn(),
+    update: jest.fn(async (changes: Partial<FakePayment>) => Object.assign(payment, changes)),
+  };
+  return payment;
+};
+
+const createRefund = (values: Partial<FakeRefund> = {}): FakeRefund => {
+  const refund: FakeRefund = {
+    id: 3,
+    paymentId: 1,
+    amount: 500,
+    providerRefundId: null,
+    status: 'pending',
+    failureReason: null,
+    initiatedBy: null,
+    ...values,
+    update: jest.fn(async (changes: Partial<FakeRefund>) => Object.assign(refund, changes)),
+    toJSON: () => ({ id: refund.id, amount: refund.amount, status: refund.status }),
+  };
+  return refund;
+};
+
+const setup = (payments: FakePayment[], refund: FakeRefund | null = null) => {
+  const provider = new FakePaymentProvider();
+  const paymentModel = {
+    findByPk: jest.fn(async (id: number) => payments.find((payment) => payment.id === id) || null),
+    findAll: jest.fn().mockResolvedValue(payments),
+  };
+  const refundModel = {
+    create: jest.fn(async (values: Partial<FakeRefund>) => createRefund(values)),
+    findOne: jest.fn().mockResolvedValue(refund),
+  };
+
+  const service = new RefundService(
+    provider,
+    paymentModel as unknown as typeof Payment,
+    refundModel as unknown as typeof Refund
+  );
+
+  return { service, provider, refundModel };
+};
+
+describe('RefundService.refundPayment', () => {
+  it('should refund part of a payment and reserve the amount', async () => {
+    const payment = createPayment();
+    const { service, refundModel } = setup([payment]);
+
+    const refund = await service.refundPayment(1, 1, { amount: 200, reason: 'Goodwill' });
+
+    expect(refund).toMatchObject({ amount: 200, status: 'completed' });
+    expect(refundModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ paymentId: 1, amount: 200, initiatedBy: 1 }),
+      { transaction: 'transaction' }
+    );
+    expect(payment).toMatchObject({ refundedAmount: 200, status: 'completed' });
+  });
+
+  it('should mark the payment as refunded once nothing is left', async () => {
+    const payment = createPayment({ refundedAmount: 200 });
+    const { service } = setup([payment]);
+
+    const refund = await service.refundPayment(1, 1, { reason: 'Goodwill' });
+
+    expect(refund.amount).toBe(300);
+    expect(payment).toMatchObject({ refundedAmount: 500, status: 'refunded' });
+  });
+
+  it.each([0, 301])('should reject a refund of %i', async (amount) => {
+    const payment = createPayment({ refundedAmount: 200 });
+    const { service, refundModel } = setup([payment]);
+
+    await expect(service.refundPayment(1, 1, { amount, reason: 'Goodwill' })).rejects.toMatchObject(
+      { statusCode: 400, message: 'Refund amount must be between 1 and 300' }
+    );
+    expect(refundModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should only refund completed payments', async () => {
+    const { service } = setup([createPayment({ status: 'pending' })]);
+
+    await expect(service.refundPayment(1, 1, { reason: 'Goodwill' })).rejects.toMatchObject({
+      statusCode: 409,
+    });
+  });
+
+  it('should give the amount back when the provider declines the refund', async () => {
+    const payment = createPayment();
+    const { service, provider } = setup([payment]);
+    provider.failRefunds = true;
+
+    const refund = await service.refundPayment(1, 1, { amount: 200, reason: 'Goodwill' });
+
+    expect(refund.status).toBe('failed');
+    expect(payment).toMatchObject({ refundedAmount: 0, status: 'completed' });
+  });
+
+  it('should keep the amount reserved while the refund is pending', async () => {
+    const payment = createPayment();
+    const { service, provider } = setup([payment]);
+    provider.delayRefunds = true;
+
+    const refund = await service.refundPayment(1, 1, { reason: 'Goodwill' });
+
+    expect(refund.status).toBe('pending');
+    expect(payment).toMatchObject({ refundedAmount: 500, status: 'refunded' });
+  });
+});
+
+describe('RefundService automatic refunds', () => {
+  it('should keep the forfeited share of a cancelled booking', async () => {
+    const payment = createPayment();
+    const { service } = setup([payment]);
+
+    const refunds = await service.refundCancelledBooking(5, 50, 'Booking #5 cancelled');
+
+    expect(refunds).toEqual([expect.objectContaining({ amount: 250 })]);
+    expect(payment.refundedAmount).toBe(250);
+  });
+
+  it('should never refund more than what is left of a payment', async () => {
+    const payment = createPayment({ refundedAmount: 400 });
+    const { service } = setup([payment]);
+
+    const refunds = await service.refundCancelledBooking(5, 0, 'Booking #5 cancelled');
+
+    expect(refunds).toEqual([expect.objectContaining({ amount: 100 })]);
+    expect(payment).toMatchObject({ refundedAmount: 500, status: 'refunded' });
+  });
+
+  it('should refund all of a deposit its booking did not need', async () => {
+    const payment = createPayment();
+    const { service, refundModel } = setup([payment]);
+
+    await service.refundUnappliedPayment(1, 'Deposit paid for booking #5 while it was cancelled');
+
+    expect(refundModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 500, initiatedBy: null }),
+      { transaction: 'transaction' }
+    );
+    expect(payment.status).toBe('refunded');
+  });
+});
+
+describe('RefundService.settleProviderRefund', () => {
+  it('should give the amount back when a pending refund fails', async () => {
+    const payment = createPayment({ refundedAmount: 500, status: 'refunded' });
+    const refund = createRefund({ providerRefundId: 're_1' });
+    const { service } = setup([payment], refund);
+
+    await service.settleProviderRefund({
+      providerRefundId: 're_1',
+      status: 'failed',
+      failureReason: 'Card closed',
+    });
+
+    expect(refund).toMatchObject({ status: 'failed', failureReason: 'Card closed' });
+    expect(payment).toMatchObject({ refundedAmount: 0, status: 'completed' });
+  });
+
+  it('should keep the amount when a pending refund completes', async () => {
+    const payment = createPayment({ refundedAmount: 500, status: 'refunded' });
+    const refund = createRefund({ providerRefundId: 're_1' });
+    const { service } = setup([payment], refund);
+
+    await service.settleProviderRefund({ providerRefundId: 're_1', status: 'completed' });
+
+    expect(refund.status).toBe('completed');
+    expect(payment).toMatchObject({ refundedAmount: 500, status: 'refunded' });
+  });
+
+  it('should leave settled refunds alone', async () => {
+    const payment = createPayment({ refundedAmount: 500, status: 'refunded' });
+    const refund = createRefund({ providerRefundId: 're_1', status: 'completed' });
+    const { service } = setup([payment], refund);
+
+    await service.settleProviderRefund({ providerRefundId: 're_1', status: 'failed' });
+
+    expect(refund.update).not.toHaveBeenCalled();
+    expect(payment.update).not.toHaveBeenCalled();
+  });
+
+  it('should return null for unknown refunds', async () => {
+    const { service } = setup([]);
+
+    await expect(
+      service.settleProviderRefund({ providerRefundId: 're_9', status: 'completed' })
+    ).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+import { selectDueReminderOffset } from '../../src/utils/reminders';
+
+describe('selectDueReminderOffset', () => {
+  const offsets = [24, 2];
+  const appointment = new Date(2026, 10, 10, 14, 0);
+  const hoursBefore = (hours: number) => new Date(appointment.getTime() - hours * 60 * 60 * 1000);
+
+  it('should not send anything before the first offset', () => {
+    expect(selectDueReminderOffset(offsets, appointment, [], hoursBefore(30))).toBeNull();
+  });
+
+  it('should send each offset once', () => {
+    expect(selectDueReminderOffset(offsets, appointment, [], hoursBefore(23))).toBe(24);
+    expect(selectDueReminderOffset(offsets, appointment, [24], hoursBefore(23))).toBeNull();
+    expect(selectDueReminderOffset(offsets, appointment, [24], hoursBefore(1.5))).toBe(2);
+    expect(selectDueReminderOffset(offsets, appointment, [24, 2], hoursBefore(1))).toBeNull();
+  });
+
+  it('should only send the closest offset when running late', () => {
+    expect(selectDueReminderOffset(offsets, appointment, [], hoursBefore(1))).toBe(2);
+  });
+
+  it('should not remind about appointments that already started', () => {
+    expect(selectDueReminderOffset(offsets, appointment, [], appointment)).toBeNull();
+    expect(selectDueReminderOffset(offsets, new Date(Date.now() - 1000), [])).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+import { Op } from 'sequelize';
+import { ServiceCatalogService } from '../../src/services/service.service';
+import { CategoryService } from '../../src/services/category.service';
+import Service from '../../src/models/Service.model';
+import { containsPattern } from '../../src/utils/helpers';
+
+// Models need a database connection; these tests inject in-memory fakes instead
+jest.mock('../../src/models/Service.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/services/category.service', () => ({ categoryService: {} }));
+
+interface FakeService {
+  id: number;
+  name: string;
+  category: string;
+  status: string;
+  update: jest.Mock;
+  save: jest.Mock;
+  toJSON: () => Record<string, unknown>;
+}
+
+const createServiceRecord = (status: string): FakeService => {
+  const record: FakeService = {
+    id: 1,
+    name: 'Haircut',
+    category: 'hair',
+    status,
+    update: jest.fn(async (values: Record<string, unknown>) => Object.assign(record, values)),
+    save: jest.fn(),
+    toJSON: () => ({
+      id: record.id,
+      name: record.name,
+      category: record.category,
+      status: record.status,
+    }),
+  };
+  return record;
+};
+
+const createCatalog = (record: FakeService | null = null) => {
+  const serviceModel = {
+    findByPk: jest.fn().mockResolvedValue(record),
+    findAndCountAll: jest.fn().mockResolvedValue({ count: 0, rows: [] }),
+    create: jest.fn(async (values: Record<string, unknown>) => ({ toJSON: () => values })),
+  };
+  const categoryService = {
+    getDescendantSlugs: jest.fn().mockResolvedValue(['hair', 'hair-colour']),
+    assertCategoryExists: jest.fn(),
+  };
+
+  const catalog = new ServiceCatalogService(
+    categoryService as unknown as CategoryService,
+    serviceModel as unknown as typeof Service
+  );
+
+  return { catalog, serviceModel, categoryService };
+};
+
+describe('ServiceCatalogService.getServices', () => {
+  it('should filter by the category and its sub-categories', async () => {
+    const { catalog, serviceModel, categoryService } = createCatalog();
+
+    await catalog.getServices({ category: 'hair', status: 'active' });
+
+    expect(categoryService.getDescendantSlugs).toHaveBeenCalledWith('hair');
+    expect(serviceModel.findAndCountAll).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { status: 'active', category: ['hair', 'hair-colour'] },
+        order: [['createdAt', 'DESC']],
+      })
+    );
+  });
+
+  it('should match the search text literally', async () => {
+    const { catalog, serviceModel } = createCatalog();
+
+    await catalog.getServices({ search: '50%_off' });
+
+    expect(serviceModel.findAndCountAll.mock.calls[0][0].where).toEqual({
+      name: { [Op.iLike]: '%50\\%\\_off%' },
+    });
+  });
+});
+
+describe('ServiceCatalogService.getServiceById', () => {
+  it('should return active services to everyone', async () => {
+    const { catalog } = createCatalog(createServiceRecord('active'));
+
+    await expect(catalog.getServiceById(1)).resolves.toMatchObject({ status: 'active' });
+  });
+
+  it.each(['inactive', 'archived'])('should hide %s services unless requested', async (status) => {
+    const { catalog } = createCatalog(createServiceRecord(status));
+
+    await expect(catalog.getServiceById(1)).rejects.toMatchObject({ statusCode: 404 });
+    await expect(catalog.getServiceById(1, true)).resolves.toMatchObject({ status });
+  });
+
+  it('should report unknown services as not found', async () => {
+    const { catalog } = createCatalog();
+
+    await expect(catalog.getServiceById(99, true)).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
+
+describe('ServiceCatalogService changes', () => {
+  it('should only create services in an existing category', async () => {
+    const { catalog, categoryService } = createCatalog();
+    categoryService.assertCategoryExists.mockRejectedValue(
+      Object.assign(new Error('Category not found'), { statusCode: 404 })
+    );
+
+    await expect(
+      catalog.createService({ name: 'Haircut', category: 'missing' } as never)
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should check the new category when a service moves', async () => {
+    const record = createServiceRecord('active');
+    const { catalog, categoryService } = createCatalog(record);
+
+    await catalog.updateService(1, { category: 'nails' });
+
+    expect(categoryService.assertCategoryExists).toHaveBeenCalledWith('nails');
+    expect(record.category).toBe('nails');
+  });
+
+  it('should archive a service once', async () => {
+    const record = createServiceRecord('active');
+    const { catalog } = createCatalog(record);
+
+    await catalog.archiveService(1);
+
+    expect(record.status).toBe('archived');
+    expect(record.save).toHaveBeenCalled();
+    await expect(catalog.archiveService(1)).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
+
+describe('containsPattern', () => {
+  it('should escape LIKE wildcards and the escape character', () => {
+    expect(containsPattern('a%b_c\\d')).toBe('%a\\%b\\_c\\\\d%');
+    expect(containsPattern('jane')).toBe('%jane%');
+  });
+});
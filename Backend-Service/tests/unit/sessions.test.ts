@@ -0,0 +1,214 @@
+import { Op } from 'sequelize';
+import { SessionService } from '../../src/services/session.service';
+import Session from '../../src/models/Session.model';
+import RefreshToken from '../../src/models/RefreshToken.model';
+
+// Models need a database connection; these tests inject in-memory fakes instead
+jest.mock('../../src/models/Session.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/RefreshToken.model', () => ({ __esModule: true, default: {} }));
+
+interface FakeSession {
+  id: string;
+  userId: number;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  revokedAt: Date | null;
+  update: jest.Mock;
+}
+
+const createSession = (values: Partial<FakeSession> & { id: string }): FakeSession => {
+  const session: FakeSession = {
+    userId: 7,
+    deviceName: 'Chrome on macOS',
+    userAgent: null,
+    ipAddress: null,
+    lastUsedAt: new Date(),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    createdAt: new Date(),
+    revokedAt: null,
+    ...values,
+    update: jest.fn(async (changes: Partial<FakeSession>) => Object.assign(session, changes)),
+  };
+  return session;
+};
+
+const setup = (sessions: FakeSession[]) => {
+  const sessionModel = {
+    findByPk: jest.fn(async (id: string) => sessions.find((session) => session.id === id) || null),
+    findOne: jest.fn(
+      async ({ where }: { where: { id: string; userId: number } }) =>
+        sessions.find(
+          (session) =>
+            session.id === where.id && session.userId === where.userId && !session.revokedAt
+        ) || null
+    ),
+    findAll: jest.fn(async () => sessions.filter((session) => !session.revokedAt)),
+    update: jest.fn().mockResolvedValue([1]),
+    create: jest.fn(async (values: Partial<FakeSession>) => values),
+  };
+  const refreshTokenModel = { update: jest.fn().mockResolvedValue([1]) };
+
+  const service = new SessionService(
+    sessionModel as unknown as typeof Session,
+    refreshTokenModel as unknown as typeof RefreshToken
+  );
+
+  return { service, sessionModel, refreshTokenModel };
+};
+
+describe('SessionService revocation', () => {
+  it('should revoke a session together with its refresh tokens', async () => {
+    const { service, sessionModel, refreshTokenModel } = setup([createSession({ id: 's1' })]);
+
+    await service.revokeSession('s1', 'logout');
+
+    expect(sessionModel.findAll).toHaveBeenCalledWith({
+      where: { id: 's1', revokedAt: null },
+      attributes: ['id'],
+    });
+    expect(sessionModel.update).toHaveBeenCalledWith(
+      { revokedAt: expect.any(Date), revokedReason: 'logout' },
+      { where: { id: { [Op.in]: ['s1'] } } }
+    );
+    expect(refreshTokenModel.update).toHaveBeenCalledWith(
+      { revokedAt: expect.any(Date), revokedReason: 'logout' },
+      { where: { familyId: { [Op.in]: ['s1'] }, revokedAt: null } }
+    );
+  });
+
+  it('should revoke every session of a user and count them', async () => {
+    const { service, sessionModel } = setup([
+      createSession({ id: 's1' }),
+      createSession({ id: 's2' }),
+    ]);
+
+    const revoked = await service.revokeAllSessions(7, 'password_reset');
+
+    expect(revoked).toBe(2);
+    expect(sessionModel.findAll).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: 7, revokedAt: null } })
+    );
+    expect(sessionModel.update).toHaveBeenCalledWith(
+      { revokedAt: expect.any(Date), revokedReason: 'password_reset' },
+      { where: { id: { [Op.in]: ['s1', 's2'] } } }
+    );
+  });
+
+  it('should not write anything when there is nothing to revoke', async () => {
+    const { service, sessionModel, refreshTokenModel } = setup([]);
+
+    expect(await service.revokeAllSessions(7, 'admin_force_logout')).toBe(0);
+    expect(sessionModel.update).not.toHaveBeenCalled();
+    expect(refreshTokenModel.update).not.toHaveBeenCalled();
+  });
+
+  it('should keep the current session when revoking the others', async () => {
+    const { service, sessionModel } = setup([createSession({ id: 's2' })]);
+
+    const result = await service.revokeOtherSessions(7, 's1');
+
+    expect(result).toEqual({ message: 'Other sessions revoked successfully', revoked: 1 });
+    expect(sessionModel.findAll).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: 7, id: { [Op.ne]: 's1' }, revokedAt: null } })
+    );
+  });
+
+  it('should only let users revoke their own active sessions', async () => {
+    const { service, sessionModel } = setup([
+      createSession({ id: 's1' }),
+      createSession({ id: 's3', userId: 8 }),
+    ]);
+
+    await expect(service.revokeUserSession(7, 's1')).resolves.toEqual({
+      message: 'Session revoked successfully',
+    });
+    await expect(service.revokeUserSession(7, 's3')).rejects.toMatchObject({ statusCode: 404 });
+    expect(sessionModel.update).toHaveBeenCalledWith(
+      { revokedAt: expect.any(Date), revokedReason: 'revoked_by_user' },
+      expect.anything()
+    );
+  });
+});
+
+describe('SessionService sessions', () => {
+  it('should record the device of a new session', async () => {
+    const { service, sessionModel } = setup([]);
+    const userAgent =
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+    await service.createSession('s1', 7, new Date(), { userAgent, ipAddress: '203.0.113.5' });
+    await service.createSession('s2', 7, new Date());
+
+    expect(sessionModel.create).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ id: 's1', userAgent, ipAddress: '203.0.113.5' })
+    );
+    expect(sessionModel.create).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ id: 's2', userAgent: null, ipAddress: null })
+    );
+  });
+
+  it('should only overwrite the IP address on refresh when one is known', async () => {
+    const { service, sessionModel } = setup([]);
+    const expiresAt = new Date();
+
+    await service.recordRefresh('s1', expiresAt, { ipAddress: '203.0.113.5' });
+    await service.recordRefresh('s1', expiresAt);
+
+    expect(sessionModel.update).toHaveBeenNthCalledWith(
+      1,
+      { lastUsedAt: expect.any(Date), expiresAt, ipAddress: '203.0.113.5' },
+      { where: { id: 's1' } }
+    );
+    expect(sessionModel.update).toHaveBeenNthCalledWith(
+      2,
+      { lastUsedAt: expect.any(Date), expiresAt },
+      { where: { id: 's1' } }
+    );
+  });
+});
+
+describe('SessionService.assertSessionActive', () => {
+  it('should reject revoked sessions and sessions of other users', async () => {
+    const { service } = setup([
+      createSession({ id: 's1', revokedAt: new Date() }),
+      createSession({ id: 's2', userId: 8 }),
+    ]);
+
+    await expect(service.assertSessionActive('s1', 7)).rejects.toMatchObject({ statusCode: 401 });
+    await expect(service.assertSessionActive('s2', 7)).rejects.toMatchObject({ statusCode: 401 });
+    await expect(service.assertSessionActive('missing', 7)).rejects.toMatchObject({
+      statusCode: 401,
+    });
+  });
+
+  it('should only write the last-used time back once a minute', async () => {
+    const recent = createSession({ id: 's1' });
+    const stale = createSession({ id: 's2', lastUsedAt: new Date(Date.now() - 2 * 60 * 1000) });
+    const { service } = setup([recent, stale]);
+
+    await service.assertSessionActive('s1', 7);
+    await service.assertSessionActive('s2', 7);
+
+    expect(recent.update).not.toHaveBeenCalled();
+    expect(stale.update).toHaveBeenCalledWith({ lastUsedAt: expect.any(Date) });
+  });
+});
+
+describe('SessionService.getSessions', () => {
+  it('should flag the current session', async () => {
+    const { service } = setup([createSession({ id: 's1' }), createSession({ id: 's2' })]);
+
+    const sessions = await service.getSessions(7, 's2');
+
+    expect(sessions.map((session) => [session.id, session.current])).toEqual([
+      ['s1', false],
+      ['s2', true],
+    ]);
+  });
+});
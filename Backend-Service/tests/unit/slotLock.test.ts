@@ -0,0 +1,63 @@
+import { MemorySlotLockStore } from '../../src/providers/slotLock/memory.store';
+
+describe('MemorySlotLockStore', () => {
+  let now: number;
+  let store: MemorySlotLockStore;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    store = new MemorySlotLockStore(() => now);
+  });
+
+  it('should hold a slot for its owner only', async () => {
+    const lock = await store.acquire(1, 10, 5000);
+
+    expect(lock).toEqual({ slotId: 1, ownerId: 10, expiresAt: new Date(now + 5000) });
+    expect(await store.acquire(1, 20, 5000)).toBeNull();
+    expect(await store.get(1)).toMatchObject({ ownerId: 10 });
+  });
+
+  it('should extend the hold when the owner acquires again', async () => {
+    await store.acquire(1, 10, 5000);
+    now += 4000;
+
+    const lock = await store.acquire(1, 10, 5000);
+
+    expect(lock?.expiresAt).toEqual(new Date(now + 5000));
+  });
+
+  it('should expire locks after their TTL', async () => {
+    await store.acquire(1, 10, 5000);
+    now += 5000;
+
+    expect(await store.get(1)).toBeNull();
+    expect(await store.acquire(1, 20, 5000)).toMatchObject({ ownerId: 20 });
+  });
+
+  it('should only release locks held by the owner', async () => {
+    await store.acquire(1, 10, 5000);
+
+    expect(await store.release(1, 20)).toBe(false);
+    expect(await store.release(1, 10)).toBe(true);
+    expect(await store.get(1)).toBeNull();
+  });
+
+  it('should list active locks among the given slots', async () => {
+    await store.acquire(1, 10, 5000);
+    await store.acquire(2, 20, 1000);
+    now += 2000;
+
+    const locks = await store.getMany([1, 2, 3]);
+
+    expect(locks.map((lock) => lock.slotId)).toEqual([1]);
+  });
+
+  it('should purge expired locks', async () => {
+    await store.acquire(1, 10, 5000);
+    await store.acquire(2, 20, 1000);
+    now += 2000;
+
+    expect(await store.purgeExpired()).toBe(1);
+    expect(await store.get(1)).not.toBeNull();
+  });
+});
@@ -0,0 +1,341 @@
+import { SlotService } from '../../src/services/slot.service';
+import { BookingService } from '../../src/services/booking.service';
+import { StylistService } from '../../src/services/stylist.service';
+import { RefundService } from '../../src/services/refund.service';
+import { NotificationService } from '../../src/services/notification.service';
+import { PermissionService } from '../../src/services/permission.service';
+import { MemorySlotLockStore } from '../../src/providers/slotLock/memory.store';
+import Slot from '../../src/models/Slot.model';
+import Service from '../../src/models/Service.model';
+import OpeningHours from '../../src/models/OpeningHours.model';
+import SalonClosure from '../../src/models/SalonClosure.model';
+import Booking from '../../src/models/Booking.model';
+import BookingStatusHistory from '../../src/models/BookingStatusHistory.model';
+import User from '../../src/models/User.model';
+import { SlotCreationAttributes } from '../../src/types';
+
+// Models need a database connection; these tests inject in-memory fakes instead
+jest.mock('../../src/config/database', () => ({
+  __esModule: true,
+  default: { transaction: jest.fn((callback) => callback('transaction')) },
+}));
+jest.mock('../../src/models/Slot.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Service.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/OpeningHours.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/SalonClosure.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Booking.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/BookingStatusHistory.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Stylist.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/User.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/providers/slotLock', () => ({ slotLockStore: {} }));
+jest.mock('../../src/services/stylist.service', () => ({ stylistService: {} }));
+jest.mock('../../src/services/refund.service', () => ({ refundService: {} }));
+jest.mock('../../src/services/notification.service', () => ({ notificationService: {} }));
+jest.mock('../../src/services/permission.service', () => ({ permissionService: {} }));
+
+const DATE = '2099-01-05';
+
+interface FakeSlot extends SlotCreationAttributes {
+  id: number;
+  update: jest.Mock;
+  toJSON: () => SlotCreationAttributes & { id: number };
+}
+
+const createSlot = (values: SlotCreationAttributes & { id: number }): FakeSlot => {
+  const slot: FakeSlot = {
+    ...values,
+    update: jest.fn(async (changes: Partial<FakeSlot>) => Object.assign(slot, changes)),
+    toJSON: () => ({
+      id: slot.id,
+      serviceId: slot.serviceId,
+      stylistId: slot.stylistId,
+      date: slot.date,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+    }),
+  };
+  return slot;
+};
+
+interface FakeBooking {
+  slotId: number;
+  serviceId: number;
+  stylistId: number | null;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+}
+
+interface BookingFilter {
+  slotId?: { [key: symbol]: number[] };
+  serviceId?: number;
+  stylistId?: number;
+}
+
+const setup = (
+  slots: FakeSlot[],
+  duration: number,
+  { stylistIds = [], bookings = [] }: { stylistIds?: number[]; bookings?: FakeBooking[] } = {}
+) => {
+  const isSameSlot = (slot: FakeSlot, row: SlotCreationAttributes) =>
+    slot.serviceId === row.serviceId &&
+    slot.stylistId === row.stylistId &&
+    slot.date === row.date &&
+    slot.startTime === row.startTime;
+
+  // Behaves like the unique slot index: rows that already exist are skipped
+  const slotModel = {
+    bulkCreate: jest.fn(async (rows: SlotCreationAttributes[]) => {
+      rows
+        .filter((row) => !slots.some((slot) => isSameSlot(slot, row)))
+        .forEach((row) => slots.push(createSlot({ ...row, id: slots.length + 100 })));
+    }),
+    findAll: jest.fn(async ({ where }: { where: { stylistId: number | null } }) =>
+      slots.filter((slot) => slot.stylistId === where.stylistId)
+    ),
+    findByPk: jest.fn(async (id: number) => slots.find((slot) => slot.id === id) || null),
+  };
+  const serviceModel = {
+    findByPk: jest.fn().mockResolvedValue({
+      id: 1,
+      status: 'active',
+      isBookable: true,
+      duration,
+      discountedPrice: 40,
+    }),
+  };
+  const openingHoursModel = {
+    findAll: jest.fn().mockResolvedValue(
+      [0, 1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({
+        dayOfWeek,
+        openTime: '10:00',
+        closeTime: '12:00',
+      }))
+    ),
+  };
+  const closureModel = { findAll: jest.fn().mockResolvedValue([]) };
+  // Active bookings of a slot, a stylist or a service
+  const bookingModel = {
+    findAll: jest.fn(async ({ where }: { where: BookingFilter }) =>
+      bookings.filter((booking) =>
+        where.slotId
+          ? Object.getOwnPropertySymbols(where.slotId).some((key) =>
+              where.slotId?.[key].includes(booking.slotId)
+            )
+          : where.stylistId
+            ? booking.stylistId === where.stylistId
+            : booking.serviceId === where.serviceId
+      )
+    ),
+    create: jest.fn(async (values: Record<string, unknown>) => ({
+      id: 5,
+      status: 'pending',
+      ...values,
+    })),
+    findByPk: jest.fn(async () => ({ toJSON: () => ({ id: 5 }) })),
+  };
+
+  // Every stylist works during opening hours
+  const stylistService = {
+    getBookableStylistIds: jest.fn().mockResolvedValue(stylistIds),
+    assertBookable: jest.fn(),
+    getWorkingIntervalsByDay: jest.fn(
+      async () => new Map([0, 1, 2, 3, 4, 5, 6].map((day) => [day, [{ start: 0, end: 1440 }]]))
+    ),
+    getTimeOffBetween: jest.fn().mockResolvedValue([]),
+  };
+
+  const slotService = new SlotService(
+    stylistService as unknown as StylistService,
+    slotModel as unknown as typeof Slot,
+    serviceModel as unknown as typeof Service,
+    openingHoursModel as unknown as typeof OpeningHours,
+    closureModel as unknown as typeof SalonClosure,
+    bookingModel as unknown as typeof Booking,
+    new MemorySlotLockStore()
+  );
+
+  const bookingService = new BookingService(
+    slotService,
+    {} as RefundService,
+    {} as NotificationService,
+    {} as PermissionService,
+    bookingModel as unknown as typeof Booking,
+    serviceModel as unknown as typeof Service,
+    slotModel as unknown as typeof Slot,
+    {
+      findByPk: jest.fn().mockResolvedValue({ id: 7, emailVerifiedAt: new Date() }),
+    } as unknown as typeof User,
+    { create: jest.fn() } as unknown as typeof BookingStatusHistory
+  );
+
+  return { slotService, bookingService, slotModel, bookingModel };
+};
+
+describe('SlotService.getAvailability', () => {
+  it('should give stored slots the end time of the current service duration', async () => {
+    const stored = createSlot({
+      id: 11,
+      serviceId: 1,
+      stylistId: null,
+      date: DATE,
+      startTime: '10:00',
+      endTime: '10:30',
+    });
+    const { slotService } = setup([stored], 60);
+
+    const availability = await slotService.getAvailability(1, { startDate: DATE, endDate: DATE });
+
+    expect(availability.days[0].slots[0]).toEqual({ id: 11, startTime: '10:00', endTime: '11:00' });
+    expect(stored.update).toHaveBeenCalledWith({ endTime: '11:00' });
+    expect(stored.endTime).toBe('11:00');
+  });
+
+  it('should let customers book a stored slot after the service duration changed', async () => {
+    const stored = createSlot({
+      id: 11,
+      serviceId: 1,
+      stylistId: null,
+      date: DATE,
+      startTime: '10:00',
+      endTime: '10:30',
+    });
+    const { slotService, bookingService, bookingModel } = setup([stored], 60);
+
+    const availability = await slotService.getAvailability(1, { startDate: DATE, endDate: DATE });
+    const offered = availability.days[0].slots[0];
+
+    await bookingService.createBooking(
+      { userId: 7, role: 'customer' },
+      {
+        serviceId: 1,
+        slotId: offered.id,
+        bookingDate: DATE,
+        startTime: offered.startTime,
+        endTime: offered.endTime,
+      }
+    );
+
+    expect(bookingModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ slotId: 11, startTime: '10:00', endTime: '11:00' }),
+      { transaction: 'transaction' }
+    );
+  });
+
+  it('should leave slots that still match alone', async () => {
+    const stored = createSlot({
+      id: 11,
+      serviceId: 1,
+      stylistId: null,
+      date: DATE,
+      startTime: '10:00',
+      endTime: '11:00',
+    });
+    const { slotService, slotModel } = setup([stored], 60);
+
+    const availability = await slotService.getAvailability(1, { startDate: DATE, endDate: DATE });
+
+    expect(availability.days[0].slots.map((slot) => slot.startTime)).toEqual([
+      '10:00',
+      '10:30',
+      '11:00',
+    ]);
+    expect(slotModel.bulkCreate).toHaveBeenCalledWith(expect.any(Array), {
+      ignoreDuplicates: true,
+    });
+    expect(stored.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('SlotService stylists without a preference', () => {
+  const bookingOf = (stylistId: number, startTime: string, endTime: string): FakeBooking => ({
+    slotId: 50,
+    serviceId: 2,
+    stylistId,
+    bookingDate: DATE,
+    startTime,
+    endTime,
+  });
+
+  it('should offer a time while any stylist who performs the service is free', async () => {
+    const { slotService } = setup([], 60, {
+      stylistIds: [3, 4],
+      bookings: [bookingOf(3, '10:00', '11:00'), bookingOf(4, '11:00', '12:00')],
+    });
+
+    const availability = await slotService.getAvailability(1, { startDate: DATE, endDate: DATE });
+
+    expect(availability.days[0].slots.map((slot) => slot.startTime)).toEqual(['10:00', '11:00']);
+  });
+
+  it('should not offer a time once every stylist is booked', async () => {
+    const { slotService } = setup([], 60, {
+      stylistIds: [3],
+      bookings: [bookingOf(3, '10:00', '11:00')],
+    });
+
+    const availability = await slotService.getAvailability(1, { startDate: DATE, endDate: DATE });
+
+    expect(availability.days[0].slots.map((slot) => slot.startTime)).toEqual(['11:00']);
+  });
+
+  it('should give the booking to a free stylist', async () => {
+    const slot = createSlot({
+      id: 11,
+      serviceId: 1,
+      stylistId: null,
+      date: DATE,
+      startTime: '10:00',
+      endTime: '11:00',
+    });
+    const { bookingService, bookingModel } = setup([slot], 60, {
+      stylistIds: [3, 4],
+      bookings: [bookingOf(3, '10:30', '11:30')],
+    });
+
+    await bookingService.createBooking(
+      { userId: 7, role: 'customer' },
+      { serviceId: 1, slotId: 11, bookingDate: DATE, startTime: '10:00', endTime: '11:00' }
+    );
+
+    expect(bookingModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ slotId: 11, stylistId: 4 }),
+      { transaction: 'transaction' }
+    );
+  });
+
+  it('should reject the booking when every stylist is busy', async () => {
+    const slot = createSlot({
+      id: 11,
+      serviceId: 1,
+      stylistId: null,
+      date: DATE,
+      startTime: '10:00',
+      endTime: '11:00',
+    });
+    const { bookingService, bookingModel } = setup([slot], 60, {
+      stylistIds: [3],
+      bookings: [bookingOf(3, '10:30', '11:30')],
+    });
+
+    await expect(
+      bookingService.createBooking(
+        { userId: 7, role: 'customer' },
+        { serviceId: 1, slotId: 11, bookingDate: DATE, startTime: '10:00', endTime: '11:00' }
+      )
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(bookingModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should stop offering a slot once it is booked', async () => {
+    const bookings: FakeBooking[] = [];
+    const { slotService } = setup([], 60, { stylistIds: [3, 4], bookings });
+
+    const before = await slotService.getAvailability(1, { startDate: DATE, endDate: DATE });
+    const { id } = before.days[0].slots[0];
+    bookings.push({ ...bookingOf(3, '10:00', '11:00'), slotId: id });
+    const after = await slotService.getAvailability(1, { startDate: DATE, endDate: DATE });
+
+    expect(after.days[0].slots.map((slot) => slot.startTime)).toEqual(['10:30', '11:00']);
+  });
+});
@@ -0,0 +1,69 @@
+import { JWTUtil } from '../../src/utils/jwt';
+import { generateToken, getRefreshTokenState, hashToken } from '../../src/utils/tokens';
+
+describe('Token helpers', () => {
+  describe('hashToken', () => {
+    it('should produce a stable SHA-256 hex digest', () => {
+      expect(hashToken('token')).toHaveLength(64);
+      expect(hashToken('token')).toBe(hashToken('token'));
+      expect(hashToken('token')).not.toBe(hashToken('other'));
+    });
+  });
+
+  describe('generateToken', () => {
+    it('should generate random hex tokens', () => {
+      expect(generateToken()).toMatch(/^[0-9a-f]{64}$/);
+      expect(generateToken()).not.toBe(generateToken());
+    });
+  });
+
+  describe('getRefreshTokenState', () => {
+    const now = new Date('2026-11-02T09:00:00Z');
+    const active = {
+      expiresAt: new Date('2026-12-02T09:00:00Z'),
+      rotatedAt: null,
+      revokedAt: null,
+    };
+
+    it('should accept unused tokens before expiry', () => {
+      expect(getRefreshTokenState(active, now)).toBe('active');
+    });
+
+    it('should report rotated tokens as reuse, even after expiry', () => {
+      expect(getRefreshTokenState({ ...active, rotatedAt: now }, now)).toBe('rotated');
+      expect(
+        getRefreshTokenState({ ...active, rotatedAt: now }, new Date('2027-01-01T00:00:00Z'))
+      ).toBe('rotated');
+    });
+
+    it('should report revoked and expired tokens', () => {
+      expect(getRefreshTokenState({ ...active, rotatedAt: now, revokedAt: now }, now)).toBe(
+        'revoked'
+      );
+      expect(getRefreshTokenState({ ...active, expiresAt: now }, now)).toBe('expired');
+    });
+  });
+
+  describe('JWTUtil refresh tokens', () => {
+    const jwtUtil = new JWTUtil('secret', '15m', 'refresh-secret', '30d');
+    const payload = {
+      userId: 1,
+      email: 'jane@example.com',
+      role: 'customer' as const,
+      sessionId: 'family-1',
+    };
+
+    it('should issue a distinct refresh token every time', () => {
+      expect(jwtUtil.generateRefreshToken(payload)).not.toBe(jwtUtil.generateRefreshToken(payload));
+    });
+
+    it('should carry the session ID and expose the expiry', () => {
+      const token = jwtUtil.generateRefreshToken(payload);
+      const expiry = jwtUtil.getTokenExpiry(token);
+
+      expect(jwtUtil.verifyRefreshToken(token).sessionId).toBe('family-1');
+      expect(expiry!.getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000);
+      expect(jwtUtil.getTokenExpiry('not-a-token')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { JWTUtil } from '../../src/utils/jwt';
+import { decryptSecret, encryptSecret } from '../../src/utils/encryption';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  normalizeRecoveryCode,
+  verifyTotp,
+} from '../../src/utils/totp';
+
+describe('Two-factor helpers', () => {
+  // RFC 6238 test secret ("12345678901234567890" in base32)
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  it('should round-trip base32', () => {
+    const buffer = Buffer.from('12345678901234567890');
+
+    expect(base32Encode(buffer)).toBe(secret);
+    expect(base32Decode(secret)).toEqual(buffer);
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+
+  it('should match the RFC 6238 test vector', () => {
+    const step = getTotpStep(new Date(59_000));
+
+    expect(step).toBe(1);
+    expect(generateTotp(secret, step)).toBe('287082');
+  });
+
+  it('should accept codes within the drift window and return their step', () => {
+    const now = new Date(90_000);
+
+    expect(verifyTotp(secret, generateTotp(secret, 3), now)).toBe(3);
+    expect(verifyTotp(secret, '287 082', new Date(59_000))).toBe(1);
+    expect(verifyTotp(secret, generateTotp(secret, 5), now)).toBeNull();
+    expect(verifyTotp(secret, 'abcdef', now)).toBeNull();
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = buildOtpauthUri(secret, 'jane@example.com', 'Salon Booking');
+
+    expect(uri).toMatch(/^otpauth:\/\/totp\/Salon%20Booking%3Ajane%40example\.com\?/);
+    expect(uri).toContain(`secret=${secret}`);
+    expect(uri).toContain('issuer=Salon+Booking');
+  });
+
+  it('should generate distinct recovery codes and normalise typed input', () => {
+    const codes = generateRecoveryCodes(10);
+
+    expect(new Set(codes).size).toBe(10);
+    expect(codes[0]).toMatch(/^[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}$/);
+    expect(normalizeRecoveryCode(' A1B2-c3d4 e5f6 ')).toBe('a1b2c3d4e5f6');
+  });
+
+  it('should encrypt secrets so only the same key decrypts them', () => {
+    const encrypted = encryptSecret(secret, 'key');
+
+    expect(encrypted).not.toContain(secret);
+    expect(decryptSecret(encrypted, 'key')).toBe(secret);
+    expect(() => decryptSecret(encrypted, 'other-key')).toThrow();
+  });
+
+  it('should not accept a challenge token as an access token', () => {
+    const jwt = new JWTUtil('secret', '15m', 'refresh-secret', '7d');
+    const challenge = jwt.generateChallengeToken({ userId: 1 }, 300);
+
+    expect(jwt.verifyChallengeToken(challenge).userId).toBe(1);
+    expect(() => jwt.verifyAccessToken(challenge)).toThrow();
+  });
+});
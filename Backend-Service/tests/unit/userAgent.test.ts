@@ -0,0 +1,27 @@
+import { describeUserAgent } from '../../src/utils/userAgent';
+
+describe('describeUserAgent', () => {
+  it('should describe common browsers and platforms', () => {
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+      )
+    ).toBe('Chrome on macOS');
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+      )
+    ).toBe('Safari on iOS');
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0'
+      )
+    ).toBe('Edge on Windows');
+  });
+
+  it('should fall back for unknown or missing user agents', () => {
+    expect(describeUserAgent('curl/8.4.0')).toBe('curl');
+    expect(describeUserAgent('custom-client/1.0')).toBe('Unknown device');
+    expect(describeUserAgent(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,345 @@
+import { Op } from 'sequelize';
+import { UserService } from '../../src/services/user.service';
+import { PermissionService } from '../../src/services/permission.service';
+import { SessionService } from '../../src/services/session.service';
+import User from '../../src/models/User.model';
+import Session from '../../src/models/Session.model';
+import AccountLockout from '../../src/models/AccountLockout.model';
+import Booking from '../../src/models/Booking.model';
+import Stylist from '../../src/models/Stylist.model';
+import NotificationLog from '../../src/models/NotificationLog.model';
+import RolePermission from '../../src/models/RolePermission.model';
+import { anonymisedUserFields } from '../../src/utils/privacy';
+import { getUsersQuerySchema } from '../../src/schemas/user.schema';
+
+// Models need a database connection; these tests inject in-memory fakes instead
+jest.mock('../../src/config/database', () => ({
+  __esModule: true,
+  default: { transaction: jest.fn((callback) => callback()) },
+}));
+jest.mock('../../src/models/User.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Session.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/AccountLockout.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Booking.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Stylist.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/NotificationLog.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/RolePermission.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/services/session.service', () => ({ sessionService: {} }));
+
+const account = {
+  id: 7,
+  email: 'jane@example.com',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  phone: '+15551234567',
+  role: 'customer',
+  isActive: true,
+  lastLoginAt: new Date('2026-10-01T09:00:00Z'),
+};
+
+describe('UserService.getUserById', () => {
+  const userModel = {
+    findByPk: jest.fn(async (id: number) =>
+      id === account.id ? { ...account, toSafeObject: () => ({ ...account }) } : null
+    ),
+  } as unknown as typeof User;
+
+  // An empty role table falls back to the default role permissions
+  const rolePermissionModel = {
+    findAll: jest.fn().mockResolvedValue([]),
+  } as unknown as typeof RolePermission;
+
+  const createService = (requireAdminTwoFactor = false) =>
+    new UserService(
+      {} as SessionService,
+      new PermissionService(rolePermissionModel, { requireAdminTwoFactor }),
+      userModel
+    );
+
+  it('should return the full account to its owner', async () => {
+    const user = await createService().getUserById(7, { userId: 7, role: 'customer' });
+
+    expect(user).toEqual(account);
+  });
+
+  it('should return the full account to admins', async () => {
+    const user = await createService().getUserById(7, { userId: 1, role: 'admin' });
+
+    expect(user).toEqual(account);
+  });
+
+  it('should only return the public profile to other users', async () => {
+    const customer = await createService().getUserById(7, { userId: 8, role: 'customer' });
+    const staff = await createService().getUserById(7, { userId: 9, role: 'staff' });
+
+    expect(customer).toEqual({ id: 7, firstName: 'Jane', lastName: 'Doe' });
+    expect(staff).toEqual({ id: 7, firstName: 'Jane', lastName: 'Doe' });
+  });
+
+  it('should only return the public profile to admins without 2FA when it is required', async () => {
+    const service = createService(true);
+
+    expect(await service.getUserById(7, { userId: 1, role: 'admin' })).toEqual({
+      id: 7,
+      firstName: 'Jane',
+      lastName: 'Doe',
+    });
+    expect(await service.getUserById(7, { userId: 1, role: 'admin', twoFactor: true })).toEqual(
+      account
+    );
+  });
+
+  it('should report unknown users as not found', async () => {
+    await expect(
+      createService().getUserById(99, { userId: 1, role: 'admin' })
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
+
+describe('UserService soft delete', () => {
+  const createDeletedUser = (overrides: Record<string, unknown> = {}) => ({
+    ...account,
+    deletedAt: new Date('2026-10-10T09:00:00Z'),
+    purgedAt: null,
+    restore: jest.fn(),
+    update: jest.fn(),
+    toSafeObject: () => ({ ...account }),
+    ...overrides,
+  });
+
+  const createService = (user: unknown) => {
+    const models = {
+      user: { findByPk: jest.fn().mockResolvedValue(user) },
+      session: { update: jest.fn() },
+      lockout: { destroy: jest.fn() },
+      booking: { update: jest.fn() },
+      stylist: { update: jest.fn() },
+      notificationLog: { update: jest.fn() },
+    };
+    const sessionService = { revokeAllSessions: jest.fn().mockResolvedValue(2) };
+
+    const service = new UserService(
+      sessionService as unknown as SessionService,
+      {} as PermissionService,
+      models.user as unknown as typeof User,
+      models.session as unknown as typeof Session,
+      models.lockout as unknown as typeof AccountLockout,
+      models.booking as unknown as typeof Booking,
+      models.stylist as unknown as typeof Stylist,
+      models.notificationLog as unknown as typeof NotificationLog
+    );
+
+    return { service, models, sessionService };
+  };
+
+  it('should soft delete users and revoke their sessions', async () => {
+    const user = { ...account, destroy: jest.fn() };
+    const { service, sessionService } = createService(user);
+
+    await service.deleteUser(7);
+
+    expect(user.destroy).toHaveBeenCalledWith();
+    expect(sessionService.revokeAllSessions).toHaveBeenCalledWith(7, 'account_deleted');
+  });
+
+  it('should restore deleted users', async () => {
+    const user = createDeletedUser();
+    const { service, models } = createService(user);
+
+    expect(await service.restoreUser(7)).toEqual(account);
+    expect(models.user.findByPk).toHaveBeenCalledWith(7, { paranoid: false });
+    expect(user.restore).toHaveBeenCalled();
+  });
+
+  it('should only restore or purge deleted users', async () => {
+    const { service } = createService(createDeletedUser({ deletedAt: null }));
+
+    await expect(service.restoreUser(7)).rejects.toMatchObject({ statusCode: 409 });
+    await expect(service.purgeUser(7)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('should not restore purged users', async () => {
+    const user = createDeletedUser({ purgedAt: new Date('2026-10-11T09:00:00Z') });
+    const { service } = createService(user);
+
+    await expect(service.restoreUser(7)).rejects.toMatchObject({ statusCode: 409 });
+    await expect(service.purgeUser(7)).rejects.toMatchObject({ statusCode: 409 });
+    expect(user.restore).not.toHaveBeenCalled();
+  });
+
+  it('should anonymise personal data on purge and keep financial records', async () => {
+    const user = createDeletedUser();
+    const { service, models } = createService(user);
+
+    await service.purgeUser(7);
+
+    expect(user.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email: 'deleted-user-7@deleted.invalid',
+        firstName: 'Deleted',
+        lastName: 'User',
+        phone: null,
+        purgedAt: expect.any(Date),
+      }),
+      expect.anything()
+    );
+    expect(models.session.update).toHaveBeenCalledWith(
+      { userAgent: null, deviceName: null, ipAddress: null },
+      expect.objectContaining({ where: { userId: 7 } })
+    );
+    expect(models.lockout.destroy).toHaveBeenCalled();
+    // Bookings keep their amounts and status; only the free-text notes are cleared
+    expect(models.booking.update).toHaveBeenCalledWith(
+      { notes: null },
+      expect.objectContaining({ where: { userId: 7 } })
+    );
+    expect(models.notificationLog.update).toHaveBeenCalledWith(
+      { recipient: null },
+      expect.objectContaining({ where: { userId: 7 } })
+    );
+  });
+});
+
+describe('anonymisedUserFields', () => {
+  it('should replace the credentials with a random password', () => {
+    const first = anonymisedUserFields(7);
+    const second = anonymisedUserFields(7);
+
+    expect(first.password).toHaveLength(64);
+    expect(first.password).not.toBe(second.password);
+    expect(first.twoFactorSecret).toBeNull();
+    expect(first.isActive).toBe(false);
+  });
+});
+
+describe('UserService.getAllUsers', () => {
+  const createService = () => {
+    const userModel = {
+      findAndCountAll: jest.fn().mockResolvedValue({
+        count: 21,
+        rows: [{ toSafeObject: () => ({ ...account }) }],
+      }),
+    };
+
+    const service = new UserService(
+      {} as SessionService,
+      {} as PermissionService,
+      userModel as unknown as typeof User
+    );
+
+    return { service, userModel };
+  };
+
+  it('should list the newest users first by default', async () => {
+    const { service, userModel } = createService();
+
+    const result = await service.getAllUsers();
+
+    expect(userModel.findAndCountAll).toHaveBeenCalledWith({
+      where: {},
+      limit: 10,
+      offset: 0,
+      order: [
+        ['createdAt', 'DESC'],
+        ['id', 'DESC'],
+      ],
+      paranoid: true,
+    });
+    expect(result).toEqual({
+      users: [account],
+      pagination: { page: 1, limit: 10, totalItems: 21, totalPages: 3 },
+    });
+  });
+
+  it('should apply the search, filters, created-date range and sorting', async () => {
+    const { service, userModel } = createService();
+
+    await service.getAllUsers({
+      page: 2,
+      limit: 5,
+      search: 'Doe',
+      role: 'customer',
+      isActive: true,
+      createdAtFrom: '2026-01-01',
+      createdAtTo: '2026-01-31',
+      sortBy: 'lastName',
+      sortOrder: 'ASC',
+    });
+
+    const options = userModel.findAndCountAll.mock.calls[0][0];
+    expect(options).toMatchObject({
+      where: {
+        role: 'customer',
+        isActive: true,
+        createdAt: {
+          [Op.gte]: new Date('2026-01-01T00:00:00Z'),
+          [Op.lt]: new Date('2026-02-01T00:00:00Z'),
+        },
+      },
+      limit: 5,
+      offset: 5,
+      order: [
+        ['lastName', 'ASC'],
+        ['id', 'ASC'],
+      ],
+    });
+    expect(options.where[Op.or]).toEqual(
+      expect.arrayContaining([
+        { email: { [Op.iLike]: '%Doe%' } },
+        { firstName: { [Op.iLike]: '%Doe%' } },
+        { lastName: { [Op.iLike]: '%Doe%' } },
+      ])
+    );
+  });
+
+  it('should match wildcard characters in the search literally', async () => {
+    const { service, userModel } = createService();
+
+    await service.getAllUsers({ page: 1, limit: 10, search: '50%_off\\' });
+
+    const options = userModel.findAndCountAll.mock.calls[0][0];
+    expect(options.where[Op.or]).toContainEqual({
+      email: { [Op.iLike]: '%50\\%\\_off\\\\%' },
+    });
+  });
+});
+
+describe('getUsersQuerySchema', () => {
+  it('should parse pagination, filters and sorting from the query string', () => {
+    expect(
+      getUsersQuerySchema.parse({
+        page: '2',
+        search: ' jane ',
+        isActive: 'false',
+        sortBy: 'email',
+        sortOrder: 'ASC',
+      })
+    ).toEqual({
+      page: 2,
+      limit: 10,
+      search: 'jane',
+      isActive: false,
+      sortBy: 'email',
+      sortOrder: 'ASC',
+    });
+  });
+
+  it('should only allow whitelisted sort columns', () => {
+    expect(getUsersQuerySchema.safeParse({ sortBy: 'password' }).success).toBe(false);
+  });
+
+  it('should reject a created-date range that ends before it starts', () => {
+    const result = getUsersQuerySchema.safeParse({
+      createdAtFrom: '2026-02-01',
+      createdAtTo: '2026-01-01',
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject created dates that do not exist', () => {
+    expect(getUsersQuerySchema.safeParse({ createdAtFrom: '2026-13-45' }).success).toBe(false);
+    expect(getUsersQuerySchema.safeParse({ createdAtTo: '2026-02-30' }).success).toBe(false);
+    expect(getUsersQuerySchema.safeParse({ createdAtTo: '2028-02-29' }).success).toBe(true);
+  });
+});
@@ -0,0 +1,304 @@
+import { UniqueConstraintError } from 'sequelize';
+import { WebhookService } from '../../src/services/webhook.service';
+import { PaymentService } from '../../src/services/payment.service';
+import { RefundService } from '../../src/services/refund.service';
+import {
+  FakePaymentProvider,
+  FAKE_WEBHOOK_SIGNATURE_HEADER,
+} from '../../src/providers/payment/fake.provider';
+import PaymentWebhookEvent from '../../src/models/PaymentWebhookEvent.model';
+import { PaymentStatus, RefundStatus, WebhookEventStatus } from '../../src/types';
+
+// Models need a database connection; these tests inject in-memory fakes instead
+jest.mock('../../src/models/Payment.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/Refund.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/models/PaymentWebhookEvent.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../../src/services/booking.service', () => ({ bookingService: {} }));
+jest.mock('../../src/services/refund.service', () => ({ refundService: {} }));
+jest.mock('../../src/services/notification.service', () => ({ notificationService: {} }));
+jest.mock('../../src/services/permission.service', () => ({ permissionService: {} }));
+jest.mock('../../src/providers/payment', () => ({ paymentProvider: {} }));
+
+interface FakeWebhookEvent {
+  id: number;
+  provider: 'fake';
+  eventId: string;
+  providerPaymentId: string | null;
+  paymentStatus: PaymentStatus | null;
+  failureReason: string | null;
+  providerRefundId: string | null;
+  refundStatus: RefundStatus | null;
+  status: WebhookEventStatus;
+  error: string | null;
+  attempts: number;
+  update: jest.Mock;
+  toJSON: () => Record<string, unknown>;
+}
+
+const createEventRecord = (values: Partial<FakeWebhookEvent> = {}): FakeWebhookEvent => {
+  const record: FakeWebhookEvent = {
+    id: 1,
+    provider: 'fake',
+    eventId: 'evt_1',
+    providerPaymentId: 'fake_pi_1',
+    paymentStatus: 'completed',
+    failureReason: null,
+    providerRefundId: null,
+    refundStatus: null,
+    status: 'ignored',
+    error: null,
+    attempts: 0,
+    ...values,
+    update: jest.fn(async (changes: Partial<FakeWebhookEvent>) => Object.assign(record, changes)),
+    toJSON: () => ({ id: record.id, eventId: record.eventId, status: record.status }),
+  };
+  return record;
+};
+
+describe('WebhookService', () => {
+  const provider = new FakePaymentProvider();
+
+  const signedRequest = (payload: Record<string, unknown>) => {
+    const body = JSON.stringify(payload);
+    return {
+      rawBody: Buffer.from(body),
+      headers: { [FAKE_WEBHOOK_SIGNATURE_HEADER]: provider.signWebhookPayload(body) },
+    };
+  };
+
+  const completedEvent = signedRequest({
+    id: 'evt_1',
+    type: 'payment.completed',
+    data: { providerPaymentId: 'fake_pi_1' },
+  });
+
+  const setup = (existing: FakeWebhookEvent | null = null) => {
+    const webhookEventModel = {
+      findOne: jest.fn().mockResolvedValue(existing),
+      findByPk: jest.fn().mockResolvedValue(existing),
+      findAndCountAll: jest
+        .fn()
+        .mockResolvedValue({ count: existing ? 11 : 0, rows: existing ? [existing] : [] }),
+      create: jest.fn(async (values: Partial<FakeWebhookEvent>) => createEventRecord(values)),
+    };
+    const paymentService = {
+      settleProviderPayment: jest.fn().mockResolvedValue({ id: 1, status: 'completed' }),
+    };
+    const refundService = {
+      settleProviderRefund: jest.fn().mockResolvedValue({ id: 3, status: 'failed' }),
+    };
+
+    const service = new WebhookService(
+      paymentService as unknown as PaymentService,
+      refundService as unknown as RefundService,
+      provider,
+      webhookEventModel as unknown as typeof PaymentWebhookEvent
+    );
+
+    return { service, webhookEventModel, paymentService, refundService };
+  };
+
+  it('should store a new event and settle its payment', async () => {
+    const { service, webhookEventModel, paymentService } = setup();
+
+    const receipt = await service.handleWebhook(
+      'fake',
+      completedEvent.rawBody,
+      completedEvent.headers
+    );
+
+    expect(receipt).toEqual({ eventId: 'evt_1', duplicate: false, status: 'processed' });
+    expect(webhookEventModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        provider: 'fake',
+        eventId: 'evt_1',
+        providerPaymentId: 'fake_pi_1',
+        paymentStatus: 'completed',
+      })
+    );
+    expect(paymentService.settleProviderPayment).toHaveBeenCalledWith('fake', 'fake_pi_1', {
+      status: 'completed',
+      failureReason: undefined,
+    });
+  });
+
+  it.each(['processed', 'ignored'] as const)(
+    'should acknowledge %s events again without applying them',
+    async (status) => {
+      const { service, webhookEventModel, paymentService } = setup(createEventRecord({ status }));
+
+      const receipt = await service.handleWebhook(
+        'fake',
+        completedEvent.rawBody,
+        completedEvent.headers
+      );
+
+      expect(receipt).toEqual({ eventId: 'evt_1', duplicate: true, status });
+      expect(webhookEventModel.create).not.toHaveBeenCalled();
+      expect(paymentService.settleProviderPayment).not.toHaveBeenCalled();
+    }
+  );
+
+  it('should retry events that failed before', async () => {
+    const record = createEventRecord({ status: 'failed', error: 'Timeout', attempts: 1 });
+    const { service, webhookEventModel } = setup(record);
+
+    const receipt = await service.handleWebhook(
+      'fake',
+      completedEvent.rawBody,
+      completedEvent.headers
+    );
+
+    expect(receipt.status).toBe('processed');
+    expect(webhookEventModel.create).not.toHaveBeenCalled();
+    expect(record).toMatchObject({ status: 'processed', error: null, attempts: 2 });
+  });
+
+  it('should treat an event stored by a concurrent delivery as a duplicate', async () => {
+    const { service, webhookEventModel, paymentService } = setup();
+    webhookEventModel.create.mockRejectedValue(new UniqueConstraintError({}));
+
+    const receipt = await service.handleWebhook(
+      'fake',
+      completedEvent.rawBody,
+      completedEvent.headers
+    );
+
+    expect(receipt).toEqual({ eventId: 'evt_1', duplicate: true, status: 'ignored' });
+    expect(paymentService.settleProviderPayment).not.toHaveBeenCalled();
+  });
+
+  it('should record processing errors and answer with an error', async () => {
+    const { service, webhookEventModel, paymentService } = setup();
+    paymentService.settleProviderPayment.mockRejectedValue(new Error('Database unavailable'));
+
+    await expect(
+      service.handleWebhook('fake', completedEvent.rawBody, completedEvent.headers)
+    ).rejects.toMatchObject({ statusCode: 500 });
+
+    const record = await webhookEventModel.create.mock.results[0].value;
+    expect(record).toMatchObject({ status: 'failed', error: 'Database unavailable', attempts: 1 });
+  });
+
+  it('should ignore events for unknown payments', async () => {
+    const { service, paymentService } = setup();
+    paymentService.settleProviderPayment.mockResolvedValue(null);
+
+    const receipt = await service.handleWebhook(
+      'fake',
+      completedEvent.rawBody,
+      completedEvent.headers
+    );
+
+    expect(receipt.status).toBe('ignored');
+  });
+
+  it('should ignore events that do not settle a payment', async () => {
+    const { service, paymentService } = setup();
+    const request = signedRequest({
+      id: 'evt_2',
+      type: 'payment.created',
+      data: { providerPaymentId: 'fake_pi_1' },
+    });
+
+    const receipt = await service.handleWebhook('fake', request.rawBody, request.headers);
+
+    expect(receipt.status).toBe('ignored');
+    expect(paymentService.settleProviderPayment).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests without a payload', async () => {
+    const { service } = setup();
+
+    await expect(service.handleWebhook('fake', undefined, {})).rejects.toMatchObject({
+      statusCode: 400,
+    });
+  });
+
+  it('should replay a stored event and record the result', async () => {
+    const record = createEventRecord({ status: 'failed', error: 'Database down', attempts: 1 });
+    const { service, paymentService } = setup(record);
+
+    const replayed = await service.replayEvent(1);
+
+    expect(paymentService.settleProviderPayment).toHaveBeenCalledWith('fake', 'fake_pi_1', {
+      status: 'completed',
+      failureReason: undefined,
+    });
+    expect(replayed).toEqual({ id: 1, eventId: 'evt_1', status: 'processed' });
+    expect(record).toMatchObject({ error: null, attempts: 2 });
+  });
+
+  it('should not replay unknown events', async () => {
+    const { service } = setup();
+
+    await expect(service.replayEvent(9)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should list stored events by provider and status, newest first', async () => {
+    const { service, webhookEventModel } = setup(createEventRecord({ status: 'failed' }));
+
+    const result = await service.getEvents({
+      provider: 'fake',
+      status: 'failed',
+      page: 2,
+      limit: 10,
+    });
+
+    expect(webhookEventModel.findAndCountAll).toHaveBeenCalledWith({
+      where: { provider: 'fake', status: 'failed' },
+      limit: 10,
+      offset: 10,
+      order: [['createdAt', 'DESC']],
+    });
+    expect(result.pagination).toEqual({ page: 2, limit: 10, total: 11, totalPages: 2 });
+  });
+
+  it('should settle the refund a refund event reports on', async () => {
+    const { service, webhookEventModel, paymentService, refundService } = setup();
+    const request = signedRequest({
+      id: 'evt_3',
+      type: 'refund.failed',
+      data: { providerRefundId: 'fake_re_1', failureReason: 'Card closed' },
+    });
+
+    const receipt = await service.handleWebhook('fake', request.rawBody, request.headers);
+
+    expect(receipt.status).toBe('processed');
+    expect(webhookEventModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        providerRefundId: 'fake_re_1',
+        refundStatus: 'failed',
+        failureReason: 'Card closed',
+      })
+    );
+    expect(refundService.settleProviderRefund).toHaveBeenCalledWith({
+      providerRefundId: 'fake_re_1',
+      status: 'failed',
+      failureReason: 'Card closed',
+    });
+    expect(paymentService.settleProviderPayment).not.toHaveBeenCalled();
+  });
+
+  it('should ignore refund events for unknown refunds', async () => {
+    const { service, refundService } = setup();
+    refundService.settleProviderRefund.mockResolvedValue(null);
+    const request = signedRequest({
+      id: 'evt_4',
+      type: 'refund.completed',
+      data: { providerRefundId: 'fake_re_9' },
+    });
+
+    const receipt = await service.handleWebhook('fake', request.rawBody, request.headers);
+
+    expect(receipt.status).toBe('ignored');
+  });
+
+  it('should only accept webhooks for the configured provider', async () => {
+    const { service } = setup();
+
+    await expect(
+      service.handleWebhook('stripe', completedEvent.rawBody, completedEvent.headers)
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,14 @@
+import api from './axios.config';
+import { API_ENDPOINTS } from '@/utils/constants';
+import type { ApiResponse } from '@/types/api';
+import type { ServiceCategory } from '@/types/service';
+
+/**
+ * Category API calls
+ */
+export const categoriesAPI = {
+  getTree: async (): Promise<ApiResponse<ServiceCategory[]>> => {
+    const response = await api.get<ApiResponse<ServiceCategory[]>>(API_ENDPOINTS.CATEGORIES.TREE);
+    return response.data;
+  },
+};
@@ -9,11 +9,15 @@ import {
   NavigationMenuLink,
   NavigationMenuIndicator,
   NavigationMenuViewport,
+  Skeleton,
   Text,
 } from '@/components/common';
+import { useCategoryTree } from '@/hooks/useCategories';
 import { ROUTES } from '@/utils/constants';
 
 export const Navbar: React.FC = () => {
+  const { data: categories, isLoading } = useCategoryTree();
+
   return (
     <NavigationMenuRoot>
       <NavigationMenuList>
@@ -42,45 +46,30 @@ export const Navbar: React.FC = () => {
                   </Text>
                 </Link>
               </li>
-              <li>
-                <Link
-                  to={`${ROUTES.SERVICES}?category=hair`}
-                  className="block px-4 py-3 rounded-lg hover:bg-primary-50 transition-colors group"
-                >
-                  <Text weight="medium" className="text-gray-900 group-hover:text-primary-600">
-                    Hair Services
-                  </Text>
-                  <Text variant="body-sm" className="text-gray-500 mt-1">
-                    Haircuts, styling, and treatments
-                  </Text>
-                </Link>
-              </li>
-              <li>
-                <Link
-                  to={`${ROUTES.SERVICES}?category=beauty`}
-                  className="block px-4 py-3 rounded-lg hover:bg-primary-50 transition-colors group"
-                >
-                  <Text weight="medium" className="text-gray-900 group-hover:text-primary-600">
-                    Beauty Services
-                  </Text>
-                  <Text variant="body-sm" className="text-gray-500 mt-1">
-                    Facials, makeup, and spa treatments
-                  </Text>
-                </Link>
-              </li>
-              <li>
-                <Link
-                  to={`${ROUTES.SERVICES}?category=wellness`}
-                  className="block px-4 py-3 rounded-lg hover:bg-primary-50 transition-colors group"
-                >
-                  <Text weight="medium" className="text-gray-900 group-hover:text-primary-600">
-                    Wellness
-                  </Text>
-                  <Text variant="body-sm" className="text-gray-500 mt-1">
-                    Massage, aromatherapy, and more
-                  </Text>
-                </Link>
-              </li>
+              {isLoading &&
+                Array.from({ length: 3 }).map((_, index) => (
+                  <li key={index} className="px-4 py-3">
+                    <Skeleton variant="text" className="w-32 mb-2" />
+                    <Skeleton variant="text" className="w-48" />
+                  </li>
+                ))}
+              {categories?.map((category) => (
+                <li key={category.id}>
+                  <Link
+                    to={`${ROUTES.SERVICES}?category=${category.slug}`}
+                    className="block px-4 py-3 rounded-lg hover:bg-primary-50 transition-colors group"
+                  >
+                    <Text weight="medium" className="text-gray-900 group-hover:text-primary-600">
+                      {category.name}
+                    </Text>
+                    {category.description && (
+                      <Text variant="body-sm" className="text-gray-500 mt-1">
+                        {category.description}
+                      </Text>
+                    )}
+                  </Link>
+                </li>
+              ))}
             </ul>
           </NavigationMenuContent>
         </NavigationMenuItem>
@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { categoriesAPI } from '@/api/categories.api';
+import { QUERY_KEYS } from '@/utils/constants';
+
+/**
+ * Nested category tree used for navigation and filtering
+ * Categories rarely change, so the tree is cached for a while
+ */
+export const useCategoryTree = () => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.CATEGORIES, 'tree'],
+    queryFn: categoriesAPI.getTree,
+    select: (response) => response.data,
+    staleTime: 10 * 60 * 1000,
+  });
+};
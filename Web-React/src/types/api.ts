@@ -0,0 +1,8 @@
+/**
+ * Standard response envelope returned by the backend
+ */
+export interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data: T;
+}
@@ -11,7 +11,11 @@ export interface Service {
 }
 
 export interface ServiceCategory {
-  id: string;
+  id: number;
   name: string;
+  slug: string;
+  description?: string;
   icon?: string;
+  displayOrder: number;
+  children: ServiceCategory[];
 }
@@ -31,6 +31,10 @@ export const API_ENDPOINTS = {
     LIST: '/services',
     DETAIL: (id: string) => `/services/${id}`,
   },
+  // Categories
+  CATEGORIES: {
+    TREE: '/categories/tree',
+  },
   // Slots
   SLOTS: {
     LIST: '/slots',
@@ -54,6 +58,7 @@ export const API_ENDPOINTS = {
 export const QUERY_KEYS = {
   SERVICES: 'services',
   SERVICE: 'service',
+  CATEGORIES: 'categories',
   SLOTS: 'slots',
   BOOKINGS: 'bookings',
   BOOKING: 'booking',